@@ -0,0 +1,42 @@
+import React from 'react';
+import { Ban } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface Props {
+  userName: string;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+export const BlockDialog: React.FC<Props> = ({ userName, onConfirm, onClose }) => {
+  const { t } = useI18n();
+  return (
+  <div className="absolute inset-0 z-[1500] flex items-center justify-center bg-black/60 p-6 animate-in fade-in">
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-2xl max-w-sm w-full">
+      <div className="flex flex-col items-center text-center mb-6">
+        <div className="bg-red-50 dark:bg-red-900/30 p-4 rounded-full mb-4">
+          <Ban className="text-red-500 w-8 h-8" />
+        </div>
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{t('block.title', { name: userName })}</h3>
+        <p className="text-gray-500 dark:text-gray-400 text-sm">
+          {t('block.description')}
+        </p>
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={onClose}
+          className="flex-1 py-3 text-gray-700 dark:text-gray-300 font-bold bg-gray-100 dark:bg-gray-700 rounded-xl hover:bg-gray-200"
+        >
+          {t('common.back')}
+        </button>
+        <button
+          onClick={onConfirm}
+          className="flex-1 py-3 text-white font-bold bg-red-500 rounded-xl shadow-lg"
+        >
+          {t('common.block')}
+        </button>
+      </div>
+    </div>
+  </div>
+  );
+};
@@ -1,17 +1,24 @@
 import React from 'react';
 import { Encounter, EncounterStatus } from '../types';
-import { MapPin, Heart, MessageCircle } from 'lucide-react';
+import { MapPin, Heart, MessageCircle, Clock, Archive, CloudOff, Pencil } from 'lucide-react';
+import { StoredImage } from './StoredImage';
+import { VenueIcon } from './VenueIcon';
+import { getLifecycle, formatTimeLeft } from '../utils/encounterPolicy';
+import { useI18n } from '../i18n';
 
 interface Props {
   encounter: Encounter;
+  status?: EncounterStatus; // Derived for the current user; omitted for own posts
   onPress: () => void;
   showStatus?: boolean;
 }
 
-export const EncounterCard: React.FC<Props> = ({ encounter, onPress, showStatus = true }) => {
-  const isMatch = encounter.status === EncounterStatus.MATCHED;
-  const isLikedByMe = encounter.status === EncounterStatus.LIKED_BY_ME;
-  const isLikedByThem = encounter.status === EncounterStatus.LIKED_BY_THEM;
+export const EncounterCard: React.FC<Props> = ({ encounter, status = EncounterStatus.PENDING, onPress, showStatus = true }) => {
+  const isMatch = status === EncounterStatus.MATCHED;
+  const isLikedByMe = status === EncounterStatus.LIKED_BY_ME;
+  const isLikedByThem = status === EncounterStatus.LIKED_BY_THEM;
+  const isArchived = getLifecycle(encounter) === 'archived';
+  const { t } = useI18n();
 
   // Logic: If encounter has image, use it. Else use user's first image (profile/cover).
   const displayImage = encounter.image || encounter.userProfile.images[0];
@@ -23,7 +30,7 @@ export const EncounterCard: React.FC<Props> = ({ encounter, onPress, showStatus
     >
       <div className={`relative h-48 bg-gray-100 transition-all`}>
         {displayImage ? (
-          <img src={displayImage} alt={encounter.title} className="w-full h-full object-cover" />
+          <StoredImage src={displayImage} alt={encounter.title} className="w-full h-full object-cover" />
         ) : (
           <div className="w-full h-full flex items-center justify-center bg-gradient-to-r from-pink-50 to-purple-50">
              <MapPin className="text-pink-200 w-10 h-10" />
@@ -33,8 +40,25 @@ export const EncounterCard: React.FC<Props> = ({ encounter, onPress, showStatus
         {/* If using fallback image, add an overlay so text/avatar pops */}
         <div className="absolute inset-0 bg-gradient-to-t from-black/40 via-transparent to-transparent"></div>
 
+        <div className="absolute top-3 left-3 flex gap-1">
+          {encounter.syncPending && (
+            <span className="bg-amber-500 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center shadow-sm">
+              <CloudOff size={12} className="mr-1" /> {t('encounter.syncPending')}
+            </span>
+          )}
+          {isArchived ? (
+            <span className="bg-gray-800/80 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center shadow-sm">
+              <Archive size={12} className="mr-1" /> {t('encounter.archived')}
+            </span>
+          ) : (
+            <span className="bg-black/50 backdrop-blur-sm text-white text-xs font-medium px-2 py-1 rounded-full flex items-center shadow-sm">
+              <Clock size={12} className="mr-1" /> {formatTimeLeft(encounter.expiresAt - Date.now())}
+            </span>
+          )}
+        </div>
+
         <div className="absolute top-3 right-3 bg-white/90 backdrop-blur-sm px-2 py-1 rounded-full flex items-center shadow-sm">
-           <img 
+           <StoredImage 
              src={encounter.userProfile.images[0]} 
              className="w-6 h-6 rounded-full mr-2 object-cover border border-gray-200" 
              alt="avatar"
@@ -48,17 +72,17 @@ export const EncounterCard: React.FC<Props> = ({ encounter, onPress, showStatus
            <div className="absolute bottom-3 left-3">
               {isMatch && (
                   <span className="bg-green-500 text-white text-xs font-bold px-3 py-1 rounded-full flex items-center shadow-lg">
-                    <MessageCircle size={12} className="mr-1" /> Match!
+                    <MessageCircle size={12} className="mr-1" /> {t('encounter.status.match')}
                   </span>
               )}
               {isLikedByThem && (
                  <span className="bg-pink-500 text-white text-xs font-bold px-3 py-1 rounded-full flex items-center shadow-lg">
-                   <Heart size={12} className="mr-1 fill-white" /> Le gustaste
+                   <Heart size={12} className="mr-1 fill-white" /> {t('encounter.status.likedByThem')}
                  </span>
               )}
                {isLikedByMe && !isMatch && (
                  <span className="bg-gray-500 text-white text-xs font-bold px-3 py-1 rounded-full shadow-lg">
-                   Pendiente...
+                   {t('encounter.status.likedByMe')}
                  </span>
               )}
            </div>
@@ -69,13 +93,23 @@ export const EncounterCard: React.FC<Props> = ({ encounter, onPress, showStatus
         <div className="flex flex-wrap gap-1 mb-2">
             {encounter.tags.map(tag => (
                 <span key={tag} className="text-[10px] uppercase font-bold text-pink-500 bg-pink-50 px-2 py-0.5 rounded-md">
-                    {tag}
+                    {t(`tag.${tag}`)}
                 </span>
             ))}
         </div>
         <div className="flex justify-between items-start mb-1">
            <h3 className="text-lg font-bold text-gray-900 leading-tight">{encounter.title}</h3>
+           {encounter.editedAt && (
+             <span className="ml-2 shrink-0 text-[10px] font-medium text-gray-400 flex items-center gap-0.5">
+               <Pencil size={10} /> {t('encounter.edited')}
+             </span>
+           )}
         </div>
+        {encounter.venue && (
+          <p className="text-xs font-medium text-gray-500 mb-1 flex items-center gap-1 truncate">
+            <VenueIcon venue={encounter.venue} size={12} className="shrink-0" /> {encounter.venue.name}
+          </p>
+        )}
         <p className="text-sm text-gray-600 line-clamp-2 leading-relaxed">{encounter.description}</p>
       </div>
     </div>
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { ChevronRight, X } from 'lucide-react';
+import { StoredImage } from './StoredImage';
+
+// Image Gallery Component
+export const ImageGallery: React.FC<{ images: string[]; onClose: () => void }> = ({ images, onClose }) => {
+    const [idx, setIdx] = useState(0);
+
+    return (
+        <div className="fixed inset-0 z-[1300] bg-black flex flex-col animate-in fade-in duration-300">
+            <button onClick={onClose} className="absolute top-4 right-4 text-white z-50 p-2 bg-black/20 rounded-full">
+                <X size={24} />
+            </button>
+            
+            <div className="flex-1 flex items-center justify-center relative">
+                 <StoredImage 
+                   src={images[idx]} 
+                   className="max-w-full max-h-full object-contain"
+                   alt="Full screen"
+                 />
+                 
+                 {images.length > 1 && (
+                     <>
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); setIdx((prev) => (prev > 0 ? prev - 1 : images.length - 1)); }}
+                          className="absolute left-2 top-1/2 -translate-y-1/2 text-white p-2"
+                        >
+                            <ChevronRight className="rotate-180" size={40} />
+                        </button>
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); setIdx((prev) => (prev < images.length - 1 ? prev + 1 : 0)); }}
+                          className="absolute right-2 top-1/2 -translate-y-1/2 text-white p-2"
+                        >
+                            <ChevronRight size={40} />
+                        </button>
+                     </>
+                 )}
+            </div>
+            
+            <div className="h-20 flex items-center justify-center gap-2 overflow-x-auto p-2">
+                {images.map((img, i) => (
+                    <StoredImage 
+                       key={i} 
+                       src={img} 
+                       onClick={() => setIdx(i)}
+                       className={`h-14 w-14 object-cover rounded-lg cursor-pointer transition-all ${i === idx ? 'border-2 border-rose-500 opacity-100' : 'opacity-50'}`}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
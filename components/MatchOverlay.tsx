@@ -0,0 +1,71 @@
+import React from 'react';
+import { Heart } from 'lucide-react';
+import { StoredImage } from './StoredImage';
+import { useI18n } from '../i18n';
+
+// Match Overlay Animation Component
+export const MatchOverlay: React.FC<{ 
+  userImage: string; 
+  partnerImage: string; 
+  partnerName: string;
+  onClose: () => void;
+  onChat: () => void;
+}> = ({ userImage, partnerImage, partnerName, onClose, onChat }) => {
+    const { t } = useI18n();
+    return (
+        <div className="fixed inset-0 z-[1200] flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-500">
+            <div className="absolute inset-0 overflow-hidden pointer-events-none">
+                 {/* Confetti simulation with CSS dots */}
+                 {[...Array(20)].map((_, i) => (
+                     <div key={i} className="absolute w-2 h-2 rounded-full bg-yellow-400 animate-bounce" 
+                          style={{
+                              top: `${Math.random() * 100}%`,
+                              left: `${Math.random() * 100}%`,
+                              animationDelay: `${Math.random()}s`,
+                              animationDuration: '2s'
+                          }}
+                     />
+                 ))}
+            </div>
+            
+            <h1 className="text-6xl font-black text-transparent bg-clip-text bg-gradient-to-r from-rose-400 to-orange-400 italic mb-8 transform -rotate-6 animate-in zoom-in duration-700">
+                {t('match.title')}
+            </h1>
+
+            <div className="flex items-center gap-8 mb-12 relative">
+                 <StoredImage 
+                    src={userImage} 
+                    className="w-32 h-32 rounded-full border-4 border-white shadow-2xl transform rotate-12 animate-in slide-in-from-left duration-700" 
+                    alt="Me"
+                 />
+                 <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white p-2 rounded-full shadow-lg z-10 animate-in zoom-in delay-500 duration-300">
+                     <Heart className="fill-rose-500 text-rose-500 w-8 h-8" />
+                 </div>
+                 <StoredImage 
+                    src={partnerImage} 
+                    className="w-32 h-32 rounded-full border-4 border-white shadow-2xl transform -rotate-12 animate-in slide-in-from-right duration-700" 
+                    alt="Partner"
+                 />
+            </div>
+
+            <p className="text-white text-lg font-medium mb-8 text-center max-w-xs">
+                {t('match.connectedWith')} <span className="font-bold text-rose-300">{partnerName}</span>.
+            </p>
+
+            <div className="flex flex-col gap-4 w-full max-w-xs px-6">
+                <button 
+                  onClick={onChat}
+                  className="w-full bg-gradient-to-r from-rose-500 to-pink-600 text-white font-bold py-4 rounded-full shadow-xl text-lg hover:scale-105 transition-transform"
+                >
+                    {t('match.sendMessage')}
+                </button>
+                <button 
+                  onClick={onClose}
+                  className="w-full bg-white/10 text-white font-bold py-3 rounded-full hover:bg-white/20 transition-colors"
+                >
+                    {t('match.keepExploring')}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, ShieldAlert, EyeOff, Check } from 'lucide-react';
+import { ModerationCase } from '../types';
+import * as safetyService from '../services/safetyService';
+import { useI18n } from '../i18n';
+
+interface Props {
+  onBack: () => void;
+  onNotify: (message: string, type: 'success' | 'info' | 'error') => void;
+}
+
+// Review screen for admins: pending reports grouped per account
+export const ModerationQueue: React.FC<Props> = ({ onBack, onNotify }) => {
+  const [cases, setCases] = useState<ModerationCase[] | null>(null);
+  const { t, locale } = useI18n();
+
+  useEffect(() => {
+    safetyService.fetchModerationQueue().then(setCases);
+  }, []);
+
+  const handleReview = async (userId: string, action: 'dismiss' | 'hide') => {
+    const ok = await safetyService.reviewReports(userId, action);
+    if (!ok) {
+      onNotify(t('moderationQueue.saveFailed'), 'error');
+      return;
+    }
+    setCases(prev => prev?.filter(c => c.userId !== userId) ?? null);
+    onNotify(t(action === 'hide' ? 'moderationQueue.hidden' : 'moderationQueue.dismissed'), 'success');
+  };
+
+  return (
+    <div className="h-full bg-gray-50 dark:bg-gray-900 flex flex-col">
+      <header className="bg-white dark:bg-gray-900 px-4 py-3 flex items-center shadow-sm sticky top-0 z-10 dark:border-b dark:border-gray-800">
+        <button onClick={onBack} className="mr-3">
+          <ArrowLeft className="text-gray-600 dark:text-gray-300" />
+        </button>
+        <ShieldAlert className="text-rose-500 mr-2" size={20} />
+        <span className="font-bold text-gray-800 dark:text-white">{t('moderationQueue.title')}</span>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 no-scrollbar">
+        {cases === null ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin w-8 h-8 border-4 border-rose-500 border-t-transparent rounded-full"></div>
+          </div>
+        ) : cases.length === 0 ? (
+          <p className="text-center text-gray-400 py-10">{t('moderationQueue.empty')}</p>
+        ) : (
+          cases.map(c => (
+            <div key={c.userId} className="bg-white dark:bg-gray-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-gray-700">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h3 className="font-bold text-gray-900 dark:text-white">{c.userName || c.userId.slice(0, 8)}</h3>
+                  <p className="text-xs text-gray-400">{t('moderationQueue.pending', { count: c.reports.length })}</p>
+                </div>
+                {c.isHeld && (
+                  <span className="bg-red-100 dark:bg-red-900/40 text-red-600 dark:text-red-300 text-xs font-bold px-2 py-1 rounded-full">
+                    {t('moderationQueue.held')}
+                  </span>
+                )}
+              </div>
+
+              <div className="space-y-2 mb-4">
+                {c.reports.map(r => (
+                  <div key={r.id} className="bg-gray-50 dark:bg-gray-900 rounded-xl p-3 text-sm">
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                      <span className="font-bold text-red-500">{t(`report.reason.${r.reason}`)}</span>
+                      <span>{new Date(r.timestamp).toLocaleString(locale)}</span>
+                    </div>
+                    {r.content && <p className="text-gray-700 dark:text-gray-200 italic">"{r.content}"</p>}
+                    {r.details && <p className="text-gray-500 dark:text-gray-400 mt-1">{r.details}</p>}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => handleReview(c.userId, 'dismiss')}
+                  className="flex-1 py-2 text-sm font-bold bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-xl flex items-center justify-center gap-1"
+                >
+                  <Check size={16} /> {t('moderationQueue.dismiss')}
+                </button>
+                <button
+                  onClick={() => handleReview(c.userId, 'hide')}
+                  className="flex-1 py-2 text-sm font-bold bg-red-500 text-white rounded-xl flex items-center justify-center gap-1"
+                >
+                  <EyeOff size={16} /> {t('moderationQueue.hide')}
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
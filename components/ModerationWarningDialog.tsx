@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ModerationResult } from '../types';
+import { useI18n } from '../i18n';
+
+interface Props {
+  result: ModerationResult;
+  onEdit: () => void;
+  onConfirm: () => void;
+}
+
+// Shown to the author when a post or message was flagged ('warn'); they can still send it
+export const ModerationWarningDialog: React.FC<Props> = ({ result, onEdit, onConfirm }) => {
+  const { t } = useI18n();
+  return (
+  <div className="absolute inset-0 z-[1500] flex items-center justify-center bg-black/60 p-6 animate-in fade-in">
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-2xl max-w-sm w-full">
+      <div className="flex flex-col items-center text-center mb-6">
+        <div className="bg-amber-50 dark:bg-amber-900/30 p-4 rounded-full mb-4">
+          <AlertTriangle className="text-amber-500 w-8 h-8" />
+        </div>
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{t('moderationWarning.title')}</h3>
+        <p className="text-gray-500 dark:text-gray-400 text-sm mb-3">
+          {t('moderationWarning.description')}
+        </p>
+        <ul className="text-sm text-amber-600 dark:text-amber-300 font-medium space-y-1">
+          {result.reasons.map(r => <li key={r}>{t(`moderation.reason.${r}`)}</li>)}
+        </ul>
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={onEdit}
+          className="flex-1 py-3 text-gray-700 dark:text-gray-300 font-bold bg-gray-100 dark:bg-gray-700 rounded-xl hover:bg-gray-200"
+        >
+          {t('common.edit')}
+        </button>
+        <button
+          onClick={onConfirm}
+          className="flex-1 py-3 text-white font-bold bg-amber-500 rounded-xl shadow-lg"
+        >
+          {t('moderationWarning.confirm')}
+        </button>
+      </div>
+    </div>
+  </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ArrowLeft, Bell, Heart, MessageCircle, Clock, CheckCheck, Pencil } from 'lucide-react';
+import { AppNotification, NotificationType } from '../types';
+import { formatNotificationTime, localizeNotification } from '../utils/notifications';
+import { useI18n } from '../i18n';
+
+interface Props {
+  notifications: AppNotification[];
+  onBack: () => void;
+  onOpen: (notification: AppNotification) => void;
+  onMarkAllRead: () => void;
+}
+
+const ICONS: Record<NotificationType, React.ReactNode> = {
+  like: <Heart size={18} className="text-rose-500" />,
+  match: <Heart size={18} className="text-rose-500 fill-rose-500" />,
+  message: <MessageCircle size={18} className="text-blue-500" />,
+  expiring: <Clock size={18} className="text-amber-500" />,
+  edited: <Pencil size={18} className="text-indigo-500" />
+};
+
+// Inbox of likes, matches, messages, posts about to expire and edited ones, newest first
+export const NotificationCenter: React.FC<Props> = ({ notifications, onBack, onOpen, onMarkAllRead }) => {
+  const hasUnread = notifications.some(n => !n.read);
+  const { t, locale } = useI18n();
+
+  return (
+    <div className="h-full bg-gray-50 dark:bg-gray-900 flex flex-col">
+      <header className="bg-white dark:bg-gray-900 px-4 py-3 flex items-center shadow-sm sticky top-0 z-10 dark:border-b dark:border-gray-800">
+        <button onClick={onBack} className="mr-3">
+          <ArrowLeft className="text-gray-600 dark:text-gray-300" />
+        </button>
+        <Bell className="text-rose-500 mr-2" size={20} />
+        <span className="font-bold text-gray-800 dark:text-white">{t('notifications.title')}</span>
+        {hasUnread && (
+          <button onClick={onMarkAllRead} className="ml-auto text-xs font-bold text-rose-600 flex items-center gap-1">
+            <CheckCheck size={14} /> {t('notifications.markAllRead')}
+          </button>
+        )}
+      </header>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar">
+        {notifications.length === 0 ? (
+          <p className="text-center text-gray-400 py-10">{t('notifications.empty')}</p>
+        ) : (
+          notifications.map(n => {
+            const { title, body } = localizeNotification(n, t);
+            return (
+            <button
+              key={n.id}
+              onClick={() => onOpen(n)}
+              className={`w-full text-left px-4 py-3 flex gap-3 border-b border-gray-100 dark:border-gray-800 ${
+                n.read ? 'bg-transparent' : 'bg-rose-50 dark:bg-rose-900/20'
+              }`}
+            >
+              <div className="bg-white dark:bg-gray-800 p-2 rounded-full shadow-sm h-fit">{ICONS[n.type]}</div>
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between gap-2">
+                  <span className={`text-sm truncate ${n.read ? 'text-gray-700 dark:text-gray-300' : 'font-bold text-gray-900 dark:text-white'}`}>
+                    {title}
+                  </span>
+                  <span className="text-xs text-gray-400 whitespace-nowrap">{formatNotificationTime(n.timestamp, t, locale)}</span>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{body}</p>
+              </div>
+              {!n.read && <span className="w-2 h-2 bg-rose-500 rounded-full self-center shrink-0"></span>}
+            </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
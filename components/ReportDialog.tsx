@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Flag } from 'lucide-react';
+import { REPORT_REASONS, ReportReason, ReportTarget } from '../types';
+import { useI18n } from '../i18n';
+
+interface Props {
+  target: ReportTarget;
+  onSubmit: (reason: ReportReason, details: string, alsoBlock: boolean) => void;
+  onClose: () => void;
+}
+
+export const ReportDialog: React.FC<Props> = ({ target, onSubmit, onClose }) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [alsoBlock, setAlsoBlock] = useState(true);
+  const { t } = useI18n();
+
+  const subject = t(target.messageId ? 'report.subject.message' : target.encounterId ? 'report.subject.encounter' : 'report.subject.profile');
+
+  return (
+    <div className="absolute inset-0 z-[1500] flex items-end sm:items-center justify-center bg-black/60 animate-in fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-t-3xl sm:rounded-2xl p-6 shadow-2xl w-full max-w-sm max-h-[90%] overflow-y-auto no-scrollbar">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="bg-red-50 dark:bg-red-900/30 p-3 rounded-full">
+            <Flag className="text-red-500 w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">{t('report.title', { subject })}</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('report.anonymous', { name: target.userName })}</p>
+          </div>
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {REPORT_REASONS.map(r => (
+            <button
+              key={r}
+              onClick={() => setReason(r)}
+              className={`w-full text-left px-4 py-3 rounded-xl border text-sm font-medium transition-colors ${
+                reason === r
+                  ? 'border-red-400 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300'
+                  : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200'
+              }`}
+            >
+              {t(`report.reason.${r}`)}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder={t('report.detailsPlaceholder')}
+          rows={3}
+          className="w-full p-3 border border-gray-200 dark:border-gray-700 rounded-xl text-sm bg-transparent text-gray-700 dark:text-gray-200 outline-none focus:ring-2 focus:ring-red-200 mb-3"
+        />
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200 mb-6">
+          <input type="checkbox" checked={alsoBlock} onChange={(e) => setAlsoBlock(e.target.checked)} className="accent-red-500" />
+          {t('report.alsoBlock', { name: target.userName })}
+        </label>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 text-gray-700 dark:text-gray-300 font-bold bg-gray-100 dark:bg-gray-700 rounded-xl hover:bg-gray-200"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => reason && onSubmit(reason, details.trim(), alsoBlock)}
+            disabled={!reason}
+            className="flex-1 py-3 text-white font-bold bg-red-500 rounded-xl shadow-lg disabled:opacity-50"
+          >
+            {t('common.send')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+import { getCachedImageUrl, getImageUrl } from '../services/imageService';
+
+type Props = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { src?: string };
+
+// <img> for photo references: uploaded photos are resolved to signed URLs, plain URLs pass through
+export const StoredImage: React.FC<Props> = ({ src, className, ...rest }) => {
+  const [url, setUrl] = useState<string | null>(() => (src ? getCachedImageUrl(src) : null));
+
+  useEffect(() => {
+    if (!src) {
+      setUrl(null);
+      return;
+    }
+    const cached = getCachedImageUrl(src);
+    if (cached) {
+      setUrl(cached);
+      return;
+    }
+    let cancelled = false;
+    setUrl(null);
+    getImageUrl(src).then(resolved => {
+      if (!cancelled) setUrl(resolved);
+    });
+    return () => { cancelled = true; };
+  }, [src]);
+
+  if (!url) return <div className={`${className ?? ''} bg-gray-200 dark:bg-gray-700`} />;
+  return <img src={url} className={className} {...rest} />;
+};
@@ -0,0 +1,7 @@
+import React from 'react';
+import { Store, TrainFront } from 'lucide-react';
+import { Venue } from '../types';
+
+// A shop front for places, a train for transit lines
+export const VenueIcon: React.FC<{ venue: Venue; size: number; className?: string }> = ({ venue, size, className }) =>
+  venue.kind === 'transit_line' ? <TrainFront size={size} className={className} /> : <Store size={size} className={className} />;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowLeft, Check, ChevronRight } from 'lucide-react';
+import * as authService from '../../services/authService';
+import { dispatch, showToast } from '../../store';
+import { useI18n } from '../../i18n';
+
+// Session changes are picked up by onSessionChange in App, which moves to register/app
+export const AuthView: React.FC = () => {
+  const { t } = useI18n();
+  const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signin');
+  const [authEmail, setAuthEmail] = useState('');
+  const [authPassword, setAuthPassword] = useState('');
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [authBusy, setAuthBusy] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+
+  const handleSubmitAuth = async () => {
+    if (!authEmail || !authPassword) return;
+    setAuthBusy(true);
+    setAuthError(null);
+    const error = authMode === 'signin'
+      ? await authService.signInWithPassword(authEmail, authPassword)
+      : await authService.signUpWithPassword(authEmail, authPassword);
+    setAuthBusy(false);
+    if (error) {
+      // Supabase doesn't say which of the two was wrong, and its sign up errors are only available in English
+      setAuthError(authMode === 'signin' ? t('auth.invalidCredentials') : error);
+    } else if (authMode === 'signup') {
+      showToast(t('toast.confirmEmail'), 'info');
+    }
+  };
+
+  const handleSendMagicLink = async () => {
+    if (!authEmail) return;
+    setAuthBusy(true);
+    setAuthError(null);
+    const error = await authService.sendMagicLink(authEmail);
+    setAuthBusy(false);
+    if (error) {
+      setAuthError(error);
+    } else {
+      setMagicLinkSent(true);
+    }
+  };
+
+  return (
+      <div className="h-full bg-white dark:bg-gray-900 dark:text-white flex flex-col px-8 py-10 animate-in fade-in duration-300">
+          <button onClick={() => dispatch({ type: 'session/authCancelled' })} className="w-10 h-10 -ml-2 rounded-full flex items-center justify-center hover:bg-gray-100 dark:hover:bg-gray-800 mb-6">
+              <ArrowLeft className="text-gray-800 dark:text-white" />
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              {t(authMode === 'signin' ? 'auth.signInTitle' : 'auth.signUpTitle')}
+          </h1>
+          <div className="space-y-6 flex-1 mt-6">
+              <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">{t('auth.email')}</label>
+                  <input
+                    type="email"
+                    value={authEmail}
+                    onChange={e => setAuthEmail(e.target.value)}
+                    className="w-full text-lg border-b-2 border-gray-200 dark:border-gray-700 focus:border-rose-500 outline-none py-2 bg-transparent dark:text-white"
+                    placeholder={t('auth.emailPlaceholder')}
+                    autoComplete="email"
+                    autoFocus
+                  />
+              </div>
+              <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">{t('auth.password')}</label>
+                  <input
+                    type="password"
+                    value={authPassword}
+                    onChange={e => setAuthPassword(e.target.value)}
+                    className="w-full text-lg border-b-2 border-gray-200 dark:border-gray-700 focus:border-rose-500 outline-none py-2 bg-transparent dark:text-white"
+                    autoComplete={authMode === 'signin' ? 'current-password' : 'new-password'}
+                  />
+              </div>
+              {authError && (
+                  <p className="text-sm text-red-500 flex items-center gap-2"><AlertTriangle size={16} /> {authError}</p>
+              )}
+              {magicLinkSent && (
+                  <p className="text-sm text-green-600 flex items-center gap-2"><Check size={16} /> {t('auth.magicLinkSent', { email: authEmail })}</p>
+              )}
+              <button
+                onClick={handleSendMagicLink}
+                disabled={!authEmail || authBusy}
+                className="text-rose-600 dark:text-rose-400 text-sm font-semibold disabled:opacity-50"
+              >
+                  {t('auth.useMagicLink')}
+              </button>
+          </div>
+          <button
+            onClick={handleSubmitAuth}
+            disabled={!authEmail || !authPassword || authBusy}
+            className="w-full bg-rose-600 text-white font-bold py-4 rounded-xl shadow-lg shadow-rose-200 dark:shadow-none disabled:opacity-50 flex items-center justify-center gap-2 active:scale-95 transition-all"
+          >
+              <span>{t(authMode === 'signin' ? 'auth.signIn' : 'auth.signUp')}</span>
+              <ChevronRight size={20} />
+          </button>
+          <button
+            onClick={() => { setAuthMode(authMode === 'signin' ? 'signup' : 'signin'); setAuthError(null); }}
+            className="mt-4 text-sm text-gray-500 dark:text-gray-400 font-medium"
+          >
+              {t(authMode === 'signin' ? 'auth.switchToSignUp' : 'auth.switchToSignIn')}
+          </button>
+      </div>
+  );
+};
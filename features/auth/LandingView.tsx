@@ -0,0 +1,29 @@
+import React from 'react';
+import { Heart, LogIn } from 'lucide-react';
+import { dispatch } from '../../store';
+import { useI18n } from '../../i18n';
+
+export const LandingView: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <div className="h-full bg-white dark:bg-gray-900 flex flex-col items-center justify-center p-6 bg-gradient-to-br from-rose-600 to-pink-700 relative overflow-hidden">
+       {/* ... Same landing ... */}
+       <div className="absolute -top-20 -right-20 w-64 h-64 bg-white/10 rounded-full blur-3xl"></div>
+       <div className="absolute -bottom-20 -left-20 w-80 h-80 bg-rose-400/20 rounded-full blur-3xl"></div>
+       <div className="bg-white p-6 rounded-3xl shadow-2xl mb-8 transform -rotate-6 z-10">
+          <Heart className="text-rose-600 w-20 h-20 fill-rose-600" />
+       </div>
+       <h1 className="text-5xl font-bold text-white mb-2 z-10 tracking-tight">Encuentros</h1>
+       <p className="text-rose-100 text-center mb-16 max-w-xs z-10 text-lg">
+         {t('landing.tagline')}
+       </p>
+       <button
+         onClick={() => dispatch({ type: 'session/authStarted' })}
+         className="bg-white text-gray-800 font-bold py-4 px-8 rounded-2xl shadow-xl flex items-center space-x-3 active:scale-95 transition-transform w-full max-w-xs justify-center z-10"
+       >
+         <LogIn size={20} />
+         <span>{t('landing.signIn')}</span>
+       </button>
+    </div>
+  );
+};
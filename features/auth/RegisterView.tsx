@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ArrowLeft, ChevronRight } from 'lucide-react';
+import { Gender, GENDERS, UserProfile } from '../../types';
+import * as authService from '../../services/authService';
+import { dispatch, getState } from '../../store';
+import { useI18n } from '../../i18n';
+import { signOut } from '../session/session';
+
+export const RegisterView: React.FC = () => {
+  const { t } = useI18n();
+  const [regName, setRegName] = useState('');
+  const [regAge, setRegAge] = useState('');
+  const [regGender, setRegGender] = useState<Gender>('male');
+
+  const handleFinishRegister = () => {
+      if (!regName || !regAge) return;
+      const profile: UserProfile = {
+          ...getState().session.profile,
+          name: regName,
+          age: parseInt(regAge),
+          gender: regGender
+      };
+      authService.saveProfile(profile);
+      dispatch({ type: 'session/signedIn', profile });
+  };
+
+  return (
+      <div className="h-full bg-white dark:bg-gray-900 dark:text-white flex flex-col px-8 py-10 animate-in fade-in duration-300">
+         {/* ... Same register ... */}
+         <button onClick={signOut} className="w-10 h-10 -ml-2 rounded-full flex items-center justify-center hover:bg-gray-100 dark:hover:bg-gray-800 mb-6">
+              <ArrowLeft className="text-gray-800 dark:text-white" />
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('register.title')}</h1>
+          {/* ... form ... */}
+          <div className="space-y-6 flex-1 mt-6">
+              <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">{t('profile.name')}</label>
+                  <input
+                    type="text"
+                    value={regName}
+                    onChange={e => setRegName(e.target.value)}
+                    className="w-full text-lg border-b-2 border-gray-200 dark:border-gray-700 focus:border-rose-500 outline-none py-2 bg-transparent dark:text-white"
+                    placeholder={t('register.namePlaceholder')}
+                    autoFocus
+                  />
+              </div>
+              <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">{t('profile.age')}</label>
+                  <input
+                    type="number"
+                    value={regAge}
+                    onChange={e => setRegAge(e.target.value)}
+                    className="w-full text-lg border-b-2 border-gray-200 dark:border-gray-700 focus:border-rose-500 outline-none py-2 bg-transparent dark:text-white"
+                    placeholder="25"
+                  />
+              </div>
+              <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-4">{t('register.gender')}</label>
+                  <div className="flex gap-4">
+                      {GENDERS.map(g => (
+                          <button
+                            key={g}
+                            onClick={() => setRegGender(g)}
+                            className={`flex-1 py-3 rounded-xl border-2 font-semibold capitalize transition-colors ${
+                                regGender === g
+                                ? 'border-rose-500 bg-rose-50 dark:bg-rose-900/50 text-rose-700 dark:text-rose-300'
+                                : 'border-gray-200 dark:border-gray-700 text-gray-500'
+                            }`}
+                          >
+                              {t(`gender.${g}`)}
+                          </button>
+                      ))}
+                  </div>
+              </div>
+          </div>
+          <button
+            onClick={handleFinishRegister}
+            disabled={!regName || !regAge}
+            className="w-full bg-rose-600 text-white font-bold py-4 rounded-xl shadow-lg shadow-rose-200 dark:shadow-none disabled:opacity-50 flex items-center justify-center gap-2 active:scale-95 transition-all"
+          >
+              <span>{t('register.continue')}</span>
+              <ChevronRight size={20} />
+          </button>
+      </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { MessageCircle } from 'lucide-react';
+import { StoredImage } from '../../components/StoredImage';
+import { getUnreadCount, SYSTEM_SENDER_ID } from '../../utils/chat';
+import { useAppState } from '../../store';
+import { useI18n } from '../../i18n';
+import { useOpenChat } from './useOpenChat';
+
+export const ChatListView: React.FC = () => {
+  const { t, locale } = useI18n();
+  const chats = useAppState(s => s.chats.list);
+  const userId = useAppState(s => s.session.profile.id);
+  const openChat = useOpenChat();
+
+  return (
+   <div className="absolute inset-0 bg-white dark:bg-gray-900 flex flex-col">
+      <header className="px-6 py-6 border-b border-gray-100 dark:border-gray-800">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('chats.title')}</h1>
+      </header>
+      <div className="flex-1 overflow-y-auto no-scrollbar">
+          {chats.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-full text-gray-400 opacity-60">
+                  <MessageCircle size={64} className="mb-4" />
+                  <p>{t('chats.empty')}</p>
+              </div>
+          ) : (
+              chats.map(chat => {
+                const unreadCount = getUnreadCount(chat, userId);
+                const lastMessage = chat.messages[chat.messages.length - 1];
+                return (
+                  <div
+                     key={chat.encounterId}
+                     onClick={() => openChat(chat.encounterId)}
+                     className="flex items-center px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer border-b border-gray-50 dark:border-gray-800 transition-colors"
+                  >
+                     <div className="relative">
+                       <StoredImage src={chat.partnerImage} className="w-14 h-14 rounded-full object-cover border border-gray-100 dark:border-gray-700" alt="Partner" />
+                       {unreadCount > 0 && (
+                           <div className="absolute -top-1 -right-1 bg-rose-600 text-white text-[10px] font-bold w-5 h-5 flex items-center justify-center rounded-full border-2 border-white">
+                               {unreadCount}
+                           </div>
+                       )}
+                     </div>
+                     <div className="ml-4 flex-1">
+                        <div className="flex justify-between items-baseline mb-1">
+                           <h3 className={`font-bold ${unreadCount > 0 ? 'text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-400'}`}>{chat.partnerName}</h3>
+                           <span className="text-xs text-gray-400">
+                               {new Date(lastMessage.timestamp).toLocaleTimeString(locale, {hour: '2-digit', minute:'2-digit'})}
+                           </span>
+                        </div>
+                        <p className={`text-sm truncate max-w-[200px] ${unreadCount > 0 ? 'text-gray-900 dark:text-white font-semibold' : 'text-gray-500'}`}>
+                            {lastMessage.senderId === SYSTEM_SENDER_ID ? t('chat.matchStarted') : lastMessage.text}
+                        </p>
+                     </div>
+                  </div>
+                );
+              })
+          )}
+      </div>
+   </div>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, ArrowLeft, Ban, Check, CheckCheck, Clock, CloudOff, EyeOff, Flag, Send } from 'lucide-react';
+import { ChatMessage } from '../../types';
+import { StoredImage } from '../../components/StoredImage';
+import * as chatService from '../../services/chatService';
+import { getUnreadCount, SYSTEM_SENDER_ID } from '../../utils/chat';
+import { screenText } from '../../utils/moderation';
+import { dispatch, getState, useAppState } from '../../store';
+import { navigate, back } from '../../utils/router';
+import { useI18n } from '../../i18n';
+import { useOutbox } from '../sync/useOutbox';
+import { useModeration } from '../moderation/useModeration';
+import { markNotificationsRead } from '../notifications/notificationActions';
+
+// A conversation, keyed like Chat.encounterId. Drafts live in the store, one per conversation (a match fills
+// in an opener), but only this view subscribes to them, so typing re-renders nothing else.
+export const ChatView: React.FC<{ encounterId: string }> = ({ encounterId }) => {
+  const { t } = useI18n();
+  const userId = useAppState(s => s.session.profile.id);
+  const activeChat = useAppState(s => s.chats.list.find(c => c.encounterId === encounterId) ?? null);
+  const isPartnerTyping = useAppState(s => s.chats.isPartnerTyping);
+  const isModerating = useAppState(s => s.ui.isModerating);
+  const notificationCount = useAppState(s => s.notifications.list.length);
+  const { runOutboxAction } = useOutbox();
+  const { withModeration } = useModeration();
+
+  const [composerError, setComposerError] = useState<string | null>(null); // Why the message being written was refused
+  const [revealedMessageIds, setRevealedMessageIds] = useState<string[]>([]); // Hidden incoming messages the user chose to see
+
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const typingChannelRef = useRef<{ notifyTyping: () => void; leave: () => void } | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const partnerTypingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const matchId = activeChat?.matchId;
+  const chatDraft = useAppState(s => (matchId && s.chats.drafts[matchId]) || '');
+
+  // Incoming messages in this conversation are read right away
+  useEffect(() => {
+    if (!matchId) return;
+    dispatch({ type: 'chats/viewing', matchId });
+    return () => dispatch({ type: 'chats/viewing', matchId: null });
+  }, [matchId]);
+
+  // A refused draft belongs to the conversation it was written in
+  useEffect(() => {
+    setComposerError(null);
+  }, [encounterId]);
+
+  // Opening a conversation (from the list, a notification or a link) reads every partner message
+  useEffect(() => {
+    if (!activeChat) return;
+    if (getUnreadCount(activeChat, userId) > 0) {
+      chatService.markRead(activeChat.matchId);
+      dispatch({ type: 'chats/read', matchId: activeChat.matchId, userId });
+    }
+    markNotificationsRead(getState().notifications.list.filter(n => !n.read && n.matchId === activeChat.matchId));
+  }, [matchId, notificationCount]);
+
+  // Auto-scroll to bottom of chat
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [activeChat?.messages, isPartnerTyping]);
+
+  // Typing indicator
+  useEffect(() => {
+    if (!matchId) return;
+    const channel = chatService.joinTypingChannel(matchId, userId, () => {
+      dispatch({ type: 'chats/partnerTyping', isTyping: true });
+      if (partnerTypingTimeoutRef.current) clearTimeout(partnerTypingTimeoutRef.current);
+      partnerTypingTimeoutRef.current = setTimeout(() => dispatch({ type: 'chats/partnerTyping', isTyping: false }), 3000);
+    });
+    typingChannelRef.current = channel;
+    return () => {
+      channel.leave();
+      typingChannelRef.current = null;
+      dispatch({ type: 'chats/partnerTyping', isTyping: false });
+    };
+  }, [matchId, userId]);
+
+  if (!activeChat) return null;
+
+  const handleViewProfile = () => {
+      if (getState().encounters.nearby.some(e => e.id === activeChat.encounterId)) navigate({ name: 'encounter', id: activeChat.encounterId });
+  };
+
+  const sendMessage = async (text: string) => {
+      const msg: ChatMessage = {
+          id: crypto.randomUUID(), // Same id on the server so the realtime echo replaces this copy
+          senderId: userId,
+          text,
+          timestamp: Date.now(),
+          status: 'sending'
+      };
+      dispatch({ type: 'chats/messageReceived', matchId: activeChat.matchId, message: msg });
+      await runOutboxAction({ kind: 'message', matchId: activeChat.matchId, message: msg });
+  };
+
+  const handleSubmitMessage = () => {
+      const text = chatDraft.trim();
+      if (!text || isModerating) return;
+      withModeration(text, 'message', () => {
+          sendMessage(text);
+          dispatch({ type: 'chats/draftChanged', matchId: activeChat.matchId, text: '' });
+      }, setComposerError);
+  };
+
+  const handleDraftChange = (text: string) => {
+      dispatch({ type: 'chats/draftChanged', matchId: activeChat.matchId, text });
+      setComposerError(null);
+      // Throttle typing events to one every 2 seconds
+      if (text && Date.now() - lastTypingSentRef.current > 2000) {
+          lastTypingSentRef.current = Date.now();
+          typingChannelRef.current?.notifyTyping();
+      }
+  };
+
+  return (
+      <div className="h-full bg-gray-50 dark:bg-gray-900 flex flex-col relative">
+          <header className="bg-white dark:bg-gray-900 px-4 py-3 flex items-center shadow-sm sticky top-0 z-10 dark:border-b dark:border-gray-800">
+              <button onClick={() => back({ name: 'chats' })} className="mr-3">
+                  <ArrowLeft className="text-gray-600 dark:text-gray-300" />
+              </button>
+              <StoredImage
+                  src={activeChat.partnerImage}
+                  className="w-10 h-10 rounded-full object-cover mr-3 cursor-pointer"
+                  alt="Partner"
+                  onClick={handleViewProfile}
+              />
+              <span
+                  className="font-bold text-gray-800 dark:text-white cursor-pointer"
+                  onClick={handleViewProfile}
+              >
+                  {activeChat.partnerName}
+              </span>
+              <div className="ml-auto flex gap-1">
+                  <button
+                    onClick={() => dispatch({ type: 'ui/reportOpened', target: { userId: activeChat.partnerId, userName: activeChat.partnerName } })}
+                    className="p-2 text-gray-400 hover:text-red-500"
+                    title={t('common.report')}
+                  >
+                      <Flag size={18} />
+                  </button>
+                  <button
+                    onClick={() => dispatch({ type: 'ui/blockOpened', target: { userId: activeChat.partnerId, userName: activeChat.partnerName } })}
+                    className="p-2 text-gray-400 hover:text-red-500"
+                    title={t('common.block')}
+                  >
+                      <Ban size={18} />
+                  </button>
+              </div>
+          </header>
+          <div className="flex-1 overflow-y-auto p-4 space-y-4 no-scrollbar bg-gray-50 dark:bg-gray-900">
+              {activeChat.messages.map(msg => {
+                  const isMe = msg.senderId === userId;
+                  const isSystem = msg.senderId === SYSTEM_SENDER_ID;
+                  if(isSystem) {
+                      return (
+                          <div key={msg.id} className="flex justify-center my-4 animate-in fade-in zoom-in duration-300">
+                              <span className="bg-rose-100 dark:bg-rose-900/40 text-rose-600 dark:text-rose-300 text-xs px-3 py-1 rounded-full font-medium shadow-sm">
+                                  {t('chat.matchStarted')}
+                              </span>
+                          </div>
+                      );
+                  }
+                  return (
+                      <div key={msg.id} className={`group flex items-center ${isMe ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2 fade-in duration-300`}>
+                          <div className={`max-w-[80%] rounded-2xl px-4 py-2 text-[15px] leading-relaxed shadow-sm ${
+                              isMe
+                              ? 'bg-rose-600 text-white rounded-br-none'
+                              : 'bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 border border-gray-100 dark:border-gray-700 rounded-bl-none'
+                          }`}>
+                              {!isMe && screenText(msg.text, 'message').decision === 'block' && !revealedMessageIds.includes(msg.id) ? (
+                                  <button
+                                    onClick={() => setRevealedMessageIds(prev => [...prev, msg.id])}
+                                    className="italic text-gray-400 flex items-center gap-1"
+                                  >
+                                      <EyeOff size={14} /> {t('chat.hiddenMessage')}
+                                  </button>
+                              ) : msg.text}
+                              {isMe && (
+                                  <span className="inline-flex align-bottom ml-2 opacity-80" title={msg.status}>
+                                      {msg.status === 'sending' && <Clock size={12} />}
+                                      {msg.status === 'queued' && <CloudOff size={12} />}
+                                      {msg.status === 'sent' && <Check size={14} />}
+                                      {msg.status === 'delivered' && <CheckCheck size={14} />}
+                                      {msg.status === 'read' && <CheckCheck size={14} className="text-cyan-200" />}
+                                  </span>
+                              )}
+                          </div>
+                          {!isMe && (
+                              <button
+                                onClick={() => dispatch({ type: 'ui/reportOpened', target: { userId: activeChat.partnerId, userName: activeChat.partnerName, messageId: msg.id } })}
+                                className="ml-1 p-1 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                                title={t('chat.reportMessage')}
+                              >
+                                  <Flag size={14} />
+                              </button>
+                          )}
+                      </div>
+                  );
+              })}
+              {isPartnerTyping && (
+                  <div className="flex justify-start animate-in fade-in slide-in-from-bottom-1">
+                      <div className="bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-2xl rounded-bl-none px-4 py-3 shadow-sm flex items-center gap-1">
+                          <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                          <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                          <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+                      </div>
+                  </div>
+              )}
+              <div ref={messagesEndRef} />
+          </div>
+          <div className="p-3 bg-white dark:bg-gray-900 border-t border-gray-100 dark:border-gray-800 pb-8">
+              {composerError && (
+                  <p className="text-xs text-red-500 font-medium mb-2 px-2 flex items-center gap-1">
+                      <AlertTriangle size={12} /> {composerError}
+                  </p>
+              )}
+              <form onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSubmitMessage();
+              }} className="flex items-center gap-2">
+                  <input
+                    name="msg"
+                    type="text"
+                    value={chatDraft}
+                    onChange={(e) => handleDraftChange(e.target.value)}
+                    placeholder={t('chat.placeholder')}
+                    className="flex-1 bg-gray-100 dark:bg-gray-800 dark:text-white rounded-full px-4 py-3 outline-none focus:ring-2 focus:ring-rose-200 transition-all"
+                    autoComplete="off"
+                    autoFocus
+                  />
+                  <button type="submit" disabled={isModerating} className="bg-rose-600 p-3 rounded-full text-white shadow-md active:scale-95 transition-transform hover:bg-rose-700">
+                      <Send size={20} />
+                  </button>
+              </form>
+          </div>
+      </div>
+  );
+};
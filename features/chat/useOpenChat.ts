@@ -0,0 +1,21 @@
+import { dispatch, getState, showToast } from '../../store';
+import { navigate } from '../../utils/router';
+import { useI18n } from '../../i18n';
+
+// Opens the conversation about an encounter: the one keyed by it, else any with its author
+export const useOpenChat = () => {
+  const { t } = useI18n();
+
+  return (encounterId: string) => {
+    const { encounters, chats } = getState();
+    const partnerId = encounters.nearby.find(e => e.id === encounterId)?.userId;
+    const chat = chats.list.find(c => c.encounterId === encounterId) ?? chats.list.find(c => c.partnerId === partnerId);
+    if (!chat) {
+      showToast(t('toast.chatNotReady'), 'info');
+      return;
+    }
+
+    navigate({ name: 'chat', encounterId: chat.encounterId });
+    dispatch({ type: 'ui/matchShown', match: null });
+  };
+};
@@ -0,0 +1,400 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Camera, Image as ImageIcon, MapPin, RotateCcw, X, Zap } from 'lucide-react';
+import { AVAILABLE_TAGS, Encounter, EncounterContent, EncounterPlace, EncounterTag, Venue } from '../../types';
+import { StoredImage } from '../../components/StoredImage';
+import * as imageService from '../../services/imageService';
+import { DEFAULT_TIME_TOLERANCE_MINUTES, TIME_TOLERANCE_OPTIONS } from '../../utils/matching';
+import { getExpiresAt, getLifecycle } from '../../utils/encounterPolicy';
+import { getEncounterChanges, isMaterialEdit } from '../../utils/encounterEdits';
+import { isPlaceAtVenue } from '../../utils/geo';
+import { getState, showToast, useAppState } from '../../store';
+import { navigate, back } from '../../utils/router';
+import { useI18n } from '../../i18n';
+import { useModeration } from '../moderation/useModeration';
+import { discardDeletedEncounter, isImageInUse } from '../profile/photos';
+import { usePublish } from './usePublish';
+import { LocationEditor } from './LocationEditor';
+import { VenuePicker } from './VenuePicker';
+import { EditHistory } from './EditHistory';
+
+// Formats a timestamp for <input type="datetime-local"> in local time
+const toDateTimeLocalValue = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+interface FormStart {
+  kind: 'new' | 'edit' | 'republish';
+  content: Omit<EncounterContent, 'location' | 'shape'>;
+  place: EncounterPlace | null;
+}
+
+// What the form starts with: the post being edited, the archived or deleted one being republished, or an
+// empty post at the map's crosshair. A deleted post only left its coarsened place.
+const getFormStart = (editing?: Encounter, republishId?: string): FormStart => {
+  const { encounters, location } = getState();
+  const crosshair = location.mapCenter && { location: location.mapCenter };
+  if (editing) return { kind: 'edit', content: editing, place: { location: editing.location, shape: editing.shape } };
+
+  const archived = republishId ? encounters.mine.find(e => e.id === republishId) : undefined;
+  if (archived) return { kind: 'republish', content: archived, place: { location: archived.location, shape: archived.shape } };
+  const deleted = republishId ? encounters.deleted.find(v => v.encounterId === republishId) : undefined;
+  if (deleted) return { kind: 'republish', content: deleted, place: crosshair };
+
+  return {
+    kind: 'new',
+    content: { title: '', description: '', tags: [], happenedAt: Date.now(), timeToleranceMinutes: DEFAULT_TIME_TOLERANCE_MINUTES },
+    place: crosshair
+  };
+};
+
+interface Props {
+  editId?: string;
+  republishId?: string;
+}
+
+// Writes a new post, or edits one of mine (editId) or republishes one (republishId). A reload or a link
+// can get here before my posts arrive: the form starts from them, so it waits.
+export const CreateEncounterView: React.FC<Props> = ({ editId, republishId }) => {
+  const isReady = useAppState(s =>
+    (!editId && !republishId) || (s.encounters.hasLoadedMine && (!republishId || s.encounters.hasLoadedDeleted)));
+
+  if (!isReady) {
+    return (
+      <div className="h-full bg-white dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-rose-500 border-opacity-50"></div>
+      </div>
+    );
+  }
+  return <EncounterForm editId={editId} republishId={republishId} />;
+};
+
+const EncounterForm: React.FC<Props> = ({ editId, republishId }) => {
+  const { t } = useI18n();
+  const isModerating = useAppState(s => s.ui.isModerating);
+  const editing = useAppState(s => editId ? s.encounters.mine.find(e => e.id === editId) : undefined);
+  const isEditable = !!editing && !editing.syncPending && getLifecycle(editing) === 'active';
+  const { withModeration } = useModeration();
+  const { checkQuota, publish, publishEdit, handleQuickPublish } = usePublish();
+
+  const [start] = useState(() => getFormStart(editing, republishId));
+  const [newEncounterTitle, setNewEncounterTitle] = useState(start.content.title);
+  const [newEncounterDesc, setNewEncounterDesc] = useState(start.content.description);
+  const [newEncounterImage, setNewEncounterImage] = useState<string | undefined>(start.content.image);
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const [newEncounterTags, setNewEncounterTags] = useState<EncounterTag[]>(start.content.tags);
+  const [newEncounterHappenedAt, setNewEncounterHappenedAt] = useState<number>(start.content.happenedAt);
+  const [newEncounterTolerance, setNewEncounterTolerance] = useState(start.content.timeToleranceMinutes);
+  const [composerError, setComposerError] = useState<string | null>(null); // Why the post being written was refused
+  // Null while a route or area being drawn is missing points
+  const [newEncounterPlace, setNewEncounterPlace] = useState<EncounterPlace | null>(start.place);
+  const [locationEditorStart, setLocationEditorStart] = useState<EncounterPlace | null>(null); // Set while the editor is open
+  const [newEncounterVenue, setNewEncounterVenue] = useState<Venue | undefined>(start.content.venue);
+
+  // A link to a post that is gone, archived or still waiting in the outbox
+  useEffect(() => {
+    if (!editId || isEditable) return;
+    showToast(t('toast.encounterNotEditable'), 'error');
+    navigate({ name: 'profile' }, { replace: true });
+  }, [editId, isEditable]);
+
+  const content: EncounterContent | null = newEncounterPlace && {
+    title: newEncounterTitle,
+    description: newEncounterDesc,
+    tags: newEncounterTags,
+    image: newEncounterImage,
+    location: newEncounterPlace.location,
+    shape: newEncounterPlace.shape,
+    venue: newEncounterVenue,
+    happenedAt: newEncounterHappenedAt,
+    timeToleranceMinutes: newEncounterTolerance
+  };
+  const hasChanges = !editing || !content || getEncounterChanges(editing, content).length > 0;
+
+  const encounterCameraInputRef = useRef<HTMLInputElement>(null);
+  const encounterPhotoInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCreateEncounter = () => {
+    if (!content || !newEncounterTitle || !newEncounterDesc) return;
+    if (newEncounterPlace && newEncounterVenue && !isPlaceAtVenue(newEncounterPlace, newEncounterVenue)) {
+      setComposerError(t('venue.tooFar'));
+      return;
+    }
+    if (editing) {
+      withModeration(`${newEncounterTitle}\n${newEncounterDesc}`, 'encounter', () => publishEdit(editing, content), setComposerError);
+      return;
+    }
+    if (!checkQuota()) return;
+    withModeration(`${newEncounterTitle}\n${newEncounterDesc}`, 'encounter', publishEncounter, setComposerError);
+  };
+
+  // The form unmounts on the way out, which clears it
+  const publishEncounter = () => {
+    const { session, encounters } = getState();
+    if (!newEncounterPlace) return;
+    const newEncounter: Encounter = {
+      id: crypto.randomUUID(),
+      userId: session.profile.id,
+      userProfile: session.profile,
+      title: newEncounterTitle,
+      description: newEncounterDesc,
+      location: newEncounterPlace.location,
+      shape: newEncounterPlace.shape,
+      venue: newEncounterVenue,
+      timestamp: Date.now(),
+      happenedAt: newEncounterHappenedAt,
+      expiresAt: getExpiresAt(Date.now(), encounters.policy),
+      timeToleranceMinutes: newEncounterTolerance,
+      image: newEncounterImage,
+      distance: 0,
+      tags: newEncounterTags
+    };
+
+    publish(newEncounter, t('toast.encounterPublished'));
+    navigate({ name: 'explore' }, { replace: true }); // Back shouldn't return to the sent form
+
+    // A republished deleted post leaves the list of deleted ones
+    if (republishId && encounters.deleted.some(v => v.encounterId === republishId)) {
+      discardDeletedEncounter(republishId);
+    }
+  };
+
+  // Picking a place for a single spot post moves the pin there; a line or a drawn post has to be near it
+  const handleVenueChange = (venue: Venue | undefined) => {
+    const movesPin = venue?.kind === 'place' && !newEncounterPlace?.shape;
+    if (venue && newEncounterPlace && !movesPin && !isPlaceAtVenue(newEncounterPlace, venue)) {
+      showToast(t('venue.tooFar'), 'error');
+      return;
+    }
+    setNewEncounterVenue(venue);
+    setComposerError(null);
+    if (venue?.kind === 'place' && newEncounterPlace && !newEncounterPlace.shape) {
+      setNewEncounterPlace({ location: venue.location });
+      setLocationEditorStart(null);
+    }
+  };
+
+  const toggleTagSelection = (tag: EncounterTag) => {
+    setNewEncounterTags(prev =>
+      prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]
+    );
+  };
+
+  const handleEncounterPhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsUploadingImage(true);
+    const path = await imageService.uploadImage(getState().session.profile.id, file);
+    setIsUploadingImage(false);
+    if (!path) {
+      showToast(t('toast.photoUploadFailed'), 'error');
+      return;
+    }
+    // The photo the post already had stays until the edit is saved
+    if (newEncounterImage && !isImageInUse(newEncounterImage)) imageService.deleteImages([newEncounterImage]);
+    setNewEncounterImage(path);
+  };
+
+  const handleRemoveEncounterPhoto = () => {
+    if (newEncounterImage && !isImageInUse(newEncounterImage)) imageService.deleteImages([newEncounterImage]);
+    setNewEncounterImage(undefined);
+  };
+
+  if (editId && !isEditable) return null;
+
+  return (
+    <div className="h-full bg-white dark:bg-gray-900 dark:text-white flex flex-col relative">
+      {/* ... Create View Header ... */}
+      <header className="px-4 py-4 flex items-center border-b border-gray-100 dark:border-gray-800 sticky top-0 bg-white dark:bg-gray-900 z-10">
+        <button onClick={() => back()} className="p-2 -ml-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800">
+          <X size={24} className="text-gray-600 dark:text-gray-300" />
+        </button>
+        <h1 className="ml-2 text-xl font-bold text-gray-800 dark:text-white">
+          {t(start.kind === 'edit' ? 'edit.title' : start.kind === 'republish' ? 'create.republishTitle' : 'create.title')}
+        </h1>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+         {start.kind === 'republish' && (
+           <p className="text-sm text-gray-500 dark:text-gray-400 flex items-start gap-2">
+             <RotateCcw size={16} className="mt-0.5 shrink-0" /> {t('create.republishHint')}
+           </p>
+         )}
+
+         {/* Quick Publish Action */}
+         {start.kind === 'new' && <div className="mb-6">
+             <button
+               onClick={() => newEncounterPlace && handleQuickPublish(newEncounterPlace, newEncounterVenue)}
+               disabled={!newEncounterPlace}
+               className="w-full bg-gradient-to-r from-yellow-400 to-orange-500 text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2 active:scale-95 transition-transform disabled:opacity-50"
+             >
+                <Zap size={20} className="fill-white" />
+                <span>{t('create.quickPublish')}</span>
+             </button>
+             <div className="flex items-center gap-3 mt-6 mb-2">
+                 <div className="h-px flex-1 bg-gray-200 dark:bg-gray-700"></div>
+                 <span className="text-gray-400 text-xs font-bold uppercase">{t('create.orDetailed')}</span>
+                 <div className="h-px flex-1 bg-gray-200 dark:bg-gray-700"></div>
+             </div>
+         </div>}
+
+         <div className="bg-blue-50 dark:bg-blue-900/30 p-4 rounded-xl border border-blue-100 dark:border-blue-800 space-y-3">
+            <div className="flex items-start">
+              <MapPin size={20} className="text-blue-500 dark:text-blue-300 mt-0.5 mr-2 shrink-0" />
+              <div className="flex-1 text-sm text-blue-700 dark:text-blue-200">
+                <p className="font-bold">
+                  {!newEncounterPlace
+                    ? t('location.summary.incomplete')
+                    : newEncounterPlace.shape
+                      ? t(`location.summary.${newEncounterPlace.shape.type}`, { count: newEncounterPlace.shape.points.length })
+                      : t('location.summary.point')}
+                </p>
+                <p>{t('create.locationHint')}</p>
+              </div>
+              {/* Can't be closed halfway through drawing a route or area */}
+              <button
+                onClick={() => setLocationEditorStart(locationEditorStart ? null : newEncounterPlace)}
+                disabled={!newEncounterPlace}
+                className="ml-2 text-sm font-bold text-blue-600 dark:text-blue-300 disabled:opacity-50"
+              >
+                {t(locationEditorStart ? 'location.done' : 'location.edit')}
+              </button>
+            </div>
+            {locationEditorStart && <LocationEditor initial={locationEditorStart} onChange={setNewEncounterPlace} />}
+            {newEncounterPlace && <VenuePicker location={newEncounterPlace.location} venue={newEncounterVenue} onChange={handleVenueChange} />}
+         </div>
+
+         <input ref={encounterCameraInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleEncounterPhotoSelected} />
+         <input ref={encounterPhotoInputRef} type="file" accept="image/*" className="hidden" onChange={handleEncounterPhotoSelected} />
+         <div
+           onClick={newEncounterImage && !isUploadingImage ? handleRemoveEncounterPhoto : undefined}
+           className={`flex flex-col items-center justify-center border-2 border-dashed rounded-2xl h-48 transition-colors ${
+             newEncounterImage
+              ? 'border-rose-300 bg-rose-50 dark:bg-rose-900/20 cursor-pointer'
+              : 'border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-800'
+           }`}
+         >
+            {isUploadingImage ? (
+              <>
+                <div className="animate-spin w-8 h-8 border-4 border-rose-500 border-t-transparent rounded-full mb-2"></div>
+                <span className="text-gray-400 text-sm font-medium">{t('photo.uploading')}</span>
+              </>
+            ) : newEncounterImage ? (
+              <div className="relative w-full h-full">
+                <StoredImage src={newEncounterImage} alt="Preview" className="w-full h-full object-cover rounded-2xl" />
+                <div className="absolute inset-0 flex items-center justify-center bg-black/20 rounded-2xl">
+                  <span className="bg-white/90 px-3 py-1 rounded-full text-xs font-bold shadow">{t('create.tapToRemove')}</span>
+                </div>
+              </div>
+            ) : (
+              <>
+                <span className="text-gray-400 text-sm font-medium mb-3">{t('create.addPhoto')}</span>
+                <div className="flex gap-3">
+                  <button onClick={() => encounterCameraInputRef.current?.click()} className="flex items-center gap-2 bg-white dark:bg-gray-700 px-4 py-2 rounded-full shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200">
+                    <Camera size={18} /> {t('photo.camera')}
+                  </button>
+                  <button onClick={() => encounterPhotoInputRef.current?.click()} className="flex items-center gap-2 bg-white dark:bg-gray-700 px-4 py-2 rounded-full shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200">
+                    <ImageIcon size={18} /> {t('photo.gallery')}
+                  </button>
+                </div>
+                <span className="text-gray-400 text-xs mt-3">{t('create.exifNote')}</span>
+              </>
+            )}
+         </div>
+
+         <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('create.titleLabel')}</label>
+              <input
+                type="text"
+                value={newEncounterTitle}
+                onChange={(e) => { setNewEncounterTitle(e.target.value); setComposerError(null); }}
+                placeholder={t('create.titlePlaceholder')}
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 focus:ring-2 focus:ring-rose-500 outline-none bg-gray-50 dark:bg-gray-800 text-lg"
+              />
+            </div>
+
+             <div>
+               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('create.tags')}</label>
+               <div className="flex flex-wrap gap-2">
+                 {AVAILABLE_TAGS.map(tag => (
+                   <button
+                     key={tag}
+                     onClick={() => toggleTagSelection(tag)}
+                     className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${
+                       newEncounterTags.includes(tag)
+                         ? 'bg-rose-500 text-white border-rose-500'
+                         : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-700'
+                     }`}
+                   >
+                     {t(`tag.${tag}`)}
+                   </button>
+                 ))}
+               </div>
+             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('create.when')}</label>
+              <input
+                type="datetime-local"
+                value={toDateTimeLocalValue(newEncounterHappenedAt)}
+                max={toDateTimeLocalValue(Date.now())}
+                onChange={(e) => e.target.value && setNewEncounterHappenedAt(new Date(e.target.value).getTime())}
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 focus:ring-2 focus:ring-rose-500 outline-none bg-gray-50 dark:bg-gray-800"
+              />
+              <div className="flex flex-wrap gap-2 mt-2">
+                {TIME_TOLERANCE_OPTIONS.map(minutes => (
+                  <button
+                    key={minutes}
+                    onClick={() => setNewEncounterTolerance(minutes)}
+                    className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${
+                      newEncounterTolerance === minutes
+                        ? 'bg-rose-500 text-white border-rose-500'
+                        : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    ± {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('create.what')}</label>
+              <textarea
+                value={newEncounterDesc}
+                onChange={(e) => { setNewEncounterDesc(e.target.value); setComposerError(null); }}
+                placeholder={t('create.descriptionPlaceholder')}
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 focus:ring-2 focus:ring-rose-500 outline-none bg-gray-50 dark:bg-gray-800 h-32 resize-none"
+              />
+            </div>
+         </div>
+
+         {editing && <EditHistory encounterId={editing.id} />}
+      </div>
+
+      <div className="p-4 border-t border-gray-100 dark:border-gray-800">
+         {composerError && (
+           <p className="text-xs text-red-500 font-medium mb-3 flex items-center gap-1">
+             <AlertTriangle size={12} /> {composerError}
+           </p>
+         )}
+         {editing && content && (
+           <p className="text-xs text-gray-400 font-medium mb-3">
+             {t(!hasChanges ? 'edit.noChanges' : isMaterialEdit(editing, content) ? 'edit.materialHint' : 'edit.quietHint')}
+           </p>
+         )}
+         <button
+           onClick={handleCreateEncounter}
+           disabled={!newEncounterPlace || !newEncounterTitle || !newEncounterDesc || !hasChanges || isModerating}
+           className="w-full bg-rose-600 text-white font-bold py-4 rounded-xl shadow-lg shadow-rose-200 dark:shadow-none active:scale-95 transition-transform disabled:opacity-50"
+         >
+           {t(editing ? 'edit.save' : 'create.publish')}
+         </button>
+      </div>
+    </div>
+  );
+};
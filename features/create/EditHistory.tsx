@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { BellRing, History } from 'lucide-react';
+import { EncounterVersion } from '../../types';
+import { encounterRepository } from '../../services/encounterRepository';
+import { getEncounterChanges } from '../../utils/encounterEdits';
+import { useI18n } from '../../i18n';
+
+// Published states of a post, newest first, each with what changed from the one before
+export const EditHistory: React.FC<{ encounterId: string }> = ({ encounterId }) => {
+  const { t, locale } = useI18n();
+  const [versions, setVersions] = useState<EncounterVersion[]>([]);
+
+  useEffect(() => {
+    encounterRepository.fetchEncounterVersions(encounterId).then(setVersions);
+  }, [encounterId]);
+
+  // A post that was never edited has only its first version: nothing to show
+  if (versions.length < 2) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+        <History size={16} /> {t('edit.history')}
+      </h3>
+      {versions.map((version, index) => {
+        const previous = versions[index + 1];
+        return (
+          <div key={version.version} className="bg-gray-50 dark:bg-gray-800 rounded-xl p-3 text-sm">
+            <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+              <span className="font-bold">{t('edit.version', { version: version.version })}</span>
+              <span>{new Date(version.timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })}</span>
+              {version.material && (
+                <span className="ml-auto flex items-center gap-1 text-rose-500 font-bold">
+                  <BellRing size={12} /> {t('edit.announced')}
+                </span>
+              )}
+            </div>
+            <p className="font-bold text-gray-800 dark:text-gray-100">{version.title}</p>
+            <p className="text-gray-600 dark:text-gray-300 line-clamp-2">{version.description}</p>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {previous ? getEncounterChanges(previous, version).map(change => (
+                <span key={change} className="text-[10px] uppercase font-bold text-blue-600 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 px-2 py-0.5 rounded-md">
+                  {t(`edit.change.${change}`)}
+                </span>
+              )) : (
+                <span className="text-[10px] uppercase font-bold text-gray-500 bg-gray-100 dark:bg-gray-700 dark:text-gray-300 px-2 py-0.5 rounded-md">
+                  {t('edit.original')}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, CircleMarker, Polygon, Polyline, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { MapPin, Pentagon, Route, Search, Trash2, Undo2 } from 'lucide-react';
+import { EncounterPlace, EncounterShape, Location, Venue } from '../../types';
+import { getShapeAnchor, getShapeRadiusMeters, isValidShape, MAX_SHAPE_POINTS, MAX_SHAPE_RADIUS_METERS } from '../../utils/geo';
+import * as geocodingService from '../../services/geocodingService';
+import { showToast, useAppState } from '../../store';
+import { useI18n } from '../../i18n';
+import { createIcon, ICON_COLORS } from '../map/icons';
+
+export type LocationMode = 'point' | 'route' | 'area';
+
+const MODES: { mode: LocationMode; icon: typeof MapPin }[] = [
+  { mode: 'point', icon: MapPin },
+  { mode: 'route', icon: Route },
+  { mode: 'area', icon: Pentagon }
+];
+
+const pinIcon = createIcon(ICON_COLORS.MINE);
+
+// Points a route or area still needs before it can be published
+const getMissingPoints = (mode: LocationMode, points: Location[]): number =>
+  mode === 'point' ? 0 : Math.max(0, (mode === 'route' ? 2 : 3) - points.length);
+
+const MapClicks: React.FC<{ onClick: (location: Location) => void }> = ({ onClick }) => {
+  useMapEvents({ click: e => onClick({ lat: e.latlng.lat, lng: e.latlng.lng }) });
+  return null;
+};
+
+// Where the encounter happened: a pin to drag, or a route or area drawn by tapping the map, plus a place search
+// to get there. Reports the place once it's complete, null while a route or area is missing points.
+export const LocationEditor: React.FC<{
+  initial: EncounterPlace;
+  onChange: (place: EncounterPlace | null) => void;
+}> = ({ initial, onChange }) => {
+  const { t } = useI18n();
+  const darkMode = useAppState(s => s.ui.darkMode);
+  const [mode, setMode] = useState<LocationMode>(initial.shape?.type ?? 'point');
+  const [pin, setPin] = useState<Location>(initial.location);
+  const [points, setPoints] = useState<Location[]>(initial.shape?.points ?? []);
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Venue[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const mapRef = useRef<L.Map | null>(null);
+
+  const report = (nextMode: LocationMode, nextPin: Location, nextPoints: Location[]) => {
+    if (nextMode === 'point') {
+      onChange({ location: nextPin });
+      return;
+    }
+    const shape: EncounterShape = { type: nextMode, points: nextPoints };
+    onChange(isValidShape(shape) ? { location: getShapeAnchor(shape), shape } : null);
+  };
+
+  const handleModeChange = (nextMode: LocationMode) => {
+    if (nextMode === mode) return;
+    setMode(nextMode);
+    setPoints([]);
+    report(nextMode, pin, []);
+  };
+
+  const movePin = (location: Location) => {
+    setPin(location);
+    report('point', location, points);
+  };
+
+  // Every point must stay close to the shape's pin, see MAX_SHAPE_RADIUS_METERS
+  const addPoint = (location: Location) => {
+    if (points.length >= MAX_SHAPE_POINTS) {
+      showToast(t('location.tooManyPoints', { count: MAX_SHAPE_POINTS }), 'error');
+      return;
+    }
+    const nextPoints = [...points, location];
+    const shape: EncounterShape = { type: mode as EncounterShape['type'], points: nextPoints };
+    if (nextPoints.length > 1 && getShapeRadiusMeters({ location: getShapeAnchor(shape), shape }) > MAX_SHAPE_RADIUS_METERS) {
+      showToast(t('location.tooFar', { count: MAX_SHAPE_RADIUS_METERS * 2 / 1000 }), 'error');
+      return;
+    }
+    setPoints(nextPoints);
+    report(mode, pin, nextPoints);
+  };
+
+  const handleMapClick = (location: Location) => {
+    if (mode === 'point') movePin(location);
+    else addPoint(location);
+  };
+
+  const handleUndo = () => {
+    const nextPoints = points.slice(0, -1);
+    setPoints(nextPoints);
+    report(mode, pin, nextPoints);
+  };
+
+  const handleClear = () => {
+    setPoints([]);
+    report(mode, pin, []);
+  };
+
+  const handleSearch = async () => {
+    if (!searchQuery.trim()) return;
+    setIsSearching(true);
+    const results = await geocodingService.searchPlaces(searchQuery);
+    setIsSearching(false);
+    if (results) setSearchResults(results);
+    else showToast(t('toast.searchFailed'), 'error');
+  };
+
+  // A pin goes straight to the place; routes and areas are drawn there afterwards
+  const handleSelectResult = (result: Venue) => {
+    mapRef.current?.flyTo([result.location.lat, result.location.lng], 17);
+    if (mode === 'point') movePin(result.location);
+    setSearchResults([]);
+    setSearchQuery(result.name);
+  };
+
+  const positions = points.map(p => [p.lat, p.lng] as [number, number]);
+  const pathOptions = { color: ICON_COLORS.MINE, weight: 4 };
+  const missingPoints = getMissingPoints(mode, points);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {MODES.map(({ mode: m, icon: Icon }) => (
+          <button
+            key={m}
+            onClick={() => handleModeChange(m)}
+            className={`flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-xl text-xs font-bold border transition-colors ${
+              mode === m
+                ? 'bg-rose-500 text-white border-rose-500'
+                : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-700'
+            }`}
+          >
+            <Icon size={14} /> {t(`location.mode.${m}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <input
+          type="text"
+          placeholder={t('map.searchPlaceholder')}
+          value={searchQuery}
+          onChange={e => setSearchQuery(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSearch()}
+          className="w-full bg-gray-100 dark:bg-gray-800 p-3 rounded-xl pl-10 outline-none focus:ring-2 focus:ring-rose-200 text-sm"
+        />
+        <Search className="absolute left-3 top-3.5 text-gray-400" size={16} />
+        {isSearching && <div className="absolute right-3 top-3.5 animate-spin w-4 h-4 border-2 border-rose-500 border-t-transparent rounded-full"></div>}
+        {searchResults.length > 0 && (
+          <ul className="absolute left-0 right-0 mt-1 z-[500] bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-xl shadow-lg max-h-48 overflow-y-auto">
+            {searchResults.map((result, idx) => (
+              <li
+                key={idx}
+                onClick={() => handleSelectResult(result)}
+                className="p-3 hover:bg-gray-50 dark:hover:bg-gray-700 border-b border-gray-50 dark:border-gray-700 last:border-0 cursor-pointer text-sm"
+              >
+                {result.address ?? result.name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="h-64 rounded-2xl overflow-hidden border border-gray-200 dark:border-gray-700">
+        <MapContainer
+          ref={mapRef}
+          center={[pin.lat, pin.lng]}
+          zoom={16}
+          zoomControl={false}
+          attributionControl={false}
+          className="h-full w-full"
+        >
+          <TileLayer
+            url={darkMode
+                ? "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+                : "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"}
+            crossOrigin={true}
+          />
+          <MapClicks onClick={handleMapClick} />
+          {mode === 'point' && (
+            <Marker
+              position={[pin.lat, pin.lng]}
+              icon={pinIcon}
+              draggable={true}
+              eventHandlers={{
+                dragend: e => {
+                  const { lat, lng } = (e.target as L.Marker).getLatLng();
+                  movePin({ lat, lng });
+                }
+              }}
+            />
+          )}
+          {mode === 'route' && positions.length > 1 && <Polyline positions={positions} pathOptions={pathOptions} />}
+          {mode === 'area' && positions.length > 2 && <Polygon positions={positions} pathOptions={{ ...pathOptions, fillOpacity: 0.2 }} />}
+          {mode !== 'point' && positions.map((position, idx) => (
+            <CircleMarker key={idx} center={position} radius={5} pathOptions={{ color: 'white', weight: 2, fillColor: ICON_COLORS.MINE, fillOpacity: 1 }} />
+          ))}
+        </MapContainer>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <p className="flex-1 text-xs text-gray-500 dark:text-gray-400">
+          {mode === 'point'
+            ? t('location.pointHint')
+            : missingPoints > 0 ? t(`location.${mode}Hint`) : t('location.shapeReady', { count: points.length })}
+        </p>
+        {mode !== 'point' && points.length > 0 && (
+          <>
+            <button onClick={handleUndo} aria-label={t('location.undo')} className="p-2 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+              <Undo2 size={16} />
+            </button>
+            <button onClick={handleClear} aria-label={t('location.clear')} className="p-2 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+              <Trash2 size={16} />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Search, X } from 'lucide-react';
+import { Location, Venue } from '../../types';
+import * as geocodingService from '../../services/geocodingService';
+import { VenueIcon } from '../../components/VenueIcon';
+import { showToast } from '../../store';
+import { useI18n } from '../../i18n';
+
+// Optional venue or transit line of a post: suggestions at the location (reverse geocoding) or a search by name
+export const VenuePicker: React.FC<{
+  location: Location;
+  venue?: Venue;
+  onChange: (venue: Venue | undefined) => void;
+}> = ({ location, venue, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<Venue[] | null>(null); // null while loading
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Venue[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Only while open, so moving the pin around doesn't hit the geocoder
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setSuggestions(null);
+    geocodingService.reverseGeocode(location).then(venues => {
+      if (!cancelled) setSuggestions(venues ?? []);
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, location.lat, location.lng]);
+
+  const handleSearch = async () => {
+    if (!searchQuery.trim()) return;
+    setIsSearching(true);
+    const results = await geocodingService.searchPlaces(searchQuery);
+    setIsSearching(false);
+    if (results) setSearchResults(results);
+    else showToast(t('toast.searchFailed'), 'error');
+  };
+
+  const handleSelect = (selected: Venue) => {
+    onChange(selected);
+    setIsOpen(false);
+    setSearchQuery('');
+    setSearchResults([]);
+  };
+
+  if (venue) {
+    return (
+      <div className="flex items-center gap-2 bg-white dark:bg-gray-800 rounded-xl px-3 py-2 border border-blue-100 dark:border-blue-800">
+        <VenueIcon venue={venue} size={16} className="text-blue-500 dark:text-blue-300 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold truncate">{venue.name}</p>
+          {venue.address && <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{venue.address}</p>}
+        </div>
+        <button onClick={() => onChange(undefined)} aria-label={t('venue.remove')} className="p-1 text-gray-400">
+          <X size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <button onClick={() => setIsOpen(true)} className="flex items-center gap-1 text-sm font-bold text-blue-600 dark:text-blue-300">
+        <Plus size={16} /> {t('venue.add')}
+      </button>
+    );
+  }
+
+  const venueList = (venues: Venue[]) => (
+    <ul className="bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-xl max-h-48 overflow-y-auto">
+      {venues.map(v => (
+        <li
+          key={v.id}
+          onClick={() => handleSelect(v)}
+          className="p-3 flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-700 border-b border-gray-50 dark:border-gray-700 last:border-0 cursor-pointer text-sm"
+        >
+          <VenueIcon venue={v} size={16} className="text-gray-400 shrink-0" />
+          <div className="min-w-0">
+            <p className="font-medium truncate">{v.name}</p>
+            {v.address && <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{v.address}</p>}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-blue-700 dark:text-blue-200">{t('venue.hint')}</p>
+        <button onClick={() => setIsOpen(false)} aria-label={t('common.cancel')} className="p-1 text-gray-400 shrink-0">
+          <X size={16} />
+        </button>
+      </div>
+
+      <p className="text-xs font-bold uppercase text-gray-400">{t('venue.nearby')}</p>
+      {suggestions === null ? (
+        <div className="animate-spin w-4 h-4 border-2 border-rose-500 border-t-transparent rounded-full"></div>
+      ) : suggestions.length > 0 ? (
+        venueList(suggestions)
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t('venue.noneNearby')}</p>
+      )}
+
+      <div className="relative">
+        <input
+          type="text"
+          placeholder={t('venue.searchPlaceholder')}
+          value={searchQuery}
+          onChange={e => setSearchQuery(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSearch()}
+          className="w-full bg-white dark:bg-gray-800 p-3 rounded-xl pl-10 outline-none focus:ring-2 focus:ring-rose-200 text-sm"
+        />
+        <Search className="absolute left-3 top-3.5 text-gray-400" size={16} />
+        {isSearching && <div className="absolute right-3 top-3.5 animate-spin w-4 h-4 border-2 border-rose-500 border-t-transparent rounded-full"></div>}
+      </div>
+      {searchResults.length > 0 && venueList(searchResults)}
+    </div>
+  );
+};
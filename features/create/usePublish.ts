@@ -0,0 +1,95 @@
+import { Encounter, EncounterContent, EncounterPlace, Venue } from '../../types';
+import { encounterRepository } from '../../services/encounterRepository';
+import { DEFAULT_TIME_TOLERANCE_MINUTES } from '../../utils/matching';
+import { getExpiresAt, canPublish } from '../../utils/encounterPolicy';
+import { isMaterialEdit } from '../../utils/encounterEdits';
+import { isPlaceAtVenue } from '../../utils/geo';
+import { dispatch, getState, showToast } from '../../store';
+import { navigate, getRoute } from '../../utils/router';
+import { useI18n } from '../../i18n';
+import { useOutbox } from '../sync/useOutbox';
+import { useModeration } from '../moderation/useModeration';
+
+// Publishing from the create view and the quick publish gesture, and saving edits
+export const usePublish = () => {
+  const { t } = useI18n();
+  const { runOutboxAction } = useOutbox();
+  const { withModeration } = useModeration();
+
+  // Within the active post quota; tells the user otherwise
+  const checkQuota = () => {
+    const { mine, policy } = getState().encounters;
+    if (canPublish(mine, policy)) return true;
+    showToast(t('toast.postLimit', { count: policy.maxActivePosts }), 'error');
+    return false;
+  };
+
+  const publish = async (encounter: Encounter, publishedMessage: string) => {
+    dispatch({ type: 'encounters/published', encounter });
+    const result = await runOutboxAction({ kind: 'encounter', encounter });
+    if (result.status === 'synced') showToast(publishedMessage, 'success');
+    if (result.status === 'queued') showToast(t('toast.publishQueued'), 'info');
+  };
+
+  const quickPublish = (description: string, place: EncounterPlace, venue?: Venue) => {
+    const { session, encounters } = getState();
+    const userProfile = session.profile;
+    const newEncounter: Encounter = {
+      id: crypto.randomUUID(),
+      userId: userProfile.id,
+      userProfile: userProfile,
+      title: t('quickPublish.title'),
+      description,
+      location: place.location,
+      shape: place.shape,
+      venue,
+      timestamp: Date.now(),
+      happenedAt: Date.now(), // Quick publish means it just happened
+      expiresAt: getExpiresAt(Date.now(), encounters.policy),
+      timeToleranceMinutes: DEFAULT_TIME_TOLERANCE_MINUTES,
+      image: userProfile.images[0], // Cover image
+      distance: 0,
+      tags: ['eye_contact']
+    };
+
+    publish(newEncounter, t('toast.quickPublished'));
+    navigate({ name: 'explore' }, { replace: getRoute().name === 'create' }); // Leave the create view if triggered from there
+  };
+
+  // At the map's crosshair, unless the create view passes the place and venue picked there
+  const handleQuickPublish = (place?: EncounterPlace, venue?: Venue) => {
+    const { mapCenter } = getState().location;
+    const target = place ?? (mapCenter && { location: mapCenter });
+    if (!target || !checkQuota()) return;
+    if (venue && !isPlaceAtVenue(target, venue)) {
+      showToast(t('venue.tooFar'), 'error');
+      return;
+    }
+    const description = getState().session.profile.quickMessage || t('quickPublish.defaultMessage');
+    withModeration(description, 'encounter', () => quickPublish(description, target, venue), message => showToast(message, 'error'));
+  };
+
+  // Edits don't go through the outbox: the server writes the edit history and tells the people who liked
+  // the post, so they need a connection. Shown right away and undone if the server refuses.
+  const publishEdit = async (before: Encounter, content: EncounterContent) => {
+    if (!getState().sync.isOnline) {
+      showToast(t('toast.editOffline'), 'error');
+      return;
+    }
+    const material = isMaterialEdit(before, content);
+    const edited: Encounter = { ...before, ...content, editedAt: material ? Date.now() : before.editedAt };
+    dispatch({ type: 'encounters/updated', encounter: edited });
+    navigate({ name: 'profile' }, { replace: true });
+
+    const saved = await encounterRepository.updateEncounter(edited);
+    if (!saved) {
+      dispatch({ type: 'encounters/updated', encounter: before });
+      showToast(t('toast.editFailed'), 'error');
+      return;
+    }
+    const hasLikers = getState().matches.likes.some(l => l.encounterId === before.id && l.likerId !== before.userId);
+    showToast(t(material && hasLikers ? 'toast.editAnnounced' : 'toast.editSaved'), 'success');
+  };
+
+  return { checkQuota, publish, publishEdit, handleQuickPublish };
+};
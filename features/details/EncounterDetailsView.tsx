@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ArrowLeft, Ban, Check, CloudOff, Eye, Flag, Heart, MessageCircle, Pencil, X } from 'lucide-react';
+import { Encounter, EncounterStatus } from '../../types';
+import { StoredImage } from '../../components/StoredImage';
+import { encounterRepository } from '../../services/encounterRepository';
+import { generateInitialMessage } from '../../services/geminiService';
+import * as likeService from '../../services/likeService';
+import * as chatService from '../../services/chatService';
+import { deriveEncounterStatus } from '../../utils/encounterStatus';
+import { dispatch, getState, showToast, useAppState } from '../../store';
+import { navigate, back } from '../../utils/router';
+import { useI18n } from '../../i18n';
+import { useOutbox } from '../sync/useOutbox';
+import { useOpenChat } from '../chat/useOpenChat';
+
+export const EncounterDetailsView: React.FC<{ encounterId: string }> = ({ encounterId }) => {
+  const { t, locale } = useI18n();
+  const userId = useAppState(s => s.session.profile.id);
+  const likeState = useAppState(s => s.matches);
+  const hiddenEncounterIds = useAppState(s => s.encounters.hiddenIds);
+  const selectedEncounter = useAppState(s =>
+    s.encounters.nearby.find(e => e.id === encounterId) ??
+    s.encounters.mine.find(e => e.id === encounterId) ??
+    (s.encounters.linked?.id === encounterId ? s.encounters.linked : null));
+  const { runOutboxAction } = useOutbox();
+  const openChat = useOpenChat();
+
+  const [showUnmatchDialog, setShowUnmatchDialog] = useState(false);
+
+  // A link to a post outside the loaded area (or from a fresh load) fetches it on its own
+  useEffect(() => {
+    if (selectedEncounter) return;
+    encounterRepository.fetchEncounter(userId, encounterId).then(encounter => {
+      if (encounter && !getState().encounters.blockedUserIds.includes(encounter.userId)) {
+        dispatch({ type: 'encounters/linkedLoaded', encounter });
+      } else {
+        showToast(t('toast.encounterNotFound'), 'error');
+        navigate({ name: 'explore' }, { replace: true });
+      }
+    });
+  }, [encounterId, selectedEncounter?.id]);
+
+  if (!selectedEncounter) return null;
+
+  const handleConnect = async (encounter: Encounter) => {
+    // The server decides whether this like completes a match; offline it waits in the outbox
+    const result = await runOutboxAction({ kind: 'like', encounter });
+    const match = result.status === 'synced' ? result.match : null;
+
+    if (result.status === 'queued') {
+        showToast(t('toast.likeQueued'), 'info');
+    } else if (match) {
+       // The conversation header is created by SessionSync; suggest an opener to send
+       dispatch({ type: 'ui/matchShown', match: { encounterId: encounter.id, partner: encounter.userProfile } });
+       dispatch({ type: 'chats/draftChanged', matchId: match.id, text: await generateInitialMessage(encounter.title, locale) });
+    } else {
+        showToast(t('toast.liked'), 'success');
+    }
+  };
+
+  const handleReject = () => {
+      dispatch({ type: 'encounters/hidden', id: selectedEncounter.id });
+      encounterRepository.hideEncounter(userId, selectedEncounter.id);
+      back();
+      showToast(t('toast.encounterHidden'), 'info');
+  };
+
+  const handleUnmatch = () => {
+      // Drop the match and the likes in both directions so the encounter goes back to PENDING
+      const partnerId = selectedEncounter.userId;
+      getState().chats.list.filter(c => c.partnerId === partnerId).forEach(c => chatService.deleteChat(userId, c.encounterId));
+      dispatch({ type: 'matches/unmatched', userId, partnerId });
+      likeService.unmatch(partnerId);
+      setShowUnmatchDialog(false);
+      back();
+      showToast(t('toast.unmatched'), 'info');
+  };
+
+  const selectedStatus = deriveEncounterStatus(selectedEncounter, userId, likeState, hiddenEncounterIds);
+  const isMatched = selectedStatus === EncounterStatus.MATCHED;
+  const isLiked = selectedStatus === EncounterStatus.LIKED_BY_ME;
+  const isLikePending = likeState.likes.some(l => l.likerId === userId && l.encounterId === selectedEncounter.id && l.syncPending);
+  const displayImage = selectedEncounter.image || selectedEncounter.userProfile.images[0];
+  const openGallery = (images: string[]) => dispatch({ type: 'ui/galleryOpened', images });
+
+  return (
+    <div className="h-full bg-white dark:bg-gray-900 flex flex-col relative">
+       {/* ... Details View ... */}
+       {showUnmatchDialog && (
+           <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 p-6 animate-in fade-in">
+               <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-2xl max-w-sm w-full">
+                   <div className="flex flex-col items-center text-center mb-6">
+                       <div className="bg-red-50 dark:bg-red-900/30 p-4 rounded-full mb-4">
+                           <AlertTriangle className="text-red-500 w-8 h-8" />
+                       </div>
+                       <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{t('unmatch.title')}</h3>
+                       <p className="text-gray-500 dark:text-gray-400 text-sm">
+                           {t('unmatch.description')}
+                       </p>
+                   </div>
+                   <div className="flex gap-3">
+                       <button
+                         onClick={() => setShowUnmatchDialog(false)}
+                         className="flex-1 py-3 text-gray-700 dark:text-gray-300 font-bold bg-gray-100 dark:bg-gray-700 rounded-xl hover:bg-gray-200"
+                       >
+                           {t('common.back')}
+                       </button>
+                       <button
+                         onClick={handleUnmatch}
+                         className="flex-1 py-3 text-white font-bold bg-red-500 rounded-xl shadow-lg"
+                       >
+                           {t('unmatch.confirm')}
+                       </button>
+                   </div>
+               </div>
+           </div>
+       )}
+
+       {/* Image Section */}
+       <div className={`relative h-2/5`}>
+           <StoredImage
+             src={displayImage}
+             className="w-full h-full object-cover cursor-pointer"
+             alt="Encounter"
+             onClick={() => selectedEncounter.image && openGallery([selectedEncounter.image])}
+           />
+           <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent"></div>
+
+          <button
+            onClick={() => back({ name: 'explore' })}
+            className="absolute top-4 left-4 p-2 bg-black/20 backdrop-blur-md rounded-full text-white hover:bg-black/30"
+          >
+            <ArrowLeft size={24} />
+          </button>
+
+          <div className="absolute bottom-8 left-6 right-6 pb-2">
+              <div className="flex gap-2 mb-2">
+                  {selectedEncounter.tags.map(tag => (
+                      <span key={tag} className="px-2 py-0.5 bg-rose-600/80 backdrop-blur-md rounded text-[10px] font-bold text-white uppercase">{t(`tag.${tag}`)}</span>
+                  ))}
+              </div>
+              <h1 className="text-3xl font-bold text-white mb-1 shadow-sm leading-tight">{selectedEncounter.title}</h1>
+          </div>
+       </div>
+
+       {/* Content Section */}
+       <div className="flex-1 overflow-y-auto bg-white dark:bg-gray-900 rounded-t-3xl -mt-6 relative z-10 px-6 pt-8 pb-24 no-scrollbar">
+
+          {/* User Profile Mini */}
+          <div className="flex items-center justify-between mb-6 pb-6 border-b border-gray-100 dark:border-gray-800">
+             <div className="flex items-center">
+                 <div className="relative">
+                   <StoredImage
+                     src={selectedEncounter.userProfile.images[0]}
+                     className="w-16 h-16 rounded-full object-cover border-4 border-white dark:border-gray-800 shadow-md"
+                     alt="Profile"
+                   />
+                 </div>
+                 <div className="ml-4">
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white">{selectedEncounter.userProfile.name}</h3>
+                    <button
+                      className="text-rose-600 dark:text-rose-400 text-sm font-semibold flex items-center hover:underline"
+                      onClick={() => {}}
+                    >
+                       <Eye size={14} className="mr-1" /> {t('details.viewProfile')}
+                    </button>
+                 </div>
+             </div>
+             <div className="flex gap-2">
+                 <button
+                   onClick={() => dispatch({ type: 'ui/reportOpened', target: {
+                     userId: selectedEncounter.userId,
+                     userName: selectedEncounter.userProfile.name,
+                     encounterId: selectedEncounter.id
+                   } })}
+                   className="p-2 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-500 hover:text-red-500"
+                   title={t('common.report')}
+                 >
+                     <Flag size={18} />
+                 </button>
+                 <button
+                   onClick={() => dispatch({ type: 'ui/blockOpened', target: { userId: selectedEncounter.userId, userName: selectedEncounter.userProfile.name } })}
+                   className="p-2 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-500 hover:text-red-500"
+                   title={t('common.block')}
+                 >
+                     <Ban size={18} />
+                 </button>
+             </div>
+          </div>
+
+          <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-2">{t('details.story')}</h4>
+          <p className="text-gray-700 dark:text-gray-300 leading-relaxed text-lg mb-8">
+             {selectedEncounter.description}
+          </p>
+          {selectedEncounter.editedAt && (
+            <p className="-mt-6 mb-8 text-xs text-gray-400 flex items-center gap-1">
+              <Pencil size={12} /> {t('details.editedOn', { date: new Date(selectedEncounter.editedAt).toLocaleDateString(locale) })}
+            </p>
+          )}
+
+          <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">{t('details.profilePhotos')}</h4>
+          <div className="grid grid-cols-2 gap-3 mb-8">
+             {selectedEncounter.userProfile.images.map((img, idx) => (
+                <StoredImage
+                  key={idx}
+                  src={img}
+                  className="rounded-xl w-full h-40 object-cover cursor-pointer hover:opacity-90 transition-opacity"
+                  alt={`Gallery ${idx}`}
+                  onClick={() => openGallery(selectedEncounter.userProfile.images)}
+                />
+             ))}
+          </div>
+       </div>
+
+       {/* Actions */}
+       <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-white dark:from-gray-900 via-white dark:via-gray-900 to-transparent flex items-center justify-center gap-4 pb-8 z-20">
+          {isMatched ? (
+             <div className="flex w-full gap-4 items-center justify-center">
+                 <button
+                   onClick={() => setShowUnmatchDialog(true)}
+                   className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-400 w-14 h-14 rounded-full shadow flex items-center justify-center hover:bg-red-50 hover:text-red-500"
+                 >
+                     <X size={24} />
+                 </button>
+                 <button
+                   onClick={() => openChat(selectedEncounter.id)}
+                   className="bg-gradient-to-r from-green-500 to-emerald-600 text-white w-20 h-20 rounded-full shadow-xl shadow-green-200 dark:shadow-none flex items-center justify-center active:scale-95 transition-all"
+                 >
+                   <MessageCircle size={36} className="fill-white/20" />
+                 </button>
+             </div>
+          ) : isLiked ? (
+             <div className="text-gray-500 font-bold flex items-center gap-2 bg-gray-100 dark:bg-gray-800 dark:text-gray-300 px-6 py-3 rounded-full">
+                {isLikePending ? <><CloudOff size={20} /> {t('details.likePending')}</> : <><Check size={20} /> {t('details.likeSent')}</>}
+             </div>
+          ) : (
+             <>
+               <button
+                 onClick={handleReject}
+                 aria-label={t('details.pass')}
+                 className="w-16 h-16 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-red-500 rounded-full shadow-lg flex items-center justify-center hover:bg-red-50 dark:hover:bg-gray-700 active:scale-90 transition-transform"
+               >
+                 <X size={32} />
+               </button>
+
+               <button
+                 onClick={() => handleConnect(selectedEncounter)}
+                 aria-label={t('details.like')}
+                 className="w-16 h-16 bg-gradient-to-tr from-rose-500 to-pink-600 text-white rounded-full shadow-xl shadow-rose-200 dark:shadow-none flex items-center justify-center hover:opacity-90 active:scale-90 transition-transform"
+               >
+                 <Heart size={32} className="fill-white" />
+               </button>
+             </>
+          )}
+       </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import { EncounterView } from '../../types';
+import { getActiveEncounters } from '../../utils/encounterPolicy';
+import { getVisibleEncounters } from '../../utils/visibility';
+import { createCandidateIndex } from '../../utils/matching';
+import { useAppState } from '../../store';
+
+// Archived posts keep their matches and chats but no longer look for candidates
+export const useActiveMyEncounters = () => {
+  const myEncounters = useAppState(s => s.encounters.mine);
+  const now = useAppState(s => s.ui.now);
+  return useMemo(() => getActiveEncounters(myEncounters, now), [myEncounters, now]);
+};
+
+// Other people's posts that coincide with one of my active posts (see utils/visibility.ts)
+export const useVisibleEncounters = () => {
+  const activeMyEncounters = useActiveMyEncounters();
+  const nearbyEncounters = useAppState(s => s.encounters.nearby);
+  const now = useAppState(s => s.ui.now);
+  const matchedLocations = useAppState(s => s.encounters.matchedLocations);
+  const proximity = useAppState(s => s.encounters.proximity);
+  const blockedUserIds = useAppState(s => s.encounters.blockedUserIds);
+  const hiddenEncounterIds = useAppState(s => s.encounters.hiddenIds);
+  const showHidden = useAppState(s => s.ui.showHidden);
+  const viewer = useAppState(s => s.session.profile);
+  const likeState = useAppState(s => s.matches);
+
+  const visibleEncounters = useMemo(() => getVisibleEncounters({
+    viewer,
+    myActiveEncounters: activeMyEncounters,
+    nearby: nearbyEncounters,
+    likeState,
+    hiddenIds: hiddenEncounterIds,
+    blockedUserIds,
+    matchedLocations,
+    proximity,
+    showHidden,
+    now
+  }), [nearbyEncounters, activeMyEncounters, now, matchedLocations, proximity, blockedUserIds, showHidden, viewer, likeState, hiddenEncounterIds]);
+
+  const visibleIndex = useMemo(() => createCandidateIndex<EncounterView>(visibleEncounters), [visibleEncounters]);
+
+  return { activeMyEncounters, visibleEncounters, visibleIndex, proximity };
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo } from 'react';
+import { ArrowLeft, ChevronRight, MapPin, Tag, Users } from 'lucide-react';
+import { AVAILABLE_TAGS } from '../../types';
+import { findCandidates } from '../../utils/matching';
+import { getExploreList, ExploreMode } from '../../utils/visibility';
+import { EncounterCard } from '../../components/EncounterCard';
+import { StoredImage } from '../../components/StoredImage';
+import { dispatch, showToast, useAppState } from '../../store';
+import { navigate, back } from '../../utils/router';
+import { useI18n } from '../../i18n';
+import { useVisibleEncounters } from '../encounters/useVisibleEncounters';
+
+interface Props {
+  myEncounterId?: string; // Drilldown into one of my posts
+  all?: boolean; // Every visible post instead of grouped by mine
+}
+
+export const ExploreView: React.FC<Props> = ({ myEncounterId, all }) => {
+  const { t } = useI18n();
+  const myEncounters = useAppState(s => s.encounters.mine);
+  const viewer = useAppState(s => s.session.profile);
+  const filterTags = useAppState(s => s.ui.filterTags);
+  const { activeMyEncounters, visibleEncounters, visibleIndex, proximity } = useVisibleEncounters();
+
+  const exploreMode: ExploreMode = myEncounterId ? 'drilldown' : all ? 'list' : 'grouped';
+
+  const exploreList = useMemo(
+    () => getExploreList(exploreMode, { myEncounterId, viewer, myEncounters, visibleEncounters, visibleIndex, proximity, filterTags }),
+    [visibleEncounters, visibleIndex, proximity, viewer, myEncounters, exploreMode, myEncounterId, filterTags]
+  );
+
+  // Notification for Drilldown
+  useEffect(() => {
+      if(exploreMode === 'drilldown' && myEncounterId) {
+          const count = exploreList.length;
+          if(count > 0) {
+              showToast(t('toast.peopleFound', { count }), 'info');
+          }
+      }
+  }, [exploreMode, myEncounterId, exploreList?.length]);
+
+  return (
+   <div className="absolute inset-0 bg-gray-50 dark:bg-gray-900 flex flex-col overflow-hidden">
+     {/* Header */}
+     <header className="px-6 py-4 bg-white dark:bg-gray-900 shadow-sm z-10 dark:border-b dark:border-gray-800">
+       <div className="flex justify-between items-center mb-4">
+          {exploreMode === 'drilldown' ? (
+              <div className="flex items-center">
+                  <button onClick={() => back({ name: 'explore' })} className="mr-3 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800">
+                      <ArrowLeft size={20} className="dark:text-white" />
+                  </button>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">{t('explore.matches')}</h1>
+              </div>
+          ) : (
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('explore.title')}</h1>
+          )}
+
+          {exploreMode !== 'drilldown' && (
+              <button
+                onClick={() => navigate({ name: 'explore', all: exploreMode === 'grouped' }, { replace: true })}
+                className={`text-xs font-bold px-3 py-1.5 rounded-full transition-colors border ${
+                    exploreMode === 'grouped'
+                    ? 'bg-rose-600 text-white border-rose-600'
+                    : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                {t(exploreMode === 'grouped' ? 'explore.byPost' : 'explore.all')}
+              </button>
+          )}
+       </div>
+
+       {/* Tags */}
+       {exploreMode === 'list' && (
+        <div className="flex gap-2 overflow-x-auto no-scrollbar pb-2">
+            {AVAILABLE_TAGS.map(tag => (
+                <button
+                    key={tag}
+                    onClick={() => dispatch({ type: 'ui/filterTagToggled', tag })}
+                    className={`whitespace-nowrap px-3 py-1 rounded-full text-xs font-bold border ${
+                        filterTags.includes(tag)
+                        ? 'bg-rose-100 dark:bg-rose-900 text-rose-700 dark:text-rose-300 border-rose-200'
+                        : 'bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400 border-gray-200 dark:border-gray-700'
+                    }`}
+                >
+                    {t(`tag.${tag}`)}
+                </button>
+            ))}
+        </div>
+       )}
+     </header>
+
+     {/* Content */}
+     <div className="flex-1 overflow-y-auto p-4 no-scrollbar">
+        {exploreMode === 'grouped' && (
+            <div className="space-y-4">
+                {activeMyEncounters.length === 0 ? (
+                    <div className="text-center py-10">
+                        <MapPin size={48} className="mx-auto text-gray-300 mb-4" />
+                        <p className="text-gray-500 mb-4">{t('explore.noPosts')}</p>
+                        <button onClick={() => navigate({ name: 'create' })} className="text-rose-600 font-bold">{t('explore.createOne')}</button>
+                    </div>
+                ) : (
+                    activeMyEncounters.map(mine => {
+                        const count = findCandidates(mine, visibleIndex, proximity, viewer).length;
+
+                        return (
+                            <div
+                                key={mine.id}
+                                onClick={() => {
+                                    navigate({ name: 'explore', myEncounterId: mine.id });
+                                }}
+                                className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 border border-gray-100 dark:border-gray-700 flex items-center justify-between active:scale-95 transition-transform"
+                            >
+                                <div className="flex items-center gap-4">
+                                    <div className="relative w-16 h-16 rounded-xl overflow-hidden bg-gray-200 dark:bg-gray-700">
+                                        <StoredImage src={mine.image || viewer.images[0]} className="w-full h-full object-cover" alt="Post" />
+                                    </div>
+                                    <div>
+                                        <h3 className="font-bold text-gray-900 dark:text-white line-clamp-1">{mine.title}</h3>
+                                        <div className="flex items-center text-rose-500 font-medium text-sm mt-1">
+                                            <Users size={16} className="mr-1" />
+                                            {t('explore.peopleNearby', { count })}
+                                        </div>
+                                    </div>
+                                </div>
+                                <ChevronRight className="text-gray-300" />
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        )}
+
+        {(exploreMode === 'list' || exploreMode === 'drilldown') && (
+            <>
+                {exploreList.length === 0 ? (
+                     <div className="text-center py-10 text-gray-400">
+                        <Tag size={40} className="mx-auto mb-2 opacity-20" />
+                        <p>{t('explore.noPeople')}</p>
+                    </div>
+                ) : (
+                    exploreList.map(encounter => (
+                        <EncounterCard
+                            key={encounter.id}
+                            encounter={encounter}
+                            status={encounter.status}
+                            onPress={() => {
+                                navigate({ name: 'encounter', id: encounter.id });
+                            }}
+                        />
+                    ))
+                )}
+            </>
+        )}
+     </div>
+   </div>
+  );
+};
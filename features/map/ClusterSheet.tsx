@@ -0,0 +1,77 @@
+import React from 'react';
+import { X, ZoomIn } from 'lucide-react';
+import { Encounter, EncounterStatus } from '../../types';
+import { EncounterCard } from '../../components/EncounterCard';
+import { navigate } from '../../utils/router';
+import { MessageKey, useI18n } from '../../i18n';
+import { ICON_COLORS, MARKER_KINDS, MarkerKind } from './icons';
+
+const KIND_LABELS: Record<MarkerKind, MessageKey> = {
+  MINE: 'map.mine',
+  POSSIBLE: 'map.possible',
+  LIKED_ME: 'map.likedMe',
+  MATCH: 'map.match'
+};
+
+export interface ClusterSheetItem {
+  encounter: Encounter;
+  kind: MarkerKind;
+  status?: EncounterStatus; // Omitted for own posts
+}
+
+// The encounters of a tapped cluster: how many of each status, and their cards, the ones that need an
+// answer first. Zooming in is still an option until the maximum zoom.
+export const ClusterSheet: React.FC<{
+  items: ClusterSheetItem[];
+  onZoomIn?: () => void;
+  onClose: () => void;
+}> = ({ items, onZoomIn, onClose }) => {
+  const { t } = useI18n();
+  const counts = MARKER_KINDS
+    .map(kind => ({ kind, count: items.filter(i => i.kind === kind).length }))
+    .filter(c => c.count > 0);
+  const sorted = [...items].sort((a, b) => MARKER_KINDS.indexOf(a.kind) - MARKER_KINDS.indexOf(b.kind));
+
+  return (
+    <div className="absolute inset-0 z-[600] flex flex-col justify-end">
+      <div className="absolute inset-0 bg-black/30 animate-in fade-in" onClick={onClose}></div>
+      <div className="relative bg-gray-50 dark:bg-gray-900 dark:text-white rounded-t-3xl shadow-2xl max-h-[70%] flex flex-col animate-in slide-in-from-bottom duration-300">
+        <div className="p-4 pb-2">
+          <div className="flex items-center gap-2 mb-3">
+            <h2 className="flex-1 text-lg font-bold">{t('map.cluster.title', { count: items.length })}</h2>
+            {onZoomIn && (
+              <button
+                onClick={onZoomIn}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white dark:bg-gray-800 text-sm font-bold text-gray-700 dark:text-gray-200 shadow-sm"
+              >
+                <ZoomIn size={16} /> {t('map.cluster.zoomIn')}
+              </button>
+            )}
+            <button onClick={onClose} aria-label={t('common.back')} className="p-1.5 text-gray-400">
+              <X size={20} />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {counts.map(({ kind, count }) => (
+              <span key={kind} className="flex items-center gap-1.5 bg-white dark:bg-gray-800 px-2.5 py-1 rounded-full text-xs font-medium shadow-sm">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: ICON_COLORS[kind] }}></span>
+                {t(KIND_LABELS[kind])} · {count}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-y-auto px-4 pt-2">
+          {sorted.map(({ encounter, kind, status }) => (
+            <EncounterCard
+              key={encounter.id}
+              encounter={encounter}
+              status={status}
+              showStatus={kind !== 'MINE'}
+              onPress={() => navigate({ name: 'encounter', id: encounter.id })}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
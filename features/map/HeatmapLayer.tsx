@@ -0,0 +1,26 @@
+import React from 'react';
+import { Marker, Pane } from 'react-leaflet';
+import L from 'leaflet';
+import { HeatCell, HEATMAP_CELL_PX } from '../../utils/geo';
+
+// Yellow for a few posts, red for the busiest spot in view
+const heatColor = (intensity: number) => `hsla(${Math.round(50 - 50 * intensity)}, 100%, 50%, ${(0.35 + 0.4 * intensity).toFixed(2)})`;
+
+// Soft spots larger than their grid square, so neighbouring squares blend into one patch
+const createHeatIcon = (cell: HeatCell) => {
+  const size = Math.round(HEATMAP_CELL_PX * (1.2 + 0.8 * cell.intensity));
+  return L.divIcon({
+    html: `<div style="width:100%;height:100%;border-radius:50%;background:radial-gradient(circle, ${heatColor(cell.intensity)} 0%, transparent 70%)"></div>`,
+    className: 'heat-cell',
+    iconSize: [size, size]
+  });
+};
+
+// Activity heatmap, in its own pane between the tiles and the shapes and markers
+export const HeatmapLayer: React.FC<{ cells: HeatCell[] }> = ({ cells }) => (
+  <Pane name="heatmap" style={{ zIndex: 350 }}>
+    {cells.map(cell => (
+      <Marker key={cell.id} pane="heatmap" position={[cell.lat, cell.lng]} icon={createHeatIcon(cell)} interactive={false} />
+    ))}
+  </Pane>
+);
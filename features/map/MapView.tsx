@@ -0,0 +1,468 @@
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Circle, Polygon, Polyline, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { ArrowLeft, Bell, Clock, Flame, Layers, Locate, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import { Encounter, EncounterStatus, Location, Venue } from '../../types';
+import { Cluster, clusterByScreenDistance, createHeatmap, spiderfy } from '../../utils/geo';
+import { deriveEncounterStatus } from '../../utils/encounterStatus';
+import { getUnreadNotificationCount } from '../../utils/notifications';
+import { getActiveEncounters } from '../../utils/encounterPolicy';
+import { getTimelineRange, isPostedInRange, TimelineSteps, TIMELINE_STEPS, TimelineUnit } from '../../utils/timeline';
+import * as geocodingService from '../../services/geocodingService';
+import { dispatch, showToast, useAppState } from '../../store';
+import { navigate } from '../../utils/router';
+import { useI18n } from '../../i18n';
+import { useVisibleEncounters } from '../encounters/useVisibleEncounters';
+import { loadArea } from './area';
+import { createClusterIcon, createIcon, ICON_COLORS, MarkerKind } from './icons';
+import { ClusterSheet } from './ClusterSheet';
+import { HeatmapLayer } from './HeatmapLayer';
+import { TimeSlider } from './TimeSlider';
+
+// --- Assets & Icons ---
+const myIcon = createIcon(ICON_COLORS.MINE);
+const possibleIcon = createIcon(ICON_COLORS.POSSIBLE);
+const likedMeIcon = createIcon(ICON_COLORS.LIKED_ME);
+const matchIcon = createIcon(ICON_COLORS.MATCH);
+const gpsIcon = createIcon('#f59e0b');
+
+const MARKER_ICONS: Record<MarkerKind, L.DivIcon> = {
+  MINE: myIcon,
+  POSSIBLE: possibleIcon,
+  LIKED_ME: likedMeIcon,
+  MATCH: matchIcon
+};
+
+// The tiles go no further; clusters still overlapping here are spiderfied instead of zoomed into
+const MAP_MAX_ZOOM = 18;
+
+// Component to handle map events internally (fixes context error)
+const MapEvents: React.FC<{ onZoom: (zoom: number) => void; onMoveEnd: () => void }> = ({ onZoom, onMoveEnd }) => {
+  const map = useMap();
+  useEffect(() => {
+    const zoomHandler = () => onZoom(map.getZoom());
+    const moveHandler = () => onMoveEnd();
+
+    map.on('zoomend', zoomHandler);
+    map.on('moveend', moveHandler);
+
+    return () => {
+      map.off('zoomend', zoomHandler);
+      map.off('moveend', moveHandler);
+    };
+  }, [map, onZoom, onMoveEnd]);
+  return null;
+};
+
+// Map Controller for specific updates if needed
+const MapController: React.FC<{ center: Location | null }> = ({ center }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (center) {
+      map.flyTo([center.lat, center.lng], map.getZoom(), { animate: true, duration: 1.5 });
+    }
+  }, [center, map]);
+  return null;
+};
+
+// The map tab. Memoized and subscribed only to what it draws, so chat, forms and other tabs
+// don't re-render the Leaflet map.
+export const MapView: React.FC = memo(() => {
+  const { t } = useI18n();
+  const location = useAppState(s => s.location.current);
+  const userId = useAppState(s => s.session.profile.id);
+  const darkMode = useAppState(s => s.ui.darkMode);
+  const showHidden = useAppState(s => s.ui.showHidden);
+  const now = useAppState(s => s.ui.now);
+  const isLoadingArea = useAppState(s => s.encounters.isLoadingArea);
+  const likeState = useAppState(s => s.matches);
+  const hiddenEncounterIds = useAppState(s => s.encounters.hiddenIds);
+  const nearbyEncounters = useAppState(s => s.encounters.nearby);
+  const blockedUserIds = useAppState(s => s.encounters.blockedUserIds);
+  const unreadNotificationCount = useAppState(s => getUnreadNotificationCount(s.notifications.list));
+  const { activeMyEncounters, visibleEncounters } = useVisibleEncounters();
+
+  const [mapZoom, setMapZoom] = useState(16);
+  const [openCluster, setOpenCluster] = useState<Cluster<Encounter> | null>(null);
+
+  // Map Filters & Search
+  const [showMapSearch, setShowMapSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Venue[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [mapFilters, setMapFilters] = useState({
+    mine: true,
+    possible: true,
+    likedMe: true,
+    match: true
+  });
+
+  // Extra layers: where posts concentrate, and which were posted in a chosen range of hours or days
+  const [mapLayers, setMapLayers] = useState({
+    heatmap: false,
+    timeline: false
+  });
+  const [timelineUnit, setTimelineUnit] = useState<TimelineUnit>('hour');
+  const [timelineSteps, setTimelineSteps] = useState<TimelineSteps>({ from: TIMELINE_STEPS.hour - 1, to: TIMELINE_STEPS.hour - 1 });
+
+  const mapRef = useRef<L.Map | null>(null);
+
+  const handleSearchStreet = async () => {
+    if (!searchQuery.trim()) return;
+    setIsSearching(true);
+    const results = await geocodingService.searchPlaces(searchQuery);
+    setIsSearching(false);
+    if (results) setSearchResults(results);
+    else showToast(t('toast.searchFailed'), 'error');
+  };
+
+  const handleSelectSearchResult = (result: Venue) => {
+    if (mapRef.current) {
+      mapRef.current.flyTo([result.location.lat, result.location.lng], 16);
+      setShowMapSearch(false);
+      setSearchResults([]);
+      setSearchQuery('');
+    }
+  };
+
+  const timeRange = useMemo(
+    () => mapLayers.timeline ? getTimelineRange(timelineUnit, timelineSteps, now) : null,
+    [mapLayers.timeline, timelineUnit, timelineSteps, now]
+  );
+
+  const handleTimelineUnitChange = (unit: TimelineUnit) => {
+    setTimelineUnit(unit);
+    setTimelineSteps({ from: TIMELINE_STEPS[unit] - 1, to: TIMELINE_STEPS[unit] - 1 });
+  };
+
+  const clusteredMarkers = useMemo(() => {
+     let markersToShow: Encounter[] = [];
+     if (mapFilters.mine) markersToShow.push(...activeMyEncounters);
+     const others = visibleEncounters.filter(e => {
+       if (e.status === EncounterStatus.MATCHED) return mapFilters.match;
+       if (e.status === EncounterStatus.LIKED_BY_THEM) return mapFilters.likedMe;
+       if (e.status === EncounterStatus.HIDDEN) return showHidden;
+       return mapFilters.possible;
+     });
+     markersToShow.push(...others);
+     if (timeRange) markersToShow = markersToShow.filter(e => isPostedInRange(e, timeRange));
+
+     // Markers closer than their icon size on screen are merged at the current zoom
+     return clusterByScreenDistance(markersToShow, e => e.location, e => e.id, mapZoom);
+  }, [visibleEncounters, activeMyEncounters, mapZoom, mapFilters, showHidden, timeRange]);
+
+  // Every active post loaded in the area, not only those near mine: counts per spot reveal no more
+  // than the coarsened pins already do
+  const activityEncounters = useMemo(() => {
+     const others = getActiveEncounters(nearbyEncounters).filter(e => e.userId !== userId && !blockedUserIds.includes(e.userId));
+     const all: Encounter[] = [...activeMyEncounters, ...others];
+     return timeRange ? all.filter(e => isPostedInRange(e, timeRange)) : all;
+  }, [nearbyEncounters, activeMyEncounters, blockedUserIds, userId, timeRange]);
+
+  const heatCells = useMemo(
+    () => mapLayers.heatmap ? createHeatmap(activityEncounters, (e: Encounter) => e.location, mapZoom) : [],
+    [mapLayers.heatmap, activityEncounters, mapZoom]
+  );
+
+  const handleMoveEnd = () => {
+    if (mapRef.current) {
+      const c = mapRef.current.getCenter();
+      dispatch({ type: 'location/mapMoved', center: { lat: c.lat, lng: c.lng } });
+      const b = mapRef.current.getBounds();
+      loadArea({ south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() }, userId);
+    }
+  };
+
+  const handleMapZoomIn = () => { if(mapRef.current) mapRef.current.zoomIn(); };
+  const handleMapZoomOut = () => { if(mapRef.current) mapRef.current.zoomOut(); };
+  const handleMapLocate = () => { if(mapRef.current && location) mapRef.current.flyTo([location.lat, location.lng], 16); };
+
+  const getMarkerStatus = (encounter: Encounter) => deriveEncounterStatus(encounter, userId, likeState, hiddenEncounterIds);
+
+  const getMarkerKind = (encounter: Encounter): MarkerKind => {
+    if (encounter.userId === userId) return 'MINE';
+    const status = getMarkerStatus(encounter);
+    if (status === EncounterStatus.MATCHED) return 'MATCH';
+    if (status === EncounterStatus.LIKED_BY_THEM) return 'LIKED_ME';
+    return 'POSSIBLE';
+  };
+
+  const getMarkerIcon = (encounter: Encounter) => MARKER_ICONS[getMarkerKind(encounter)];
+
+  const handleClusterZoomIn = (cluster: Cluster<Encounter>) => {
+    setOpenCluster(null);
+    mapRef.current?.flyTo([cluster.lat, cluster.lng], Math.min(mapZoom + 2, MAP_MAX_ZOOM), { duration: 0.5 });
+  };
+
+  const renderMarker = (encounter: Encounter, position: Location = encounter.location) => (
+    <Marker
+       key={encounter.id}
+       position={[position.lat, position.lng]}
+       icon={getMarkerIcon(encounter)}
+       eventHandlers={{
+           click: () => {
+               navigate({ name: 'encounter', id: encounter.id });
+           }
+       }}
+    />
+  );
+
+  if (!location) return null;
+
+  return (
+    <>
+       <MapContainer
+         ref={mapRef}
+         center={[location.lat, location.lng]}
+         zoom={mapZoom}
+         maxZoom={MAP_MAX_ZOOM}
+         scrollWheelZoom={true}
+         zoomControl={false}
+         attributionControl={false}
+         className="flex-1"
+       >
+         <TileLayer
+           url={darkMode
+               ? "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+               : "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"}
+           crossOrigin={true} // CORS responses, so the service worker can keep them for offline use
+         />
+         <MapEvents onZoom={setMapZoom} onMoveEnd={handleMoveEnd} />
+         <MapController center={null} />
+
+         {/* User's GPS Marker */}
+         <Marker position={[location.lat, location.lng]} icon={gpsIcon} zIndexOffset={500}>
+            <Popup>{t('map.myLocation')}</Popup>
+         </Marker>
+
+         {mapLayers.heatmap && <HeatmapLayer cells={heatCells} />}
+
+         {/* Clusters & Markers. Tapping a cluster lists what's inside; at the maximum zoom its pins are
+             also spread around it on legs, so stacked posts in the same building stay reachable. */}
+         {clusteredMarkers.clusters.map(cluster => (
+             <React.Fragment key={cluster.id}>
+                {mapZoom >= MAP_MAX_ZOOM && spiderfy(cluster, cluster.items.length, mapZoom).map((position, idx) => (
+                   <React.Fragment key={cluster.items[idx].id}>
+                      <Polyline
+                         positions={[[cluster.lat, cluster.lng], [position.lat, position.lng]]}
+                         pathOptions={{ color: ICON_COLORS.POSSIBLE, weight: 1.5, opacity: 0.8 }}
+                         interactive={false}
+                      />
+                      {renderMarker(cluster.items[idx], position)}
+                   </React.Fragment>
+                ))}
+                <Marker
+                   position={[cluster.lat, cluster.lng]}
+                   icon={createClusterIcon(cluster.items.map(getMarkerKind))}
+                   eventHandlers={{ click: () => setOpenCluster(cluster) }}
+                />
+             </React.Fragment>
+         ))}
+
+         {/* Coarsened posts show the zone the true spot is in, not a precise point */}
+         {clusteredMarkers.singles.filter(e => e.locationAccuracyMeters).map(encounter => (
+             <Circle
+                key={`zone-${encounter.id}`}
+                center={[encounter.location.lat, encounter.location.lng]}
+                radius={encounter.locationAccuracyMeters!}
+                pathOptions={{ color: '#f43f5e', weight: 1, fillOpacity: 0.08, dashArray: '4 4' }}
+                interactive={false}
+             />
+         ))}
+         {/* Routes and areas, for my posts and matched partners' */}
+         {clusteredMarkers.singles.filter(e => e.shape).map(encounter => {
+             const positions = encounter.shape!.points.map(p => [p.lat, p.lng] as [number, number]);
+             const pathOptions = { color: encounter.userId === userId ? ICON_COLORS.MINE : ICON_COLORS.MATCH, weight: 4, opacity: 0.7 };
+             return encounter.shape!.type === 'route'
+               ? <Polyline key={`shape-${encounter.id}`} positions={positions} pathOptions={pathOptions} interactive={false} />
+               : <Polygon key={`shape-${encounter.id}`} positions={positions} pathOptions={{ ...pathOptions, fillOpacity: 0.15 }} interactive={false} />;
+         })}
+         {clusteredMarkers.singles.map(encounter => renderMarker(encounter))}
+
+       </MapContainer>
+
+       {/* Central Crosshair */}
+       <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-[400]">
+          <div className="relative">
+             <div className="w-4 h-4 rounded-full bg-rose-600 border-2 border-white shadow-md"></div>
+             <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 border border-rose-600/50 rounded-full"></div>
+          </div>
+       </div>
+
+       {/* Area Loading Indicator */}
+       {isLoadingArea && (
+         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[500] bg-white dark:bg-gray-800 px-4 py-2 rounded-full shadow-lg flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-white pointer-events-none">
+            <div className="animate-spin w-4 h-4 border-2 border-rose-500 border-t-transparent rounded-full"></div>
+            {t('map.loadingArea')}
+         </div>
+       )}
+
+       {/* Search Button */}
+       <div className="absolute top-4 left-4 z-[500]">
+          <button
+             onClick={() => setShowMapSearch(!showMapSearch)}
+             className="bg-white dark:bg-gray-800 p-3 rounded-full shadow-lg text-gray-700 dark:text-white active:scale-95 transition-transform"
+          >
+              <Search size={24} />
+          </button>
+       </div>
+
+       {/* Notifications Button */}
+       <div className="absolute top-4 right-4 z-[500]">
+          <button
+             onClick={() => navigate({ name: 'notifications' })}
+             className="bg-white dark:bg-gray-800 p-3 rounded-full shadow-lg text-gray-700 dark:text-white active:scale-95 transition-transform relative"
+          >
+              <Bell size={24} />
+              {unreadNotificationCount > 0 && (
+                  <span className="absolute -top-1 -right-1 bg-rose-600 text-white text-[10px] font-bold min-w-[18px] h-[18px] px-1 rounded-full flex items-center justify-center">
+                      {unreadNotificationCount > 9 ? '9+' : unreadNotificationCount}
+                  </span>
+              )}
+          </button>
+       </div>
+
+       {/* Map Search Overlay */}
+       {showMapSearch && (
+         <div className="absolute top-0 left-0 right-0 bottom-0 bg-white/95 dark:bg-gray-900/95 z-[490] p-6 animate-in slide-in-from-left duration-300 overflow-y-auto dark:text-white">
+            <div className="flex items-center mb-6">
+               <button onClick={() => setShowMapSearch(false)} className="mr-4">
+                  <ArrowLeft className="text-gray-600 dark:text-gray-300" />
+               </button>
+               <h2 className="text-xl font-bold">{t('map.searchTitle')}</h2>
+            </div>
+
+            <div className="mb-6">
+                <div className="relative">
+                    <input
+                       type="text"
+                       placeholder={t('map.searchPlaceholder')}
+                       value={searchQuery}
+                       onChange={e => setSearchQuery(e.target.value)}
+                       className="w-full bg-gray-100 dark:bg-gray-800 p-3 rounded-xl pl-10 outline-none focus:ring-2 focus:ring-rose-200"
+                       onKeyDown={(e) => e.key === 'Enter' && handleSearchStreet()}
+                    />
+                    <Search className="absolute left-3 top-3.5 text-gray-400" size={18} />
+                    {isSearching && <div className="absolute right-3 top-3.5 animate-spin w-4 h-4 border-2 border-rose-500 border-t-transparent rounded-full"></div>}
+                </div>
+                {searchResults.length > 0 && (
+                   <ul className="mt-2 bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-xl shadow-lg max-h-48 overflow-y-auto">
+                      {searchResults.map((result, idx) => (
+                         <li
+                           key={idx}
+                           onClick={() => handleSelectSearchResult(result)}
+                           className="p-3 hover:bg-gray-50 dark:hover:bg-gray-700 border-b border-gray-50 dark:border-gray-700 last:border-0 cursor-pointer text-sm"
+                         >
+                            {result.address ?? result.name}
+                         </li>
+                      ))}
+                   </ul>
+                )}
+            </div>
+
+            <div className="mb-6">
+               <h3 className="font-bold text-gray-800 dark:text-gray-200 mb-4 flex items-center gap-2"><Layers size={18}/> {t('map.filters')}</h3>
+               <div className="space-y-3">
+                   <label className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-xl cursor-pointer">
+                       <span className="font-medium">{t('map.showHidden')}</span>
+                       <input type="checkbox" checked={showHidden} onChange={e => dispatch({ type: 'ui/showHiddenChanged', showHidden: e.target.checked })} className="w-5 h-5 accent-gray-500" />
+                   </label>
+
+                   <div className="h-px bg-gray-200 dark:bg-gray-700 my-2"></div>
+
+                  <label className="flex items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-xl cursor-pointer">
+                     <div className="w-4 h-4 rounded-full mr-3" style={{ backgroundColor: ICON_COLORS.MINE }}></div>
+                     <span className="flex-1 font-medium">{t('map.mine')}</span>
+                     <input type="checkbox" checked={mapFilters.mine} onChange={e => setMapFilters({...mapFilters, mine: e.target.checked})} className="w-5 h-5 accent-rose-500" />
+                  </label>
+                  <label className="flex items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-xl cursor-pointer">
+                     <div className="w-4 h-4 rounded-full mr-3" style={{ backgroundColor: ICON_COLORS.POSSIBLE }}></div>
+                     <span className="flex-1 font-medium">{t('map.possible')}</span>
+                     <input type="checkbox" checked={mapFilters.possible} onChange={e => setMapFilters({...mapFilters, possible: e.target.checked})} className="w-5 h-5 accent-rose-500" />
+                  </label>
+                  <label className="flex items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-xl cursor-pointer">
+                     <div className="w-4 h-4 rounded-full mr-3" style={{ backgroundColor: ICON_COLORS.LIKED_ME }}></div>
+                     <span className="flex-1 font-medium">{t('map.likedMe')}</span>
+                     <input type="checkbox" checked={mapFilters.likedMe} onChange={e => setMapFilters({...mapFilters, likedMe: e.target.checked})} className="w-5 h-5 accent-rose-500" />
+                  </label>
+                  <label className="flex items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-xl cursor-pointer">
+                     <div className="w-4 h-4 rounded-full mr-3" style={{ backgroundColor: ICON_COLORS.MATCH }}></div>
+                     <span className="flex-1 font-medium">{t('map.match')}</span>
+                     <input type="checkbox" checked={mapFilters.match} onChange={e => setMapFilters({...mapFilters, match: e.target.checked})} className="w-5 h-5 accent-rose-500" />
+                  </label>
+
+                  <div className="h-px bg-gray-200 dark:bg-gray-700 my-2"></div>
+
+                  <label className="flex items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-xl cursor-pointer">
+                     <Flame size={18} className="mr-3 text-orange-500 shrink-0" />
+                     <div className="flex-1">
+                        <p className="font-medium">{t('map.heatmap')}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{t('map.heatmapHint')}</p>
+                     </div>
+                     <input type="checkbox" checked={mapLayers.heatmap} onChange={e => setMapLayers({...mapLayers, heatmap: e.target.checked})} className="w-5 h-5 accent-rose-500" />
+                  </label>
+                  <label className="flex items-center p-3 bg-gray-50 dark:bg-gray-800 rounded-xl cursor-pointer">
+                     <Clock size={18} className="mr-3 text-blue-500 shrink-0" />
+                     <div className="flex-1">
+                        <p className="font-medium">{t('map.timeline')}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{t('map.timelineHint')}</p>
+                     </div>
+                     <input type="checkbox" checked={mapLayers.timeline} onChange={e => setMapLayers({...mapLayers, timeline: e.target.checked})} className="w-5 h-5 accent-rose-500" />
+                  </label>
+               </div>
+            </div>
+         </div>
+       )}
+
+       {/* Time Slider, left of the map controls */}
+       {timeRange && (
+         <div className="absolute bottom-6 left-4 right-20 z-[400]">
+            <TimeSlider
+               unit={timelineUnit}
+               steps={timelineSteps}
+               range={timeRange}
+               count={activityEncounters.length}
+               onUnitChange={handleTimelineUnitChange}
+               onStepsChange={setTimelineSteps}
+            />
+         </div>
+       )}
+
+       {openCluster && (
+         <ClusterSheet
+            items={openCluster.items.map(encounter => ({
+               encounter,
+               kind: getMarkerKind(encounter),
+               status: encounter.userId === userId ? undefined : getMarkerStatus(encounter)
+            }))}
+            onZoomIn={mapZoom < MAP_MAX_ZOOM ? () => handleClusterZoomIn(openCluster) : undefined}
+            onClose={() => setOpenCluster(null)}
+         />
+       )}
+
+       {/* Map Controls */}
+       <div className="absolute bottom-6 right-4 flex flex-col gap-3 z-[400]">
+           <button
+             onClick={handleMapLocate}
+             className="bg-white dark:bg-gray-800 p-3 rounded-full shadow-lg text-gray-700 dark:text-white active:scale-95"
+           >
+               <Locate size={24} />
+           </button>
+           <div className="flex flex-col bg-white dark:bg-gray-800 rounded-full shadow-lg overflow-hidden">
+               <button
+                 onClick={handleMapZoomIn}
+                 className="p-3 border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-white"
+               >
+                   <ZoomIn size={24} />
+               </button>
+               <button
+                 onClick={handleMapZoomOut}
+                 className="p-3 text-gray-700 dark:text-white"
+               >
+                   <ZoomOut size={24} />
+               </button>
+           </div>
+       </div>
+    </>
+  );
+});
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { formatTimelineRange, TimelineSteps, TimeRange, TIMELINE_STEPS, TimelineUnit } from '../../utils/timeline';
+import { useI18n } from '../../i18n';
+
+const REPLAY_STEP_MS = 1000;
+
+// Picks the hours or days whose posts the map shows, and replays them by sliding that window up to now
+export const TimeSlider: React.FC<{
+  unit: TimelineUnit;
+  steps: TimelineSteps;
+  range: TimeRange; // Time covered by the steps
+  count: number; // Posts in the chosen range
+  onUnitChange: (unit: TimelineUnit) => void;
+  onStepsChange: (steps: TimelineSteps) => void;
+}> = ({ unit, steps, range, count, onUnitChange, onStepsChange }) => {
+  const { t, locale } = useI18n();
+  const [isPlaying, setIsPlaying] = useState(false);
+  const lastStep = TIMELINE_STEPS[unit] - 1;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (steps.to >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onStepsChange({ from: steps.from + 1, to: steps.to + 1 }), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, steps, lastStep]);
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (steps.to >= lastStep) onStepsChange({ from: 0, to: steps.to - steps.from }); // Replay from the start
+    setIsPlaying(true);
+  };
+
+  const handleUnitChange = (next: TimelineUnit) => {
+    setIsPlaying(false);
+    onUnitChange(next);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-3 dark:text-white">
+      <div className="flex items-center gap-3 mb-2">
+        <button
+          onClick={handlePlay}
+          aria-label={t(isPlaying ? 'map.timeline.pause' : 'map.timeline.play')}
+          className="p-2 rounded-full bg-rose-500 text-white active:scale-95 transition-transform"
+        >
+          {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold truncate">{formatTimelineRange(unit, range, locale)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('map.timeline.count', { count })}</p>
+        </div>
+        <div className="flex bg-gray-100 dark:bg-gray-700 rounded-full p-0.5 text-xs font-bold">
+          {(['hour', 'day'] as TimelineUnit[]).map(u => (
+            <button
+              key={u}
+              onClick={() => handleUnitChange(u)}
+              className={`px-3 py-1 rounded-full ${unit === u ? 'bg-white dark:bg-gray-900 shadow text-rose-600' : 'text-gray-500 dark:text-gray-300'}`}
+            >
+              {t(`map.timeline.${u}s`)}
+            </button>
+          ))}
+        </div>
+      </div>
+      {/* The thumbs can't cross: the range keeps at least one step */}
+      <input
+        type="range"
+        min={0}
+        max={lastStep}
+        value={steps.from}
+        onChange={e => onStepsChange({ from: Math.min(Number(e.target.value), steps.to), to: steps.to })}
+        aria-label={t('map.timeline.from')}
+        className="w-full accent-rose-500"
+      />
+      <input
+        type="range"
+        min={0}
+        max={lastStep}
+        value={steps.to}
+        onChange={e => onStepsChange({ from: steps.from, to: Math.max(Number(e.target.value), steps.from) })}
+        aria-label={t('map.timeline.to')}
+        className="w-full accent-rose-500"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import { Bounds } from '../../types';
+import { encounterSource, createTileLoader } from '../../services/encounterSource';
+import { dispatch } from '../../store';
+
+const tileLoader = createTileLoader(encounterSource);
+
+// Fetches the tiles of an area not loaded yet and merges them in, dropping posts the map and my posts left
+// behind; stale loads resolve to null
+export const loadArea = (bounds: Bounds, userId: string) => {
+  dispatch({ type: 'encounters/areaRequested' });
+  tileLoader.load(bounds, userId).then(area => {
+    if (area === null) return; // Superseded by a newer viewport
+    dispatch({ type: 'encounters/areaLoaded', encounters: area.encounters, tileKeys: area.tileKeys });
+  });
+};
+
+// Forgets the loaded tiles, for a new account or position
+export const resetArea = () => {
+  tileLoader.reset();
+  dispatch({ type: 'encounters/areaCleared' });
+};
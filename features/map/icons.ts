@@ -0,0 +1,41 @@
+import L from 'leaflet';
+
+// Pin markers, shared by the map tab and the location editor
+export const createIcon = (color: string) => L.divIcon({
+  className: 'custom-icon',
+  html: `<svg width="40" height="40" viewBox="0 0 24 24" fill="${color}" stroke="white" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="filter: drop-shadow(0px 4px 6px rgba(0,0,0,0.4));"><path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z"></path><circle cx="12" cy="10" r="3" fill="white"></circle></svg>`,
+  iconSize: [40, 40],
+  iconAnchor: [20, 40],
+  popupAnchor: [0, -40]
+});
+
+// Colors defined by user request (Updated to Rose-600)
+export const ICON_COLORS = {
+  MINE: '#e11d48',       // Rose-600
+  POSSIBLE: '#6b7280',   // Gray
+  LIKED_ME: '#06b6d4',   // Celeste (Cyan-500)
+  MATCH: '#22c55e'       // Green
+};
+
+export type MarkerKind = keyof typeof ICON_COLORS;
+
+// Drawing and listing order: the ones that need an answer first
+export const MARKER_KINDS: MarkerKind[] = ['MATCH', 'LIKED_ME', 'POSSIBLE', 'MINE'];
+
+// The count in a ring split by the colors of the markers inside. The ring's circumference is 100,
+// so each arc is its share in percent, starting at 12 o'clock.
+export const createClusterIcon = (kinds: MarkerKind[]) => {
+  let start = 0;
+  const arcs = MARKER_KINDS.map(kind => {
+    const share = kinds.filter(k => k === kind).length / kinds.length * 100;
+    if (share === 0) return '';
+    const arc = `<circle cx="20" cy="20" r="15.915" fill="none" stroke="${ICON_COLORS[kind]}" stroke-width="7" stroke-dasharray="${share} ${100 - share}" stroke-dashoffset="${25 - start}"></circle>`;
+    start += share;
+    return arc;
+  }).join('');
+  return L.divIcon({
+    html: `<svg width="40" height="40" viewBox="0 0 40 40"><circle cx="20" cy="20" r="19" fill="white"></circle>${arcs}<text x="20" y="20" text-anchor="middle" dominant-baseline="central">${kinds.length}</text></svg>`,
+    className: 'cluster-marker',
+    iconSize: [40, 40]
+  });
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { ModerationWarningDialog } from '../../components/ModerationWarningDialog';
+import { dispatch, useAppState } from '../../store';
+
+export const ModerationPrompt: React.FC = () => {
+  const prompt = useAppState(s => s.ui.moderationPrompt);
+  if (!prompt) return null;
+
+  const close = () => dispatch({ type: 'ui/moderationPrompted', prompt: null });
+  return (
+    <ModerationWarningDialog
+      result={prompt.result}
+      onEdit={close}
+      onConfirm={() => {
+        prompt.onConfirm();
+        close();
+      }}
+    />
+  );
+};
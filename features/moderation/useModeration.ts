@@ -0,0 +1,26 @@
+import { ModerationContext } from '../../types';
+import * as moderationService from '../../services/moderationService';
+import { dispatch } from '../../store';
+import { useI18n } from '../../i18n';
+
+// Screens text before it's published or sent: blocked content is refused, flagged content asks the author first
+// (ModerationPrompt shows the question)
+export const useModeration = () => {
+  const { t } = useI18n();
+
+  const withModeration = async (text: string, context: ModerationContext, onAllowed: () => void, onBlocked: (message: string) => void) => {
+    dispatch({ type: 'ui/moderating', isModerating: true });
+    const result = await moderationService.moderateContent(text, context);
+    dispatch({ type: 'ui/moderating', isModerating: false });
+    if (result.decision === 'block') {
+      const reasons = result.reasons.map(r => t(`moderation.reason.${r}`).toLowerCase()).join(', ');
+      onBlocked(t(context === 'encounter' ? 'moderation.cannotPublish' : 'moderation.cannotSend', { reasons }));
+    } else if (result.decision === 'warn') {
+      dispatch({ type: 'ui/moderationPrompted', prompt: { result, onConfirm: onAllowed } });
+    } else {
+      onAllowed();
+    }
+  };
+
+  return { withModeration };
+};
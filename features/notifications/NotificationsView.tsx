@@ -0,0 +1,25 @@
+import React, { useEffect } from 'react';
+import { NotificationCenter } from '../../components/NotificationCenter';
+import { useAppState } from '../../store';
+import { back } from '../../utils/router';
+import { markAllNotificationsRead, openNotification } from './notificationActions';
+
+export const NotificationsView: React.FC<{ notificationId?: string }> = ({ notificationId }) => {
+  const notifications = useAppState(s => s.notifications.list);
+
+  // /notifications/:id (a tapped push) opens what the notification is about once the inbox has it
+  useEffect(() => {
+    if (!notificationId) return;
+    const notification = notifications.find(n => n.id === notificationId);
+    if (notification) openNotification(notification, { replace: true });
+  }, [notificationId, notifications]);
+
+  return (
+    <NotificationCenter
+      notifications={notifications}
+      onBack={() => back()}
+      onOpen={openNotification}
+      onMarkAllRead={markAllNotificationsRead}
+    />
+  );
+};
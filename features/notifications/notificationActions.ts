@@ -0,0 +1,40 @@
+import { AppNotification } from '../../types';
+import * as notificationService from '../../services/notificationService';
+import { dispatch, getState } from '../../store';
+import { navigate, Route } from '../../utils/router';
+
+export const markNotificationsRead = (toMark: AppNotification[]) => {
+  if (toMark.length === 0) return;
+  const ids = toMark.map(n => n.id);
+  dispatch({ type: 'notifications/read', ids });
+  notificationService.markNotificationsRead(ids);
+};
+
+export const markAllNotificationsRead = () => {
+  dispatch({ type: 'notifications/read' });
+  notificationService.markNotificationsRead();
+};
+
+// Takes the user to whatever the notification is about. Replaces the history entry when the
+// notification itself was the link (/notifications/:id).
+export const openNotification = (notification: AppNotification, options: { replace?: boolean } = {}) => {
+  markNotificationsRead([notification]);
+  const { chats, encounters } = getState();
+  const targetOf = (): Route => {
+    if (notification.type === 'match' || notification.type === 'message') {
+      const chat = chats.list.find(c => c.matchId === notification.matchId);
+      return chat ? { name: 'chat', encounterId: chat.encounterId } : { name: 'chats' };
+    }
+    if (notification.type === 'like') {
+      // Show the liker's post, which now appears as LIKED_BY_THEM
+      const theirs = encounters.nearby.find(e => e.userId === notification.actorId);
+      return theirs ? { name: 'encounter', id: theirs.id } : { name: 'explore' };
+    }
+    if (notification.type === 'edited' && notification.encounterId) {
+      // A post I liked, as it reads now
+      return { name: 'encounter', id: notification.encounterId };
+    }
+    return { name: 'profile' };
+  };
+  navigate(targetOf(), options);
+};
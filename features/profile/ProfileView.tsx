@@ -0,0 +1,614 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Bell, Camera, ChevronLeft, ChevronRight, Globe, Image as ImageIcon, LogOut, Moon, Pencil, Plus, RotateCcw, Save, Settings, ShieldAlert, SlidersHorizontal, Sun, Trash2, X, Zap } from 'lucide-react';
+import { Encounter, EncounterVersion, Gender, GENDERS, NotificationType, NOTIFICATION_TYPES, UserProfile } from '../../types';
+import { EncounterCard } from '../../components/EncounterCard';
+import { StoredImage } from '../../components/StoredImage';
+import { encounterRepository } from '../../services/encounterRepository';
+import * as authService from '../../services/authService';
+import * as imageService from '../../services/imageService';
+import * as notificationService from '../../services/notificationService';
+import * as outboxService from '../../services/outboxService';
+import { moveItem } from '../../utils/image';
+import { getArchivedEncounters, getLifecycle } from '../../utils/encounterPolicy';
+import { getDiscovery, normalizeDiscovery, MIN_AGE, MAX_AGE, MIN_MATCH_RADIUS, MAX_MATCH_RADIUS } from '../../utils/discovery';
+import { dispatch, getState, showToast, useAppState } from '../../store';
+import { navigate } from '../../utils/router';
+import { useI18n, LOCALES } from '../../i18n';
+import { useActiveMyEncounters } from '../encounters/useVisibleEncounters';
+import { signOut, deleteAccount } from '../session/session';
+import { MAX_PROFILE_PHOTOS, discardDeletedEncounter, isImageInUse } from './photos';
+
+export const ProfileView: React.FC = () => {
+  const { t, locale, setLocale } = useI18n();
+  const userProfile = useAppState(s => s.session.profile);
+  const isAdmin = useAppState(s => s.session.isAdmin);
+  const darkMode = useAppState(s => s.ui.darkMode);
+  const notificationPreferences = useAppState(s => s.notifications.preferences);
+  const isPushEnabled = useAppState(s => s.notifications.isPushEnabled);
+  const encounterPolicy = useAppState(s => s.encounters.policy);
+  const myEncounters = useAppState(s => s.encounters.mine);
+  const deletedMyEncounters = useAppState(s => s.encounters.deleted);
+  const now = useAppState(s => s.ui.now);
+  const activeMyEncounters = useActiveMyEncounters();
+  const archivedMyEncounters = useMemo(() => getArchivedEncounters(myEncounters, now), [myEncounters, now]);
+  const discovery = getDiscovery(userProfile);
+
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [editProfileName, setEditProfileName] = useState('');
+  const [editProfileBio, setEditProfileBio] = useState('');
+  const [editProfileAge, setEditProfileAge] = useState('');
+  const [editQuickMessage, setEditQuickMessage] = useState('');
+  const [editInterestedIn, setEditInterestedIn] = useState<Gender[]>([]);
+  const [editMinAge, setEditMinAge] = useState('');
+  const [editMaxAge, setEditMaxAge] = useState('');
+  const [editRadius, setEditRadius] = useState(0);
+  const [isUploadingProfilePhoto, setIsUploadingProfilePhoto] = useState(false);
+  const [showDeleteAccountDialog, setShowDeleteAccountDialog] = useState(false);
+
+  const profilePhotoInputRef = useRef<HTMLInputElement>(null);
+
+  // Sync profile edit state
+  useEffect(() => {
+    if (isEditingProfile) {
+      setEditProfileName(userProfile.name);
+      setEditProfileBio(userProfile.bio);
+      setEditProfileAge(userProfile.age?.toString() || '');
+      setEditQuickMessage(userProfile.quickMessage || '');
+      const discovery = getDiscovery(userProfile);
+      setEditInterestedIn(discovery.interestedIn);
+      setEditMinAge(discovery.minAge.toString());
+      setEditMaxAge(discovery.maxAge.toString());
+      setEditRadius(discovery.radiusMeters);
+    }
+  }, [isEditingProfile, userProfile]);
+
+  const saveProfile = (profile: UserProfile) => {
+    dispatch({ type: 'profile/saved', profile });
+    authService.saveProfile(profile);
+  };
+
+  const handleSaveProfile = () => {
+    saveProfile({
+      ...userProfile,
+      name: editProfileName,
+      bio: editProfileBio,
+      age: parseInt(editProfileAge),
+      quickMessage: editQuickMessage,
+      discovery: normalizeDiscovery({
+        interestedIn: editInterestedIn,
+        minAge: parseInt(editMinAge),
+        maxAge: parseInt(editMaxAge),
+        radiusMeters: editRadius
+      })
+    });
+    setIsEditingProfile(false);
+    showToast(t('toast.profileSaved'), 'success');
+  };
+
+  const handleDeleteAccount = async () => {
+    const outcome = await deleteAccount();
+    setShowDeleteAccountDialog(false);
+    if (outcome === 'failed') showToast(t('toast.deleteAccountFailed'), 'error');
+    if (outcome === 'photosLeft') showToast(t('toast.deleteAccountPhotosLeft'), 'error');
+  };
+
+  const handleDeleteEncounter = (encounter: Encounter) => {
+    dispatch({ type: 'encounters/deleted', id: encounter.id });
+    if (encounter.syncPending) {
+      // Never reached the server: just take it out of the outbox
+      outboxService.discardQueuedEncounter(userProfile.id, encounter.id).then(() => dispatch({ type: 'sync/discarded' }));
+    } else {
+      // Its last version moves to the deleted ones, to republish it
+      encounterRepository.deleteEncounter(encounter.id)
+        .then(() => encounterRepository.fetchDeletedEncounterVersions())
+        .then(versions => dispatch({ type: 'encounters/deletedVersionsLoaded', versions }));
+    }
+    // A post that reached the server keeps its photo in its history until that is discarded
+    if (encounter.syncPending && encounter.image && !isImageInUse(encounter.image)) {
+        imageService.deleteImages([encounter.image]);
+    }
+    showToast(t('toast.encounterDeleted'), 'info');
+  };
+
+  const handleDiscardDeleted = async (version: EncounterVersion) => {
+    if (!await discardDeletedEncounter(version.encounterId)) showToast(t('toast.discardFailed'), 'error');
+  };
+
+  const handleToggleNotificationType = async (type: NotificationType) => {
+      const enabled = !notificationPreferences[type];
+      dispatch({ type: 'notifications/preferenceChanged', notificationType: type, enabled });
+      const ok = await notificationService.saveNotificationPreference(userProfile.id, type, enabled);
+      if (!ok) {
+          dispatch({ type: 'notifications/preferenceChanged', notificationType: type, enabled: !enabled });
+          showToast(t('toast.preferenceFailed'), 'error');
+      }
+  };
+
+  const handleTogglePush = async () => {
+      if (isPushEnabled) {
+          await notificationService.disablePush();
+          dispatch({ type: 'notifications/pushChanged', enabled: false });
+          return;
+      }
+      const ok = await notificationService.enablePush(userProfile.id);
+      dispatch({ type: 'notifications/pushChanged', enabled: ok });
+      showToast(t(ok ? 'toast.pushEnabled' : 'toast.pushFailed'), ok ? 'success' : 'error');
+  };
+
+  // --- Photos ---
+
+  const updateProfileImages = (images: string[]) => saveProfile({ ...getState().session.profile, images });
+
+  const handleAddProfilePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (userProfile.images.length >= MAX_PROFILE_PHOTOS) {
+      showToast(t('toast.maxPhotos', { count: MAX_PROFILE_PHOTOS }), 'error');
+      return;
+    }
+
+    setIsUploadingProfilePhoto(true);
+    const path = await imageService.uploadImage(userProfile.id, file);
+    setIsUploadingProfilePhoto(false);
+    if (!path) {
+      showToast(t('toast.photoUploadFailed'), 'error');
+      return;
+    }
+    updateProfileImages([...getState().session.profile.images, path]);
+    showToast(t('toast.photoAdded'), 'success');
+  };
+
+  const handleMoveProfilePhoto = (index: number, direction: -1 | 1) => {
+    updateProfileImages(moveItem(userProfile.images, index, index + direction));
+  };
+
+  const handleDeleteProfilePhoto = (index: number) => {
+    if (userProfile.images.length <= 1) {
+      showToast(t('toast.needOnePhoto'), 'error');
+      return;
+    }
+    const removed = userProfile.images[index];
+    const images = userProfile.images.filter((_, i) => i !== index);
+    updateProfileImages(images);
+    if (!isImageInUse(removed, images)) imageService.deleteImages([removed]);
+  };
+
+  // Active posts can be edited once they reached the server; archived ones republished as new
+  const renderMyEncounter = (encounter: Encounter) => {
+    const isArchived = getLifecycle(encounter, now) === 'archived';
+    return (
+      <div key={encounter.id} className="relative">
+          <EncounterCard
+            encounter={encounter}
+            onPress={() => {}}
+            showStatus={true}
+          />
+          <div className="absolute top-2 right-2 flex gap-2">
+              {isArchived ? (
+                  <button
+                    onClick={() => navigate({ name: 'create', from: encounter.id })}
+                    aria-label={t('profile.republish')}
+                    className="bg-white/80 p-1.5 rounded-full text-gray-700 shadow-sm"
+                  >
+                      <RotateCcw size={16} />
+                  </button>
+              ) : !encounter.syncPending && (
+                  <button
+                    onClick={() => navigate({ name: 'edit', id: encounter.id })}
+                    aria-label={t('profile.editEncounter')}
+                    className="bg-white/80 p-1.5 rounded-full text-gray-700 shadow-sm"
+                  >
+                      <Pencil size={16} />
+                  </button>
+              )}
+              <button
+                onClick={() => handleDeleteEncounter(encounter)}
+                className="bg-white/80 p-1.5 rounded-full text-red-500 shadow-sm"
+              >
+                  <Trash2 size={16} />
+              </button>
+          </div>
+      </div>
+    );
+  };
+
+  return (
+     <div className="absolute inset-0 bg-white dark:bg-gray-900 overflow-y-auto no-scrollbar">
+         {/* Delete Account Confirmation */}
+         {showDeleteAccountDialog && (
+             <div className="fixed inset-0 z-[1500] flex items-center justify-center bg-black/60 p-6 animate-in fade-in">
+                 <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-2xl max-w-sm w-full">
+                     <div className="flex flex-col items-center text-center mb-6">
+                         <div className="bg-red-50 dark:bg-red-900/30 p-4 rounded-full mb-4">
+                             <AlertTriangle className="text-red-500 w-8 h-8" />
+                         </div>
+                         <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{t('deleteAccount.title')}</h3>
+                         <p className="text-gray-500 dark:text-gray-400 text-sm">
+                             {t('deleteAccount.description')}
+                         </p>
+                     </div>
+                     <div className="flex gap-3">
+                         <button
+                           onClick={() => setShowDeleteAccountDialog(false)}
+                           className="flex-1 py-3 text-gray-700 dark:text-gray-300 font-bold bg-gray-100 dark:bg-gray-700 rounded-xl hover:bg-gray-200"
+                         >
+                             {t('common.back')}
+                         </button>
+                         <button
+                           onClick={handleDeleteAccount}
+                           className="flex-1 py-3 text-white font-bold bg-red-500 rounded-xl shadow-lg"
+                         >
+                             {t('deleteAccount.confirm')}
+                         </button>
+                     </div>
+                 </div>
+             </div>
+         )}
+
+         {/* ... Profile Image Header ... */}
+         <div className="relative">
+             <div className="h-48 bg-rose-200 dark:bg-rose-900"></div>
+             <div className="absolute -bottom-16 left-6">
+                 <StoredImage
+                   src={userProfile.images[0]}
+                   className="w-32 h-32 rounded-full border-4 border-white dark:border-gray-900 shadow-md object-cover"
+                   alt="Profile"
+                 />
+                 {isEditingProfile && (
+                     <div
+                       onClick={() => profilePhotoInputRef.current?.click()}
+                       className="absolute inset-0 bg-black/40 rounded-full flex items-center justify-center text-white cursor-pointer"
+                     >
+                         <Camera size={24} />
+                     </div>
+                 )}
+             </div>
+             <button onClick={signOut} className="absolute top-4 right-4 bg-white/30 backdrop-blur-md p-2 rounded-full text-white"><LogOut size={20}/></button>
+         </div>
+
+         <div className="mt-20 px-6 pb-24">
+             <div className="flex justify-between items-start">
+                 <div className="w-full">
+                      {isEditingProfile ? (
+                          <div className="mb-4">
+                              <label className="text-xs font-bold text-gray-400 uppercase">{t('profile.name')}</label>
+                              <input
+                                  className="text-2xl font-bold text-gray-900 dark:text-white border-b border-gray-300 dark:border-gray-700 focus:border-rose-500 outline-none w-full py-1 bg-transparent"
+                                  value={editProfileName}
+                                  onChange={(e) => setEditProfileName(e.target.value)}
+                              />
+                          </div>
+                      ) : (
+                          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{userProfile.name}</h1>
+                      )}
+
+                      <div className="flex items-center text-gray-500 dark:text-gray-400 mt-1">
+                          {isEditingProfile ? (
+                              <div className="flex items-center">
+                                  <label className="text-xs font-bold text-gray-400 uppercase mr-2">{t('profile.ageLabel')}</label>
+                                  <input
+                                      type="number"
+                                      className="text-lg w-16 border-b border-gray-300 dark:border-gray-700 focus:border-rose-500 outline-none bg-transparent"
+                                      value={editProfileAge}
+                                      onChange={(e) => setEditProfileAge(e.target.value)}
+                                  />
+                              </div>
+                          ) : (
+                              <span className="text-lg mr-2">{t('profile.years', { count: userProfile.age ?? 0 })}</span>
+                          )}
+                          <span className="w-1 h-1 bg-gray-400 rounded-full mx-2"></span>
+                          <span className="capitalize">{t(`gender.${userProfile.gender ?? 'other'}`)}</span>
+                      </div>
+                 </div>
+             </div>
+
+             {isEditingProfile ? (
+                 <div className="mt-4 space-y-4">
+                     <div>
+                          <label className="text-xs font-bold text-gray-400 uppercase">{t('profile.bio')}</label>
+                          <textarea
+                              className="w-full mt-1 p-3 border dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-rose-200 outline-none text-gray-600 dark:text-gray-300 text-lg bg-transparent"
+                              value={editProfileBio}
+                              onChange={(e) => setEditProfileBio(e.target.value)}
+                              rows={3}
+                          />
+                     </div>
+                     <div className="bg-rose-50 dark:bg-rose-900/20 p-4 rounded-xl border border-rose-100 dark:border-rose-800">
+                          <label className="text-xs font-bold text-rose-500 uppercase flex items-center gap-2">
+                              <Zap size={14}/> {t('profile.quickMessage')}
+                          </label>
+                          <p className="text-xs text-gray-400 mb-2">{t('profile.quickMessageHint')}</p>
+                          <textarea
+                              className="w-full p-2 border-b border-rose-200 dark:border-rose-800 focus:border-rose-500 outline-none text-gray-700 dark:text-gray-200 bg-transparent"
+                              value={editQuickMessage}
+                              onChange={(e) => setEditQuickMessage(e.target.value)}
+                              rows={2}
+                              placeholder={t('profile.quickMessagePlaceholder')}
+                          />
+                     </div>
+                     <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-xl space-y-4">
+                          <div>
+                              <label className="text-xs font-bold text-gray-400 uppercase flex items-center gap-2">
+                                  <SlidersHorizontal size={14}/> {t('discovery.title')}
+                              </label>
+                              <p className="text-xs text-gray-400 mt-1">{t('discovery.mutualHint')}</p>
+                          </div>
+                          <div>
+                              <p className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">{t('discovery.interestedIn')}</p>
+                              <div className="flex gap-2">
+                                  {GENDERS.map(g => (
+                                      <button
+                                        key={g}
+                                        onClick={() => setEditInterestedIn(prev => prev.includes(g) ? prev.filter(x => x !== g) : [...prev, g])}
+                                        className={`flex-1 py-2 rounded-xl text-sm font-bold border transition-colors ${
+                                            editInterestedIn.includes(g)
+                                            ? 'bg-rose-600 text-white border-rose-600'
+                                            : 'bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-700'
+                                        }`}
+                                      >
+                                          {t(`discovery.gender.${g}`)}
+                                      </button>
+                                  ))}
+                              </div>
+                              <p className="text-xs text-gray-400 mt-1">{t('discovery.everyoneHint')}</p>
+                          </div>
+                          <div>
+                              <p className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">{t('discovery.ageRange')}</p>
+                              <div className="flex items-center gap-3">
+                                  <input
+                                      type="number"
+                                      min={MIN_AGE}
+                                      max={MAX_AGE}
+                                      className="text-lg w-16 border-b border-gray-300 dark:border-gray-700 focus:border-rose-500 outline-none bg-transparent dark:text-white text-center"
+                                      value={editMinAge}
+                                      onChange={(e) => setEditMinAge(e.target.value)}
+                                  />
+                                  <span className="text-gray-400">–</span>
+                                  <input
+                                      type="number"
+                                      min={MIN_AGE}
+                                      max={MAX_AGE}
+                                      className="text-lg w-16 border-b border-gray-300 dark:border-gray-700 focus:border-rose-500 outline-none bg-transparent dark:text-white text-center"
+                                      value={editMaxAge}
+                                      onChange={(e) => setEditMaxAge(e.target.value)}
+                                  />
+                              </div>
+                          </div>
+                          <div>
+                              <div className="flex items-center justify-between mb-2">
+                                  <p className="text-sm font-medium text-gray-700 dark:text-gray-200">{t('discovery.radius')}</p>
+                                  <span className="text-sm font-bold text-rose-600">{t('discovery.meters', { count: editRadius })}</span>
+                              </div>
+                              <input
+                                  type="range"
+                                  min={MIN_MATCH_RADIUS}
+                                  max={MAX_MATCH_RADIUS}
+                                  step={10}
+                                  value={editRadius}
+                                  onChange={(e) => setEditRadius(Number(e.target.value))}
+                                  className="w-full accent-rose-600"
+                              />
+                              <p className="text-xs text-gray-400 mt-1">{t('discovery.radiusHint')}</p>
+                          </div>
+                     </div>
+                 </div>
+             ) : (
+                 <>
+                     <p className="text-gray-500 dark:text-gray-400 mt-4 text-lg leading-relaxed">{userProfile.bio}</p>
+                     <div className="mt-4 flex flex-wrap items-center gap-2 text-xs font-bold text-gray-600 dark:text-gray-300">
+                         <SlidersHorizontal size={14} className="text-gray-400" />
+                         <span className="bg-gray-100 dark:bg-gray-800 px-3 py-1 rounded-full">
+                             {discovery.interestedIn.length === 0 ? t('discovery.everyone') : discovery.interestedIn.map(g => t(`discovery.gender.${g}`)).join(', ')}
+                         </span>
+                         <span className="bg-gray-100 dark:bg-gray-800 px-3 py-1 rounded-full">{t('discovery.ages', { min: discovery.minAge, max: discovery.maxAge })}</span>
+                         <span className="bg-gray-100 dark:bg-gray-800 px-3 py-1 rounded-full">{t('discovery.meters', { count: discovery.radiusMeters })}</span>
+                     </div>
+                 </>
+             )}
+
+             {/* Photos Section */}
+             <div className="mt-8">
+                 <div className="flex items-center justify-between mb-4">
+                     <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                         <ImageIcon size={18} /> {t('profile.photos')}
+                     </h3>
+                     <span className="text-xs text-gray-400">{userProfile.images.length}/{MAX_PROFILE_PHOTOS} · {t('profile.coverHint')}</span>
+                 </div>
+                 <input ref={profilePhotoInputRef} type="file" accept="image/*" className="hidden" onChange={handleAddProfilePhoto} />
+                 <div className="grid grid-cols-3 gap-2">
+                     {userProfile.images.map((img, idx) => (
+                         <div key={img} className="relative aspect-[3/4] rounded-xl overflow-hidden bg-gray-100 dark:bg-gray-800">
+                             <StoredImage src={img} className="w-full h-full object-cover" alt={t('profile.photoAlt', { count: idx + 1 })} />
+                             <button
+                               onClick={() => handleDeleteProfilePhoto(idx)}
+                               className="absolute top-1 right-1 bg-black/50 text-white p-1 rounded-full"
+                             >
+                                 <X size={14} />
+                             </button>
+                             <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                                 <button
+                                   onClick={() => handleMoveProfilePhoto(idx, -1)}
+                                   disabled={idx === 0}
+                                   className="bg-black/50 text-white p-1 rounded-full disabled:opacity-0"
+                                 >
+                                     <ChevronLeft size={14} />
+                                 </button>
+                                 <button
+                                   onClick={() => handleMoveProfilePhoto(idx, 1)}
+                                   disabled={idx === userProfile.images.length - 1}
+                                   className="bg-black/50 text-white p-1 rounded-full disabled:opacity-0"
+                                 >
+                                     <ChevronRight size={14} />
+                                 </button>
+                             </div>
+                         </div>
+                     ))}
+                     {userProfile.images.length < MAX_PROFILE_PHOTOS && (
+                         <button
+                           onClick={() => profilePhotoInputRef.current?.click()}
+                           disabled={isUploadingProfilePhoto}
+                           className="aspect-[3/4] rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-700 flex flex-col items-center justify-center text-gray-400"
+                         >
+                             {isUploadingProfilePhoto ? (
+                                 <div className="animate-spin w-6 h-6 border-2 border-rose-500 border-t-transparent rounded-full"></div>
+                             ) : (
+                                 <>
+                                     <Plus size={24} />
+                                     <span className="text-xs font-medium mt-1">{t('profile.addPhoto')}</span>
+                                 </>
+                             )}
+                         </button>
+                     )}
+                 </div>
+             </div>
+
+             {/* Settings Section (New) */}
+             <div className="mt-8">
+                 <div className="flex items-center justify-between mb-4">
+                     <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                         <Settings size={18} /> {t('settings.title')}
+                     </h3>
+                 </div>
+                 <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
+                     <div className="flex items-center justify-between">
+                         <div className="flex items-center gap-3">
+                             {darkMode ? <Moon size={20} className="text-rose-500"/> : <Sun size={20} className="text-gray-500"/>}
+                             <span className="font-medium text-gray-700 dark:text-gray-200">{t('settings.darkMode')}</span>
+                         </div>
+                         <button
+                           onClick={() => dispatch({ type: 'ui/darkModeToggled' })}
+                           className={`w-12 h-6 rounded-full p-1 transition-colors relative ${darkMode ? 'bg-rose-600' : 'bg-gray-300'}`}
+                         >
+                             <div className={`w-4 h-4 bg-white rounded-full shadow-md transition-transform ${darkMode ? 'translate-x-6' : 'translate-x-0'}`}></div>
+                         </button>
+                     </div>
+                 </div>
+                 <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mt-3 space-y-3">
+                     <p className="text-xs font-bold text-gray-400 uppercase flex items-center gap-1"><Globe size={12} /> {t('settings.language')}</p>
+                     <div className="flex gap-2">
+                         {LOCALES.map(({ id, label }) => (
+                             <button
+                               key={id}
+                               onClick={() => setLocale(id)}
+                               className={`flex-1 py-2 rounded-xl text-sm font-bold border transition-colors ${
+                                   locale === id
+                                   ? 'bg-rose-600 text-white border-rose-600'
+                                   : 'bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-700'
+                               }`}
+                             >
+                                 {label}
+                             </button>
+                         ))}
+                     </div>
+                 </div>
+                 <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mt-3 space-y-3">
+                     <p className="text-xs font-bold text-gray-400 uppercase flex items-center gap-1"><Bell size={12} /> {t('notifications.title')}</p>
+                     {notificationService.isPushSupported() && (
+                         <div className="flex items-center justify-between">
+                             <span className="font-medium text-gray-700 dark:text-gray-200">{t('settings.push')}</span>
+                             <button
+                               onClick={handleTogglePush}
+                               className={`w-12 h-6 rounded-full p-1 transition-colors relative ${isPushEnabled ? 'bg-rose-600' : 'bg-gray-300'}`}
+                             >
+                                 <div className={`w-4 h-4 bg-white rounded-full shadow-md transition-transform ${isPushEnabled ? 'translate-x-6' : 'translate-x-0'}`}></div>
+                             </button>
+                         </div>
+                     )}
+                     {NOTIFICATION_TYPES.map(id => (
+                         <div key={id} className="flex items-center justify-between">
+                             <span className="text-sm text-gray-700 dark:text-gray-200">{t(`notifications.type.${id}`)}</span>
+                             <button
+                               onClick={() => handleToggleNotificationType(id)}
+                               className={`w-12 h-6 rounded-full p-1 transition-colors relative ${notificationPreferences[id] ? 'bg-rose-600' : 'bg-gray-300'}`}
+                             >
+                                 <div className={`w-4 h-4 bg-white rounded-full shadow-md transition-transform ${notificationPreferences[id] ? 'translate-x-6' : 'translate-x-0'}`}></div>
+                             </button>
+                         </div>
+                     ))}
+                 </div>
+                 <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mt-3 space-y-3">
+                     {isAdmin && (
+                         <button onClick={() => navigate({ name: 'moderation' })} className="w-full flex items-center gap-3 font-medium text-gray-700 dark:text-gray-200">
+                             <ShieldAlert size={20} className="text-gray-500" /> {t('settings.moderation')}
+                         </button>
+                     )}
+                     <button onClick={signOut} className="w-full flex items-center gap-3 font-medium text-gray-700 dark:text-gray-200">
+                         <LogOut size={20} className="text-gray-500" /> {t('settings.signOut')}
+                     </button>
+                     <button onClick={() => setShowDeleteAccountDialog(true)} className="w-full flex items-center gap-3 font-medium text-red-500">
+                         <Trash2 size={20} /> {t('settings.deleteAccount')}
+                     </button>
+                 </div>
+             </div>
+
+             {/* My Encounters Section */}
+             <div className="mt-8 mb-8">
+                <div className="flex justify-between items-center border-b border-gray-100 dark:border-gray-800 pb-2 mb-4">
+                    <h3 className="font-bold text-gray-900 dark:text-white">{t('profile.myEncounters', { count: activeMyEncounters.length, max: encounterPolicy.maxActivePosts })}</h3>
+                    <span className="text-xs text-gray-400">{t('profile.expiresAfter', { count: Math.round(encounterPolicy.ttlHours / 24) })}</span>
+                </div>
+                {activeMyEncounters.length > 0 ? (
+                  <div className="space-y-4">
+                    {activeMyEncounters.map(renderMyEncounter)}
+                  </div>
+                ) : (
+                  <p className="text-gray-400 text-sm italic">{t('profile.noActiveEncounters')}</p>
+                )}
+
+                {archivedMyEncounters.length > 0 && (
+                  <>
+                    <div className="flex justify-between items-center border-b border-gray-100 dark:border-gray-800 pb-2 mb-4 mt-8">
+                        <h3 className="font-bold text-gray-500 dark:text-gray-400">{t('profile.archived', { count: archivedMyEncounters.length })}</h3>
+                        <span className="text-xs text-gray-400">{t('profile.archivedHint')}</span>
+                    </div>
+                    <div className="space-y-4 opacity-70">
+                      {archivedMyEncounters.map(renderMyEncounter)}
+                    </div>
+                  </>
+                )}
+
+                {deletedMyEncounters.length > 0 && (
+                  <>
+                    <div className="flex justify-between items-center border-b border-gray-100 dark:border-gray-800 pb-2 mb-4 mt-8">
+                        <h3 className="font-bold text-gray-500 dark:text-gray-400">{t('profile.deleted', { count: deletedMyEncounters.length })}</h3>
+                        <span className="text-xs text-gray-400">{t('profile.deletedHint')}</span>
+                    </div>
+                    <div className="space-y-3">
+                      {deletedMyEncounters.map(version => (
+                        <div key={version.encounterId} className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
+                            <p className="font-bold text-gray-700 dark:text-gray-200">{version.title}</p>
+                            <p className="text-sm text-gray-500 dark:text-gray-400 line-clamp-2">{version.description}</p>
+                            <div className="flex gap-2 mt-3">
+                                <button
+                                  onClick={() => navigate({ name: 'create', from: version.encounterId })}
+                                  className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-rose-600 text-white text-xs font-bold"
+                                >
+                                    <RotateCcw size={14} /> {t('profile.republish')}
+                                </button>
+                                <button
+                                  onClick={() => handleDiscardDeleted(version)}
+                                  className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white dark:bg-gray-900 text-red-500 text-xs font-bold"
+                                >
+                                    <Trash2 size={14} /> {t('profile.discard')}
+                                </button>
+                            </div>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+             </div>
+
+             <button
+               onClick={isEditingProfile ? handleSaveProfile : () => setIsEditingProfile(true)}
+               className={`w-full mt-4 mb-10 py-4 rounded-xl font-bold flex items-center justify-center gap-2 ${
+                   isEditingProfile ? 'bg-rose-600 text-white shadow-lg shadow-rose-200' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700'
+               }`}
+             >
+                 {isEditingProfile ? <><Save size={20} /> {t('profile.save')}</> : t('profile.edit')}
+             </button>
+         </div>
+     </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { dispatch, getState } from '../../store';
+import { encounterRepository } from '../../services/encounterRepository';
+import * as imageService from '../../services/imageService';
+
+export const MAX_PROFILE_PHOTOS = 6;
+
+// A photo can be shared by the profile and posts (quick publish uses the cover), and deleted posts keep
+// theirs to be republished, so only delete unused ones
+export const isImageInUse = (ref: string, profileImages: string[] = getState().session.profile.images) => {
+  const { mine, deleted } = getState().encounters;
+  return profileImages.includes(ref) ||
+    mine.some(e => e.image === ref || e.userProfile.images.includes(ref)) ||
+    deleted.some(v => v.image === ref);
+};
+
+// Forgets a deleted post's history. Its photos were kept for the history and for republishing, so they go
+// with it unless a post or another version still shows them.
+export const discardDeletedEncounter = async (encounterId: string): Promise<boolean> => {
+  const versions = await encounterRepository.fetchEncounterVersions(encounterId);
+  const discarded = await encounterRepository.discardEncounterVersions(encounterId);
+  if (!discarded) return false;
+  dispatch({ type: 'encounters/deletedVersionsDiscarded', encounterId });
+
+  const images = [...new Set(versions.flatMap(v => v.image ? [v.image] : []))];
+  if (images.length === 0) return true;
+  const stillShown = await encounterRepository.fetchImagesInVersions(images);
+  imageService.deleteImages(images.filter(image => !stillShown.includes(image) && !isImageInUse(image)));
+  return true;
+};
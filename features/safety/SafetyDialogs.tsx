@@ -0,0 +1,56 @@
+import React from 'react';
+import { ReportReason } from '../../types';
+import { ReportDialog } from '../../components/ReportDialog';
+import { BlockDialog } from '../../components/BlockDialog';
+import * as safetyService from '../../services/safetyService';
+import { dispatch, getState, showToast, useAppState } from '../../store';
+import { navigate, HOME_ROUTE } from '../../utils/router';
+import { useI18n } from '../../i18n';
+
+// Report/block dialogs, opened from the details and chat views through ui.reportTarget / ui.blockTarget
+export const SafetyDialogs: React.FC = () => {
+  const { t } = useI18n();
+  const reportTarget = useAppState(s => s.ui.reportTarget);
+  const blockTarget = useAppState(s => s.ui.blockTarget);
+
+  // Blocking also ends the match, likes and chats on the server (block_user); the store mirrors that
+  const handleBlockUser = async (blockedId: string, message: string = t('toast.userBlocked')) => {
+    dispatch({ type: 'ui/blockOpened', target: null });
+    const ok = await safetyService.blockUser(blockedId);
+    if (!ok) {
+      showToast(t('toast.blockFailed'), 'error');
+      return;
+    }
+    dispatch({ type: 'safety/userBlocked', userId: blockedId });
+    // Their post or chat was on screen and no longer exists
+    navigate(HOME_ROUTE, { replace: true });
+    showToast(message, 'info');
+  };
+
+  const handleSubmitReport = async (reason: ReportReason, details: string, alsoBlock: boolean) => {
+    if (!reportTarget) return;
+    const target = reportTarget;
+    dispatch({ type: 'ui/reportOpened', target: null });
+    const ok = await safetyService.reportContent(getState().session.profile.id, target, reason, details);
+    if (!ok) {
+      showToast(t('toast.reportFailed'), 'error');
+      return;
+    }
+    if (alsoBlock) {
+      handleBlockUser(target.userId, t('toast.reportedAndBlocked'));
+    } else {
+      showToast(t('toast.reported'), 'success');
+    }
+  };
+
+  return (
+    <>
+      {reportTarget && (
+        <ReportDialog target={reportTarget} onSubmit={handleSubmitReport} onClose={() => dispatch({ type: 'ui/reportOpened', target: null })} />
+      )}
+      {blockTarget && (
+        <BlockDialog userName={blockTarget.userName} onConfirm={() => handleBlockUser(blockTarget.userId)} onClose={() => dispatch({ type: 'ui/blockOpened', target: null })} />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef } from 'react';
+import { ChatMessage, Encounter, Like } from '../../types';
+import { encounterRepository } from '../../services/encounterRepository';
+import * as chatService from '../../services/chatService';
+import * as likeService from '../../services/likeService';
+import * as notificationService from '../../services/notificationService';
+import * as outboxService from '../../services/outboxService';
+import * as safetyService from '../../services/safetyService';
+import { createProximityIndex } from '../../utils/matching';
+import { getActiveEncounters } from '../../utils/encounterPolicy';
+import { upsertMessage } from '../../utils/chat';
+import { getPushTexts, localizeNotification } from '../../utils/notifications';
+import { boundsAround } from '../../utils/geo';
+import { dispatch, getState, showToast, useAppState } from '../../store';
+import { useOutbox } from '../sync/useOutbox';
+import { loadArea, resetArea } from '../map/area';
+import { useI18n } from '../../i18n';
+
+// Loads the signed in account and keeps it in sync with the server. Renders nothing: it lives in its
+// own component so the store slices it follows don't re-render the app.
+export const SessionSync: React.FC<{ userId: string }> = ({ userId }) => {
+  const { t } = useI18n();
+  const { syncOutbox } = useOutbox();
+  const location = useAppState(s => s.location.current);
+  const isOnline = useAppState(s => s.sync.isOnline);
+  const matches = useAppState(s => s.matches.matches);
+  const nearbyEncounters = useAppState(s => s.encounters.nearby);
+  const chats = useAppState(s => s.chats.list);
+  const myEncounters = useAppState(s => s.encounters.mine);
+  const now = useAppState(s => s.ui.now);
+
+  // Load persisted posts and chats
+  useEffect(() => {
+    // Actions queued offline in an earlier session show as pending until the outbox replays them
+    Promise.all([
+      encounterRepository.fetchMyEncounters(userId),
+      chatService.fetchChats(userId),
+      likeService.fetchLikeState(userId),
+      outboxService.listEntries(userId)
+    ]).then(([mine, loadedChats, loadedLikeState, entries]) => {
+      const pendingEncounters: Encounter[] = [];
+      const pendingLikes: Like[] = [];
+      let pendingChats = loadedChats;
+      entries.forEach(({ action, createdAt }) => {
+        if (action.kind === 'encounter') {
+          pendingEncounters.push({ ...action.encounter, syncPending: true });
+        } else if (action.kind === 'like') {
+          pendingLikes.push({ ...likeService.createLike(userId, action.encounter), timestamp: createdAt, syncPending: true });
+        } else {
+          const queued: ChatMessage = { ...action.message, status: 'queued' };
+          pendingChats = pendingChats.map(c => c.matchId === action.matchId ? { ...c, messages: upsertMessage(c.messages, queued) } : c);
+        }
+      });
+      dispatch({ type: 'encounters/mineLoaded', encounters: [...pendingEncounters, ...mine.filter(e => !pendingEncounters.some(p => p.id === e.id))] });
+      dispatch({ type: 'chats/loaded', chats: pendingChats });
+      dispatch({ type: 'matches/loaded', state: { ...loadedLikeState, likes: [...loadedLikeState.likes, ...pendingLikes] } });
+      dispatch({ type: 'sync/pendingCounted', count: entries.length });
+      if (entries.length > 0) syncOutbox(userId);
+    });
+    encounterRepository.fetchEncounterPolicy().then(policy => dispatch({ type: 'encounters/policyLoaded', policy }));
+    encounterRepository.fetchHiddenEncounterIds(userId).then(ids => dispatch({ type: 'encounters/hiddenLoaded', ids }));
+    encounterRepository.fetchDeletedEncounterVersions().then(versions => dispatch({ type: 'encounters/deletedVersionsLoaded', versions }));
+    safetyService.fetchBlockedUserIds(userId).then(userIds => dispatch({ type: 'safety/blockedLoaded', userIds }));
+    safetyService.isAdmin(userId).then(isAdmin => dispatch({ type: 'session/adminChecked', isAdmin }));
+    notificationService.fetchNotifications(userId).then(notifications => dispatch({ type: 'notifications/loaded', notifications }));
+    notificationService.fetchNotificationPreferences(userId).then(preferences => dispatch({ type: 'notifications/preferencesLoaded', preferences }));
+    notificationService.isPushEnabled().then(enabled => dispatch({ type: 'notifications/pushChanged', enabled }));
+  }, [userId]);
+
+  // Coming back online replays the outbox
+  const wasOnlineRef = useRef(isOnline);
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current) syncOutbox(userId);
+    wasOnlineRef.current = isOnline;
+  }, [isOnline]);
+
+  // Fetch encounters around the user once the location is known
+  useEffect(() => {
+    if (!location) return;
+    resetArea();
+    loadArea(boundsAround(location, 1000), userId);
+  }, [userId, location]);
+
+  // Posts at the venues and transit lines of mine can be anywhere in the city, not just in the loaded area.
+  // Loaded after the area, which clears them when the position changes.
+  const activeVenueIds = [...new Set(getActiveEncounters(myEncounters, now).flatMap(e => e.venue ? [e.venue.id] : []))].sort().join(',');
+  useEffect(() => {
+    if (!activeVenueIds) return;
+    encounterRepository.fetchEncountersAtVenues(userId, activeVenueIds.split(','))
+      .then(encounters => dispatch({ type: 'encounters/venuePostsLoaded', encounters }));
+  }, [userId, location, activeVenueIds]);
+
+  // Likes on my posts and matches arrive in realtime; reload the whole like state on any change
+  useEffect(() => {
+    return likeService.subscribeToLikeState(userId, () => {
+      likeService.fetchLikeState(userId).then(state => dispatch({ type: 'matches/loaded', state }));
+    });
+  }, [userId]);
+
+  // Every match gets a conversation header as soon as we know the partner's encounter
+  useEffect(() => {
+    matches.forEach(match => {
+      if (chats.some(c => c.matchId === match.id)) return;
+      const partnerId = match.userIds.find(id => id !== userId);
+      const enc = nearbyEncounters.find(e => e.userId === partnerId);
+      if (!partnerId || !enc) return;
+      const newChat = chatService.createChat({
+        encounterId: enc.id,
+        matchId: match.id,
+        partnerId,
+        partnerName: enc.userProfile.name,
+        partnerImage: enc.userProfile.images[0]
+      }, match.timestamp);
+      dispatch({ type: 'chats/created', chat: newChat });
+      chatService.saveChat(userId, newChat);
+    });
+  }, [matches, nearbyEncounters, chats, userId]);
+
+  // Incoming messages and receipt updates
+  useEffect(() => {
+    return chatService.subscribeToMessages(userId, (matchId, message) => {
+      dispatch({ type: 'chats/messageReceived', matchId, message });
+      if (message.senderId === userId || message.status !== 'sent') return;
+
+      // A new message from the partner
+      dispatch({ type: 'chats/partnerTyping', isTyping: false });
+      if (getState().chats.viewingMatchId === matchId) {
+        chatService.markRead(matchId);
+      } else {
+        chatService.markDelivered(matchId);
+        showToast(t('toast.newMessage'), 'success');
+      }
+    });
+  }, [userId, t]);
+
+  // Notifications are written on the server (likes, matches, messages, expiring and edited posts) and arrive in realtime
+  useEffect(() => {
+    return notificationService.subscribeToNotifications(userId, (incoming, isNew) => {
+      // Messages in the conversation on screen are already read
+      if (incoming.type === 'message' && !incoming.read && getState().chats.viewingMatchId === incoming.matchId) {
+        notificationService.markNotificationsRead([incoming.id]);
+        incoming = { ...incoming, read: true };
+      }
+      dispatch({ type: 'notifications/received', notification: incoming });
+      // A post I liked changed: show it as it is now
+      if (isNew && incoming.type === 'edited' && incoming.encounterId) {
+        encounterRepository.fetchEncounter(userId, incoming.encounterId).then(encounter => {
+          if (encounter) dispatch({ type: 'encounters/updated', encounter });
+        });
+      }
+      // New messages already get a toast from the chat subscription
+      if (isNew && incoming.type !== 'message') showToast(localizeNotification(incoming, t).title, 'info');
+    });
+  }, [userId, t]);
+
+  // Pushes come in the app's language, including after switching it
+  useEffect(() => {
+    notificationService.sharePushTexts(getPushTexts(t));
+  }, [t]);
+
+  // Other people's locations are coarsened, so the radius part of matching runs on the server.
+  // Refreshed when my posts change or move or new areas are loaded, and again once a new post reaches the server.
+  const activeMyEncounterKeys = getActiveEncounters(myEncounters, now)
+    .map(e => `${e.id}:${e.syncPending}:${e.location.lat},${e.location.lng}`).join(',');
+  useEffect(() => {
+    if (!activeMyEncounterKeys) return;
+    encounterRepository.fetchProximityPairs().then(pairs => dispatch({ type: 'encounters/proximityLoaded', proximity: createProximityIndex(pairs) }));
+  }, [activeMyEncounterKeys, nearbyEncounters.length]);
+
+  // Exact spots of matched partners' posts
+  useEffect(() => {
+    encounterRepository.fetchMatchedLocations().then(locations => dispatch({ type: 'encounters/matchedLocationsLoaded', locations }));
+  }, [matches]);
+
+  return null;
+};
@@ -0,0 +1,27 @@
+import * as authService from '../../services/authService';
+import * as notificationService from '../../services/notificationService';
+import * as outboxService from '../../services/outboxService';
+import { dispatch, getState } from '../../store';
+import { navigate, HOME_ROUTE } from '../../utils/router';
+
+// The next account starts from scratch; nearby posts are reloaded from the encounter source
+const clearSession = () => {
+  dispatch({ type: 'session/cleared' });
+  navigate(HOME_ROUTE, { replace: true });
+};
+
+// onSessionChange then moves the app to the landing screen
+export const signOut = async () => {
+  await notificationService.disablePush(); // This browser stops receiving the account's pushes
+  await authService.signOut();
+  clearSession();
+};
+
+export const deleteAccount = async (): Promise<authService.AccountDeletion> => {
+  const userId = getState().session.profile.id;
+  const outcome = await authService.deleteAccount(userId);
+  if (outcome === 'failed') return outcome;
+  outboxService.clearEntries(userId);
+  clearSession();
+  return outcome;
+};
@@ -0,0 +1,117 @@
+import React, { useRef, useState } from 'react';
+import { Map as MapIcon, MessageCircle, Navigation, Plus, User, Zap } from 'lucide-react';
+import { getTotalUnreadCount } from '../../utils/chat';
+import { useAppState } from '../../store';
+import { Tab, navigate } from '../../utils/router';
+import { useI18n } from '../../i18n';
+import { usePublish } from '../create/usePublish';
+
+// Tabs, plus the center button: tap to write a post, drag it up to quick publish
+export const BottomNav: React.FC<{ activeTab: Tab }> = ({ activeTab }) => {
+  const { t } = useI18n();
+  const hasUnread = useAppState(s => getTotalUnreadCount(s.chats.list, s.session.profile.id) > 0);
+  const { handleQuickPublish } = usePublish();
+
+  const [dragOffset, setDragOffset] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const touchStartRef = useRef<number | null>(null);
+
+  // --- Gesture Handlers ---
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartRef.current = e.touches[0].clientY;
+    setIsDragging(true);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    if (touchStartRef.current === null) return;
+    const currentY = e.touches[0].clientY;
+    const deltaY = currentY - touchStartRef.current;
+
+    // Only allow dragging UP
+    if (deltaY < 0) {
+        setDragOffset(deltaY);
+    }
+  };
+
+  const handleTouchEnd = () => {
+      // Threshold to trigger quick publish (e.g. -200px)
+      if (dragOffset < -200) {
+          handleQuickPublish();
+      }
+      // Reset
+      setDragOffset(0);
+      setIsDragging(false);
+      touchStartRef.current = null;
+  };
+
+  return (
+    <>
+      {/* Quick Publish Drop Zone */}
+      {isDragging && (
+          <div className={`fixed inset-0 z-[1900] flex items-center justify-center bg-black/40 backdrop-blur-sm transition-opacity duration-300 ${dragOffset < -200 ? 'opacity-100' : 'opacity-0'}`}>
+              <div className={`bg-white/20 p-8 rounded-full border-4 border-dashed border-white text-white font-bold text-center transform transition-transform duration-300 ${dragOffset < -200 ? 'scale-110' : 'scale-100'}`}>
+                  <Zap size={48} className="mx-auto mb-2" />
+                  <p>{t('quickPublish.dropToPublish')}<br/>{t('quickPublish.dropToPublishLine2')}</p>
+              </div>
+          </div>
+      )}
+
+      {/* Bottom Navigation Bar */}
+      <nav className="bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-800 px-2 pb-4 pt-2 flex items-end justify-between sticky bottom-0 z-[1000] h-20">
+         <button
+           onClick={() => navigate({ name: 'map' })}
+           className={`flex-1 flex flex-col items-center py-2 ${activeTab === 'map' ? 'text-rose-600' : 'text-gray-400'}`}
+         >
+            <MapIcon size={24} className={activeTab === 'map' ? 'fill-rose-100 dark:fill-rose-900' : ''} />
+            <span className="text-[10px] font-medium mt-1">{t('nav.map')}</span>
+         </button>
+
+         <button
+           onClick={() => navigate({ name: 'explore' })}
+           className={`flex-1 flex flex-col items-center py-2 ${activeTab === 'explore' ? 'text-rose-600' : 'text-gray-400'}`}
+         >
+            <Navigation size={24} className={activeTab === 'explore' ? 'fill-rose-100 dark:fill-rose-900' : ''} />
+            <span className="text-[10px] font-medium mt-1">{t('nav.explore')}</span>
+         </button>
+
+         {/* Center Add Button with Drag Gesture */}
+         <div
+            className="relative -top-5 mx-2 touch-none select-none"
+            onTouchStart={handleTouchStart}
+            onTouchMove={handleTouchMove}
+            onTouchEnd={handleTouchEnd}
+            style={{
+                transform: `translateY(${dragOffset}px)`,
+                transition: isDragging ? 'none' : 'transform 0.3s cubic-bezier(0.34, 1.56, 0.64, 1)'
+            }}
+         >
+            <button
+                onClick={() => navigate({ name: 'create' })}
+                className="bg-rose-600 text-white p-4 rounded-full shadow-xl shadow-rose-200 dark:shadow-none border-4 border-gray-50 dark:border-gray-900 active:scale-95 transition-transform"
+            >
+                <Plus size={28} />
+            </button>
+         </div>
+
+         <button
+           onClick={() => navigate({ name: 'chats' })}
+           className={`flex-1 flex flex-col items-center py-2 ${activeTab === 'chats' ? 'text-rose-600' : 'text-gray-400'} relative`}
+         >
+            <MessageCircle size={24} className={activeTab === 'chats' ? 'fill-rose-100 dark:fill-rose-900' : ''} />
+            {hasUnread && (
+                <span className="absolute top-1 right-6 w-3 h-3 bg-red-500 rounded-full border-2 border-white dark:border-gray-900"></span>
+            )}
+            <span className="text-[10px] font-medium mt-1">{t('nav.chat')}</span>
+         </button>
+
+         <button
+           onClick={() => navigate({ name: 'profile' })}
+           className={`flex-1 flex flex-col items-center py-2 ${activeTab === 'profile' ? 'text-rose-600' : 'text-gray-400'}`}
+         >
+            <User size={24} className={activeTab === 'profile' ? 'fill-rose-100 dark:fill-rose-900' : ''} />
+            <span className="text-[10px] font-medium mt-1">{t('nav.profile')}</span>
+         </button>
+      </nav>
+    </>
+  );
+};
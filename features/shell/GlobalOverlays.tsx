@@ -0,0 +1,49 @@
+import React from 'react';
+import { AlertTriangle, Bell, Check } from 'lucide-react';
+import { MatchOverlay } from '../../components/MatchOverlay';
+import { ImageGallery } from '../../components/ImageGallery';
+import { dispatch, useAppState } from '../../store';
+import { useOpenChat } from '../chat/useOpenChat';
+
+// Toast, "It's a match" and the photo gallery show over any screen
+export const GlobalOverlays: React.FC = () => {
+  const notification = useAppState(s => s.ui.toast);
+  const match = useAppState(s => s.ui.match);
+  const galleryImages = useAppState(s => s.ui.galleryImages);
+  const userImage = useAppState(s => s.session.profile.images[0]);
+  const openChat = useOpenChat();
+
+  return (
+    <>
+      {/* Toast Notification System */}
+      {notification && (
+        <div className={`fixed top-10 left-1/2 -translate-x-1/2 px-5 py-3 rounded-full text-sm font-bold shadow-xl z-[2000] animate-in slide-in-from-top fade-in flex items-center gap-2 whitespace-nowrap ${
+            notification.type === 'error' ? 'bg-red-500 text-white' :
+            notification.type === 'success' ? 'bg-green-500 text-white' :
+            'bg-gray-900 dark:bg-gray-200 text-white dark:text-gray-900'
+        }`}>
+           {notification.type === 'error' && <AlertTriangle size={16}/>}
+           {notification.type === 'success' && <Check size={16}/>}
+           {notification.type === 'info' && <Bell size={16}/>}
+           {notification.message}
+        </div>
+      )}
+
+      {/* Match Overlay */}
+      {match && (
+         <MatchOverlay
+           userImage={userImage}
+           partnerImage={match.partner.images[0]}
+           partnerName={match.partner.name}
+           onClose={() => dispatch({ type: 'ui/matchShown', match: null })}
+           onChat={() => openChat(match.encounterId)}
+         />
+      )}
+
+      {/* Image Gallery */}
+      {galleryImages && (
+          <ImageGallery images={galleryImages} onClose={() => dispatch({ type: 'ui/galleryOpened', images: null })} />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { CloudOff } from 'lucide-react';
+import { useAppState } from '../../store';
+import { Route, tabOf } from '../../utils/router';
+import { useI18n } from '../../i18n';
+import { MapView } from '../map/MapView';
+import { ExploreView } from '../explore/ExploreView';
+import { ChatListView } from '../chat/ChatListView';
+import { ProfileView } from '../profile/ProfileView';
+import { BottomNav } from './BottomNav';
+
+// The tabs. Stays mounted under the other screens, so the map keeps its position and tiles.
+export const MainView: React.FC<{ route: Route }> = ({ route }) => {
+  const { t } = useI18n();
+  const isOnline = useAppState(s => s.sync.isOnline);
+  const pendingSyncCount = useAppState(s => s.sync.pendingCount);
+  const activeTab = tabOf(route);
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900 font-sans max-w-md mx-auto shadow-2xl overflow-hidden relative transition-colors duration-300">
+
+      {/* Offline / Sync Status */}
+      {(!isOnline || pendingSyncCount > 0) && (
+          <div className="bg-gray-800 text-white text-xs font-medium py-1.5 flex items-center justify-center gap-2 z-[600]">
+              <CloudOff size={14} />
+              {t(!isOnline ? 'sync.offline' : 'sync.syncing')}
+              {pendingSyncCount > 0 && ` · ${t('sync.pending', { count: pendingSyncCount })}`}
+          </div>
+      )}
+
+      {/* Content Area */}
+      <div className="flex-1 overflow-hidden relative">
+
+        {/* Tab: Map */}
+        <div className={`absolute inset-0 flex flex-col ${activeTab === 'map' ? 'z-10 visible' : 'z-0 invisible'}`}>
+           <MapView />
+        </div>
+
+        {/* Tab: Explore */}
+        {activeTab === 'explore' && (
+           <ExploreView
+             myEncounterId={route.name === 'explore' ? route.myEncounterId : undefined}
+             all={route.name === 'explore' ? route.all : undefined}
+           />
+        )}
+
+        {/* Tab: Matches */}
+        {activeTab === 'chats' && <ChatListView />}
+
+        {activeTab === 'profile' && <ProfileView />}
+
+      </div>
+
+      <BottomNav activeTab={activeTab} />
+
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import * as outboxService from '../../services/outboxService';
+import { OutboxAction, SyncResult } from '../../services/outboxService';
+import * as likeService from '../../services/likeService';
+import { dispatch, getState, showToast } from '../../store';
+import { useI18n } from '../../i18n';
+
+// Creates, likes and chat sends go through the offline outbox
+export const useOutbox = () => {
+  const { t } = useI18n();
+
+  // Mirrors the outcome of an action in the store, whether it ran right away (queued or not)
+  // or was replayed from the outbox later
+  const applySyncResult = (action: OutboxAction, result: SyncResult, replayed: boolean) => {
+    const userId = getState().session.profile.id;
+    if (action.kind === 'encounter') {
+      const { encounter } = action;
+      if (result.status === 'rejected') {
+        // Refused by the server (quota, daily placements, moderation hold) or archived while waiting
+        dispatch({ type: 'encounters/deleted', id: encounter.id });
+        showToast(t('toast.publishFailed', { title: encounter.title }), 'error');
+        return;
+      }
+      dispatch({ type: 'encounters/syncSettled', id: encounter.id, pending: result.status === 'queued' });
+      if (replayed) showToast(t('toast.published', { title: encounter.title }), 'success');
+    } else if (action.kind === 'like') {
+      const { encounter } = action;
+      // A refused like stays on this device, like likes on demo posts always did
+      const match = result.status === 'synced' ? result.match : null;
+      const like = { ...likeService.createLike(userId, encounter), syncPending: result.status === 'queued' };
+      dispatch({ type: 'matches/likeSettled', like, match });
+      if (replayed && match) showToast(t('toast.matchWith', { name: encounter.userProfile.name }), 'success');
+    } else {
+      const { matchId, message } = action;
+      if (result.status === 'rejected') {
+        // The match ended (unmatch, block) before the message got through
+        dispatch({ type: 'chats/messageRemoved', matchId, messageId: message.id });
+        showToast(t('toast.messageFailed'), 'error');
+        return;
+      }
+      dispatch({ type: 'chats/messageSettled', matchId, messageId: message.id, sent: result.status === 'synced' ? result.message : undefined });
+    }
+  };
+
+  const syncOutbox = async (userId: string) => {
+    const results = await outboxService.replayOutbox(userId);
+    const { session } = getState();
+    if (session.loginStep !== 'app' || session.profile.id !== userId) return; // Signed out meanwhile
+    results.forEach(({ entry, result }) => applySyncResult(entry.action, result, true));
+    dispatch({ type: 'sync/pendingCounted', count: (await outboxService.listEntries(userId)).length });
+  };
+
+  // Runs the action now, or queues it in the outbox when there's no connection
+  const runOutboxAction = async (action: OutboxAction): Promise<SyncResult> => {
+    const userId = getState().session.profile.id;
+    const result = await outboxService.sendOrQueue(userId, action);
+    applySyncResult(action, result, false);
+    if (result.status === 'queued') {
+      dispatch({ type: 'sync/queued' });
+      if (navigator.onLine) syncOutbox(userId); // Queued behind older actions
+    }
+    return result;
+  };
+
+  return { runOutboxAction, syncOutbox };
+};
@@ -0,0 +1,371 @@
+import { Messages } from './es';
+
+export const en: Messages = {
+  // Tags
+  'tag.crush': 'Love at first sight',
+  'tag.eye_contact': 'Our eyes met',
+  'tag.interest': 'Interest',
+  'tag.curiosity': 'Curiosity',
+  'tag.attraction': "I'm attracted to you",
+  'tag.into_you': 'I like you',
+
+  // Report reasons
+  'report.reason.harassment': 'Harassment or threats',
+  'report.reason.inappropriate': 'Inappropriate content',
+  'report.reason.fake': 'Fake profile or impersonation',
+  'report.reason.spam': 'Spam or advertising',
+  'report.reason.underage': 'Looks underage',
+  'report.reason.other': 'Something else',
+
+  // Notification types (settings)
+  'notifications.type.like': 'Someone likes you',
+  'notifications.type.match': 'New matches',
+  'notifications.type.message': 'Messages',
+  'notifications.type.expiring': 'Posts about to expire',
+  'notifications.type.edited': 'Posts you liked were edited',
+
+  // Moderation reasons
+  'moderation.reason.profanity': 'Offensive language',
+  'moderation.reason.abuse': 'Insults, hate or threats',
+  'moderation.reason.sexual': 'Explicit sexual content',
+  'moderation.reason.phone': 'Phone number',
+  'moderation.reason.email': 'Email address',
+  'moderation.reason.social_handle': 'Social media handle',
+  'moderation.reason.url': 'Links',
+  'moderation.reason.spam': 'Spam or advertising',
+
+  // Common
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.send': 'Send',
+  'common.edit': 'Edit',
+  'common.report': 'Report',
+  'common.block': 'Block',
+
+  // Report dialog
+  'report.subject.message': 'this message',
+  'report.subject.encounter': 'this post',
+  'report.subject.profile': 'this profile',
+  'report.title': 'Report {subject}',
+  'report.anonymous': "{name} won't know you reported them.",
+  'report.detailsPlaceholder': 'Tell us what happened (optional)',
+  'report.alsoBlock': 'Also block {name}',
+
+  // Block dialog
+  'block.title': 'Block {name}?',
+  'block.description': "Neither of you will see the other's posts, likes or messages again. Any match and chat between you will be deleted.",
+
+  // Moderation warning
+  'moderationWarning.title': 'Send it anyway?',
+  'moderationWarning.description': 'Your text may break the community guidelines or put you at risk:',
+  'moderationWarning.confirm': 'Send anyway',
+
+  // Moderation queue
+  'moderationQueue.title': 'Moderation',
+  'moderationQueue.empty': 'No pending reports.',
+  'moderationQueue.pending': '{count} pending reports',
+  'moderationQueue.pending_one': '1 pending report',
+  'moderationQueue.held': 'Hidden',
+  'moderationQueue.dismiss': 'Dismiss',
+  'moderationQueue.hide': 'Hide account',
+  'moderationQueue.saveFailed': "Couldn't save the decision",
+  'moderationQueue.hidden': 'Account hidden',
+  'moderationQueue.dismissed': 'Reports dismissed',
+
+  // Notification center
+  'notifications.title': 'Notifications',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.empty': "You don't have any notifications.",
+  'notifications.time.now': 'now',
+  'notifications.time.minutes': '{count} min ago',
+  'notifications.time.hours': '{count} h ago',
+  'notifications.like.title': 'Someone likes you',
+  'notifications.like.body': 'Your encounter got a like',
+  'notifications.match.title': "It's a Match!",
+  'notifications.match.body': 'You like each other. Say hi',
+  'notifications.expiring.title': 'Your encounter expires soon',
+  'notifications.expiring.body': 'It will be archived in less than 24 h',
+  'notifications.edited.title': 'An encounter changed',
+  'notifications.edited.body': 'A post you liked was edited',
+
+  // Encounter card
+  'encounter.archived': 'Archived',
+  'encounter.syncPending': 'Pending',
+  'encounter.status.match': 'Match!',
+  'encounter.status.likedByThem': 'They like you',
+  'encounter.status.likedByMe': 'Waiting...',
+  'encounter.edited': 'Edited',
+
+  // Match overlay
+  'match.title': "It's a Match!",
+  'match.connectedWith': "You've connected with",
+  'match.sendMessage': 'Send Message',
+  'match.keepExploring': 'Keep Exploring',
+
+  // Toasts
+  'toast.newMessage': 'New message',
+  'toast.publishFailed': "Couldn't publish \"{title}\"",
+  'toast.published': '"{title}" published',
+  'toast.matchWith': "It's a Match with {name}!",
+  'toast.messageFailed': "Couldn't send the message",
+  'toast.searchFailed': 'Error while searching the location',
+  'toast.peopleFound': '{count} people found nearby',
+  'toast.peopleFound_one': '1 person found nearby',
+  'auth.invalidCredentials': 'Wrong email or password',
+  'toast.confirmEmail': 'Check your email to confirm your account',
+  'toast.deleteAccountFailed': "Couldn't delete the account",
+  'toast.deleteAccountPhotosLeft': "Your account was deleted, but some photos couldn't be removed",
+  'toast.profileSaved': 'Profile updated',
+  'moderation.cannotPublish': "Can't publish: {reasons}",
+  'moderation.cannotSend': "Can't send: {reasons}",
+  'toast.postLimit': 'Limit of {count} active encounters reached',
+  'toast.encounterPublished': 'Encounter published',
+  'toast.publishQueued': "Offline: it will be published once you're back online",
+  'quickPublish.defaultMessage': 'You caught my eye, you seemed lovely and interesting',
+  'quickPublish.title': 'Crossed Glances',
+  'toast.quickPublished': 'Encounter published in a flash!',
+  'toast.encounterDeleted': 'Encounter deleted',
+  'toast.likeQueued': "Offline: your like will be sent once you're back online",
+  'toast.liked': 'You liked it',
+  'toast.encounterHidden': 'Encounter hidden',
+  'toast.unmatched': 'Match cancelled',
+  'toast.userBlocked': 'User blocked',
+  'toast.blockFailed': "Couldn't block the user",
+  'toast.reportFailed': "Couldn't send the report",
+  'toast.reportedAndBlocked': 'Report sent and user blocked',
+  'toast.reported': "Thanks, we'll review your report",
+  'toast.chatNotReady': 'The chat is still being set up',
+  'toast.encounterNotFound': 'This post is no longer available',
+  'toast.preferenceFailed': "Couldn't save the preference",
+  'toast.pushEnabled': 'Push notifications enabled',
+  'toast.pushFailed': "Couldn't enable notifications",
+  'toast.photoUploadFailed': "Couldn't upload the photo",
+  'chat.defaultOpener': "Hi! I'm glad we found each other.",
+  'toast.maxPhotos': 'Up to {count} photos',
+  'toast.photoAdded': 'Photo added',
+  'toast.needOnePhoto': 'You need at least one profile photo',
+  'toast.editSaved': 'Changes saved',
+  'toast.editAnnounced': 'Changes saved. People who liked it will be told',
+  'toast.editFailed': "Couldn't save the changes",
+  'toast.editOffline': 'Editing needs a connection',
+  'toast.encounterNotEditable': 'This post can no longer be edited',
+  'toast.discardFailed': "Couldn't remove it",
+
+  // Landing, auth and registration
+  'landing.tagline': 'Connect with the person you just locked eyes with.',
+  'landing.signIn': 'Sign in with email',
+  'auth.signInTitle': 'Sign in to your account',
+  'auth.signUpTitle': 'Create your account',
+  'auth.email': 'Email',
+  'auth.emailPlaceholder': 'you@email.com',
+  'auth.password': 'Password',
+  'auth.magicLinkSent': 'We sent a link to {email}',
+  'auth.useMagicLink': "I'd rather get a magic link by email",
+  'auth.signIn': 'Sign in',
+  'auth.signUp': 'Create account',
+  'auth.switchToSignUp': "Don't have an account? Sign up",
+  'auth.switchToSignIn': 'Already have an account? Sign in',
+  'register.title': 'Create your profile',
+  'profile.name': 'Name',
+  'register.namePlaceholder': 'E.g. Alex',
+  'profile.age': 'Age',
+  'register.gender': 'Gender',
+  'gender.male': 'Man',
+  'gender.female': 'Woman',
+  'gender.other': 'Other',
+  'register.continue': 'Continue',
+  'loading.nearby': 'Looking for nearby encounters...',
+
+  // Create encounter
+  'create.title': 'New Encounter',
+  'create.quickPublish': 'Quick Publish (Use Profile)',
+  'create.orDetailed': 'Or write a detailed one',
+  'create.locationHint': 'It starts at the center of the map (the crosshair); edit it to move the pin or draw a route or area. Others only see an approximate area until you match.',
+  'photo.uploading': 'Uploading photo...',
+  'create.tapToRemove': 'Tap to remove',
+  'create.addPhoto': 'Add a photo (Optional)',
+  'photo.camera': 'Camera',
+  'photo.gallery': 'Gallery',
+  'create.exifNote': 'We strip the location and EXIF data before uploading it',
+  'create.titleLabel': 'Catchy title',
+  'create.titlePlaceholder': 'E.g. Girl with the red book...',
+  'create.tags': 'Tags',
+  'create.when': 'When did it happen?',
+  'create.what': 'What happened?',
+  'create.descriptionPlaceholder': 'We locked eyes at the traffic light...',
+  'create.publish': 'Publish Encounter',
+  'create.republishTitle': 'Republish Encounter',
+  'create.republishHint': 'A new post with the text of the old one. It starts without likes.',
+
+  // Edit encounter
+  'edit.title': 'Edit Encounter',
+  'edit.save': 'Save Changes',
+  'edit.noChanges': 'Nothing changed yet',
+  'edit.materialHint': 'People who liked it will be told about these changes',
+  'edit.quietHint': 'Small fixes are saved without notice',
+  'edit.history': 'Edit history',
+  'edit.version': 'Version {version}',
+  'edit.original': 'As published',
+  'edit.announced': 'Announced',
+  'edit.change.title': 'Title',
+  'edit.change.description': 'Description',
+  'edit.change.tags': 'Tags',
+  'edit.change.image': 'Photo',
+  'edit.change.location': 'Place',
+  'edit.change.venue': 'Venue',
+  'edit.change.time': 'Time',
+
+  // Location editor
+  'location.edit': 'Edit',
+  'location.done': 'Done',
+  'location.mode.point': 'Pin',
+  'location.mode.route': 'Route',
+  'location.mode.area': 'Area',
+  'location.summary.point': 'A single spot',
+  'location.summary.route': 'A route of {count} points',
+  'location.summary.area': 'An area of {count} points',
+  'location.summary.incomplete': 'Finish drawing the route or area',
+  'location.pointHint': 'Drag the pin or tap the map to move it.',
+  'location.routeHint': 'Tap the map along the way you went: a bus ride, a walk down a street...',
+  'location.areaHint': 'Tap the map around the place: a concert crowd, a park...',
+  'location.shapeReady': '{count} points. Keep tapping to add more.',
+  'location.undo': 'Undo last point',
+  'location.clear': 'Clear',
+  'location.tooManyPoints': 'Up to {count} points',
+  'location.tooFar': 'Routes and areas can span up to {count} km',
+
+  // Venues
+  'venue.add': 'Add a venue or transit line',
+  'venue.hint': "Everyone sees it. Posts at the same place or on the same line match even when they're far apart.",
+  'venue.nearby': 'Around here',
+  'venue.noneNearby': 'Nothing named around here. Try searching by name.',
+  'venue.searchPlaceholder': 'A café, a park, a metro line...',
+  'venue.remove': 'Remove venue',
+  'venue.tooFar': 'That place is too far from your post. It has to be within 300 m.',
+
+  // Details
+  'unmatch.title': 'Cancel the match?',
+  'unmatch.description': "This can't be undone. The chat and the connection will be deleted.",
+  'unmatch.confirm': 'Cancel Match',
+  'details.viewProfile': 'View Profile',
+  'details.story': 'The Story',
+  'details.profilePhotos': 'Profile photos',
+  'details.likePending': 'Waiting to be sent',
+  'details.likeSent': 'Request Sent',
+  'details.like': 'Like',
+  'details.pass': 'Not interested',
+  'details.editedOn': 'Edited on {date}',
+
+  // Chat
+  'chat.hiddenMessage': 'Message hidden for possible abuse. Tap to see it',
+  'chat.reportMessage': 'Report message',
+  'chat.placeholder': 'Write a message...',
+
+  // Offline bar
+  'sync.offline': 'Offline',
+  'sync.syncing': 'Syncing',
+  'sync.pending': '{count} pending',
+  'sync.pending_one': '1 pending',
+
+  // Account deletion
+  'deleteAccount.title': 'Delete your account?',
+  'deleteAccount.description': "Your encounters, chats and photos will be deleted. This can't be undone.",
+  'deleteAccount.confirm': 'Delete',
+  'quickPublish.dropToPublish': 'Release to',
+  'quickPublish.dropToPublishLine2': 'Quick Publish',
+
+  // Map
+  'map.myLocation': 'Your GPS location',
+  'map.loadingArea': 'Loading area...',
+  'map.searchTitle': 'Search and Filter',
+  'map.searchPlaceholder': 'Search a street or area...',
+  'map.filters': 'Map Filters',
+  'map.showHidden': 'Show Hidden / Rejected',
+  'map.mine': 'My Encounters',
+  'map.possible': 'Possible Encounters',
+  'map.likedMe': 'They Like Me',
+  'map.match': 'Matches',
+  'map.heatmap': 'Activity Heatmap',
+  'map.heatmapHint': 'Where posts concentrate around here',
+  'map.timeline': 'Time Slider',
+  'map.timelineHint': 'Replay the posts of a range of hours or days',
+  'map.timeline.hours': 'Hours',
+  'map.timeline.days': 'Days',
+  'map.timeline.from': 'From',
+  'map.timeline.to': 'To',
+  'map.timeline.play': 'Play',
+  'map.timeline.pause': 'Pause',
+  'map.timeline.count': '{count} posts',
+  'map.timeline.count_one': '1 post',
+  'map.cluster.title': '{count} encounters here',
+  'map.cluster.zoomIn': 'Zoom in',
+
+  // Explore
+  'explore.matches': 'Matches',
+  'explore.title': 'Explore',
+  'explore.byPost': 'View by Post',
+  'explore.all': 'View the Whole Map',
+  'explore.noPosts': "You haven't published any encounters.",
+  'explore.createOne': 'Create one now',
+  'explore.peopleNearby': '{count} People nearby',
+  'explore.peopleNearby_one': '1 Person nearby',
+  'explore.noPeople': 'Nobody found nearby.',
+
+  // Chats tab
+  'chats.title': 'Messages',
+  'chats.empty': "You don't have any matches yet.",
+
+  // Profile
+  'profile.ageLabel': 'Age:',
+  'profile.years': '{count} years old',
+  'profile.bio': 'Bio',
+  'profile.quickMessage': 'Quick Message',
+  'profile.quickMessageHint': 'Used when you swipe the + button up.',
+  'profile.quickMessagePlaceholder': 'Default message for quick publish...',
+  'profile.photos': 'My photos',
+  'profile.coverHint': 'The first one is your cover',
+  'profile.photoAlt': 'Photo {count}',
+  'profile.addPhoto': 'Add',
+  'settings.title': 'Settings',
+  'settings.darkMode': 'Dark Mode',
+  'settings.language': 'Language',
+  'settings.push': 'Push on this device',
+  'settings.moderation': 'Moderation',
+  'settings.signOut': 'Sign out',
+  'settings.deleteAccount': 'Delete account',
+  'profile.myEncounters': 'My Encounters ({count}/{max})',
+  'profile.expiresAfter': 'They expire after {count} days',
+  'profile.expiresAfter_one': 'They expire after a day',
+  'profile.noActiveEncounters': "You don't have any active encounters.",
+  'profile.archived': 'Archived ({count})',
+  'profile.archivedHint': 'Their matches and chats are kept',
+  'profile.editEncounter': 'Edit encounter',
+  'profile.republish': 'Republish',
+  'profile.deleted': 'Deleted ({count})',
+  'profile.deletedHint': 'Kept so you can republish them',
+  'profile.discard': 'Remove for good',
+  'profile.save': 'Save Changes',
+  'profile.edit': 'Edit Profile',
+
+  // Discovery preferences
+  'discovery.title': 'Discovery preferences',
+  'discovery.mutualHint': 'You only see people who are also looking for someone like you.',
+  'discovery.interestedIn': 'Show me',
+  'discovery.gender.male': 'Men',
+  'discovery.gender.female': 'Women',
+  'discovery.gender.other': 'Others',
+  'discovery.everyone': 'Everyone',
+  'discovery.everyoneHint': 'Select none to see everyone.',
+  'discovery.ageRange': 'Age range',
+  'discovery.ages': '{min}–{max} years',
+  'discovery.radius': 'Match distance',
+  'discovery.meters': '{count} m',
+  'discovery.radiusHint': 'Two posts match within the smaller distance of both people.',
+
+  // Navigation
+  'nav.map': 'Map',
+  'nav.explore': 'Explore',
+  'nav.chat': 'Chat',
+  'nav.profile': 'Profile',
+  'chat.matchStarted': "It's a Match!"
+};
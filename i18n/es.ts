@@ -0,0 +1,373 @@
+// Spanish is the source catalog: the other locales must define the same keys.
+// A "<key>_one" entry is used instead of "<key>" when the count param is 1.
+export const es = {
+  // Tags
+  'tag.crush': 'Flechazo',
+  'tag.eye_contact': 'Cruzamos miradas',
+  'tag.interest': 'Interés',
+  'tag.curiosity': 'Curiosidad',
+  'tag.attraction': 'Me atraes',
+  'tag.into_you': 'Me gustas',
+
+  // Report reasons
+  'report.reason.harassment': 'Acoso o amenazas',
+  'report.reason.inappropriate': 'Contenido inapropiado',
+  'report.reason.fake': 'Perfil falso o suplantación',
+  'report.reason.spam': 'Spam o publicidad',
+  'report.reason.underage': 'Parece menor de edad',
+  'report.reason.other': 'Otro motivo',
+
+  // Notification types (settings)
+  'notifications.type.like': 'Le gustas a alguien',
+  'notifications.type.match': 'Nuevos matches',
+  'notifications.type.message': 'Mensajes',
+  'notifications.type.expiring': 'Encuentros a punto de caducar',
+  'notifications.type.edited': 'Cambios en encuentros que te gustaron',
+
+  // Moderation reasons
+  'moderation.reason.profanity': 'Lenguaje malsonante',
+  'moderation.reason.abuse': 'Insultos, odio o amenazas',
+  'moderation.reason.sexual': 'Contenido sexual explícito',
+  'moderation.reason.phone': 'Número de teléfono',
+  'moderation.reason.email': 'Dirección de email',
+  'moderation.reason.social_handle': 'Usuario de redes sociales',
+  'moderation.reason.url': 'Enlaces',
+  'moderation.reason.spam': 'Spam o publicidad',
+
+  // Common
+  'common.back': 'Volver',
+  'common.cancel': 'Cancelar',
+  'common.send': 'Enviar',
+  'common.edit': 'Editar',
+  'common.report': 'Reportar',
+  'common.block': 'Bloquear',
+
+  // Report dialog
+  'report.subject.message': 'este mensaje',
+  'report.subject.encounter': 'esta publicación',
+  'report.subject.profile': 'este perfil',
+  'report.title': 'Reportar {subject}',
+  'report.anonymous': '{name} no sabrá que le reportaste.',
+  'report.detailsPlaceholder': 'Cuéntanos qué pasó (opcional)',
+  'report.alsoBlock': 'Bloquear también a {name}',
+
+  // Block dialog
+  'block.title': '¿Bloquear a {name}?',
+  'block.description': 'No volveréis a ver vuestras publicaciones, likes ni mensajes. Se eliminará el match y el chat si existen.',
+
+  // Moderation warning
+  'moderationWarning.title': '¿Seguro que quieres enviarlo?',
+  'moderationWarning.description': 'Tu texto podría incumplir las normas de la comunidad o ponerte en riesgo:',
+  'moderationWarning.confirm': 'Enviar igualmente',
+
+  // Moderation queue
+  'moderationQueue.title': 'Moderación',
+  'moderationQueue.empty': 'No hay reportes pendientes.',
+  'moderationQueue.pending': '{count} reportes pendientes',
+  'moderationQueue.pending_one': '1 reporte pendiente',
+  'moderationQueue.held': 'Oculta',
+  'moderationQueue.dismiss': 'Descartar',
+  'moderationQueue.hide': 'Ocultar cuenta',
+  'moderationQueue.saveFailed': 'No se pudo guardar la decisión',
+  'moderationQueue.hidden': 'Cuenta ocultada',
+  'moderationQueue.dismissed': 'Reportes descartados',
+
+  // Notification center
+  'notifications.title': 'Notificaciones',
+  'notifications.markAllRead': 'Marcar todo como leído',
+  'notifications.empty': 'No tienes notificaciones.',
+  'notifications.time.now': 'ahora',
+  'notifications.time.minutes': 'hace {count} min',
+  'notifications.time.hours': 'hace {count} h',
+  'notifications.like.title': 'Le gustas a alguien',
+  'notifications.like.body': 'Le dieron Me gusta a tu encuentro',
+  'notifications.match.title': '¡Es un Match!',
+  'notifications.match.body': 'Os gustáis mutuamente. Escríbele',
+  'notifications.expiring.title': 'Tu encuentro caduca pronto',
+  'notifications.expiring.body': 'Se archivará en menos de 24 h',
+  'notifications.edited.title': 'Un encuentro cambió',
+  'notifications.edited.body': 'Editaron un encuentro que te gustó',
+
+  // Encounter card
+  'encounter.archived': 'Archivado',
+  'encounter.syncPending': 'Pendiente',
+  'encounter.status.match': 'Match!',
+  'encounter.status.likedByThem': 'Le gustaste',
+  'encounter.status.likedByMe': 'Pendiente...',
+  'encounter.edited': 'Editado',
+
+  // Match overlay
+  'match.title': "It's a Match!",
+  'match.connectedWith': 'Has conectado con',
+  'match.sendMessage': 'Enviar Mensaje',
+  'match.keepExploring': 'Seguir Explorando',
+
+  // Toasts
+  'toast.newMessage': 'Nuevo mensaje',
+  'toast.publishFailed': 'No se pudo publicar "{title}"',
+  'toast.published': '"{title}" publicado',
+  'toast.matchWith': '¡Es un Match con {name}!',
+  'toast.messageFailed': 'No se pudo enviar el mensaje',
+  'toast.searchFailed': 'Error al buscar la ubicación',
+  'toast.peopleFound': '{count} personas encontradas cerca',
+  'toast.peopleFound_one': '1 persona encontrada cerca',
+  'auth.invalidCredentials': 'Email o contraseña incorrectos',
+  'toast.confirmEmail': 'Revisa tu correo para confirmar la cuenta',
+  'toast.deleteAccountFailed': 'No se pudo eliminar la cuenta',
+  'toast.deleteAccountPhotosLeft': 'Tu cuenta se eliminó, pero algunas fotos no se pudieron borrar',
+  'toast.profileSaved': 'Perfil actualizado correctamente',
+  'moderation.cannotPublish': 'No se puede publicar: {reasons}',
+  'moderation.cannotSend': 'No se puede enviar: {reasons}',
+  'toast.postLimit': 'Límite de {count} encuentros activos alcanzado',
+  'toast.encounterPublished': 'Encuentro publicado con éxito',
+  'toast.publishQueued': 'Sin conexión: se publicará al recuperar la señal',
+  'quickPublish.defaultMessage': 'Me llamaste la atención, me pareciste linda e interesante',
+  'quickPublish.title': 'Miradas Cruzadas',
+  'toast.quickPublished': '¡Encuentro publicado rápidamente!',
+  'toast.encounterDeleted': 'Encuentro eliminado',
+  'toast.likeQueued': "Sin conexión: tu 'Me Gusta' se enviará al recuperar la señal",
+  'toast.liked': "Le has dado 'Me Gusta'",
+  'toast.encounterHidden': 'Encuentro ocultado',
+  'toast.unmatched': 'Match cancelado',
+  'toast.userBlocked': 'Usuario bloqueado',
+  'toast.blockFailed': 'No se pudo bloquear al usuario',
+  'toast.reportFailed': 'No se pudo enviar el reporte',
+  'toast.reportedAndBlocked': 'Reporte enviado y usuario bloqueado',
+  'toast.reported': 'Gracias, revisaremos tu reporte',
+  'toast.chatNotReady': 'El chat aún se está preparando',
+  'toast.encounterNotFound': 'Esta publicación ya no está disponible',
+  'toast.preferenceFailed': 'No se pudo guardar la preferencia',
+  'toast.pushEnabled': 'Notificaciones push activadas',
+  'toast.pushFailed': 'No se pudieron activar las notificaciones',
+  'toast.photoUploadFailed': 'No se pudo subir la foto',
+  'chat.defaultOpener': '¡Hola! Me alegro de que nos hayamos encontrado.',
+  'toast.maxPhotos': 'Máximo {count} fotos',
+  'toast.photoAdded': 'Foto añadida',
+  'toast.needOnePhoto': 'Necesitas al menos una foto de perfil',
+  'toast.editSaved': 'Cambios guardados',
+  'toast.editAnnounced': 'Cambios guardados. Avisaremos a quienes les gustó',
+  'toast.editFailed': 'No se pudieron guardar los cambios',
+  'toast.editOffline': 'Para editar necesitas conexión',
+  'toast.encounterNotEditable': 'Este encuentro ya no se puede editar',
+  'toast.discardFailed': 'No se pudo eliminar',
+
+  // Landing, auth and registration
+  'landing.tagline': 'Conecta con quien acabas de cruzar miradas.',
+  'landing.signIn': 'Ingresar con email',
+  'auth.signInTitle': 'Ingresa a tu cuenta',
+  'auth.signUpTitle': 'Crea tu cuenta',
+  'auth.email': 'Email',
+  'auth.emailPlaceholder': 'tu@email.com',
+  'auth.password': 'Contraseña',
+  'auth.magicLinkSent': 'Te enviamos un enlace a {email}',
+  'auth.useMagicLink': 'Prefiero recibir un enlace mágico por email',
+  'auth.signIn': 'Ingresar',
+  'auth.signUp': 'Crear cuenta',
+  'auth.switchToSignUp': '¿No tienes cuenta? Regístrate',
+  'auth.switchToSignIn': '¿Ya tienes cuenta? Ingresa',
+  'register.title': 'Crea tu perfil',
+  'profile.name': 'Nombre',
+  'register.namePlaceholder': 'Ej. Alex',
+  'profile.age': 'Edad',
+  'register.gender': 'Género',
+  'gender.male': 'Hombre',
+  'gender.female': 'Mujer',
+  'gender.other': 'Otro',
+  'register.continue': 'Continuar',
+  'loading.nearby': 'Buscando encuentros cercanos...',
+
+  // Create encounter
+  'create.title': 'Nuevo Encuentro',
+  'create.quickPublish': 'Publicación Rápida (Usar Perfil)',
+  'create.orDetailed': 'O crea uno detallado',
+  'create.locationHint': 'Empieza en el centro del mapa (la mira); edítala para mover el pin o dibujar una ruta o una zona. Los demás solo verán una zona aproximada hasta que haya match.',
+  'photo.uploading': 'Subiendo foto...',
+  'create.tapToRemove': 'Toca para quitar',
+  'create.addPhoto': 'Añadir foto (Opcional)',
+  'photo.camera': 'Cámara',
+  'photo.gallery': 'Galería',
+  'create.exifNote': 'Quitamos la ubicación y los datos EXIF antes de subirla',
+  'create.titleLabel': 'Título llamativo',
+  'create.titlePlaceholder': 'Ej: Chica del libro rojo...',
+  'create.tags': 'Etiquetas',
+  'create.when': '¿Cuándo pasó?',
+  'create.what': '¿Qué pasó?',
+  'create.descriptionPlaceholder': 'Cruzamos miradas en el semáforo...',
+  'create.publish': 'Publicar Encuentro',
+  'create.republishTitle': 'Volver a publicar',
+  'create.republishHint': 'Un encuentro nuevo con el texto del anterior. Empieza sin Me gusta.',
+
+  // Edit encounter
+  'edit.title': 'Editar Encuentro',
+  'edit.save': 'Guardar cambios',
+  'edit.noChanges': 'Todavía no cambiaste nada',
+  'edit.materialHint': 'Avisaremos de estos cambios a quienes les gustó',
+  'edit.quietHint': 'Los pequeños arreglos se guardan sin avisar',
+  'edit.history': 'Historial de cambios',
+  'edit.version': 'Versión {version}',
+  'edit.original': 'Como se publicó',
+  'edit.announced': 'Avisado',
+  'edit.change.title': 'Título',
+  'edit.change.description': 'Descripción',
+  'edit.change.tags': 'Etiquetas',
+  'edit.change.image': 'Foto',
+  'edit.change.location': 'Ubicación',
+  'edit.change.venue': 'Lugar',
+  'edit.change.time': 'Hora',
+
+  // Location editor
+  'location.edit': 'Editar',
+  'location.done': 'Listo',
+  'location.mode.point': 'Pin',
+  'location.mode.route': 'Ruta',
+  'location.mode.area': 'Zona',
+  'location.summary.point': 'Un solo punto',
+  'location.summary.route': 'Una ruta de {count} puntos',
+  'location.summary.area': 'Una zona de {count} puntos',
+  'location.summary.incomplete': 'Termina de dibujar la ruta o la zona',
+  'location.pointHint': 'Arrastra el pin o toca el mapa para moverlo.',
+  'location.routeHint': 'Toca el mapa a lo largo del camino que hiciste: un viaje en bus, una calle...',
+  'location.areaHint': 'Toca el mapa alrededor del lugar: el público de un concierto, un parque...',
+  'location.shapeReady': '{count} puntos. Sigue tocando para añadir más.',
+  'location.undo': 'Deshacer el último punto',
+  'location.clear': 'Borrar',
+  'location.tooManyPoints': 'Hasta {count} puntos',
+  'location.tooFar': 'Las rutas y zonas pueden abarcar hasta {count} km',
+
+  // Venues
+  'venue.add': 'Añadir un lugar o una línea de transporte',
+  'venue.hint': 'Lo verá todo el mundo. Las publicaciones en el mismo lugar o en la misma línea coinciden aunque estén lejos.',
+  'venue.nearby': 'Por aquí',
+  'venue.noneNearby': 'No hay ningún lugar con nombre por aquí. Prueba a buscarlo.',
+  'venue.searchPlaceholder': 'Un café, un parque, una línea de metro...',
+  'venue.remove': 'Quitar el lugar',
+  'venue.tooFar': 'Ese lugar está demasiado lejos de tu publicación. Tiene que estar a menos de 300 m.',
+
+  // Details
+  'unmatch.title': '¿Cancelar el match?',
+  'unmatch.description': 'Esta acción es irreversible. Se eliminará el chat y la conexión.',
+  'unmatch.confirm': 'Cancelar Match',
+  'details.viewProfile': 'Ver Perfil',
+  'details.story': 'La Historia',
+  'details.profilePhotos': 'Fotos del perfil',
+  'details.likePending': 'Pendiente de envío',
+  'details.likeSent': 'Solicitud Enviada',
+  'details.like': 'Me interesa',
+  'details.pass': 'No me interesa',
+  'details.editedOn': 'Editado el {date}',
+
+  // Chat
+  'chat.hiddenMessage': 'Mensaje oculto por posible abuso. Toca para verlo',
+  'chat.reportMessage': 'Reportar mensaje',
+  'chat.placeholder': 'Escribe un mensaje...',
+
+  // Offline bar
+  'sync.offline': 'Sin conexión',
+  'sync.syncing': 'Sincronizando',
+  'sync.pending': '{count} pendientes',
+  'sync.pending_one': '1 pendiente',
+
+  // Account deletion
+  'deleteAccount.title': '¿Eliminar tu cuenta?',
+  'deleteAccount.description': 'Se borrarán tus encuentros, chats y fotos. Esta acción es irreversible.',
+  'deleteAccount.confirm': 'Eliminar',
+  'quickPublish.dropToPublish': 'Soltar para',
+  'quickPublish.dropToPublishLine2': 'Publicar Rápido',
+
+  // Map
+  'map.myLocation': 'Tu ubicación GPS',
+  'map.loadingArea': 'Cargando zona...',
+  'map.searchTitle': 'Buscar y Filtrar',
+  'map.searchPlaceholder': 'Buscar calle o zona...',
+  'map.filters': 'Filtros del Mapa',
+  'map.showHidden': 'Mostrar Ocultos / Rechazados',
+  'map.mine': 'Mis Encuentros',
+  'map.possible': 'Posibles Encuentros',
+  'map.likedMe': 'Les Gusto',
+  'map.match': 'Matches',
+  'map.heatmap': 'Mapa de Calor',
+  'map.heatmapHint': 'Dónde se concentran las publicaciones por aquí',
+  'map.timeline': 'Línea de Tiempo',
+  'map.timelineHint': 'Repasa las publicaciones de un rango de horas o de días',
+  'map.timeline.hours': 'Horas',
+  'map.timeline.days': 'Días',
+  'map.timeline.from': 'Desde',
+  'map.timeline.to': 'Hasta',
+  'map.timeline.play': 'Reproducir',
+  'map.timeline.pause': 'Pausar',
+  'map.timeline.count': '{count} publicaciones',
+  'map.timeline.count_one': '1 publicación',
+  'map.cluster.title': '{count} encuentros aquí',
+  'map.cluster.zoomIn': 'Acercar',
+
+  // Explore
+  'explore.matches': 'Coincidencias',
+  'explore.title': 'Explorar',
+  'explore.byPost': 'Ver por Publicación',
+  'explore.all': 'Ver Todo el Mapa',
+  'explore.noPosts': 'No has publicado ningún encuentro.',
+  'explore.createOne': 'Crear uno ahora',
+  'explore.peopleNearby': '{count} Personas cerca',
+  'explore.peopleNearby_one': '1 Persona cerca',
+  'explore.noPeople': 'No se encontraron personas cerca.',
+
+  // Chats tab
+  'chats.title': 'Mensajes',
+  'chats.empty': 'Aún no tienes matches.',
+
+  // Profile
+  'profile.ageLabel': 'Edad:',
+  'profile.years': '{count} años',
+  'profile.bio': 'Bio',
+  'profile.quickMessage': 'Mensaje Rápido',
+  'profile.quickMessageHint': 'Se usa al deslizar el botón + hacia arriba.',
+  'profile.quickMessagePlaceholder': 'Mensaje por defecto para publicación rápida...',
+  'profile.photos': 'Mis fotos',
+  'profile.coverHint': 'La primera es tu portada',
+  'profile.photoAlt': 'Foto {count}',
+  'profile.addPhoto': 'Añadir',
+  'settings.title': 'Configuración',
+  'settings.darkMode': 'Modo Oscuro',
+  'settings.language': 'Idioma',
+  'settings.push': 'Push en este dispositivo',
+  'settings.moderation': 'Moderación',
+  'settings.signOut': 'Cerrar sesión',
+  'settings.deleteAccount': 'Eliminar cuenta',
+  'profile.myEncounters': 'Mis Encuentros ({count}/{max})',
+  'profile.expiresAfter': 'Caducan a los {count} días',
+  'profile.expiresAfter_one': 'Caducan al día',
+  'profile.noActiveEncounters': 'No tienes encuentros activos.',
+  'profile.archived': 'Archivados ({count})',
+  'profile.archivedHint': 'Sus matches y chats se conservan',
+  'profile.editEncounter': 'Editar encuentro',
+  'profile.republish': 'Volver a publicar',
+  'profile.deleted': 'Eliminados ({count})',
+  'profile.deletedHint': 'Se guardan para volver a publicarlos',
+  'profile.discard': 'Eliminar definitivamente',
+  'profile.save': 'Guardar Cambios',
+  'profile.edit': 'Editar Perfil',
+
+  // Discovery preferences
+  'discovery.title': 'Preferencias de descubrimiento',
+  'discovery.mutualHint': 'Solo verás a quien también busca a alguien como tú.',
+  'discovery.interestedIn': 'Mostrarme',
+  'discovery.gender.male': 'Hombres',
+  'discovery.gender.female': 'Mujeres',
+  'discovery.gender.other': 'Otros',
+  'discovery.everyone': 'Todos',
+  'discovery.everyoneHint': 'Sin selección ves a todos.',
+  'discovery.ageRange': 'Rango de edad',
+  'discovery.ages': '{min}–{max} años',
+  'discovery.radius': 'Distancia para coincidir',
+  'discovery.meters': '{count} m',
+  'discovery.radiusHint': 'Dos publicaciones coinciden dentro de la menor distancia de las dos personas.',
+
+  // Navigation
+  'nav.map': 'Mapa',
+  'nav.explore': 'Explorar',
+  'nav.chat': 'Chat',
+  'nav.profile': 'Perfil',
+  'chat.matchStarted': '¡Es un Match!'
+};
+
+export type Messages = Record<keyof typeof es, string>;
@@ -0,0 +1,73 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { es, Messages } from './es';
+import { en } from './en';
+import { pt } from './pt';
+
+export type Locale = 'es' | 'en' | 'pt';
+export type MessageKey = keyof Messages;
+export type TranslateParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+// Shown in their own language in the settings switch
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'es', label: 'Español' },
+  { id: 'en', label: 'English' },
+  { id: 'pt', label: 'Português' }
+];
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+const CATALOGS: Record<Locale, Messages> = { es, en, pt };
+const STORAGE_KEY = 'locale';
+
+const isLocale = (value: string | null): value is Locale => LOCALES.some(l => l.id === value);
+
+// The language picked in settings, else the first browser language we have a catalog for
+export const detectLocale = (): Locale => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+  const preferred = (navigator.languages ?? [navigator.language]).map(l => l.slice(0, 2).toLowerCase());
+  return preferred.find(isLocale) ?? DEFAULT_LOCALE;
+};
+
+// {name} placeholders are filled from params. With a count of 1, a "<key>_one" message wins if there is one.
+export const translate = (locale: Locale, key: MessageKey, params?: TranslateParams): string => {
+  const catalog = CATALOGS[locale];
+  const singular = params?.count === 1 ? catalog[`${key}_one` as MessageKey] : undefined;
+  const template = singular ?? catalog[key] ?? es[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params)
+});
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale: (next: Locale) => {
+      localStorage.setItem(STORAGE_KEY, next);
+      setLocaleState(next);
+    },
+    t: (key, params) => translate(locale, key, params)
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
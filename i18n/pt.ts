@@ -0,0 +1,371 @@
+import { Messages } from './es';
+
+export const pt: Messages = {
+  // Tags
+  'tag.crush': 'Amor à primeira vista',
+  'tag.eye_contact': 'Trocamos olhares',
+  'tag.interest': 'Interesse',
+  'tag.curiosity': 'Curiosidade',
+  'tag.attraction': 'Sinto atração por você',
+  'tag.into_you': 'Gosto de você',
+
+  // Report reasons
+  'report.reason.harassment': 'Assédio ou ameaças',
+  'report.reason.inappropriate': 'Conteúdo impróprio',
+  'report.reason.fake': 'Perfil falso ou falsidade ideológica',
+  'report.reason.spam': 'Spam ou publicidade',
+  'report.reason.underage': 'Parece menor de idade',
+  'report.reason.other': 'Outro motivo',
+
+  // Notification types (settings)
+  'notifications.type.like': 'Alguém gostou de você',
+  'notifications.type.match': 'Novos matches',
+  'notifications.type.message': 'Mensagens',
+  'notifications.type.expiring': 'Encontros prestes a expirar',
+  'notifications.type.edited': 'Alterações em encontros que você curtiu',
+
+  // Moderation reasons
+  'moderation.reason.profanity': 'Linguagem ofensiva',
+  'moderation.reason.abuse': 'Insultos, ódio ou ameaças',
+  'moderation.reason.sexual': 'Conteúdo sexual explícito',
+  'moderation.reason.phone': 'Número de telefone',
+  'moderation.reason.email': 'Endereço de email',
+  'moderation.reason.social_handle': 'Usuário de redes sociais',
+  'moderation.reason.url': 'Links',
+  'moderation.reason.spam': 'Spam ou publicidade',
+
+  // Common
+  'common.back': 'Voltar',
+  'common.cancel': 'Cancelar',
+  'common.send': 'Enviar',
+  'common.edit': 'Editar',
+  'common.report': 'Denunciar',
+  'common.block': 'Bloquear',
+
+  // Report dialog
+  'report.subject.message': 'esta mensagem',
+  'report.subject.encounter': 'esta publicação',
+  'report.subject.profile': 'este perfil',
+  'report.title': 'Denunciar {subject}',
+  'report.anonymous': '{name} não saberá que você fez a denúncia.',
+  'report.detailsPlaceholder': 'Conte o que aconteceu (opcional)',
+  'report.alsoBlock': 'Bloquear {name} também',
+
+  // Block dialog
+  'block.title': 'Bloquear {name}?',
+  'block.description': 'Vocês não verão mais as publicações, curtidas ou mensagens um do outro. O match e o chat, se existirem, serão apagados.',
+
+  // Moderation warning
+  'moderationWarning.title': 'Quer mesmo enviar?',
+  'moderationWarning.description': 'Seu texto pode violar as regras da comunidade ou colocar você em risco:',
+  'moderationWarning.confirm': 'Enviar mesmo assim',
+
+  // Moderation queue
+  'moderationQueue.title': 'Moderação',
+  'moderationQueue.empty': 'Não há denúncias pendentes.',
+  'moderationQueue.pending': '{count} denúncias pendentes',
+  'moderationQueue.pending_one': '1 denúncia pendente',
+  'moderationQueue.held': 'Oculta',
+  'moderationQueue.dismiss': 'Descartar',
+  'moderationQueue.hide': 'Ocultar conta',
+  'moderationQueue.saveFailed': 'Não foi possível salvar a decisão',
+  'moderationQueue.hidden': 'Conta ocultada',
+  'moderationQueue.dismissed': 'Denúncias descartadas',
+
+  // Notification center
+  'notifications.title': 'Notificações',
+  'notifications.markAllRead': 'Marcar tudo como lido',
+  'notifications.empty': 'Você não tem notificações.',
+  'notifications.time.now': 'agora',
+  'notifications.time.minutes': 'há {count} min',
+  'notifications.time.hours': 'há {count} h',
+  'notifications.like.title': 'Alguém gostou de você',
+  'notifications.like.body': 'Seu encontro recebeu uma curtida',
+  'notifications.match.title': 'Deu Match!',
+  'notifications.match.body': 'Vocês se curtiram. Mande uma mensagem',
+  'notifications.expiring.title': 'Seu encontro expira em breve',
+  'notifications.expiring.body': 'Será arquivado em menos de 24 h',
+  'notifications.edited.title': 'Um encontro mudou',
+  'notifications.edited.body': 'Um encontro que você curtiu foi editado',
+
+  // Encounter card
+  'encounter.archived': 'Arquivado',
+  'encounter.syncPending': 'Pendente',
+  'encounter.status.match': 'Match!',
+  'encounter.status.likedByThem': 'Curtiu você',
+  'encounter.status.likedByMe': 'Aguardando...',
+  'encounter.edited': 'Editado',
+
+  // Match overlay
+  'match.title': "It's a Match!",
+  'match.connectedWith': 'Você se conectou com',
+  'match.sendMessage': 'Enviar Mensagem',
+  'match.keepExploring': 'Continuar Explorando',
+
+  // Toasts
+  'toast.newMessage': 'Nova mensagem',
+  'toast.publishFailed': 'Não foi possível publicar "{title}"',
+  'toast.published': '"{title}" publicado',
+  'toast.matchWith': 'Deu Match com {name}!',
+  'toast.messageFailed': 'Não foi possível enviar a mensagem',
+  'toast.searchFailed': 'Erro ao buscar o local',
+  'toast.peopleFound': '{count} pessoas encontradas por perto',
+  'toast.peopleFound_one': '1 pessoa encontrada por perto',
+  'auth.invalidCredentials': 'E-mail ou senha incorretos',
+  'toast.confirmEmail': 'Confira seu e-mail para confirmar a conta',
+  'toast.deleteAccountFailed': 'Não foi possível excluir a conta',
+  'toast.deleteAccountPhotosLeft': 'Sua conta foi excluída, mas algumas fotos não puderam ser apagadas',
+  'toast.profileSaved': 'Perfil atualizado',
+  'moderation.cannotPublish': 'Não é possível publicar: {reasons}',
+  'moderation.cannotSend': 'Não é possível enviar: {reasons}',
+  'toast.postLimit': 'Limite de {count} encontros ativos atingido',
+  'toast.encounterPublished': 'Encontro publicado com sucesso',
+  'toast.publishQueued': 'Sem conexão: será publicado quando a conexão voltar',
+  'quickPublish.defaultMessage': 'Você chamou minha atenção, me pareceu linda e interessante',
+  'quickPublish.title': 'Olhares Cruzados',
+  'toast.quickPublished': 'Encontro publicado rapidinho!',
+  'toast.encounterDeleted': 'Encontro excluído',
+  'toast.likeQueued': 'Sem conexão: sua curtida será enviada quando a conexão voltar',
+  'toast.liked': 'Você curtiu',
+  'toast.encounterHidden': 'Encontro ocultado',
+  'toast.unmatched': 'Match desfeito',
+  'toast.userBlocked': 'Usuário bloqueado',
+  'toast.blockFailed': 'Não foi possível bloquear o usuário',
+  'toast.reportFailed': 'Não foi possível enviar a denúncia',
+  'toast.reportedAndBlocked': 'Denúncia enviada e usuário bloqueado',
+  'toast.reported': 'Obrigado, vamos analisar sua denúncia',
+  'toast.chatNotReady': 'O chat ainda está sendo preparado',
+  'toast.encounterNotFound': 'Esta publicação não está mais disponível',
+  'toast.preferenceFailed': 'Não foi possível salvar a preferência',
+  'toast.pushEnabled': 'Notificações push ativadas',
+  'toast.pushFailed': 'Não foi possível ativar as notificações',
+  'toast.photoUploadFailed': 'Não foi possível enviar a foto',
+  'chat.defaultOpener': 'Oi! Que bom que a gente se encontrou.',
+  'toast.maxPhotos': 'Máximo de {count} fotos',
+  'toast.photoAdded': 'Foto adicionada',
+  'toast.needOnePhoto': 'Você precisa de pelo menos uma foto de perfil',
+  'toast.editSaved': 'Alterações salvas',
+  'toast.editAnnounced': 'Alterações salvas. Avisaremos quem curtiu',
+  'toast.editFailed': 'Não foi possível salvar as alterações',
+  'toast.editOffline': 'Para editar você precisa de conexão',
+  'toast.encounterNotEditable': 'Este encontro não pode mais ser editado',
+  'toast.discardFailed': 'Não foi possível remover',
+
+  // Landing, auth and registration
+  'landing.tagline': 'Conecte-se com quem você acabou de trocar olhares.',
+  'landing.signIn': 'Entrar com e-mail',
+  'auth.signInTitle': 'Entre na sua conta',
+  'auth.signUpTitle': 'Crie sua conta',
+  'auth.email': 'E-mail',
+  'auth.emailPlaceholder': 'voce@email.com',
+  'auth.password': 'Senha',
+  'auth.magicLinkSent': 'Enviamos um link para {email}',
+  'auth.useMagicLink': 'Prefiro receber um link mágico por e-mail',
+  'auth.signIn': 'Entrar',
+  'auth.signUp': 'Criar conta',
+  'auth.switchToSignUp': 'Não tem conta? Cadastre-se',
+  'auth.switchToSignIn': 'Já tem conta? Entre',
+  'register.title': 'Crie seu perfil',
+  'profile.name': 'Nome',
+  'register.namePlaceholder': 'Ex.: Alex',
+  'profile.age': 'Idade',
+  'register.gender': 'Gênero',
+  'gender.male': 'Homem',
+  'gender.female': 'Mulher',
+  'gender.other': 'Outro',
+  'register.continue': 'Continuar',
+  'loading.nearby': 'Procurando encontros por perto...',
+
+  // Create encounter
+  'create.title': 'Novo Encontro',
+  'create.quickPublish': 'Publicação Rápida (Usar Perfil)',
+  'create.orDetailed': 'Ou crie um detalhado',
+  'create.locationHint': 'Começa no centro do mapa (a mira); edite para mover o pin ou desenhar uma rota ou uma área. Os outros só veem uma área aproximada até haver match.',
+  'photo.uploading': 'Enviando foto...',
+  'create.tapToRemove': 'Toque para remover',
+  'create.addPhoto': 'Adicionar foto (Opcional)',
+  'photo.camera': 'Câmera',
+  'photo.gallery': 'Galeria',
+  'create.exifNote': 'Removemos a localização e os dados EXIF antes de enviá-la',
+  'create.titleLabel': 'Título chamativo',
+  'create.titlePlaceholder': 'Ex.: Garota do livro vermelho...',
+  'create.tags': 'Etiquetas',
+  'create.when': 'Quando aconteceu?',
+  'create.what': 'O que aconteceu?',
+  'create.descriptionPlaceholder': 'Trocamos olhares no semáforo...',
+  'create.publish': 'Publicar Encontro',
+  'create.republishTitle': 'Republicar Encontro',
+  'create.republishHint': 'Um novo encontro com o texto do anterior. Começa sem curtidas.',
+
+  // Edit encounter
+  'edit.title': 'Editar Encontro',
+  'edit.save': 'Salvar alterações',
+  'edit.noChanges': 'Nada mudou ainda',
+  'edit.materialHint': 'Avisaremos quem curtiu sobre essas alterações',
+  'edit.quietHint': 'Pequenas correções são salvas sem aviso',
+  'edit.history': 'Histórico de edições',
+  'edit.version': 'Versão {version}',
+  'edit.original': 'Como foi publicado',
+  'edit.announced': 'Avisado',
+  'edit.change.title': 'Título',
+  'edit.change.description': 'Descrição',
+  'edit.change.tags': 'Tags',
+  'edit.change.image': 'Foto',
+  'edit.change.location': 'Localização',
+  'edit.change.venue': 'Lugar',
+  'edit.change.time': 'Horário',
+
+  // Location editor
+  'location.edit': 'Editar',
+  'location.done': 'Pronto',
+  'location.mode.point': 'Pin',
+  'location.mode.route': 'Rota',
+  'location.mode.area': 'Área',
+  'location.summary.point': 'Um único ponto',
+  'location.summary.route': 'Uma rota de {count} pontos',
+  'location.summary.area': 'Uma área de {count} pontos',
+  'location.summary.incomplete': 'Termine de desenhar a rota ou a área',
+  'location.pointHint': 'Arraste o pin ou toque no mapa para movê-lo.',
+  'location.routeHint': 'Toque no mapa ao longo do caminho que você fez: uma viagem de ônibus, uma rua...',
+  'location.areaHint': 'Toque no mapa ao redor do lugar: o público de um show, um parque...',
+  'location.shapeReady': '{count} pontos. Continue tocando para adicionar mais.',
+  'location.undo': 'Desfazer o último ponto',
+  'location.clear': 'Limpar',
+  'location.tooManyPoints': 'Até {count} pontos',
+  'location.tooFar': 'Rotas e áreas podem abranger até {count} km',
+
+  // Venues
+  'venue.add': 'Adicionar um lugar ou uma linha de transporte',
+  'venue.hint': 'Todo mundo vê. Publicações no mesmo lugar ou na mesma linha combinam mesmo estando longe.',
+  'venue.nearby': 'Por aqui',
+  'venue.noneNearby': 'Nenhum lugar com nome por aqui. Tente buscar pelo nome.',
+  'venue.searchPlaceholder': 'Um café, um parque, uma linha de metrô...',
+  'venue.remove': 'Remover o lugar',
+  'venue.tooFar': 'Esse lugar está longe demais da sua publicação. Precisa estar a menos de 300 m.',
+
+  // Details
+  'unmatch.title': 'Desfazer o match?',
+  'unmatch.description': 'Esta ação é irreversível. O chat e a conexão serão apagados.',
+  'unmatch.confirm': 'Desfazer Match',
+  'details.viewProfile': 'Ver Perfil',
+  'details.story': 'A História',
+  'details.profilePhotos': 'Fotos do perfil',
+  'details.likePending': 'Aguardando envio',
+  'details.likeSent': 'Solicitação Enviada',
+  'details.like': 'Tenho interesse',
+  'details.pass': 'Não tenho interesse',
+  'details.editedOn': 'Editado em {date}',
+
+  // Chat
+  'chat.hiddenMessage': 'Mensagem oculta por possível abuso. Toque para ver',
+  'chat.reportMessage': 'Denunciar mensagem',
+  'chat.placeholder': 'Escreva uma mensagem...',
+
+  // Offline bar
+  'sync.offline': 'Sem conexão',
+  'sync.syncing': 'Sincronizando',
+  'sync.pending': '{count} pendentes',
+  'sync.pending_one': '1 pendente',
+
+  // Account deletion
+  'deleteAccount.title': 'Excluir sua conta?',
+  'deleteAccount.description': 'Seus encontros, chats e fotos serão apagados. Esta ação é irreversível.',
+  'deleteAccount.confirm': 'Excluir',
+  'quickPublish.dropToPublish': 'Solte para',
+  'quickPublish.dropToPublishLine2': 'Publicar Rápido',
+
+  // Map
+  'map.myLocation': 'Sua localização GPS',
+  'map.loadingArea': 'Carregando área...',
+  'map.searchTitle': 'Buscar e Filtrar',
+  'map.searchPlaceholder': 'Buscar rua ou área...',
+  'map.filters': 'Filtros do Mapa',
+  'map.showHidden': 'Mostrar Ocultos / Rejeitados',
+  'map.mine': 'Meus Encontros',
+  'map.possible': 'Possíveis Encontros',
+  'map.likedMe': 'Gostam de Mim',
+  'map.match': 'Matches',
+  'map.heatmap': 'Mapa de Calor',
+  'map.heatmapHint': 'Onde as publicações se concentram por aqui',
+  'map.timeline': 'Linha do Tempo',
+  'map.timelineHint': 'Reveja as publicações de um intervalo de horas ou de dias',
+  'map.timeline.hours': 'Horas',
+  'map.timeline.days': 'Dias',
+  'map.timeline.from': 'De',
+  'map.timeline.to': 'Até',
+  'map.timeline.play': 'Reproduzir',
+  'map.timeline.pause': 'Pausar',
+  'map.timeline.count': '{count} publicações',
+  'map.timeline.count_one': '1 publicação',
+  'map.cluster.title': '{count} encontros aqui',
+  'map.cluster.zoomIn': 'Aproximar',
+
+  // Explore
+  'explore.matches': 'Coincidências',
+  'explore.title': 'Explorar',
+  'explore.byPost': 'Ver por Publicação',
+  'explore.all': 'Ver Todo o Mapa',
+  'explore.noPosts': 'Você ainda não publicou nenhum encontro.',
+  'explore.createOne': 'Criar um agora',
+  'explore.peopleNearby': '{count} Pessoas por perto',
+  'explore.peopleNearby_one': '1 Pessoa por perto',
+  'explore.noPeople': 'Ninguém encontrado por perto.',
+
+  // Chats tab
+  'chats.title': 'Mensagens',
+  'chats.empty': 'Você ainda não tem matches.',
+
+  // Profile
+  'profile.ageLabel': 'Idade:',
+  'profile.years': '{count} anos',
+  'profile.bio': 'Bio',
+  'profile.quickMessage': 'Mensagem Rápida',
+  'profile.quickMessageHint': 'Usada ao deslizar o botão + para cima.',
+  'profile.quickMessagePlaceholder': 'Mensagem padrão para publicação rápida...',
+  'profile.photos': 'Minhas fotos',
+  'profile.coverHint': 'A primeira é sua capa',
+  'profile.photoAlt': 'Foto {count}',
+  'profile.addPhoto': 'Adicionar',
+  'settings.title': 'Configurações',
+  'settings.darkMode': 'Modo Escuro',
+  'settings.language': 'Idioma',
+  'settings.push': 'Push neste dispositivo',
+  'settings.moderation': 'Moderação',
+  'settings.signOut': 'Sair',
+  'settings.deleteAccount': 'Excluir conta',
+  'profile.myEncounters': 'Meus Encontros ({count}/{max})',
+  'profile.expiresAfter': 'Expiram após {count} dias',
+  'profile.expiresAfter_one': 'Expiram após um dia',
+  'profile.noActiveEncounters': 'Você não tem encontros ativos.',
+  'profile.archived': 'Arquivados ({count})',
+  'profile.archivedHint': 'Seus matches e chats são mantidos',
+  'profile.editEncounter': 'Editar encontro',
+  'profile.republish': 'Republicar',
+  'profile.deleted': 'Excluídos ({count})',
+  'profile.deletedHint': 'Guardados para você republicar',
+  'profile.discard': 'Remover de vez',
+  'profile.save': 'Salvar Alterações',
+  'profile.edit': 'Editar Perfil',
+
+  // Discovery preferences
+  'discovery.title': 'Preferências de descoberta',
+  'discovery.mutualHint': 'Você só verá quem também procura alguém como você.',
+  'discovery.interestedIn': 'Mostrar',
+  'discovery.gender.male': 'Homens',
+  'discovery.gender.female': 'Mulheres',
+  'discovery.gender.other': 'Outros',
+  'discovery.everyone': 'Todos',
+  'discovery.everyoneHint': 'Sem seleção, você vê todos.',
+  'discovery.ageRange': 'Faixa etária',
+  'discovery.ages': '{min}–{max} anos',
+  'discovery.radius': 'Distância para coincidir',
+  'discovery.meters': '{count} m',
+  'discovery.radiusHint': 'Duas publicações coincidem dentro da menor distância das duas pessoas.',
+
+  // Navigation
+  'nav.map': 'Mapa',
+  'nav.explore': 'Explorar',
+  'nav.chat': 'Chat',
+  'nav.profile': 'Perfil',
+  'chat.matchStarted': 'Deu Match!'
+};
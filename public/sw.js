@@ -0,0 +1,177 @@
+// Encuentros service worker: keeps the app shell and recently viewed map tiles for offline use,
+// shows Web Push notifications and brings the app forward when one is tapped.
+// Push payloads are sent by supabase/functions/send-push. Queued writes are replayed by the app itself
+// (services/outboxService.ts), since they need the signed in session.
+
+const SHELL_CACHE = 'encuentros-shell-v1';
+const RUNTIME_CACHE = 'encuentros-runtime-v1';
+const TILE_CACHE = 'encuentros-tiles-v1';
+const SETTINGS_CACHE = 'encuentros-settings-v1';
+const CACHES = [SHELL_CACHE, RUNTIME_CACHE, TILE_CACHE, SETTINGS_CACHE];
+// Not a real file: the push texts the app sent, in its language (sharePushTexts in services/notificationService.ts)
+const PUSH_TEXTS = '/push-texts.json';
+
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Written by `vite build` (build.manifest in vite.config.ts): the hashed bundles of the current build
+const ASSET_MANIFEST = '/asset-manifest.json';
+const MAX_TILES = 800; // Roughly 20 MB of map
+const MAX_RUNTIME_ENTRIES = 60; // CDN libraries, styles and anything same-origin outside the build
+
+const TILE_HOSTS = ['basemaps.cartocdn.com', 'tile.openstreetmap.org'];
+// Libraries and styles loaded from CDNs by index.html
+const CDN_HOSTS = ['aistudiocdn.com', 'cdn.jsdelivr.net', 'cdn.tailwindcss.com', 'unpkg.com'];
+
+const matchesHost = (url, hosts) => hosts.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+
+// The shell plus every file of the current build, so the app opens offline after the first visit.
+// Files of older builds are dropped. The dev server has no asset manifest: only the shell is kept.
+const precacheBuild = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL);
+  const response = await fetch(ASSET_MANIFEST, { cache: 'no-cache' });
+  if (!response.ok) return;
+  const manifest = await response.json();
+  const files = new Set();
+  Object.values(manifest).forEach((chunk) => {
+    [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])].forEach((file) => file && files.add(`/${file}`));
+  });
+  await cache.addAll([...files]);
+
+  const current = new Set([...SHELL, ...files].map((path) => new URL(path, self.location.origin).href));
+  const keys = await cache.keys();
+  await Promise.all(keys.filter((key) => !current.has(key.url)).map((key) => cache.delete(key)));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheBuild().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Oldest entries go first once a cache is full
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+const cacheFirstTile = async (request) => {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    trimCache(TILE_CACHE, MAX_TILES);
+  }
+  return response;
+};
+
+// Hashed build files never change: the precached copy is the answer
+const cacheFirstBuild = async (request) => {
+  const precached = await caches.open(SHELL_CACHE).then((cache) => cache.match(request));
+  return precached || staleWhileRevalidate(request);
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(async (response) => {
+      if (response.ok) {
+        await cache.put(request, response.clone());
+        trimCache(RUNTIME_CACHE, MAX_RUNTIME_ENTRIES);
+      }
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+// Pages always try the network so a new deploy shows up; offline they get the cached shell.
+// A page from the network may come from a new build (sw.js itself doesn't change), so its files are
+// precached then.
+const networkFirstPage = async (event) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      cache.put('/', response.clone());
+      event.waitUntil(precacheBuild().catch(() => {}));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(event));
+  } else if (matchesHost(url, TILE_HOSTS)) {
+    event.respondWith(cacheFirstTile(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirstBuild(request));
+  } else if (matchesHost(url, CDN_HOSTS)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+  // Everything else (Supabase, Gemini, Nominatim) goes straight to the network
+});
+
+self.addEventListener('message', (event) => {
+  if (!event.data || event.data.type !== 'push-texts') return;
+  event.waitUntil(
+    caches.open(SETTINGS_CACHE).then((cache) => cache.put(PUSH_TEXTS, new Response(JSON.stringify(event.data.texts))))
+  );
+});
+
+const readPushTexts = async () => {
+  const saved = await caches.open(SETTINGS_CACHE).then((cache) => cache.match(PUSH_TEXTS));
+  return saved ? saved.json() : {};
+};
+
+// The payload's title and body are the server's Spanish ones: they're shown only for messages (the sender and
+// the text) and until the app has sent its texts for each type
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    readPushTexts().then((texts) => {
+      const text = texts[data.type] || data;
+      return self.registration.showNotification(text.title || 'Encuentros', {
+        body: text.body || '',
+        icon: '/icon.svg',
+        // One notification per conversation on the lock screen; newer messages replace it
+        tag: data.matchId ? `match-${data.matchId}` : data.id,
+        data
+      });
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const notificationId = event.notification.data && event.notification.data.id;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows[0];
+      if (client) {
+        client.postMessage({ type: 'notification-click', notificationId });
+        return client.focus();
+      }
+      // Cold start: the route resolves the notification once the inbox has loaded
+      return self.clients.openWindow(notificationId ? '/notifications/' + encodeURIComponent(notificationId) : '/notifications');
+    })
+  );
+});
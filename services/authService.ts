@@ -0,0 +1,177 @@
+import { Session } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { IMAGES_BUCKET } from './imageService';
+import { Gender, UserProfile } from '../types';
+import { getDiscovery } from '../utils/discovery';
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  age: number | null;
+  gender: UserProfile['gender'] | null;
+  bio: string;
+  quick_message: string | null;
+  images: string[];
+  cover_image: string | null;
+}
+
+// Readable by its owner only, unlike profiles (see 0015_private_discovery.sql)
+interface DiscoveryRow {
+  user_id: string;
+  interested_in: Gender[];
+  min_age: number;
+  max_age: number;
+  match_radius: number;
+}
+
+const fromProfileRow = (row: ProfileRow, discovery: DiscoveryRow | null): UserProfile => ({
+  id: row.id,
+  name: row.name,
+  age: row.age ?? undefined,
+  gender: row.gender ?? undefined,
+  bio: row.bio,
+  quickMessage: row.quick_message ?? undefined,
+  images: row.images,
+  coverImage: row.cover_image ?? undefined,
+  discovery: discovery ? {
+    interestedIn: discovery.interested_in,
+    minAge: discovery.min_age,
+    maxAge: discovery.max_age,
+    radiusMeters: discovery.match_radius
+  } : undefined,
+  isCurrentUser: true
+});
+
+const toProfileRow = (profile: UserProfile): ProfileRow => ({
+  id: profile.id,
+  name: profile.name,
+  age: profile.age ?? null,
+  gender: profile.gender ?? null,
+  bio: profile.bio,
+  quick_message: profile.quickMessage ?? null,
+  images: profile.images,
+  cover_image: profile.coverImage ?? null
+});
+
+const toDiscoveryRow = (profile: UserProfile): DiscoveryRow => {
+  const discovery = getDiscovery(profile);
+  return {
+    user_id: profile.id,
+    interested_in: discovery.interestedIn,
+    min_age: discovery.minAge,
+    max_age: discovery.maxAge,
+    match_radius: discovery.radiusMeters
+  };
+};
+
+// --- Session ---
+
+// Fires immediately with the stored session (restore on reload) and on every sign in/out.
+// Returns an unsubscribe function.
+export const onSessionChange = (callback: (session: Session | null) => void): (() => void) => {
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session));
+  return () => data.subscription.unsubscribe();
+};
+
+// Auth calls resolve to Supabase's error message (in English) or null on success
+
+export const signInWithPassword = async (email: string, password: string): Promise<string | null> => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  return error ? error.message : null;
+};
+
+export const signUpWithPassword = async (email: string, password: string): Promise<string | null> => {
+  const { error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.origin }
+  });
+  return error ? error.message : null;
+};
+
+export const sendMagicLink = async (email: string): Promise<string | null> => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin }
+  });
+  return error ? error.message : null;
+};
+
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) console.error("Failed to sign out:", error);
+};
+
+// --- Profile ---
+
+// null means the account exists but has not finished registration yet
+export const fetchProfile = async (userId: string): Promise<UserProfile | null> => {
+  const [profile, discovery] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', userId).maybeSingle(),
+    supabase.from('discovery_preferences').select('*').eq('user_id', userId).maybeSingle()
+  ]);
+  if (profile.error) {
+    console.error("Failed to load profile:", profile.error);
+    return null;
+  }
+  // Without them the defaults apply, as for accounts that never set any
+  if (discovery.error) console.error("Failed to load discovery preferences:", discovery.error);
+  return profile.data ? fromProfileRow(profile.data as ProfileRow, discovery.data as DiscoveryRow | null) : null;
+};
+
+// The profile row first: the preferences row belongs to the account
+export const saveProfile = async (profile: UserProfile): Promise<void> => {
+  const { error } = await supabase.from('profiles').upsert(toProfileRow(profile));
+  if (error) {
+    console.error("Failed to save profile:", error);
+    return;
+  }
+  const { error: discoveryError } = await supabase.from('discovery_preferences').upsert(toDiscoveryRow(profile));
+  if (discoveryError) console.error("Failed to save discovery preferences:", discoveryError);
+};
+
+// --- Account lifecycle ---
+
+// 'photosLeft': the account is gone but some of its photos couldn't be removed
+export type AccountDeletion = 'deleted' | 'photosLeft' | 'failed';
+
+const STORAGE_PAGE_SIZE = 100; // What storage.list returns at most per call
+
+// Paths of every photo the user uploaded, or null if they couldn't all be listed
+const listImages = async (userId: string): Promise<string[] | null> => {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabase.storage.from(IMAGES_BUCKET).list(userId, { limit: STORAGE_PAGE_SIZE, offset });
+    if (error) {
+      console.error("Failed to list images:", error);
+      return null;
+    }
+    paths.push(...data.map(f => `${userId}/${f.name}`));
+    if (data.length < STORAGE_PAGE_SIZE) return paths;
+  }
+};
+
+// Deletes every row the user owns and the auth user (see delete_account in migrations), then their photos.
+// Nothing is deleted unless the photos could be listed, so a failure can be retried; the photos go after the
+// rows, with the session that still holds until sign out.
+export const deleteAccount = async (userId: string): Promise<AccountDeletion> => {
+  const paths = await listImages(userId);
+  if (!paths) return 'failed';
+
+  const { error } = await supabase.rpc('delete_account');
+  if (error) {
+    console.error("Failed to delete account:", error);
+    return 'failed';
+  }
+
+  let outcome: AccountDeletion = 'deleted';
+  for (let i = 0; i < paths.length; i += STORAGE_PAGE_SIZE) {
+    const { error: storageError } = await supabase.storage.from(IMAGES_BUCKET).remove(paths.slice(i, i + STORAGE_PAGE_SIZE));
+    if (storageError) {
+      console.error("Failed to delete images:", storageError);
+      outcome = 'photosLeft';
+    }
+  }
+  await supabase.auth.signOut();
+  return outcome;
+};
@@ -0,0 +1,176 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { Chat, ChatMessage, MessageStatus } from '../types';
+import { SYSTEM_SENDER_ID } from '../utils/chat';
+import { getWriteOutcome, WriteOutcome } from '../utils/sync';
+
+// Per-user conversation header
+interface ChatRow {
+  owner_id: string;
+  encounter_id: string;
+  match_id: string;
+  partner_id: string;
+  partner_name: string;
+  partner_image: string;
+}
+
+// Shared by both participants of the match
+interface MessageRow {
+  id: string;
+  match_id: string;
+  sender_id: string;
+  text: string;
+  created_at: string;
+  delivered_at: string | null;
+  read_at: string | null;
+}
+
+const TYPING_EVENT = 'typing';
+
+const getStatus = (row: MessageRow): MessageStatus => {
+  if (row.read_at) return 'read';
+  if (row.delivered_at) return 'delivered';
+  return 'sent';
+};
+
+const fromMessageRow = (row: MessageRow): ChatMessage => ({
+  id: row.id,
+  senderId: row.sender_id,
+  text: row.text,
+  timestamp: new Date(row.created_at).getTime(),
+  status: getStatus(row)
+});
+
+// Shown at the top of every conversation, never stored
+const matchBanner = (matchId: string, timestamp: number): ChatMessage => ({
+  id: `sys-${matchId}`,
+  senderId: SYSTEM_SENDER_ID,
+  text: '', // The views show "chat.matchStarted" in the user's language
+  timestamp,
+  status: 'read'
+});
+
+export const createChat = (header: Omit<Chat, 'messages'>, matchedAt: number): Chat => ({
+  ...header,
+  messages: [matchBanner(header.matchId, matchedAt)]
+});
+
+export const fetchChats = async (userId: string): Promise<Chat[]> => {
+  const { data: chatRows, error } = await supabase.from('chats').select('*').eq('owner_id', userId);
+  if (error) {
+    console.error("Failed to load chats:", error);
+    return [];
+  }
+  const headers = (chatRows as ChatRow[]).filter(row => row.match_id);
+  if (headers.length === 0) return [];
+
+  const { data: messageRows, error: messagesError } = await supabase
+    .from('messages')
+    .select('*')
+    .in('match_id', headers.map(h => h.match_id))
+    .order('created_at', { ascending: true });
+  if (messagesError) console.error("Failed to load messages:", messagesError);
+  const messages = (messageRows as MessageRow[] | null) ?? [];
+
+  return headers.map(row => {
+    const chatMessages = messages.filter(m => m.match_id === row.match_id).map(fromMessageRow);
+    return {
+      encounterId: row.encounter_id,
+      matchId: row.match_id,
+      partnerId: row.partner_id,
+      partnerName: row.partner_name,
+      partnerImage: row.partner_image,
+      messages: [matchBanner(row.match_id, chatMessages[0]?.timestamp ?? 0), ...chatMessages]
+    };
+  });
+};
+
+export const saveChat = async (userId: string, chat: Chat): Promise<void> => {
+  const row: ChatRow = {
+    owner_id: userId,
+    encounter_id: chat.encounterId,
+    match_id: chat.matchId,
+    partner_id: chat.partnerId,
+    partner_name: chat.partnerName,
+    partner_image: chat.partnerImage
+  };
+  const { error } = await supabase.from('chats').upsert(row);
+  if (error) console.error("Failed to save chat:", error);
+};
+
+export const deleteChat = async (userId: string, encounterId: string): Promise<void> => {
+  const { error } = await supabase.from('chats').delete().eq('owner_id', userId).eq('encounter_id', encounterId);
+  if (error) console.error("Failed to delete chat:", error);
+};
+
+// Resolves to the stored message ('sent'), or null if the server rejected it
+// The stored message, or how the write failed
+export const sendMessage = async (matchId: string, message: ChatMessage): Promise<{ stored: ChatMessage | null; outcome: WriteOutcome }> => {
+  const response = await supabase
+    .from('messages')
+    .insert({ id: message.id, match_id: matchId, sender_id: message.senderId, text: message.text })
+    .select()
+    .single();
+  if (response.error?.code === '23505') {
+    // Stored by an earlier attempt whose response was lost (outbox replay)
+    return { stored: { ...message, status: 'sent' }, outcome: 'saved' };
+  }
+  if (response.error) {
+    console.error("Failed to send message:", response.error);
+    return { stored: null, outcome: getWriteOutcome(response) };
+  }
+  return { stored: fromMessageRow(response.data as MessageRow), outcome: 'saved' };
+};
+
+export const markDelivered = async (matchId: string): Promise<void> => {
+  const { error } = await supabase.rpc('mark_messages_delivered', { p_match_id: matchId });
+  if (error) console.error("Failed to mark messages delivered:", error);
+};
+
+export const markRead = async (matchId: string): Promise<void> => {
+  const { error } = await supabase.rpc('mark_messages_read', { p_match_id: matchId });
+  if (error) console.error("Failed to mark messages read:", error);
+};
+
+// New messages and receipt updates for every conversation the user takes part in (RLS filters rows).
+// Returns an unsubscribe function.
+export const subscribeToMessages = (
+  userId: string,
+  onMessage: (matchId: string, message: ChatMessage) => void
+): (() => void) => {
+  const handle = (payload: { new: unknown }) => {
+    const row = payload.new as MessageRow;
+    onMessage(row.match_id, fromMessageRow(row));
+  };
+  const channel = supabase
+    .channel(`messages-${userId}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, handle)
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages' }, handle)
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Ephemeral typing events over a broadcast channel per match. The channel is private: only the two people
+// in the match can join it (see 0020_private_typing.sql).
+export const joinTypingChannel = (
+  matchId: string,
+  userId: string,
+  onPartnerTyping: () => void
+): { notifyTyping: () => void; leave: () => void } => {
+  const channel: RealtimeChannel = supabase
+    .channel(`typing-${matchId}`, { config: { private: true } })
+    .on('broadcast', { event: TYPING_EVENT }, ({ payload }) => {
+      if (payload?.userId !== userId) onPartnerTyping();
+    })
+    .subscribe();
+  return {
+    notifyTyping: () => {
+      channel.send({ type: 'broadcast', event: TYPING_EVENT, payload: { userId } });
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+};
@@ -0,0 +1,357 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { Encounter, EncounterTag, EncounterPolicy, EncounterVersion, EncounterPlace, EncounterShape, Bounds, UserProfile, Venue } from '../types';
+import { DEFAULT_ENCOUNTER_POLICY } from '../utils/encounterPolicy';
+import { MAX_FUZZ_OFFSET_METERS } from '../utils/geo';
+import { getWriteOutcome, WriteOutcome } from '../utils/sync';
+
+// Row shapes as stored in supabase/migrations (snake_case columns)
+interface EncounterRow {
+  id: string;
+  user_id: string;
+  user_profile: UserProfile;
+  title: string;
+  description: string;
+  lat: number;
+  lng: number;
+  shape: EncounterShape | null; // Only on the way in: the server moves it to encounter_locations
+  venue: Venue | null; // Indexed by venue_id, see 0013_venues.sql
+  timestamp: number;
+  edited_at: number | null;
+  happened_at: number;
+  time_tolerance_minutes: number;
+  expires_at: number;
+  image: string | null;
+  tags: EncounterTag[];
+}
+
+// Recorded by a trigger on every change to what others see, and kept after the post is deleted
+// (see 0014_encounter_versions.sql)
+interface EncounterVersionRow {
+  encounter_id: string;
+  version: number;
+  user_id: string;
+  title: string;
+  description: string;
+  tags: EncounterTag[];
+  image: string | null;
+  venue: Venue | null;
+  lat: number;
+  lng: number;
+  happened_at: number;
+  time_tolerance_minutes: number;
+  material: boolean;
+  created_at: string;
+}
+
+// Exact point and route or area of an encounter; encounters.lat/lng only hold the coarsened point
+// (see 0008_location_privacy.sql and 0012_encounter_shapes.sql)
+interface EncounterLocationRow {
+  encounter_id: string;
+  lat: number;
+  lng: number;
+  shape: EncounterShape | null;
+}
+
+interface ProximityRow {
+  my_encounter_id: string;
+  other_encounter_id: string;
+}
+
+// Per-account overrides, only writable by admins (see 0006_encounter_policy.sql)
+interface EncounterPolicyRow {
+  max_active_encounters: number;
+  encounter_ttl_hours: number;
+}
+
+interface HiddenEncounterRow {
+  user_id: string;
+  encounter_id: string;
+}
+
+const toEncounterRow = (encounter: Encounter): EncounterRow => ({
+  id: encounter.id,
+  user_id: encounter.userId,
+  user_profile: { ...encounter.userProfile, discovery: undefined, isCurrentUser: false }, // Preferences stay private
+  title: encounter.title,
+  description: encounter.description,
+  lat: encounter.location.lat,
+  lng: encounter.location.lng,
+  shape: encounter.shape ?? null,
+  venue: encounter.venue ?? null,
+  timestamp: encounter.timestamp,
+  edited_at: encounter.editedAt ?? null,
+  happened_at: encounter.happenedAt,
+  time_tolerance_minutes: encounter.timeToleranceMinutes,
+  expires_at: encounter.expiresAt,
+  image: encounter.image ?? null,
+  tags: encounter.tags
+});
+
+const fromEncounterRow = (row: EncounterRow): Encounter => ({
+  id: row.id,
+  userId: row.user_id,
+  userProfile: row.user_profile,
+  title: row.title,
+  description: row.description,
+  location: { lat: row.lat, lng: row.lng },
+  shape: row.shape ?? undefined,
+  venue: row.venue ?? undefined,
+  timestamp: row.timestamp,
+  editedAt: row.edited_at ?? undefined,
+  happenedAt: row.happened_at,
+  timeToleranceMinutes: row.time_tolerance_minutes,
+  expiresAt: row.expires_at,
+  image: row.image ?? undefined,
+  tags: row.tags
+});
+
+// The columns an edit may change; owner, publication and expiry times stay as published, and the server
+// sets edited_at itself
+const toEncounterContentRow = (encounter: Encounter): Pick<EncounterRow,
+  'title' | 'description' | 'tags' | 'image' | 'lat' | 'lng' | 'shape' | 'venue' | 'happened_at' | 'time_tolerance_minutes'> => ({
+  title: encounter.title,
+  description: encounter.description,
+  tags: encounter.tags,
+  image: encounter.image ?? null,
+  lat: encounter.location.lat,
+  lng: encounter.location.lng,
+  shape: encounter.shape ?? null,
+  venue: encounter.venue ?? null,
+  happened_at: encounter.happenedAt,
+  time_tolerance_minutes: encounter.timeToleranceMinutes
+});
+
+const fromEncounterVersionRow = (row: EncounterVersionRow): EncounterVersion => ({
+  encounterId: row.encounter_id,
+  version: row.version,
+  title: row.title,
+  description: row.description,
+  tags: row.tags,
+  image: row.image ?? undefined,
+  venue: row.venue ?? undefined,
+  location: { lat: row.lat, lng: row.lng },
+  happenedAt: row.happened_at,
+  timeToleranceMinutes: row.time_tolerance_minutes,
+  material: row.material,
+  timestamp: new Date(row.created_at).getTime()
+});
+
+const toEncounterPlace = (row: EncounterLocationRow): EncounterPlace => ({
+  location: { lat: row.lat, lng: row.lng },
+  shape: row.shape ?? undefined
+});
+
+const logError = (context: string, error: unknown) => {
+  console.error(`Supabase ${context} failed:`, error);
+};
+
+// Data layer for encounters and hidden encounters (likes/matches live in likeService, chats in chatService).
+// Takes the client as a parameter so it can run against a local Supabase stack.
+export const createEncounterRepository = (client: SupabaseClient) => {
+  const fetchHiddenEncounterIds = async (userId: string): Promise<string[]> => {
+    const { data, error } = await client
+      .from('hidden_encounters')
+      .select('encounter_id')
+      .eq('user_id', userId);
+    if (error) {
+      logError('fetchHiddenEncounterIds', error);
+      return [];
+    }
+    return (data as HiddenEncounterRow[]).map(row => row.encounter_id);
+  };
+
+  const fetchMyEncounters = async (userId: string): Promise<Encounter[]> => {
+    const { data, error } = await client
+      .from('encounters')
+      .select('*')
+      .eq('user_id', userId)
+      .order('timestamp', { ascending: false });
+    if (error) {
+      logError('fetchMyEncounters', error);
+      return [];
+    }
+    const encounters = (data as EncounterRow[]).map(fromEncounterRow);
+    if (encounters.length === 0) return encounters;
+
+    // The owner can read the exact places of their own posts
+    const { data: locations, error: locationsError } = await client
+      .from('encounter_locations')
+      .select('*')
+      .in('encounter_id', encounters.map(e => e.id));
+    if (locationsError) logError('fetchMyEncounters locations', locationsError);
+    const exact = new Map(((locations as EncounterLocationRow[] | null) ?? []).map(row => [row.encounter_id, toEncounterPlace(row)]));
+    return encounters.map(e => ({ ...e, ...exact.get(e.id) }));
+  };
+
+  // Other users' active encounters inside a bounding box; null when the request failed or was cancelled,
+  // so the area is fetched again. Aborting the signal cancels the request.
+  const fetchEncountersInBounds = async (userId: string, bounds: Bounds, signal?: AbortSignal): Promise<Encounter[] | null> => {
+    let query = client
+      .from('encounters')
+      .select('*')
+      .neq('user_id', userId)
+      .gt('expires_at', Date.now())
+      .gte('lat', bounds.south)
+      .lt('lat', bounds.north)
+      .gte('lng', bounds.west)
+      .lt('lng', bounds.east);
+    if (signal) query = query.abortSignal(signal);
+    const { data, error } = await query;
+    if (error) {
+      if (!signal?.aborted) logError('fetchEncountersInBounds', error);
+      return null;
+    }
+    return (data as EncounterRow[]).map(row => ({ ...fromEncounterRow(row), locationAccuracyMeters: MAX_FUZZ_OFFSET_METERS }));
+  };
+
+  // Other users' active encounters at any of these venues or transit lines, wherever they are. Coarsened
+  // like in fetchEncountersInBounds.
+  const fetchEncountersAtVenues = async (userId: string, venueIds: string[]): Promise<Encounter[]> => {
+    const { data, error } = await client
+      .from('encounters')
+      .select('*')
+      .neq('user_id', userId)
+      .gt('expires_at', Date.now())
+      .in('venue_id', venueIds);
+    if (error) {
+      logError('fetchEncountersAtVenues', error);
+      return [];
+    }
+    return (data as EncounterRow[]).map(row => ({ ...fromEncounterRow(row), locationAccuracyMeters: MAX_FUZZ_OFFSET_METERS }));
+  };
+
+  // One post by id, for links to encounters outside the loaded area. Someone else's post comes coarsened,
+  // like in fetchEncountersInBounds; null when it doesn't exist or isn't visible to the user.
+  const fetchEncounter = async (userId: string, encounterId: string): Promise<Encounter | null> => {
+    const { data, error } = await client.from('encounters').select('*').eq('id', encounterId).maybeSingle();
+    if (error) {
+      logError('fetchEncounter', error);
+      return null;
+    }
+    if (!data) return null;
+    const encounter = fromEncounterRow(data as EncounterRow);
+    return encounter.userId === userId ? encounter : { ...encounter, locationAccuracyMeters: MAX_FUZZ_OFFSET_METERS };
+  };
+
+  // Which of other people's posts are within the match radius of mine, measured on the exact points, routes and areas
+  const fetchProximityPairs = async (): Promise<{ myEncounterId: string; otherEncounterId: string }[]> => {
+    const { data, error } = await client.rpc('encounter_proximity');
+    if (error) {
+      logError('fetchProximityPairs', error);
+      return [];
+    }
+    return (data as ProximityRow[]).map(row => ({ myEncounterId: row.my_encounter_id, otherEncounterId: row.other_encounter_id }));
+  };
+
+  // Exact places of the posts of people the user matched with (encounter id -> point and route or area)
+  const fetchMatchedLocations = async (): Promise<Map<string, EncounterPlace>> => {
+    const { data, error } = await client.rpc('matched_encounter_locations');
+    if (error) {
+      logError('fetchMatchedLocations', error);
+      return new Map();
+    }
+    return new Map((data as EncounterLocationRow[]).map(row => [row.encounter_id, toEncounterPlace(row)]));
+  };
+
+  // The user's quota and post lifetime, as the server enforces them: admin overrides on top of the settings
+  const fetchEncounterPolicy = async (): Promise<EncounterPolicy> => {
+    const { data, error } = await client.rpc('my_encounter_policy');
+    if (error) logError('fetchEncounterPolicy', error);
+    const row = (data as EncounterPolicyRow[] | null)?.[0];
+    return {
+      maxActivePosts: row?.max_active_encounters ?? DEFAULT_ENCOUNTER_POLICY.maxActivePosts,
+      ttlHours: row?.encounter_ttl_hours ?? DEFAULT_ENCOUNTER_POLICY.ttlHours
+    };
+  };
+
+  const saveEncounter = async (encounter: Encounter): Promise<WriteOutcome> => {
+    const response = await client.from('encounters').upsert(toEncounterRow(encounter));
+    if (response.error) logError('saveEncounter', response.error);
+    return getWriteOutcome(response);
+  };
+
+  // Only the content: the server records the new version and, for material edits, sets editedAt and tells
+  // the people who liked it
+  const updateEncounter = async (encounter: Encounter): Promise<boolean> => {
+    const { error } = await client.from('encounters').update(toEncounterContentRow(encounter)).eq('id', encounter.id);
+    if (error) logError('updateEncounter', error);
+    return !error;
+  };
+
+  // Edit history of one of the user's posts, newest first
+  const fetchEncounterVersions = async (encounterId: string): Promise<EncounterVersion[]> => {
+    const { data, error } = await client
+      .from('encounter_versions')
+      .select('*')
+      .eq('encounter_id', encounterId)
+      .order('version', { ascending: false });
+    if (error) {
+      logError('fetchEncounterVersions', error);
+      return [];
+    }
+    return (data as EncounterVersionRow[]).map(fromEncounterVersionRow);
+  };
+
+  // Last version of each of the user's deleted posts, to republish them
+  const fetchDeletedEncounterVersions = async (): Promise<EncounterVersion[]> => {
+    const { data, error } = await client.rpc('deleted_encounter_versions');
+    if (error) {
+      logError('fetchDeletedEncounterVersions', error);
+      return [];
+    }
+    return (data as EncounterVersionRow[]).map(fromEncounterVersionRow);
+  };
+
+  // Forgets a deleted post for good. The server refuses while the post still exists.
+  const discardEncounterVersions = async (encounterId: string): Promise<boolean> => {
+    const { error } = await client.from('encounter_versions').delete().eq('encounter_id', encounterId);
+    if (error) logError('discardEncounterVersions', error);
+    return !error;
+  };
+
+  // Which of these photos a version of any of the user's posts still shows. When unsure, all of them,
+  // so nothing the history needs gets deleted.
+  const fetchImagesInVersions = async (images: string[]): Promise<string[]> => {
+    const { data, error } = await client.from('encounter_versions').select('image').in('image', images);
+    if (error) {
+      logError('fetchImagesInVersions', error);
+      return images;
+    }
+    return (data as Pick<EncounterVersionRow, 'image'>[]).flatMap(row => row.image ? [row.image] : []);
+  };
+
+  const deleteEncounter = async (encounterId: string): Promise<void> => {
+    const { error } = await client.from('encounters').delete().eq('id', encounterId);
+    if (error) logError('deleteEncounter', error);
+  };
+
+  const hideEncounter = async (userId: string, encounterId: string): Promise<void> => {
+    const row: HiddenEncounterRow = { user_id: userId, encounter_id: encounterId };
+    const { error } = await client.from('hidden_encounters').upsert(row);
+    if (error) logError('hideEncounter', error);
+  };
+
+  return {
+    fetchMyEncounters,
+    fetchEncountersAtVenues,
+    fetchEncountersInBounds,
+    fetchEncounter,
+    fetchProximityPairs,
+    fetchMatchedLocations,
+    fetchEncounterPolicy,
+    saveEncounter,
+    updateEncounter,
+    deleteEncounter,
+    fetchEncounterVersions,
+    fetchDeletedEncounterVersions,
+    discardEncounterVersions,
+    fetchImagesInVersions,
+    fetchHiddenEncounterIds,
+    hideEncounter
+  };
+};
+
+export type EncounterRepository = ReturnType<typeof createEncounterRepository>;
+
+export const encounterRepository = createEncounterRepository(supabase);
@@ -0,0 +1,256 @@
+import { Encounter, Bounds, Gender, UserProfile, AVAILABLE_TAGS } from '../types';
+import { encounterRepository } from './encounterRepository';
+import { generateNearbyEncounters } from './geminiService';
+import { getBoundsCenter, tilesForBounds } from '../utils/geo';
+import { DEFAULT_TIME_TOLERANCE_MINUTES } from '../utils/matching';
+import { getExpiresAt } from '../utils/encounterPolicy';
+import { createSeededRandom, pickOne, shuffle } from '../utils/random';
+
+// Anything that can provide other people's encounters inside a bounding box (one map tile at a time)
+export interface EncounterSource {
+  name: string;
+  fetchInBounds: (bounds: Bounds, viewerId: string, signal?: AbortSignal) => Promise<Encounter[]>;
+}
+
+// --- Implementations ---
+
+export const backendSource: EncounterSource = {
+  name: 'backend',
+  fetchInBounds: async (bounds, viewerId, signal) => {
+    const encounters = await encounterRepository.fetchEncountersInBounds(viewerId, bounds, signal);
+    if (!encounters) throw new Error('Encounters request failed');
+    return encounters;
+  }
+};
+
+// Stable per-tile seed so each area always gets the same encounters
+const hashBounds = (bounds: Bounds): number => {
+  const text = `${bounds.south.toFixed(5)}:${bounds.west.toFixed(5)}`;
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(hash, 31) + text.charCodeAt(i)) | 0;
+  }
+  return hash;
+};
+
+const MAX_GEMINI_TILES = 200; // The tiles visited longest ago are generated again if they come back
+
+// Generated once per tile and kept, so loading a tile again (after another source failed, or when the map
+// comes back to it) gives the same posts. Failures aren't kept: the next load of the tile tries again.
+const geminiTiles = new Map<number, Promise<Encounter[] | null>>();
+
+export const geminiSource: EncounterSource = {
+  name: 'gemini',
+  // The generator can't be cancelled; callers drop results for stale viewports
+  fetchInBounds: async (bounds) => {
+    const tileId = hashBounds(bounds);
+    let generation = geminiTiles.get(tileId);
+    if (!generation) {
+      const center = getBoundsCenter(bounds);
+      generation = generateNearbyEncounters(center.lat, center.lng, `gemini-${tileId}`);
+      geminiTiles.set(tileId, generation);
+      if (geminiTiles.size > MAX_GEMINI_TILES) {
+        const [oldest] = geminiTiles.keys();
+        geminiTiles.delete(oldest);
+      }
+    }
+
+    const encounters = await generation;
+    if (!encounters) {
+      geminiTiles.delete(tileId);
+      throw new Error('Gemini generation failed');
+    }
+    return encounters;
+  }
+};
+
+const FIXTURE_PEOPLE: { name: string; bio: string; gender: Gender; age: number }[] = [
+  { name: 'Lucía', bio: 'Arquitecta, fan del café de especialidad y las bicis.', gender: 'female', age: 29 },
+  { name: 'Mateo', bio: 'Músico de jazz los jueves, programador el resto de la semana.', gender: 'male', age: 32 },
+  { name: 'Valentina', bio: 'Siempre con un libro en la bolsa.', gender: 'female', age: 24 },
+  { name: 'Diego', bio: 'Corro por el parque cada mañana.', gender: 'male', age: 27 },
+  { name: 'Camila', bio: 'Fotógrafa de calle. Me encantan los mercados.', gender: 'female', age: 35 },
+  { name: 'Andrés', bio: 'Cocino mejor de lo que bailo.', gender: 'male', age: 41 }
+];
+
+const FIXTURE_MOMENTS: { title: string; description: string }[] = [
+  { title: 'Chica del paraguas amarillo', description: 'Compartimos la parada del bus mientras llovía. Me sonreíste cuando se me cayó el café.' },
+  { title: 'Chico leyendo en la banca', description: 'Leías a Cortázar en el parque. Quise preguntarte por el libro pero llegó mi amiga.' },
+  { title: 'En la fila de la panadería', description: 'Te llevaste el último pan de muerto. Me debes una conversación.' },
+  { title: 'Miradas en el metro', description: 'Nos bajamos en la misma estación y caminamos en la misma dirección. No me atreví a hablarte.' },
+  { title: 'La del tatuaje de golondrina', description: 'Estabas en la barra pidiendo un mezcal. Me reí de tu chiste sin que lo supieras.' },
+  { title: 'El de la bici roja', description: 'Esperamos juntos el semáforo tres veces seguidas. A la tercera ya era destino.' }
+];
+
+interface FixtureOptions {
+  seed?: number;
+  count?: number;
+  now?: number; // Fix it too for fully reproducible timestamps (tests, screenshots)
+}
+
+// Deterministic encounters inside the bounds: same seed and bounds, same encounters
+export const createFixtureSource = ({ seed = 42, count = 6, now }: FixtureOptions = {}): EncounterSource => ({
+  name: 'fixtures',
+  fetchInBounds: async (bounds) => {
+    const tileSeed = seed ^ hashBounds(bounds);
+    const random = createSeededRandom(tileSeed);
+    const reference = now ?? Date.now();
+
+    return Array.from({ length: count }, (_, index) => {
+      const person = FIXTURE_PEOPLE[index % FIXTURE_PEOPLE.length];
+      const moment = pickOne(FIXTURE_MOMENTS, random);
+      const timestamp = reference - Math.floor(random() * 3 * 3600000); // Within last 3h
+
+      const userProfile: UserProfile = {
+        id: `mock-fixture-${tileSeed}-${index}`,
+        name: person.name,
+        age: person.age,
+        gender: person.gender,
+        bio: person.bio,
+        images: [
+          `https://picsum.photos/seed/${person.name}/400/600`,
+          `https://picsum.photos/seed/${person.name}2/400/600`
+        ],
+        isCurrentUser: false
+      };
+
+      return {
+        id: `fixture-${tileSeed}-${index}`,
+        userId: userProfile.id,
+        userProfile,
+        title: moment.title,
+        description: moment.description,
+        location: {
+          lat: bounds.south + random() * (bounds.north - bounds.south),
+          lng: bounds.west + random() * (bounds.east - bounds.west)
+        },
+        timestamp,
+        happenedAt: timestamp,
+        timeToleranceMinutes: DEFAULT_TIME_TOLERANCE_MINUTES * 2,
+        expiresAt: getExpiresAt(timestamp),
+        image: `https://picsum.photos/seed/fixture${tileSeed}-${index}/500/300`,
+        tags: shuffle(AVAILABLE_TAGS, random).slice(0, Math.floor(random() * 2) + 1)
+      };
+    });
+  }
+});
+
+// --- Composition ---
+
+// Thrown by combined sources when some of them failed: the others' encounters can still be shown, but
+// the tile isn't complete and has to be fetched again
+export class IncompleteSourceError extends Error {
+  constructor(readonly encounters: Encounter[], failed: string[]) {
+    super(`Encounter sources failed: ${failed.join(', ')}`);
+    this.name = 'IncompleteSourceError';
+  }
+}
+
+// Merges several sources, dropping duplicate ids. A failing source doesn't hide the others.
+export const combineSources = (...sources: EncounterSource[]): EncounterSource => ({
+  name: sources.map(s => s.name).join('+'),
+  fetchInBounds: async (bounds, viewerId, signal) => {
+    const results = await Promise.allSettled(sources.map(s => s.fetchInBounds(bounds, viewerId, signal)));
+    const merged: Encounter[] = [];
+    const failed: string[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.error(`Encounter source ${sources[i].name} failed:`, result.reason);
+        failed.push(sources[i].name);
+        return;
+      }
+      result.value.forEach(e => {
+        if (!merged.some(m => m.id === e.id)) merged.push(e);
+      });
+    });
+    if (failed.length > 0) throw new IncompleteSourceError(merged, failed);
+    return merged;
+  }
+});
+
+// Uses the fallback when the primary source fails (e.g. Gemini without network). If both fail, so does this.
+export const withFallback = (primary: EncounterSource, fallback: EncounterSource): EncounterSource => ({
+  name: `${primary.name}|${fallback.name}`,
+  fetchInBounds: (bounds, viewerId, signal) =>
+    primary.fetchInBounds(bounds, viewerId, signal).catch(() => fallback.fetchInBounds(bounds, viewerId, signal))
+});
+
+// --- Configuration ---
+
+// ENCOUNTER_SOURCES is a comma separated list of backend, gemini and fixtures.
+// Without it: the backend plus Gemini demo data, falling back to fixtures offline or without an API key.
+const createConfiguredSource = (): EncounterSource => {
+  const fixtures = createFixtureSource({ seed: Number(process.env.FIXTURE_SEED) || undefined });
+  const configured = (process.env.ENCOUNTER_SOURCES || '').split(',').map(s => s.trim()).filter(Boolean);
+
+  if (configured.length === 0) {
+    return combineSources(backendSource, process.env.API_KEY ? withFallback(geminiSource, fixtures) : fixtures);
+  }
+
+  const available: Record<string, EncounterSource> = { backend: backendSource, gemini: geminiSource, fixtures };
+  const sources = configured.map(name => available[name]).filter(Boolean);
+  return sources.length > 0 ? combineSources(...sources) : fixtures;
+};
+
+export const encounterSource = createConfiguredSource();
+
+// --- Viewport loading ---
+
+const MAX_TILES_PER_LOAD = 16; // Zoomed far out, only the tiles closest to the center are fetched
+
+export interface LoadedArea {
+  encounters: Encounter[]; // From the tiles fetched by this load
+  tileKeys: string[]; // Every tile of the viewport
+}
+
+// Loads the tiles of a viewport that haven't been loaded yet. Starting a new load cancels the previous one;
+// a cancelled load resolves to null and its tiles are fetched again next time, like the tiles that failed.
+// Tiles that left the viewport are forgotten, and fetched again when it comes back to them.
+export const createTileLoader = (source: EncounterSource) => {
+  const loadedTiles = new Set<string>();
+  let controller: AbortController | null = null;
+
+  const load = async (bounds: Bounds, viewerId: string): Promise<LoadedArea | null> => {
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+
+    const viewTiles = tilesForBounds(bounds);
+    const tileKeys = viewTiles.map(t => t.key);
+    const inView = new Set(tileKeys);
+    loadedTiles.forEach(key => {
+      if (!inView.has(key)) loadedTiles.delete(key);
+    });
+
+    const tiles = viewTiles.filter(t => !loadedTiles.has(t.key)).slice(0, MAX_TILES_PER_LOAD);
+    if (tiles.length === 0) return { encounters: [], tileKeys };
+
+    const results = await Promise.allSettled(tiles.map(t => source.fetchInBounds(t.bounds, viewerId, current.signal)));
+    if (current.signal.aborted) return null;
+
+    const encounters: Encounter[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        loadedTiles.add(tiles[i].key);
+        encounters.push(...result.value);
+      } else if (result.reason instanceof IncompleteSourceError) {
+        encounters.push(...result.reason.encounters);
+      } else {
+        console.error(`Tile ${tiles[i].key} failed to load:`, result.reason);
+      }
+    });
+    if (controller === current) controller = null;
+    return { encounters, tileKeys };
+  };
+
+  // Forget everything, e.g. when another account signs in
+  const reset = () => {
+    controller?.abort();
+    controller = null;
+    loadedTiles.clear();
+  };
+
+  return { load, reset };
+};
+
+export type TileLoader = ReturnType<typeof createTileLoader>;
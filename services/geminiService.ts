@@ -1,25 +1,15 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Encounter, UserProfile, EncounterStatus, AVAILABLE_TAGS, EncounterTag } from "../types";
+import { Encounter, UserProfile, AVAILABLE_TAGS, EncounterTag, ModerationContext, ModerationDecision, ModerationReason, ModerationResult } from "../types";
+import { DEFAULT_TIME_TOLERANCE_MINUTES } from "../utils/matching";
+import { getExpiresAt } from "../utils/encounterPolicy";
+import { offsetLocation } from "../utils/geo";
+import { Locale, translate } from "../i18n";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
 // Helper to generate random coordinates near a center point (approx 100-200m radius)
 const getRandomLocationNearby = (lat: number, lng: number): { lat: number, lng: number } => {
-  const r = 0.0015; // roughly 150m
-  const u = Math.random();
-  const v = Math.random();
-  const w = r * Math.sqrt(u);
-  const t = 2 * Math.PI * v;
-  const x = w * Math.cos(t);
-  const y = w * Math.sin(t);
-  
-  // Adjust for longitude shrinking
-  const xAdjusted = x / Math.cos(lat * (Math.PI / 180));
-  
-  return {
-    lat: lat + y,
-    lng: lng + xAdjusted
-  };
+  return offsetLocation(lat, lng, 0.0015, Math.random(), Math.random()); // roughly 150m
 };
 
 const getRandomTags = (): EncounterTag[] => {
@@ -27,7 +17,9 @@ const getRandomTags = (): EncounterTag[] => {
   return shuffled.slice(0, Math.floor(Math.random() * 2) + 1); // 1 or 2 tags
 };
 
-export const generateNearbyEncounters = async (lat: number, lng: number): Promise<Encounter[]> => {
+// Demo posts around a point; null when Gemini can't be reached. Ids are the prefix and the post's position,
+// so posts generated again for the same prefix replace the earlier ones instead of adding to them.
+export const generateNearbyEncounters = async (lat: number, lng: number, idPrefix: string): Promise<Encounter[] | null> => {
   try {
     const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
@@ -41,6 +33,7 @@ export const generateNearbyEncounters = async (lat: number, lng: number): Promis
       - name: First name of the person posting.
       - bio: Short bio of the person posting.
       - gender: "male" or "female" (for profile pic selection).
+      - age: Age of the person posting, between 20 and 45.
       `,
       config: {
         responseMimeType: "application/json",
@@ -53,7 +46,8 @@ export const generateNearbyEncounters = async (lat: number, lng: number): Promis
               description: { type: Type.STRING },
               name: { type: Type.STRING },
               bio: { type: Type.STRING },
-              gender: { type: Type.STRING }
+              gender: { type: Type.STRING },
+              age: { type: Type.INTEGER }
             }
           }
         }
@@ -67,10 +61,13 @@ export const generateNearbyEncounters = async (lat: number, lng: number): Promis
       const imageId = index + 10; // offset for picsum
       
       const location = getRandomLocationNearby(lat, lng);
+      const timestamp = Date.now() - (Math.random() * 3 * 3600000); // Within last 3h so they overlap recent posts
 
       const userProfile: UserProfile = {
-        id: `mock-user-${index}`,
+        id: `mock-${idPrefix}-${index}`,
         name: item.name,
+        age: typeof item.age === 'number' ? item.age : undefined,
+        gender: isFemale ? 'female' : 'male',
         bio: item.bio,
         images: [
            `https://picsum.photos/seed/${item.name}/400/600`,
@@ -80,33 +77,74 @@ export const generateNearbyEncounters = async (lat: number, lng: number): Promis
       };
 
       return {
-        id: `encounter-${index}`,
+        id: `${idPrefix}-${index}`,
         userId: userProfile.id,
         userProfile,
         title: item.title,
         description: item.description,
         location: location,
-        timestamp: Date.now() - (Math.random() * 86400000), // Within last 24h
+        timestamp,
+        happenedAt: timestamp,
+        timeToleranceMinutes: DEFAULT_TIME_TOLERANCE_MINUTES * 2,
+        expiresAt: getExpiresAt(timestamp),
         image: `https://picsum.photos/seed/location${index}/500/300`,
-        status: EncounterStatus.PENDING,
         tags: getRandomTags(),
       };
     });
 
   } catch (error) {
     console.error("Gemini failed to generate encounters:", error);
-    return [];
+    return null;
   }
 };
 
-export const generateInitialMessage = async (encounterTitle: string): Promise<string> => {
+const LANGUAGE_NAMES: Record<Locale, string> = { es: 'Spanish', en: 'English', pt: 'Portuguese' };
+
+export const generateInitialMessage = async (encounterTitle: string, locale: Locale): Promise<string> => {
     try {
         const response = await ai.models.generateContent({
             model: "gemini-2.5-flash",
-            contents: `Write a short, flirty but polite opening message for a chat in a dating app. The context is that we matched on a post titled "${encounterTitle}".`,
+            contents: `Write a short, flirty but polite opening message in ${LANGUAGE_NAMES[locale]} for a chat in a dating app. The context is that we matched on a post titled "${encounterTitle}".`,
         });
         return response.text;
     } catch (e) {
-        return "Hola! Me alegro de que nos hayamos encontrado.";
+        return translate(locale, 'chat.defaultOpener');
     }
-}
\ No newline at end of file
+}
+
+const MODEL_MODERATION_REASONS: ModerationReason[] = ['abuse', 'sexual', 'spam', 'profanity'];
+
+// Model based screening for what word lists miss (veiled insults, harassment, scams).
+// Resolves to null when the model is unavailable so callers fall back to the local rules.
+export const classifyContent = async (text: string, context: ModerationContext): Promise<ModerationResult | null> => {
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `You moderate a dating app. Classify the following ${context === 'encounter' ? 'public post' : 'private chat message between two people who matched'}.
+      Use "block" for harassment, threats, hate or explicit sexual content, "warn" for rude, crude or spammy text and "allow" otherwise.
+      Reasons must be among: ${MODEL_MODERATION_REASONS.join(', ')}.
+
+      Text: """${text}"""`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            decision: { type: Type.STRING, enum: ['allow', 'warn', 'block'] },
+            reasons: { type: Type.ARRAY, items: { type: Type.STRING, enum: MODEL_MODERATION_REASONS } }
+          },
+          required: ['decision', 'reasons']
+        }
+      }
+    });
+    const data = JSON.parse(response.text || "null");
+    if (!data || !['allow', 'warn', 'block'].includes(data.decision)) return null;
+    return {
+      decision: data.decision as ModerationDecision,
+      reasons: (data.reasons ?? []).filter((r: string) => MODEL_MODERATION_REASONS.includes(r as ModerationReason))
+    };
+  } catch (error) {
+    console.error("Gemini failed to classify content:", error);
+    return null;
+  }
+};
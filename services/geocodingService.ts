@@ -0,0 +1,157 @@
+import { Location, Venue } from '../types';
+import { getPlaceDistanceMeters, MAX_VENUE_DISTANCE_METERS } from '../utils/geo';
+
+// Anything that can find venues by name and tell which venues are at a location. Both resolve to null when
+// the lookup failed, so callers can tell a failure from no results.
+export interface Geocoder {
+  name: string;
+  search: (query: string) => Promise<Venue[] | null>;
+  reverse: (location: Location) => Promise<Venue[] | null>;
+}
+
+// --- Implementations ---
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+interface NominatimResult {
+  osm_type: string;
+  osm_id: number;
+  category: string; // OSM class: amenity, shop, route...
+  type: string;
+  name: string;
+  display_name: string;
+  lat: string;
+  lon: string;
+  geojson?: { type: string; coordinates: unknown };
+}
+
+const MAX_PATH_POINTS = 200; // Keep in sync with the venues.path check in 0019_venue_checks.sql
+
+// Course of a transit line from its geometry, thinned out to at most MAX_PATH_POINTS
+const toPath = (geojson: NominatimResult['geojson']): Location[] | undefined => {
+  const lines = geojson?.type === 'LineString' ? [geojson.coordinates as number[][]]
+    : geojson?.type === 'MultiLineString' ? geojson.coordinates as number[][][]
+    : [];
+  const points = lines.flat().map(([lng, lat]) => ({ lat, lng }));
+  const step = Math.ceil(points.length / MAX_PATH_POINTS);
+  const path = points.filter((_, i) => i % step === 0);
+  return path.length >= 2 ? path : undefined;
+};
+
+const fromNominatimResult = (result: NominatimResult): Venue => {
+  const kind = result.category === 'route' ? 'transit_line' : 'place'; // Bus, metro and train lines are route relations
+  return {
+    id: `osm:${result.osm_type}/${result.osm_id}`,
+    name: result.name || result.display_name.split(',')[0],
+    kind,
+    location: { lat: parseFloat(result.lat), lng: parseFloat(result.lon) },
+    address: result.display_name,
+    path: kind === 'transit_line' ? toPath(result.geojson) : undefined
+  };
+};
+
+// Geometries come simplified to about 50 m, enough to tell whether a post is on a line
+const GEOMETRY_PARAMS = 'polygon_geojson=1&polygon_threshold=0.0005';
+
+const fetchNominatim = async <T>(path: string): Promise<T | null> => {
+  try {
+    const response = await fetch(`${NOMINATIM_URL}${path}`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.json();
+  } catch (error) {
+    console.error("Nominatim request failed:", error);
+    return null;
+  }
+};
+
+// OpenStreetMap's geocoder. Its usage policy allows about one request per second, so lookups should
+// follow user actions, not keystrokes.
+export const nominatimGeocoder: Geocoder = {
+  name: 'nominatim',
+  search: async (query) => {
+    const results = await fetchNominatim<NominatimResult[]>(`/search?format=jsonv2&${GEOMETRY_PARAMS}&q=${encodeURIComponent(query)}`);
+    return results && results.map(fromNominatimResult);
+  },
+  // Nominatim returns the single closest object; an { error } body means there's nothing there
+  reverse: async ({ lat, lng }) => {
+    const result = await fetchNominatim<NominatimResult | { error: string }>(`/reverse?format=jsonv2&zoom=18&${GEOMETRY_PARAMS}&lat=${lat}&lon=${lng}`);
+    if (!result) return null;
+    return 'error' in result ? [] : [fromNominatimResult(result)];
+  }
+};
+
+// Well known places and lines of Mexico City (the default location), for offline use and tests.
+// Lines follow their stops.
+const FIXTURE_VENUES: Venue[] = [
+  { id: 'fixture:starbucks-reforma', name: 'Starbucks Reforma 222', kind: 'place', location: { lat: 19.4289, lng: -99.1617 }, address: 'Paseo de la Reforma 222, Juárez' },
+  { id: 'fixture:cafe-tacuba', name: 'Café de Tacuba', kind: 'place', location: { lat: 19.4361, lng: -99.1383 }, address: 'Tacuba 28, Centro' },
+  { id: 'fixture:bellas-artes', name: 'Palacio de Bellas Artes', kind: 'place', location: { lat: 19.4352, lng: -99.1412 }, address: 'Av. Juárez, Centro' },
+  { id: 'fixture:zocalo', name: 'Zócalo', kind: 'place', location: { lat: 19.4326, lng: -99.1332 }, address: 'Plaza de la Constitución, Centro' },
+  { id: 'fixture:parque-mexico', name: 'Parque México', kind: 'place', location: { lat: 19.4122, lng: -99.1697 }, address: 'Hipódromo, Cuauhtémoc' },
+  { id: 'fixture:mercado-roma', name: 'Mercado Roma', kind: 'place', location: { lat: 19.4186, lng: -99.1650 }, address: 'Querétaro 225, Roma Norte' },
+  {
+    id: 'fixture:metro-2', name: 'Metro Línea 2', kind: 'transit_line', location: { lat: 19.4326, lng: -99.1332 }, address: 'Cuatro Caminos – Tasqueña',
+    path: [
+      { lat: 19.4597, lng: -99.2158 }, { lat: 19.4444, lng: -99.1675 }, { lat: 19.4376, lng: -99.1472 }, { lat: 19.4364, lng: -99.1413 },
+      { lat: 19.4326, lng: -99.1332 }, { lat: 19.4254, lng: -99.1329 }, { lat: 19.4157, lng: -99.1348 }, { lat: 19.3953, lng: -99.1376 },
+      { lat: 19.3697, lng: -99.1414 }, { lat: 19.3535, lng: -99.1450 }, { lat: 19.3440, lng: -99.1426 }
+    ]
+  },
+  {
+    id: 'fixture:metrobus-1', name: 'Metrobús Línea 1', kind: 'transit_line', location: { lat: 19.4234, lng: -99.1631 }, address: 'Indios Verdes – El Caminero (Insurgentes)',
+    path: [
+      { lat: 19.4957, lng: -99.1195 }, { lat: 19.4465, lng: -99.1530 }, { lat: 19.4329, lng: -99.1570 }, { lat: 19.4234, lng: -99.1631 },
+      { lat: 19.4175, lng: -99.1665 }, { lat: 19.3790, lng: -99.1785 }, { lat: 19.3470, lng: -99.1891 }
+    ]
+  }
+];
+
+// Case and accent insensitive, so "cafe tacuba" finds "Café de Tacuba"
+const foldText = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export const fixtureGeocoder: Geocoder = {
+  name: 'fixtures',
+  search: async (query) => {
+    const folded = foldText(query.trim());
+    return FIXTURE_VENUES.filter(v => foldText(`${v.name} ${v.address ?? ''}`).includes(folded));
+  },
+  // Whatever a post here could name: lines count when any part of them passes close by, not just a stop
+  reverse: async (location) => {
+    return FIXTURE_VENUES
+      .map(venue => ({
+        venue,
+        distance: getPlaceDistanceMeters({ location }, { location: venue.location, shape: venue.path && { type: 'route', points: venue.path } })
+      }))
+      .filter(({ distance }) => distance <= MAX_VENUE_DISTANCE_METERS)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ venue }) => venue);
+  }
+};
+
+// --- Composition ---
+
+// Uses the fallback when the primary geocoder fails (e.g. Nominatim without network)
+export const withFallback = (primary: Geocoder, fallback: Geocoder): Geocoder => ({
+  name: `${primary.name}|${fallback.name}`,
+  search: async (query) => (await primary.search(query)) ?? fallback.search(query),
+  reverse: async (location) => (await primary.reverse(location)) ?? fallback.reverse(location)
+});
+
+// --- Configuration ---
+
+// GEOCODER is nominatim or fixtures. Without it: Nominatim, falling back to the fixtures offline during
+// development only. Venue ids differ between geocoders (osm: and fixture:), so posts at the same place
+// named through different ones would never pair: everyone sharing a backend has to use the same one.
+const createConfiguredGeocoder = (): Geocoder => {
+  const available: Record<string, Geocoder> = { nominatim: nominatimGeocoder, fixtures: fixtureGeocoder };
+  const fallback = import.meta.env.DEV ? withFallback(nominatimGeocoder, fixtureGeocoder) : nominatimGeocoder;
+  return available[process.env.GEOCODER || ''] ?? fallback;
+};
+
+export const geocoder = createConfiguredGeocoder();
+
+// Street, place and line search by name
+export const searchPlaces = (query: string): Promise<Venue[] | null> => geocoder.search(query);
+
+// Venues at or near a location, closest first
+export const reverseGeocode = (location: Location): Promise<Venue[] | null> => geocoder.reverse(location);
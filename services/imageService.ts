@@ -0,0 +1,84 @@
+import { supabase } from './supabaseClient';
+import { prepareImage } from '../utils/image';
+
+export const IMAGES_BUCKET = 'images'; // Private bucket, read through signed URLs
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const SIGNED_URL_MARGIN_MS = 5 * 60 * 1000; // Renew a bit before the URL actually expires
+
+// Uploaded photos are referenced by their object path ("<userId>/<uuid>.jpg") in profiles and encounters.
+// Anything else (demo data, previews) is already a URL and is used as is.
+export const isStoredImage = (ref: string): boolean => !/^(https?:|data:|blob:)/.test(ref);
+
+// Resizes, strips metadata and uploads the photo. Resolves to the stored path, or null on failure.
+export const uploadImage = async (userId: string, file: Blob): Promise<string | null> => {
+  let image: Blob;
+  try {
+    image = await prepareImage(file);
+  } catch (error) {
+    console.error("Failed to process image:", error);
+    return null;
+  }
+
+  const path = `${userId}/${crypto.randomUUID()}.jpg`;
+  const { error } = await supabase.storage.from(IMAGES_BUCKET).upload(path, image, { contentType: 'image/jpeg' });
+  if (error) {
+    console.error("Failed to upload image:", error);
+    return null;
+  }
+  return path;
+};
+
+export const deleteImages = async (refs: string[]): Promise<void> => {
+  const paths = refs.filter(isStoredImage);
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(IMAGES_BUCKET).remove(paths);
+  if (error) console.error("Failed to delete images:", error);
+};
+
+// --- Signed URLs ---
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+const pending = new Map<string, Promise<string | null>>();
+let queue: { path: string; resolve: (url: string | null) => void }[] = [];
+
+// Requests queued in the same tick are signed with a single call (a list of cards renders many images)
+const flushQueue = async () => {
+  const batch = queue;
+  queue = [];
+  const paths = [...new Set(batch.map(item => item.path))];
+
+  const { data, error } = await supabase.storage.from(IMAGES_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+  if (error) console.error("Failed to sign image URLs:", error);
+
+  const expiresAt = Date.now() + SIGNED_URL_TTL_SECONDS * 1000 - SIGNED_URL_MARGIN_MS;
+  (data ?? []).forEach(item => {
+    if (item.path && item.signedUrl) signedUrls.set(item.path, { url: item.signedUrl, expiresAt });
+  });
+  batch.forEach(item => {
+    pending.delete(item.path);
+    item.resolve(signedUrls.get(item.path)?.url ?? null);
+  });
+};
+
+// Synchronous lookup so already signed images render without a flash
+export const getCachedImageUrl = (ref: string): string | null => {
+  if (!isStoredImage(ref)) return ref;
+  const cached = signedUrls.get(ref);
+  return cached && cached.expiresAt > Date.now() ? cached.url : null;
+};
+
+export const getImageUrl = (ref: string): Promise<string | null> => {
+  const cached = getCachedImageUrl(ref);
+  if (cached) return Promise.resolve(cached);
+
+  const inFlight = pending.get(ref);
+  if (inFlight) return inFlight;
+
+  const promise = new Promise<string | null>(resolve => {
+    if (queue.length === 0) setTimeout(flushQueue, 0);
+    queue.push({ path: ref, resolve });
+  });
+  pending.set(ref, promise);
+  return promise;
+};
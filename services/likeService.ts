@@ -0,0 +1,86 @@
+import { supabase } from './supabaseClient';
+import { Encounter, Like, LikeState, Match } from '../types';
+import { getWriteOutcome, WriteOutcome } from '../utils/sync';
+
+interface LikeRow {
+  liker_id: string;
+  encounter_id: string;
+  encounter_owner_id: string;
+  created_at: string;
+}
+
+interface MatchRow {
+  id: string;
+  user_a: string;
+  user_b: string;
+  created_at: string;
+}
+
+const fromLikeRow = (row: LikeRow): Like => ({
+  likerId: row.liker_id,
+  encounterId: row.encounter_id,
+  encounterOwnerId: row.encounter_owner_id,
+  timestamp: new Date(row.created_at).getTime()
+});
+
+const fromMatchRow = (row: MatchRow): Match => ({
+  id: row.id,
+  userIds: [row.user_a, row.user_b],
+  timestamp: new Date(row.created_at).getTime()
+});
+
+// Likes the user gave or received, plus their matches (RLS limits rows to the caller)
+export const fetchLikeState = async (userId: string): Promise<LikeState> => {
+  const [likesResult, matchesResult] = await Promise.all([
+    supabase.from('likes').select('*').or(`liker_id.eq.${userId},encounter_owner_id.eq.${userId}`),
+    supabase.from('matches').select('*').or(`user_a.eq.${userId},user_b.eq.${userId}`)
+  ]);
+  if (likesResult.error || matchesResult.error) {
+    console.error("Failed to load likes:", likesResult.error || matchesResult.error);
+    return { likes: [], matches: [] };
+  }
+  return {
+    likes: (likesResult.data as LikeRow[]).map(fromLikeRow),
+    matches: (matchesResult.data as MatchRow[]).map(fromMatchRow)
+  };
+};
+
+export const createLike = (userId: string, encounter: Encounter): Like => ({
+  likerId: userId,
+  encounterId: encounter.id,
+  encounterOwnerId: encounter.userId,
+  timestamp: Date.now()
+});
+
+// The match is resolved atomically by like_encounter on the server.
+// Encounters that only exist on this device (demo data) keep a local like and never match; saved is false for them.
+export const likeEncounter = async (userId: string, encounter: Encounter): Promise<{ like: Like; match: Match | null; outcome: WriteOutcome }> => {
+  const like = createLike(userId, encounter);
+
+  const response = await supabase.rpc('like_encounter', { p_encounter_id: encounter.id });
+  if (response.error) {
+    console.error("Failed to like encounter:", response.error);
+    return { like, match: null, outcome: getWriteOutcome(response) };
+  }
+  const result = response.data as { match: MatchRow | null };
+  return { like, match: result.match ? fromMatchRow(result.match) : null, outcome: 'saved' };
+};
+
+export const unmatch = async (partnerId: string): Promise<void> => {
+  const { error } = await supabase.rpc('unmatch', { p_partner_id: partnerId });
+  if (error) console.error("Failed to unmatch:", error);
+};
+
+// Calls onChange whenever someone likes one of the user's encounters or a match involving them changes.
+// Returns an unsubscribe function.
+export const subscribeToLikeState = (userId: string, onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`likes-${userId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'likes', filter: `encounter_owner_id=eq.${userId}` }, onChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'matches', filter: `user_a=eq.${userId}` }, onChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'matches', filter: `user_b=eq.${userId}` }, onChange)
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,16 @@
+import { ModerationContext, ModerationResult } from '../types';
+import { screenText, mergeResults } from '../utils/moderation';
+import { classifyContent } from './geminiService';
+
+// MODERATION_CLASSIFIER=gemini adds the model on top of the local rules (needs GEMINI_API_KEY)
+const useClassifier = process.env.MODERATION_CLASSIFIER === 'gemini' && !!process.env.API_KEY;
+
+// Screens a post or message before it's sent. The local rules always run; the model only when enabled
+// and the rules didn't already block it.
+export const moderateContent = async (text: string, context: ModerationContext): Promise<ModerationResult> => {
+  const local = screenText(text, context);
+  if (local.decision === 'block' || !useClassifier) return local;
+
+  const remote = await classifyContent(text, context);
+  return remote ? mergeResults(local, remote) : local;
+};
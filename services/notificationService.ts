@@ -0,0 +1,182 @@
+import { supabase } from './supabaseClient';
+import { AppNotification, NotificationPreferences, NotificationType } from '../types';
+import { DEFAULT_NOTIFICATION_PREFERENCES, PushTexts } from '../utils/notifications';
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  actor_id: string | null;
+  encounter_id: string | null;
+  match_id: string | null;
+  title: string;
+  body: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+interface PreferenceRow {
+  user_id: string;
+  type: NotificationType;
+  enabled: boolean;
+}
+
+const INBOX_SIZE = 50;
+const SERVICE_WORKER_URL = '/sw.js';
+
+const fromNotificationRow = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  type: row.type,
+  title: row.title,
+  body: row.body,
+  actorId: row.actor_id ?? undefined,
+  encounterId: row.encounter_id ?? undefined,
+  matchId: row.match_id ?? undefined,
+  timestamp: new Date(row.created_at).getTime(),
+  read: row.read_at !== null
+});
+
+// --- Inbox ---
+
+export const fetchNotifications = async (userId: string): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(INBOX_SIZE);
+  if (error) {
+    console.error("Failed to load notifications:", error);
+    return [];
+  }
+  return (data as NotificationRow[]).map(fromNotificationRow);
+};
+
+// Without ids, marks the whole inbox as read
+export const markNotificationsRead = async (ids?: string[]): Promise<void> => {
+  const { error } = await supabase.rpc('mark_notifications_read', { p_ids: ids ?? null });
+  if (error) console.error("Failed to mark notifications read:", error);
+};
+
+// New notifications and in-place updates (unread message notifications get the latest text).
+// Returns an unsubscribe function.
+export const subscribeToNotifications = (
+  userId: string,
+  onNotification: (notification: AppNotification, isNew: boolean) => void
+): (() => void) => {
+  const filter = `user_id=eq.${userId}`;
+  const channel = supabase
+    .channel(`notifications-${userId}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notifications', filter }, payload => {
+      onNotification(fromNotificationRow(payload.new as NotificationRow), true);
+    })
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'notifications', filter }, payload => {
+      onNotification(fromNotificationRow(payload.new as NotificationRow), false);
+    })
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// --- Preferences ---
+
+export const fetchNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const { data, error } = await supabase.from('notification_preferences').select('*').eq('user_id', userId);
+  if (error) {
+    console.error("Failed to load notification preferences:", error);
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  (data as PreferenceRow[]).forEach(row => {
+    preferences[row.type] = row.enabled;
+  });
+  return preferences;
+};
+
+export const saveNotificationPreference = async (userId: string, type: NotificationType, enabled: boolean): Promise<boolean> => {
+  const row: PreferenceRow = { user_id: userId, type, enabled };
+  const { error } = await supabase.from('notification_preferences').upsert(row);
+  if (error) {
+    console.error("Failed to save notification preference:", error);
+    return false;
+  }
+  return true;
+};
+
+// --- Web Push ---
+
+export const isPushSupported = (): boolean =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window && !!process.env.VAPID_PUBLIC_KEY;
+
+// The VAPID key comes base64url encoded; PushManager wants the raw bytes
+const decodeVapidKey = (key: string): Uint8Array => {
+  const base64 = (key + '='.repeat((4 - key.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const getExistingSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const isPushEnabled = async (): Promise<boolean> => {
+  if (!isPushSupported() || Notification.permission !== 'granted') return false;
+  return (await getExistingSubscription()) !== null;
+};
+
+// Asks for permission, subscribes this browser and stores the subscription. Resolves to false if
+// the user declined or anything failed.
+export const enablePush = async (userId: string): Promise<boolean> => {
+  if (!isPushSupported()) return false;
+  try {
+    if (await Notification.requestPermission() !== 'granted') return false;
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    const subscription = await registration.pushManager.getSubscription() ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeVapidKey(process.env.VAPID_PUBLIC_KEY as string)
+    });
+    const { endpoint, keys } = subscription.toJSON();
+    const { error } = await supabase.from('push_subscriptions').upsert({
+      endpoint,
+      user_id: userId,
+      p256dh: keys?.p256dh,
+      auth: keys?.auth
+    });
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Failed to enable push notifications:", error);
+    return false;
+  }
+};
+
+export const disablePush = async (): Promise<void> => {
+  if (!isPushSupported()) return;
+  try {
+    const subscription = await getExistingSubscription();
+    if (!subscription) return;
+    await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+    await subscription.unsubscribe();
+  } catch (error) {
+    console.error("Failed to disable push notifications:", error);
+  }
+};
+
+// The service worker keeps them for the pushes it shows, which are written in Spanish by the server.
+// Waits for the worker to be active; without one (development, tests) nothing is sent.
+export const sharePushTexts = async (texts: PushTexts): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'push-texts', texts });
+};
+
+// Taps on a push notification while the app is open (see public/sw.js). Returns an unsubscribe function.
+export const onPushNotificationClick = (onClick: (notificationId: string) => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handle = (event: MessageEvent) => {
+    if (event.data?.type === 'notification-click') onClick(event.data.notificationId);
+  };
+  navigator.serviceWorker.addEventListener('message', handle);
+  return () => navigator.serviceWorker.removeEventListener('message', handle);
+};
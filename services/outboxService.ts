@@ -0,0 +1,158 @@
+import { ChatMessage, Encounter, Match } from '../types';
+import { encounterRepository } from './encounterRepository';
+import * as likeService from './likeService';
+import * as chatService from './chatService';
+import { WriteOutcome } from '../utils/sync';
+
+// Writes that can wait for the connection: publishing, liking and chatting
+export type OutboxAction =
+  | { kind: 'encounter'; encounter: Encounter }
+  | { kind: 'like'; encounter: Encounter }
+  | { kind: 'message'; matchId: string; message: ChatMessage };
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  action: OutboxAction;
+  createdAt: number;
+}
+
+// 'rejected' means the server refused the write (conflict): it is dropped, not retried
+export type SyncResult =
+  | { status: 'synced'; match?: Match | null; message?: ChatMessage }
+  | { status: 'queued' }
+  | { status: 'rejected' };
+
+const DB_NAME = 'encuentros-outbox';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Oldest first, the order they have to be replayed in
+export const listEntries = async (userId: string): Promise<OutboxEntry[]> => {
+  try {
+    const entries = await runRequest<OutboxEntry[]>('readonly', store => store.index('userId').getAll(userId));
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error("Failed to read outbox:", error);
+    return [];
+  }
+};
+
+const addEntry = async (userId: string, action: OutboxAction): Promise<boolean> => {
+  const entry: OutboxEntry = { id: crypto.randomUUID(), userId, action, createdAt: Date.now() };
+  try {
+    await runRequest('readwrite', store => store.add(entry));
+    return true;
+  } catch (error) {
+    console.error("Failed to queue action:", error);
+    return false;
+  }
+};
+
+const removeEntry = async (id: string): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("Failed to remove outbox entry:", error);
+  }
+};
+
+export const clearEntries = async (userId: string): Promise<void> => {
+  const entries = await listEntries(userId);
+  await Promise.all(entries.map(e => removeEntry(e.id)));
+};
+
+// A post deleted before it was ever published
+export const discardQueuedEncounter = async (userId: string, encounterId: string): Promise<void> => {
+  const entries = await listEntries(userId);
+  await Promise.all(entries
+    .filter(e => e.action.kind === 'encounter' && e.action.encounter.id === encounterId)
+    .map(e => removeEntry(e.id)));
+};
+
+// --- Sync ---
+
+// A request that got no answer is retried later, even if the browser reports being online; one the
+// server refused is dropped
+const failure = (outcome: WriteOutcome): SyncResult => outcome === 'refused' ? { status: 'rejected' } : { status: 'queued' };
+
+const sendAction = async (userId: string, action: OutboxAction): Promise<SyncResult> => {
+  switch (action.kind) {
+    case 'encounter': {
+      // Archived while waiting: publishing it now would only fill a slot
+      if (action.encounter.expiresAt <= Date.now()) return { status: 'rejected' };
+      const outcome = await encounterRepository.saveEncounter(action.encounter);
+      return outcome === 'saved' ? { status: 'synced' } : failure(outcome);
+    }
+    case 'like': {
+      const { match, outcome } = await likeService.likeEncounter(userId, action.encounter);
+      return outcome === 'saved' ? { status: 'synced', match } : failure(outcome);
+    }
+    case 'message': {
+      const { stored, outcome } = await chatService.sendMessage(action.matchId, action.message);
+      return stored ? { status: 'synced', message: stored } : failure(outcome);
+    }
+  }
+};
+
+// Sends the action now, or queues it when offline. Actions also wait while older ones are still queued,
+// so a conversation is never delivered out of order.
+export const sendOrQueue = async (userId: string, action: OutboxAction): Promise<SyncResult> => {
+  const waiting = (await listEntries(userId)).length > 0;
+  if (navigator.onLine && !waiting) {
+    const result = await sendAction(userId, action);
+    if (result.status !== 'queued') return result;
+  }
+  const queued = await addEntry(userId, action);
+  return queued ? { status: 'queued' } : { status: 'rejected' };
+};
+
+let replaying: Promise<{ entry: OutboxEntry; result: SyncResult }[]> | null = null;
+
+// Replays queued actions in order until one can't reach the server. Synced and rejected entries leave
+// the outbox; the caller applies each result. Concurrent calls share the same replay.
+export const replayOutbox = (userId: string): Promise<{ entry: OutboxEntry; result: SyncResult }[]> => {
+  if (!replaying) {
+    replaying = (async () => {
+      const results: { entry: OutboxEntry; result: SyncResult }[] = [];
+      for (const entry of await listEntries(userId)) {
+        const result = await sendAction(userId, entry.action);
+        if (result.status === 'queued') break;
+        await removeEntry(entry.id);
+        results.push({ entry, result });
+      }
+      return results;
+    })().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+};
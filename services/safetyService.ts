@@ -0,0 +1,142 @@
+import { supabase } from './supabaseClient';
+import { ModerationCase, Report, ReportReason, ReportTarget } from '../types';
+
+interface BlockRow {
+  blocker_id: string;
+  blocked_id: string;
+}
+
+interface ReportRow {
+  id: string;
+  reporter_id: string;
+  reported_user_id: string;
+  encounter_id: string | null;
+  message_id: string | null;
+  reason: ReportReason;
+  details: string;
+  content: string;
+  created_at: string;
+}
+
+interface HoldRow {
+  user_id: string;
+}
+
+interface ProfileNameRow {
+  id: string;
+  name: string;
+}
+
+const fromReportRow = (row: ReportRow): Report => ({
+  id: row.id,
+  reporterId: row.reporter_id,
+  reportedUserId: row.reported_user_id,
+  encounterId: row.encounter_id ?? undefined,
+  messageId: row.message_id ?? undefined,
+  reason: row.reason,
+  details: row.details,
+  content: row.content,
+  timestamp: new Date(row.created_at).getTime()
+});
+
+// --- Blocking ---
+
+// People the user blocked. Who blocked the user is never exposed; the server just stops showing them.
+export const fetchBlockedUserIds = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase.from('blocks').select('*').eq('blocker_id', userId);
+  if (error) {
+    console.error("Failed to load blocked users:", error);
+    return [];
+  }
+  return (data as BlockRow[]).map(row => row.blocked_id);
+};
+
+// Also ends the match, likes and chats between both (block_user in migrations)
+export const blockUser = async (blockedId: string): Promise<boolean> => {
+  const { error } = await supabase.rpc('block_user', { p_user_id: blockedId });
+  if (error) {
+    console.error("Failed to block user:", error);
+    return false;
+  }
+  return true;
+};
+
+// --- Reports ---
+
+// The server copies what moderators see from the reported post or message, and refuses reports that don't
+// match what the user really published or sent
+export const reportContent = async (
+  reporterId: string,
+  target: ReportTarget,
+  reason: ReportReason,
+  details: string
+): Promise<boolean> => {
+  const { error } = await supabase.from('reports').insert({
+    reporter_id: reporterId,
+    reported_user_id: target.userId,
+    encounter_id: target.encounterId ?? null,
+    message_id: target.messageId ?? null,
+    reason,
+    details
+  });
+  if (error) {
+    console.error("Failed to send report:", error);
+    return false;
+  }
+  return true;
+};
+
+// --- Moderation (admins only, enforced by RLS and review_reports) ---
+
+export const isAdmin = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase.from('admins').select('user_id').eq('user_id', userId).maybeSingle();
+  if (error) console.error("Failed to check admin role:", error);
+  return !!data;
+};
+
+// Pending reports grouped per account, held accounts and most reported first
+export const fetchModerationQueue = async (): Promise<ModerationCase[]> => {
+  const [reportsResult, holdsResult] = await Promise.all([
+    supabase.from('reports').select('*').eq('status', 'pending').order('created_at', { ascending: false }),
+    supabase.from('moderation_holds').select('user_id')
+  ]);
+  if (reportsResult.error || holdsResult.error) {
+    console.error("Failed to load moderation queue:", reportsResult.error || holdsResult.error);
+    return [];
+  }
+
+  const heldIds = new Set((holdsResult.data as HoldRow[]).map(row => row.user_id));
+  const cases = new Map<string, ModerationCase>();
+  (reportsResult.data as ReportRow[]).map(fromReportRow).forEach(report => {
+    const existing = cases.get(report.reportedUserId);
+    if (existing) {
+      existing.reports.push(report);
+    } else {
+      cases.set(report.reportedUserId, { userId: report.reportedUserId, userName: '', isHeld: heldIds.has(report.reportedUserId), reports: [report] });
+    }
+  });
+  // Held accounts stay in the queue even without pending reports
+  heldIds.forEach(userId => {
+    if (!cases.has(userId)) cases.set(userId, { userId, userName: '', isHeld: true, reports: [] });
+  });
+
+  if (cases.size > 0) {
+    const { data: profiles } = await supabase.from('profiles').select('id, name').in('id', [...cases.keys()]);
+    ((profiles as ProfileNameRow[] | null) ?? []).forEach(p => {
+      const entry = cases.get(p.id);
+      if (entry) entry.userName = p.name;
+    });
+  }
+
+  return [...cases.values()].sort((a, b) => Number(b.isHeld) - Number(a.isHeld) || b.reports.length - a.reports.length);
+};
+
+// 'dismiss' closes the reports and makes the account visible again, 'hide' keeps it hidden
+export const reviewReports = async (reportedUserId: string, action: 'dismiss' | 'hide'): Promise<boolean> => {
+  const { error } = await supabase.rpc('review_reports', { p_user_id: reportedUserId, p_action: action });
+  if (error) {
+    console.error("Failed to review reports:", error);
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,94 @@
+import {
+  AppNotification,
+  Chat,
+  ChatMessage,
+  Encounter,
+  EncounterPlace,
+  EncounterPolicy,
+  EncounterTag,
+  EncounterVersion,
+  Like,
+  LikeState,
+  Location,
+  Match,
+  NotificationPreferences,
+  NotificationType,
+  ReportTarget,
+  UserProfile
+} from '../types';
+import { ProximityIndex } from '../utils/matching';
+import { BlockTarget, ModerationPrompt, Toast } from './state';
+
+// Everything that can change the app state. Named "<slice>/<what happened>"; some touch several slices.
+export type Action =
+  // Session & profile
+  | { type: 'session/signedIn'; profile: UserProfile }
+  | { type: 'session/needsProfile'; userId: string } // Signed in, but no profile yet
+  | { type: 'session/signedOut' }
+  | { type: 'session/authStarted' }
+  | { type: 'session/authCancelled' }
+  | { type: 'session/cleared' } // Drops the account's data after sign out or deletion
+  | { type: 'session/adminChecked'; isAdmin: boolean }
+  | { type: 'profile/saved'; profile: UserProfile }
+  // Encounters
+  | { type: 'encounters/mineLoaded'; encounters: Encounter[] }
+  | { type: 'encounters/policyLoaded'; policy: EncounterPolicy }
+  | { type: 'encounters/published'; encounter: Encounter }
+  | { type: 'encounters/syncSettled'; id: string; pending: boolean }
+  | { type: 'encounters/deleted'; id: string }
+  | { type: 'encounters/updated'; encounter: Encounter } // Edited by me, or by its owner as announced to me
+  | { type: 'encounters/deletedVersionsLoaded'; versions: EncounterVersion[] }
+  | { type: 'encounters/deletedVersionsDiscarded'; encounterId: string }
+  | { type: 'encounters/areaRequested' }
+  | { type: 'encounters/areaLoaded'; encounters: Encounter[]; tileKeys: string[] } // Posts outside these tiles are dropped, unless they're near mine
+  | { type: 'encounters/areaCleared' }
+  | { type: 'encounters/venuePostsLoaded'; encounters: Encounter[] } // At my venues, outside the loaded area
+  | { type: 'encounters/linkedLoaded'; encounter: Encounter }
+  | { type: 'encounters/hiddenLoaded'; ids: string[] }
+  | { type: 'encounters/hidden'; id: string }
+  | { type: 'encounters/proximityLoaded'; proximity: ProximityIndex }
+  | { type: 'encounters/matchedLocationsLoaded'; locations: Map<string, EncounterPlace> }
+  // Likes & matches
+  | { type: 'matches/loaded'; state: LikeState }
+  | { type: 'matches/likeSettled'; like: Like; match: Match | null }
+  | { type: 'matches/unmatched'; userId: string; partnerId: string }
+  // Safety
+  | { type: 'safety/blockedLoaded'; userIds: string[] }
+  | { type: 'safety/userBlocked'; userId: string }
+  // Chats
+  | { type: 'chats/loaded'; chats: Chat[] }
+  | { type: 'chats/created'; chat: Chat }
+  | { type: 'chats/messageReceived'; matchId: string; message: ChatMessage } // New, echoed or updated receipt
+  | { type: 'chats/messageSettled'; matchId: string; messageId: string; sent?: ChatMessage }
+  | { type: 'chats/messageRemoved'; matchId: string; messageId: string }
+  | { type: 'chats/read'; matchId: string; userId: string }
+  | { type: 'chats/draftChanged'; matchId: string; text: string }
+  | { type: 'chats/partnerTyping'; isTyping: boolean }
+  | { type: 'chats/viewing'; matchId: string | null }
+  // Notifications
+  | { type: 'notifications/loaded'; notifications: AppNotification[] }
+  | { type: 'notifications/received'; notification: AppNotification }
+  | { type: 'notifications/read'; ids?: string[] } // All of them without ids
+  | { type: 'notifications/preferencesLoaded'; preferences: NotificationPreferences }
+  | { type: 'notifications/preferenceChanged'; notificationType: NotificationType; enabled: boolean }
+  | { type: 'notifications/pushChanged'; enabled: boolean }
+  // Offline outbox
+  | { type: 'sync/connectionChanged'; isOnline: boolean }
+  | { type: 'sync/pendingCounted'; count: number }
+  | { type: 'sync/queued' }
+  | { type: 'sync/discarded' }
+  // Location
+  | { type: 'location/located'; location: Location }
+  | { type: 'location/mapMoved'; center: Location }
+  // UI
+  | { type: 'ui/ticked'; now: number }
+  | { type: 'ui/toastChanged'; toast: Toast | null }
+  | { type: 'ui/darkModeToggled' }
+  | { type: 'ui/reportOpened'; target: ReportTarget | null }
+  | { type: 'ui/blockOpened'; target: BlockTarget | null }
+  | { type: 'ui/moderationPrompted'; prompt: ModerationPrompt | null }
+  | { type: 'ui/moderating'; isModerating: boolean }
+  | { type: 'ui/matchShown'; match: { encounterId: string; partner: UserProfile } | null }
+  | { type: 'ui/galleryOpened'; images: string[] | null }
+  | { type: 'ui/showHiddenChanged'; showHidden: boolean }
+  | { type: 'ui/filterTagToggled'; tag: EncounterTag };
@@ -0,0 +1,50 @@
+import { useSyncExternalStore } from 'react';
+import { Action } from './actions';
+import { reducer } from './reducer';
+import { AppState, ToastType, initialState } from './state';
+
+export type { Action } from './actions';
+export * from './state';
+export { reducer } from './reducer';
+
+export interface Store {
+  getState: () => AppState;
+  dispatch: (action: Action) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createStore = (state: AppState = initialState): Store => {
+  const listeners = new Set<() => void>();
+  return {
+    getState: () => state,
+    dispatch: action => {
+      const next = reducer(state, action);
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+// The app's single store. Handlers read it with getState() when they run instead of closing over render values.
+export const store = createStore();
+export const { dispatch, getState } = store;
+
+// Re-renders only when the selected value changes (by reference), so select slices, fields or primitives
+// rather than objects built in the selector
+export const useAppState = <T>(selector: (state: AppState) => T): T =>
+  useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+
+export const showToast = (message: string, type: ToastType = 'info') => {
+  const toast = { message, type };
+  dispatch({ type: 'ui/toastChanged', toast });
+  setTimeout(() => {
+    if (getState().ui.toast === toast) dispatch({ type: 'ui/toastChanged', toast: null });
+  }, 3000);
+};
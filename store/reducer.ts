@@ -0,0 +1,265 @@
+import { ChatMessage, Encounter, LikeState } from '../types';
+import { upsertMessage } from '../utils/chat';
+import { upsertNotification } from '../utils/notifications';
+import { applyLike, removeMatch } from '../utils/encounterStatus';
+import { retainNearby } from '../utils/matching';
+import { Action } from './actions';
+import {
+  AppState,
+  ChatsState,
+  EncountersState,
+  LocationState,
+  NotificationsState,
+  SessionState,
+  SyncState,
+  UiState,
+  initialState
+} from './state';
+
+// Each slice handles its part of an action, so a block or an unmatch updates likes, chats and posts in one dispatch
+
+const session = (state: SessionState, action: Action): SessionState => {
+  switch (action.type) {
+    case 'session/signedIn':
+      return { ...state, profile: action.profile, loginStep: 'app' };
+    case 'session/needsProfile':
+      return { ...state, profile: { ...state.profile, id: action.userId }, loginStep: 'register' };
+    case 'session/signedOut':
+      return { ...state, loginStep: 'landing' };
+    case 'session/authStarted':
+      return { ...state, loginStep: 'auth' };
+    case 'session/authCancelled':
+      return { ...state, loginStep: 'landing' };
+    case 'session/adminChecked':
+      return { ...state, isAdmin: action.isAdmin };
+    case 'profile/saved':
+      return { ...state, profile: action.profile };
+    default:
+      return state;
+  }
+};
+
+const encounters = (state: EncountersState, action: Action): EncountersState => {
+  switch (action.type) {
+    case 'encounters/mineLoaded':
+      return { ...state, mine: action.encounters, hasLoadedMine: true };
+    case 'encounters/policyLoaded':
+      return { ...state, policy: action.policy };
+    case 'encounters/published':
+      return { ...state, mine: [action.encounter, ...state.mine] };
+    case 'encounters/syncSettled':
+      return { ...state, mine: state.mine.map(e => e.id === action.id ? { ...e, syncPending: action.pending } : e) };
+    case 'encounters/deleted':
+      return { ...state, mine: state.mine.filter(e => e.id !== action.id) };
+    case 'encounters/updated': {
+      const replace = (e: Encounter) => e.id === action.encounter.id ? action.encounter : e;
+      return {
+        ...state,
+        mine: state.mine.map(replace),
+        nearby: state.nearby.map(replace),
+        linked: state.linked && replace(state.linked)
+      };
+    }
+    case 'encounters/deletedVersionsLoaded':
+      return { ...state, deleted: action.versions, hasLoadedDeleted: true };
+    case 'encounters/deletedVersionsDiscarded':
+      return { ...state, deleted: state.deleted.filter(v => v.encounterId !== action.encounterId) };
+    case 'encounters/areaRequested':
+      return { ...state, isLoadingArea: true };
+    case 'encounters/areaLoaded': {
+      const kept = retainNearby(state.nearby, state.mine, new Set(action.tileKeys));
+      const added = action.encounters.filter(e => !kept.some(p => p.id === e.id));
+      return { ...state, nearby: [...kept, ...added], isLoadingArea: false, hasLoadedArea: true };
+    }
+    case 'encounters/areaCleared':
+      return { ...state, nearby: [] };
+    case 'encounters/venuePostsLoaded': {
+      const added = action.encounters.filter(e => !state.nearby.some(p => p.id === e.id));
+      return { ...state, nearby: [...state.nearby, ...added] };
+    }
+    case 'encounters/linkedLoaded':
+      return { ...state, linked: action.encounter };
+    case 'encounters/hiddenLoaded':
+      return { ...state, hiddenIds: action.ids };
+    case 'encounters/hidden':
+      return { ...state, hiddenIds: [...state.hiddenIds, action.id] };
+    case 'encounters/proximityLoaded':
+      return { ...state, proximity: action.proximity };
+    case 'encounters/matchedLocationsLoaded':
+      return { ...state, matchedLocations: action.locations };
+    case 'safety/blockedLoaded':
+      return { ...state, blockedUserIds: action.userIds };
+    case 'safety/userBlocked':
+      return {
+        ...state,
+        blockedUserIds: [...state.blockedUserIds, action.userId],
+        nearby: state.nearby.filter(e => e.userId !== action.userId)
+      };
+    default:
+      return state;
+  }
+};
+
+const matches = (state: LikeState, action: Action): LikeState => {
+  switch (action.type) {
+    case 'matches/loaded':
+      return action.state;
+    case 'matches/likeSettled':
+      return applyLike(state, action.like, action.match);
+    case 'matches/unmatched':
+      return removeMatch(state, action.userId, action.partnerId);
+    case 'safety/userBlocked':
+      return {
+        likes: state.likes.filter(l => l.likerId !== action.userId && l.encounterOwnerId !== action.userId),
+        matches: state.matches.filter(m => !m.userIds.includes(action.userId))
+      };
+    default:
+      return state;
+  }
+};
+
+const chats = (state: ChatsState, action: Action): ChatsState => {
+  const updateChat = (matchId: string, update: (messages: ChatMessage[]) => ChatMessage[]) =>
+    state.list.map(c => c.matchId === matchId ? { ...c, messages: update(c.messages) } : c);
+
+  switch (action.type) {
+    case 'chats/loaded':
+      return { ...state, list: action.chats };
+    case 'chats/created':
+      if (state.list.some(c => c.matchId === action.chat.matchId)) return state;
+      return { ...state, list: [action.chat, ...state.list] };
+    case 'chats/messageReceived':
+      return { ...state, list: updateChat(action.matchId, messages => upsertMessage(messages, action.message)) };
+    case 'chats/messageSettled':
+      // Realtime may already have delivered a newer receipt
+      return {
+        ...state,
+        list: updateChat(action.matchId, messages => messages.map(m =>
+          m.id !== action.messageId || (m.status !== 'sending' && m.status !== 'queued') ? m
+            : action.sent ?? { ...m, status: 'queued' as const }))
+      };
+    case 'chats/messageRemoved':
+      return { ...state, list: updateChat(action.matchId, messages => messages.filter(m => m.id !== action.messageId)) };
+    case 'chats/read':
+      return {
+        ...state,
+        list: updateChat(action.matchId, messages => messages.map(m => m.senderId !== action.userId ? { ...m, status: 'read' as const } : m))
+      };
+    case 'chats/draftChanged':
+      return { ...state, drafts: { ...state.drafts, [action.matchId]: action.text } };
+    case 'chats/partnerTyping':
+      return { ...state, isPartnerTyping: action.isTyping };
+    case 'chats/viewing':
+      return { ...state, viewingMatchId: action.matchId, isPartnerTyping: false };
+    case 'matches/unmatched':
+      return { ...state, list: state.list.filter(c => c.partnerId !== action.partnerId) };
+    case 'safety/userBlocked':
+      return { ...state, list: state.list.filter(c => c.partnerId !== action.userId) };
+    default:
+      return state;
+  }
+};
+
+const notifications = (state: NotificationsState, action: Action): NotificationsState => {
+  switch (action.type) {
+    case 'notifications/loaded':
+      return { ...state, list: action.notifications };
+    case 'notifications/received':
+      return { ...state, list: upsertNotification(state.list, action.notification) };
+    case 'notifications/read': {
+      const { ids } = action;
+      return { ...state, list: state.list.map(n => !ids || ids.includes(n.id) ? { ...n, read: true } : n) };
+    }
+    case 'notifications/preferencesLoaded':
+      return { ...state, preferences: action.preferences };
+    case 'notifications/preferenceChanged':
+      return { ...state, preferences: { ...state.preferences, [action.notificationType]: action.enabled } };
+    case 'notifications/pushChanged':
+      return { ...state, isPushEnabled: action.enabled };
+    default:
+      return state;
+  }
+};
+
+const sync = (state: SyncState, action: Action): SyncState => {
+  switch (action.type) {
+    case 'sync/connectionChanged':
+      return { ...state, isOnline: action.isOnline };
+    case 'sync/pendingCounted':
+      return { ...state, pendingCount: action.count };
+    case 'sync/queued':
+      return { ...state, pendingCount: state.pendingCount + 1 };
+    case 'sync/discarded':
+      return { ...state, pendingCount: Math.max(0, state.pendingCount - 1) };
+    default:
+      return state;
+  }
+};
+
+const location = (state: LocationState, action: Action): LocationState => {
+  switch (action.type) {
+    case 'location/located':
+      return { current: action.location, mapCenter: action.location };
+    case 'location/mapMoved':
+      return { ...state, mapCenter: action.center };
+    default:
+      return state;
+  }
+};
+
+const ui = (state: UiState, action: Action): UiState => {
+  switch (action.type) {
+    case 'ui/ticked':
+      return { ...state, now: action.now };
+    case 'ui/toastChanged':
+      return { ...state, toast: action.toast };
+    case 'ui/darkModeToggled':
+      return { ...state, darkMode: !state.darkMode };
+    case 'ui/reportOpened':
+      return { ...state, reportTarget: action.target };
+    case 'ui/blockOpened':
+      return { ...state, blockTarget: action.target };
+    case 'ui/moderationPrompted':
+      return { ...state, moderationPrompt: action.prompt };
+    case 'ui/moderating':
+      return { ...state, isModerating: action.isModerating };
+    case 'ui/matchShown':
+      return { ...state, match: action.match };
+    case 'ui/galleryOpened':
+      return { ...state, galleryImages: action.images };
+    case 'ui/showHiddenChanged':
+      return { ...state, showHidden: action.showHidden };
+    case 'ui/filterTagToggled': {
+      const { tag } = action;
+      return { ...state, filterTags: state.filterTags.includes(tag) ? state.filterTags.filter(t => t !== tag) : [...state.filterTags, tag] };
+    }
+    default:
+      return state;
+  }
+};
+
+export const reducer = (state: AppState, action: Action): AppState => {
+  if (action.type === 'session/cleared') {
+    // Device settings (theme, connection, position) outlive the account
+    return {
+      ...initialState,
+      session: state.session,
+      location: state.location,
+      sync: { ...initialState.sync, isOnline: state.sync.isOnline },
+      ui: { ...initialState.ui, darkMode: state.ui.darkMode, now: state.ui.now, toast: state.ui.toast }
+    };
+  }
+  const next: AppState = {
+    session: session(state.session, action),
+    encounters: encounters(state.encounters, action),
+    matches: matches(state.matches, action),
+    chats: chats(state.chats, action),
+    notifications: notifications(state.notifications, action),
+    sync: sync(state.sync, action),
+    location: location(state.location, action),
+    ui: ui(state.ui, action)
+  };
+  // Untouched slices keep their identity, so an unchanged state isn't a change for subscribers
+  const changed = (Object.keys(next) as (keyof AppState)[]).some(key => next[key] !== state[key]);
+  return changed ? next : state;
+};
@@ -0,0 +1,174 @@
+import {
+  AppNotification,
+  Chat,
+  Encounter,
+  EncounterPlace,
+  EncounterPolicy,
+  EncounterTag,
+  EncounterVersion,
+  LikeState,
+  Location,
+  ModerationResult,
+  NotificationPreferences,
+  ReportTarget,
+  UserProfile
+} from '../types';
+import { ProximityIndex } from '../utils/matching';
+import { EMPTY_LIKE_STATE } from '../utils/encounterStatus';
+import { DEFAULT_ENCOUNTER_POLICY } from '../utils/encounterPolicy';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../utils/notifications';
+
+export type LoginStep = 'restoring' | 'landing' | 'auth' | 'register' | 'app';
+
+export type ToastType = 'success' | 'info' | 'error';
+
+export interface Toast {
+  message: string;
+  type: ToastType;
+}
+
+// A flagged post or message waiting for the author to send it anyway
+export interface ModerationPrompt {
+  result: ModerationResult;
+  onConfirm: () => void;
+}
+
+export interface BlockTarget {
+  userId: string;
+  userName: string;
+}
+
+export interface SessionState {
+  loginStep: LoginStep;
+  profile: UserProfile;
+  isAdmin: boolean;
+}
+
+export interface EncountersState {
+  mine: Encounter[];
+  policy: EncounterPolicy;
+  nearby: Encounter[];
+  linked: Encounter | null; // Opened by URL, outside the loaded area
+  deleted: EncounterVersion[]; // Last versions of my deleted posts, to republish them
+  hiddenIds: string[];
+  blockedUserIds: string[];
+  proximity: ProximityIndex; // Server-side radius matches for coarsened posts
+  matchedLocations: Map<string, EncounterPlace>; // Revealed after a match
+  isLoadingArea: boolean;
+  hasLoadedArea: boolean; // The first area around the user arrived
+  hasLoadedMine: boolean; // My posts arrived, so a missing one is really gone
+  hasLoadedDeleted: boolean;
+}
+
+export interface ChatsState {
+  list: Chat[];
+  drafts: Record<string, string>; // Unsent text of each conversation, by match id
+  isPartnerTyping: boolean;
+  viewingMatchId: string | null; // Match whose chat is on screen, for read receipts
+}
+
+export interface NotificationsState {
+  list: AppNotification[];
+  preferences: NotificationPreferences;
+  isPushEnabled: boolean;
+}
+
+export interface SyncState {
+  isOnline: boolean;
+  pendingCount: number; // Actions waiting in the offline outbox
+}
+
+export interface LocationState {
+  current: Location | null; // GPS
+  mapCenter: Location | null; // Crosshair, where new posts are placed
+}
+
+export interface UiState {
+  darkMode: boolean;
+  now: number; // Ticks every minute so posts expire and countdowns update
+  toast: Toast | null;
+  reportTarget: ReportTarget | null;
+  blockTarget: BlockTarget | null;
+  moderationPrompt: ModerationPrompt | null;
+  isModerating: boolean;
+  match: { encounterId: string; partner: UserProfile } | null; // The "It's a match" overlay
+  galleryImages: string[] | null;
+  showHidden: boolean;
+  filterTags: EncounterTag[];
+}
+
+export interface AppState {
+  session: SessionState;
+  encounters: EncountersState;
+  matches: LikeState;
+  chats: ChatsState;
+  notifications: NotificationsState;
+  sync: SyncState;
+  location: LocationState;
+  ui: UiState;
+}
+
+export const initialState: AppState = {
+  session: {
+    loginStep: 'restoring',
+    profile: {
+      id: '', // Set from the Supabase Auth user once signed in
+      name: '',
+      age: 0,
+      gender: 'male',
+      bio: 'Me encanta el café y React. Buscando coincidencias en la ciudad.',
+      quickMessage: 'Me llamaste la atención, me pareciste linda e interesante',
+      images: ['https://picsum.photos/id/1012/400/600', 'https://picsum.photos/id/1013/400/600'],
+      isCurrentUser: true
+    },
+    isAdmin: false
+  },
+  encounters: {
+    mine: [],
+    policy: DEFAULT_ENCOUNTER_POLICY,
+    nearby: [],
+    linked: null,
+    deleted: [],
+    hiddenIds: [],
+    blockedUserIds: [],
+    proximity: new Map(),
+    matchedLocations: new Map(),
+    isLoadingArea: false,
+    hasLoadedArea: false,
+    hasLoadedMine: false,
+    hasLoadedDeleted: false
+  },
+  matches: EMPTY_LIKE_STATE,
+  chats: {
+    list: [],
+    drafts: {},
+    isPartnerTyping: false,
+    viewingMatchId: null
+  },
+  notifications: {
+    list: [],
+    preferences: DEFAULT_NOTIFICATION_PREFERENCES,
+    isPushEnabled: false
+  },
+  sync: {
+    isOnline: navigator.onLine,
+    pendingCount: 0
+  },
+  location: {
+    current: null,
+    mapCenter: null
+  },
+  ui: {
+    darkMode: false,
+    now: Date.now(),
+    toast: null,
+    reportTarget: null,
+    blockTarget: null,
+    moderationPrompt: null,
+    isModerating: false,
+    match: null,
+    galleryImages: null,
+    showHidden: false,
+    filterTags: []
+  }
+};
@@ -0,0 +1,69 @@
+// Delivers a new row of public.notifications to every browser the recipient subscribed.
+// Called by a database webhook on INSERT into notifications (see README).
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3';
+
+interface NotificationRecord {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string;
+  encounter_id: string | null;
+  match_id: string | null;
+}
+
+interface PushSubscriptionRow {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+webpush.setVapidDetails(
+  Deno.env.get('VAPID_SUBJECT') ?? 'mailto:admin@example.com',
+  Deno.env.get('VAPID_PUBLIC_KEY')!,
+  Deno.env.get('VAPID_PRIVATE_KEY')!
+);
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+Deno.serve(async (req) => {
+  const { record } = await req.json() as { record: NotificationRecord };
+
+  const { data, error } = await supabase.from('push_subscriptions').select('*').eq('user_id', record.user_id);
+  if (error) {
+    console.error("Failed to load push subscriptions:", error);
+    return new Response('error', { status: 500 });
+  }
+
+  // The service worker shows its own text for the type, in the user's language; title and body are the fallback
+  const payload = JSON.stringify({
+    id: record.id,
+    type: record.type,
+    title: record.title,
+    body: record.body,
+    encounterId: record.encounter_id,
+    matchId: record.match_id
+  });
+
+  let sent = 0;
+  await Promise.all((data as PushSubscriptionRow[]).map(async (subscription) => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload
+      );
+      sent++;
+    } catch (error) {
+      // The browser dropped the subscription (uninstalled, permission revoked)
+      const status = (error as { statusCode?: number }).statusCode;
+      if (status === 404 || status === 410) {
+        await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+      } else {
+        console.error("Failed to send push notification:", error);
+      }
+    }
+  }));
+
+  return new Response(JSON.stringify({ sent }), { headers: { 'Content-Type': 'application/json' } });
+});
@@ -0,0 +1,52 @@
+-- Encuentros: encounters, per-user encounter status and chats
+-- Apply with `supabase db reset` against a local stack or `supabase db push` remotely.
+
+create table if not exists public.encounters (
+  id text primary key,
+  user_id text not null,
+  user_profile jsonb not null,
+  title text not null,
+  description text not null,
+  lat double precision not null,
+  lng double precision not null,
+  timestamp bigint not null,
+  happened_at bigint not null,
+  time_tolerance_minutes integer not null default 60,
+  image text,
+  tags text[] not null default '{}'
+);
+
+create index if not exists encounters_user_id_idx on public.encounters (user_id);
+create index if not exists encounters_lat_lng_idx on public.encounters (lat, lng);
+
+-- Like/match state of an encounter as seen by a given user.
+-- encounter_id is not a foreign key: demo encounters (Gemini) are never stored in public.encounters.
+create table if not exists public.encounter_statuses (
+  user_id text not null,
+  encounter_id text not null,
+  status text not null check (status in ('PENDING', 'LIKED_BY_ME', 'LIKED_BY_THEM', 'MATCHED', 'HIDDEN')),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, encounter_id)
+);
+
+create table if not exists public.chats (
+  owner_id text not null,
+  encounter_id text not null,
+  partner_name text not null,
+  partner_image text not null,
+  unread_count integer not null default 0,
+  primary key (owner_id, encounter_id)
+);
+
+create table if not exists public.chat_messages (
+  id text not null,
+  owner_id text not null,
+  encounter_id text not null,
+  sender_id text not null,
+  text text not null,
+  timestamp bigint not null,
+  primary key (owner_id, id),
+  foreign key (owner_id, encounter_id) references public.chats (owner_id, encounter_id) on delete cascade
+);
+
+create index if not exists chat_messages_chat_idx on public.chat_messages (owner_id, encounter_id, timestamp);
@@ -0,0 +1,78 @@
+-- Encuentros: user profiles, row level security and account deletion.
+-- Ids in the app tables are text; they hold auth.users ids (uuid) as strings.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  name text not null,
+  age integer,
+  gender text check (gender in ('male', 'female', 'other')),
+  bio text not null default '',
+  quick_message text,
+  images text[] not null default '{}',
+  cover_image text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+alter table public.encounters enable row level security;
+alter table public.encounter_statuses enable row level security;
+alter table public.chats enable row level security;
+alter table public.chat_messages enable row level security;
+
+create policy "profiles are readable by signed in users" on public.profiles
+  for select to authenticated using (true);
+create policy "users manage their own profile" on public.profiles
+  for all to authenticated using (id = auth.uid()) with check (id = auth.uid());
+
+create policy "encounters are readable by signed in users" on public.encounters
+  for select to authenticated using (true);
+create policy "users manage their own encounters" on public.encounters
+  for all to authenticated using (user_id = auth.uid()::text) with check (user_id = auth.uid()::text);
+
+create policy "users manage their own statuses" on public.encounter_statuses
+  for all to authenticated using (user_id = auth.uid()::text) with check (user_id = auth.uid()::text);
+
+create policy "users manage their own chats" on public.chats
+  for all to authenticated using (owner_id = auth.uid()::text) with check (owner_id = auth.uid()::text);
+
+create policy "users manage their own messages" on public.chat_messages
+  for all to authenticated using (owner_id = auth.uid()::text) with check (owner_id = auth.uid()::text);
+
+-- Photos live under images/<user id>/...
+insert into storage.buckets (id, name, public)
+values ('images', 'images', false)
+on conflict (id) do nothing;
+
+create policy "users read images" on storage.objects
+  for select to authenticated using (bucket_id = 'images');
+create policy "users manage their own images" on storage.objects
+  for all to authenticated
+  using (bucket_id = 'images' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Removes every row owned by the caller and the auth user itself.
+-- Storage files are removed by the client through the Storage API before calling this.
+create or replace function public.delete_account()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from public.chat_messages where owner_id = uid;
+  delete from public.chats where owner_id = uid;
+  delete from public.encounter_statuses where user_id = uid;
+  delete from public.encounters where user_id = uid;
+  delete from public.profiles where id = auth.uid();
+  delete from auth.users where id = auth.uid();
+end;
+$$;
+
+revoke all on function public.delete_account() from public;
+grant execute on function public.delete_account() to authenticated;
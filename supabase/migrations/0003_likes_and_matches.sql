@@ -0,0 +1,159 @@
+-- Encuentros: one like per (liker, encounter) and matches resolved on the server.
+-- Encounter status is derived on the client from these rows; it is no longer stored per user.
+
+create table if not exists public.likes (
+  liker_id text not null,
+  encounter_id text not null references public.encounters (id) on delete cascade,
+  encounter_owner_id text not null,
+  created_at timestamptz not null default now(),
+  primary key (liker_id, encounter_id)
+);
+
+create index if not exists likes_owner_liker_idx on public.likes (encounter_owner_id, liker_id);
+
+-- One row per pair of people, user_a < user_b
+create table if not exists public.matches (
+  id uuid primary key default gen_random_uuid(),
+  user_a text not null,
+  user_b text not null,
+  created_at timestamptz not null default now(),
+  check (user_a < user_b),
+  unique (user_a, user_b)
+);
+
+-- Rejected encounters replace the HIDDEN rows of encounter_statuses
+create table if not exists public.hidden_encounters (
+  user_id text not null,
+  encounter_id text not null,
+  created_at timestamptz not null default now(),
+  primary key (user_id, encounter_id)
+);
+
+insert into public.hidden_encounters (user_id, encounter_id)
+select user_id, encounter_id from public.encounter_statuses where status = 'HIDDEN'
+on conflict do nothing;
+
+drop table if exists public.encounter_statuses;
+
+alter table public.likes enable row level security;
+alter table public.matches enable row level security;
+alter table public.hidden_encounters enable row level security;
+
+-- Likes and matches are only written through the functions below
+create policy "users read likes they gave or received" on public.likes
+  for select to authenticated
+  using (liker_id = auth.uid()::text or encounter_owner_id = auth.uid()::text);
+
+create policy "users read their matches" on public.matches
+  for select to authenticated
+  using (auth.uid()::text in (user_a, user_b));
+
+create policy "users manage their hidden encounters" on public.hidden_encounters
+  for all to authenticated using (user_id = auth.uid()::text) with check (user_id = auth.uid()::text);
+
+alter publication supabase_realtime add table public.likes, public.matches;
+
+-- Records the caller's like and creates the match when the owner already liked one of the caller's encounters.
+-- Likes between the same two people are serialized with an advisory lock, so two simultaneous
+-- mutual likes can't both miss each other.
+create or replace function public.like_encounter(p_encounter_id text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+  owner text;
+  pair_a text;
+  pair_b text;
+  found_match public.matches;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select user_id into owner from public.encounters where id = p_encounter_id;
+  if owner is null then
+    raise exception 'Encounter % not found', p_encounter_id;
+  end if;
+  if owner = uid then
+    raise exception 'Cannot like your own encounter';
+  end if;
+
+  pair_a := least(uid, owner);
+  pair_b := greatest(uid, owner);
+  perform pg_advisory_xact_lock(hashtext(pair_a || ':' || pair_b));
+
+  insert into public.likes (liker_id, encounter_id, encounter_owner_id)
+  values (uid, p_encounter_id, owner)
+  on conflict do nothing;
+
+  if exists (select 1 from public.likes where liker_id = owner and encounter_owner_id = uid) then
+    insert into public.matches (user_a, user_b)
+    values (pair_a, pair_b)
+    on conflict (user_a, user_b) do nothing;
+  end if;
+
+  select * into found_match from public.matches where user_a = pair_a and user_b = pair_b;
+
+  return jsonb_build_object(
+    'encounter_owner_id', owner,
+    'match', case when found_match.id is null then null else to_jsonb(found_match) end
+  );
+end;
+$$;
+
+-- Removes the match and every like between the caller and the partner, so both can start over
+create or replace function public.unmatch(p_partner_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(least(uid, p_partner_id) || ':' || greatest(uid, p_partner_id)));
+
+  delete from public.matches
+  where user_a = least(uid, p_partner_id) and user_b = greatest(uid, p_partner_id);
+
+  delete from public.likes
+  where (liker_id = uid and encounter_owner_id = p_partner_id)
+     or (liker_id = p_partner_id and encounter_owner_id = uid);
+end;
+$$;
+
+create or replace function public.delete_account()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from public.chat_messages where owner_id = uid;
+  delete from public.chats where owner_id = uid;
+  delete from public.likes where liker_id = uid or encounter_owner_id = uid;
+  delete from public.matches where uid in (user_a, user_b);
+  delete from public.hidden_encounters where user_id = uid;
+  delete from public.encounters where user_id = uid;
+  delete from public.profiles where id = auth.uid();
+  delete from auth.users where id = auth.uid();
+end;
+$$;
+
+revoke all on function public.like_encounter(text) from public;
+revoke all on function public.unmatch(text) from public;
+grant execute on function public.like_encounter(text) to authenticated;
+grant execute on function public.unmatch(text) to authenticated;
@@ -0,0 +1,103 @@
+-- Encuentros: two-party messages shared by both sides of a match, with delivery/read receipts.
+-- public.chats stays as each user's header for a conversation; per-owner message copies are dropped.
+
+drop table if exists public.chat_messages;
+
+alter table public.chats
+  drop column if exists unread_count,
+  add column if not exists match_id uuid references public.matches (id) on delete cascade,
+  add column if not exists partner_id text;
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.matches (id) on delete cascade,
+  sender_id text not null,
+  text text not null,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz,
+  read_at timestamptz
+);
+
+create index if not exists messages_match_created_idx on public.messages (match_id, created_at);
+
+alter table public.messages enable row level security;
+
+create or replace function public.is_match_participant(p_match_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.matches
+    where id = p_match_id and auth.uid()::text in (user_a, user_b)
+  );
+$$;
+
+create policy "participants read messages" on public.messages
+  for select to authenticated using (public.is_match_participant(match_id));
+
+create policy "participants send messages as themselves" on public.messages
+  for insert to authenticated
+  with check (sender_id = auth.uid()::text and public.is_match_participant(match_id));
+
+-- Receipts are only set through the functions below, never by direct updates
+create or replace function public.mark_messages_delivered(p_match_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.messages
+  set delivered_at = now()
+  where match_id = p_match_id
+    and public.is_match_participant(p_match_id)
+    and sender_id <> auth.uid()::text
+    and delivered_at is null;
+$$;
+
+create or replace function public.mark_messages_read(p_match_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.messages
+  set delivered_at = coalesce(delivered_at, now()), read_at = now()
+  where match_id = p_match_id
+    and public.is_match_participant(p_match_id)
+    and sender_id <> auth.uid()::text
+    and read_at is null;
+$$;
+
+revoke all on function public.mark_messages_delivered(uuid) from public;
+revoke all on function public.mark_messages_read(uuid) from public;
+grant execute on function public.mark_messages_delivered(uuid) to authenticated;
+grant execute on function public.mark_messages_read(uuid) to authenticated;
+
+alter publication supabase_realtime add table public.messages;
+
+-- Messages go away with the match (cascade); recreate without the dropped chat_messages table
+create or replace function public.delete_account()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from public.chats where owner_id = uid;
+  delete from public.likes where liker_id = uid or encounter_owner_id = uid;
+  delete from public.matches where uid in (user_a, user_b);
+  delete from public.hidden_encounters where user_id = uid;
+  delete from public.encounters where user_id = uid;
+  delete from public.profiles where id = auth.uid();
+  delete from auth.users where id = auth.uid();
+end;
+$$;
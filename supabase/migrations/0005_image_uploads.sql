@@ -0,0 +1,6 @@
+-- Photos are resized and re-encoded as JPEG on the device (EXIF stripped) before upload,
+-- so the bucket only needs to accept small JPEGs.
+update storage.buckets
+set file_size_limit = 5242880, -- 5 MB
+    allowed_mime_types = array['image/jpeg']
+where id = 'images';
@@ -0,0 +1,61 @@
+-- Encuentros: posts expire (they become archived) and each account has a quota of active posts.
+-- Archived posts stay in the table so their likes, matches and chats are kept.
+
+alter table public.encounters add column if not exists expires_at bigint;
+
+-- Existing posts get the default lifetime of 7 days
+update public.encounters set expires_at = timestamp + 7 * 24 * 3600 * 1000 where expires_at is null;
+alter table public.encounters alter column expires_at set not null;
+
+create index if not exists encounters_active_idx on public.encounters (expires_at);
+
+-- Per-account overrides of the client defaults (ENCOUNTER_MAX_ACTIVE / ENCOUNTER_TTL_DAYS).
+-- Users can read their own row; only the service role (admins) writes it.
+create table if not exists public.account_limits (
+  user_id text primary key,
+  max_active_encounters integer check (max_active_encounters > 0),
+  encounter_ttl_hours integer check (encounter_ttl_hours > 0)
+);
+
+alter table public.account_limits enable row level security;
+
+create policy "users read their limits" on public.account_limits
+  for select to authenticated using (user_id = auth.uid()::text);
+
+-- Server-side guard for the quota and lifetime, so a modified client can't bypass them
+create or replace function public.enforce_encounter_policy()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  now_ms bigint := (extract(epoch from now()) * 1000)::bigint;
+  max_active integer;
+  ttl_hours integer;
+  active_count integer;
+begin
+  select max_active_encounters, encounter_ttl_hours into max_active, ttl_hours
+  from public.account_limits where user_id = new.user_id;
+  max_active := coalesce(max_active, 5);
+  ttl_hours := coalesce(ttl_hours, 7 * 24);
+
+  -- A post can't outlive the account's lifetime
+  new.expires_at := least(new.expires_at, new.timestamp + ttl_hours::bigint * 3600 * 1000);
+
+  if tg_op = 'INSERT' then
+    select count(*) into active_count
+    from public.encounters
+    where user_id = new.user_id and id <> new.id and expires_at > now_ms;
+    if active_count >= max_active then
+      raise exception 'encounter quota exceeded (% active posts)', max_active;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists encounters_enforce_policy on public.encounters;
+create trigger encounters_enforce_policy
+  before insert or update on public.encounters
+  for each row execute function public.enforce_encounter_policy();
@@ -0,0 +1,266 @@
+-- Encuentros: blocking, reports and the moderation queue.
+-- A block works both ways: neither person sees the other's encounters, likes or messages again.
+
+create table if not exists public.blocks (
+  blocker_id text not null,
+  blocked_id text not null,
+  created_at timestamptz not null default now(),
+  primary key (blocker_id, blocked_id),
+  check (blocker_id <> blocked_id)
+);
+
+create index if not exists blocks_blocked_idx on public.blocks (blocked_id);
+
+create table if not exists public.reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id text not null,
+  reported_user_id text not null,
+  encounter_id text,
+  message_id uuid,
+  reason text not null check (reason in ('spam', 'harassment', 'inappropriate', 'fake', 'underage', 'other')),
+  details text not null default '',
+  content text not null default '', -- Snapshot of the reported post or message for reviewers
+  status text not null default 'pending' check (status in ('pending', 'dismissed', 'actioned')),
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz,
+  reviewed_by text,
+  check (reporter_id <> reported_user_id)
+);
+
+create index if not exists reports_pending_idx on public.reports (reported_user_id) where status = 'pending';
+
+-- Accounts hidden from everyone else until a moderator reviews them
+create table if not exists public.moderation_holds (
+  user_id text primary key,
+  reason text not null,
+  created_at timestamptz not null default now()
+);
+
+-- Moderators, managed with the service role
+create table if not exists public.admins (
+  user_id text primary key
+);
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.admins where user_id = auth.uid()::text);
+$$;
+
+-- True when either user blocked the other
+create or replace function public.is_blocked_between(p_a text, p_b text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.blocks
+    where (blocker_id = p_a and blocked_id = p_b) or (blocker_id = p_b and blocked_id = p_a)
+  );
+$$;
+
+create or replace function public.is_on_hold(p_user_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.moderation_holds where user_id = p_user_id);
+$$;
+
+alter table public.blocks enable row level security;
+alter table public.reports enable row level security;
+alter table public.moderation_holds enable row level security;
+alter table public.admins enable row level security;
+
+-- Users only see the blocks they made, so nobody learns who blocked them
+create policy "users read their blocks" on public.blocks
+  for select to authenticated using (blocker_id = auth.uid()::text);
+create policy "users remove their blocks" on public.blocks
+  for delete to authenticated using (blocker_id = auth.uid()::text);
+
+create policy "users file reports as themselves" on public.reports
+  for insert to authenticated with check (reporter_id = auth.uid()::text and status = 'pending');
+create policy "admins read reports" on public.reports
+  for select to authenticated using (public.is_admin());
+
+create policy "admins read holds" on public.moderation_holds
+  for select to authenticated using (public.is_admin());
+
+create policy "users check their own admin row" on public.admins
+  for select to authenticated using (user_id = auth.uid()::text);
+
+-- Encounters of blocked or held accounts are no longer readable (owners still see their own)
+drop policy if exists "encounters are readable by signed in users" on public.encounters;
+create policy "encounters are readable by signed in users" on public.encounters
+  for select to authenticated
+  using (
+    user_id = auth.uid()::text
+    or (not public.is_blocked_between(auth.uid()::text, user_id) and not public.is_on_hold(user_id))
+  );
+
+-- Likes and messages can't cross a block, whatever path inserts them
+create or replace function public.reject_blocked_like()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_blocked_between(new.liker_id, new.encounter_owner_id) then
+    raise exception 'Blocked';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists likes_reject_blocked on public.likes;
+create trigger likes_reject_blocked
+  before insert on public.likes
+  for each row execute function public.reject_blocked_like();
+
+drop policy if exists "participants send messages as themselves" on public.messages;
+create policy "participants send messages as themselves" on public.messages
+  for insert to authenticated
+  with check (
+    sender_id = auth.uid()::text
+    and public.is_match_participant(match_id)
+    and not exists (
+      select 1 from public.matches m
+      where m.id = match_id and public.is_blocked_between(m.user_a, m.user_b)
+    )
+  );
+
+-- Blocks someone and ends everything between the two: match, likes and both chat headers.
+-- Messages go with the match (cascade, see 0004).
+create or replace function public.block_user(p_user_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if p_user_id = uid then
+    raise exception 'Cannot block yourself';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(least(uid, p_user_id) || ':' || greatest(uid, p_user_id)));
+
+  insert into public.blocks (blocker_id, blocked_id) values (uid, p_user_id) on conflict do nothing;
+
+  delete from public.matches
+  where user_a = least(uid, p_user_id) and user_b = greatest(uid, p_user_id);
+
+  delete from public.likes
+  where (liker_id = uid and encounter_owner_id = p_user_id)
+     or (liker_id = p_user_id and encounter_owner_id = uid);
+
+  delete from public.chats
+  where (owner_id = uid and partner_id = p_user_id)
+     or (owner_id = p_user_id and partner_id = uid);
+end;
+$$;
+
+-- Accounts reported by this many different people are hidden until reviewed
+create or replace function public.hold_reported_account()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reporters integer;
+begin
+  select count(distinct reporter_id) into reporters
+  from public.reports
+  where reported_user_id = new.reported_user_id and status = 'pending';
+
+  if reporters >= 3 then
+    insert into public.moderation_holds (user_id, reason)
+    values (new.reported_user_id, 'auto: ' || reporters || ' reports')
+    on conflict do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists reports_hold_account on public.reports;
+create trigger reports_hold_account
+  after insert on public.reports
+  for each row execute function public.hold_reported_account();
+
+-- Moderator decision on every pending report about an account:
+--   'dismiss' closes them and lifts any hold, 'hide' closes them and keeps the account hidden.
+create or replace function public.review_reports(p_user_id text, p_action text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if not public.is_admin() then
+    raise exception 'Not allowed';
+  end if;
+  if p_action not in ('dismiss', 'hide') then
+    raise exception 'Unknown action %', p_action;
+  end if;
+
+  update public.reports
+  set status = case when p_action = 'dismiss' then 'dismissed' else 'actioned' end,
+      reviewed_at = now(),
+      reviewed_by = uid
+  where reported_user_id = p_user_id and status = 'pending';
+
+  if p_action = 'dismiss' then
+    delete from public.moderation_holds where user_id = p_user_id;
+  else
+    insert into public.moderation_holds (user_id, reason)
+    values (p_user_id, 'reviewed by ' || uid)
+    on conflict (user_id) do update set reason = excluded.reason;
+  end if;
+end;
+$$;
+
+-- Same as before, plus the caller's blocks and the reports they filed.
+-- Reports about the caller are kept for the moderation record.
+create or replace function public.delete_account()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from public.chats where owner_id = uid;
+  delete from public.likes where liker_id = uid or encounter_owner_id = uid;
+  delete from public.matches where uid in (user_a, user_b);
+  delete from public.hidden_encounters where user_id = uid;
+  delete from public.blocks where blocker_id = uid;
+  delete from public.reports where reporter_id = uid;
+  delete from public.encounters where user_id = uid;
+  delete from public.profiles where id = auth.uid();
+  delete from auth.users where id = auth.uid();
+end;
+$$;
+
+revoke all on function public.block_user(text) from public;
+revoke all on function public.review_reports(text, text) from public;
+grant execute on function public.block_user(text) to authenticated;
+grant execute on function public.review_reports(text, text) to authenticated;
@@ -0,0 +1,130 @@
+-- Encuentros: other people only see a coarsened location of an encounter.
+-- The exact point lives in encounter_locations, readable by the owner and, after a match, by the partner.
+-- encounters.lat/lng now hold the public location: the true point snapped to a ~300 m grid cell and moved
+-- to a stable pseudo random spot inside that cell (same person + same cell = same spot, so repeated
+-- posts from home can't be averaged out).
+
+create table if not exists public.encounter_locations (
+  encounter_id text primary key references public.encounters (id) on delete cascade deferrable initially deferred,
+  lat double precision not null,
+  lng double precision not null
+);
+
+create index if not exists encounter_locations_lat_lng_idx on public.encounter_locations (lat, lng);
+
+alter table public.encounter_locations enable row level security;
+
+create policy "owners read their exact locations" on public.encounter_locations
+  for select to authenticated
+  using (exists (
+    select 1 from public.encounters e
+    where e.id = encounter_id and e.user_id = auth.uid()::text
+  ));
+
+-- Keep in sync with LOCATION_FUZZ_METERS in utils/geo.ts
+create or replace function public.fuzz_location(p_lat double precision, p_lng double precision, p_seed text,
+                                                out lat double precision, out lng double precision)
+language plpgsql
+immutable
+as $$
+declare
+  cell_size double precision := 300 / 111320.0;
+  cell_lat double precision := floor(p_lat / cell_size);
+  cell_lng double precision := floor(p_lng / cell_size);
+  cell_key text := p_seed || ':' || cell_lat || ':' || cell_lng;
+begin
+  lat := (cell_lat + (hashtext(cell_key || ':lat') & 65535) / 65536.0) * cell_size;
+  lng := (cell_lng + (hashtext(cell_key || ':lng') & 65535) / 65536.0) * cell_size;
+end;
+$$;
+
+-- Moves the exact point the client sent into encounter_locations and stores the public one instead.
+-- Updates that don't change the coordinates keep the stored exact point.
+create or replace function public.protect_encounter_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  public_location record;
+begin
+  if tg_op = 'UPDATE' and new.lat = old.lat and new.lng = old.lng then
+    return new;
+  end if;
+
+  insert into public.encounter_locations (encounter_id, lat, lng)
+  values (new.id, new.lat, new.lng)
+  on conflict (encounter_id) do update set lat = excluded.lat, lng = excluded.lng;
+
+  select * into public_location from public.fuzz_location(new.lat, new.lng, new.user_id);
+  new.lat := public_location.lat;
+  new.lng := public_location.lng;
+  return new;
+end;
+$$;
+
+-- Existing posts: save their exact point, then coarsen it
+insert into public.encounter_locations (encounter_id, lat, lng)
+select id, lat, lng from public.encounters
+on conflict do nothing;
+
+update public.encounters e
+set lat = (public.fuzz_location(l.lat, l.lng, e.user_id)).lat,
+    lng = (public.fuzz_location(l.lat, l.lng, e.user_id)).lng
+from public.encounter_locations l
+where l.encounter_id = e.id;
+
+drop trigger if exists encounters_protect_location on public.encounters;
+create trigger encounters_protect_location
+  before insert or update on public.encounters
+  for each row execute function public.protect_encounter_location();
+
+-- Pairs (one of the caller's active posts, someone else's active post) within 150 m of each other,
+-- measured on the exact points. Keep the radius in sync with MATCH_RADIUS in utils/geo.ts.
+create or replace function public.encounter_proximity()
+returns table (my_encounter_id text, other_encounter_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select mine.id, other.id
+  from public.encounters mine
+  join public.encounter_locations ml on ml.encounter_id = mine.id
+  join public.encounter_locations ol
+    on ol.lat between ml.lat - 150 / 111320.0 and ml.lat + 150 / 111320.0
+   and ol.lng between ml.lng - 150 / (111320.0 * cos(radians(ml.lat))) and ml.lng + 150 / (111320.0 * cos(radians(ml.lat)))
+  join public.encounters other on other.id = ol.encounter_id
+  where mine.user_id = auth.uid()::text
+    and mine.expires_at > (extract(epoch from now()) * 1000)::bigint
+    and other.user_id <> mine.user_id
+    and other.expires_at > (extract(epoch from now()) * 1000)::bigint
+    and not public.is_blocked_between(mine.user_id, other.user_id)
+    and not public.is_on_hold(other.user_id)
+    and 6371000 * sqrt(
+      power(radians(ol.lat - ml.lat), 2) +
+      power(cos(radians(ml.lat)) * radians(ol.lng - ml.lng), 2)
+    ) <= 150;
+$$;
+
+-- Exact points of the encounters posted by people the caller matched with
+create or replace function public.matched_encounter_locations()
+returns table (encounter_id text, lat double precision, lng double precision)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.encounter_id, l.lat, l.lng
+  from public.encounter_locations l
+  join public.encounters e on e.id = l.encounter_id
+  join public.matches m
+    on (m.user_a = auth.uid()::text and m.user_b = e.user_id)
+    or (m.user_b = auth.uid()::text and m.user_a = e.user_id);
+$$;
+
+revoke all on function public.encounter_proximity() from public;
+revoke all on function public.matched_encounter_locations() from public;
+grant execute on function public.encounter_proximity() to authenticated;
+grant execute on function public.matched_encounter_locations() to authenticated;
@@ -0,0 +1,252 @@
+-- Encuentros: notification inbox, per-type preferences and Web Push subscriptions.
+-- Notifications are written by triggers on likes, matches and messages and by a scheduled job for posts
+-- about to expire. The send-push edge function delivers every new row to the person's devices.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  type text not null check (type in ('like', 'match', 'message', 'expiring')),
+  actor_id text, -- Who liked, matched or wrote
+  encounter_id text,
+  match_id uuid references public.matches (id) on delete cascade,
+  title text not null,
+  body text not null default '',
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists notifications_user_created_idx on public.notifications (user_id, created_at desc);
+
+-- One row per type the user turned off; no row means enabled
+create table if not exists public.notification_preferences (
+  user_id text not null,
+  type text not null check (type in ('like', 'match', 'message', 'expiring')),
+  enabled boolean not null default true,
+  primary key (user_id, type)
+);
+
+-- One row per browser that accepted push notifications
+create table if not exists public.push_subscriptions (
+  endpoint text primary key,
+  user_id text not null,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_idx on public.push_subscriptions (user_id);
+
+alter table public.notifications enable row level security;
+alter table public.notification_preferences enable row level security;
+alter table public.push_subscriptions enable row level security;
+
+-- Notifications are only written by the functions below; read receipts go through mark_notifications_read
+create policy "users read their notifications" on public.notifications
+  for select to authenticated using (user_id = auth.uid()::text);
+
+create policy "users manage their notification preferences" on public.notification_preferences
+  for all to authenticated using (user_id = auth.uid()::text) with check (user_id = auth.uid()::text);
+
+create policy "users manage their push subscriptions" on public.push_subscriptions
+  for all to authenticated using (user_id = auth.uid()::text) with check (user_id = auth.uid()::text);
+
+alter publication supabase_realtime add table public.notifications;
+
+create or replace function public.create_notification(
+  p_user_id text, p_type text, p_actor_id text, p_encounter_id text, p_match_id uuid, p_title text, p_body text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.notification_preferences
+    where user_id = p_user_id and type = p_type and not enabled
+  ) then
+    return;
+  end if;
+
+  insert into public.notifications (user_id, type, actor_id, encounter_id, match_id, title, body)
+  values (p_user_id, p_type, p_actor_id, p_encounter_id, p_match_id, p_title, p_body);
+end;
+$$;
+
+create or replace function public.profile_name(p_user_id text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select name from public.profiles where id::text = p_user_id), 'Alguien');
+$$;
+
+-- A like that completes a match is announced by the match instead
+create or replace function public.notify_like()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (select 1 from public.likes where liker_id = new.encounter_owner_id and encounter_owner_id = new.liker_id) then
+    return new;
+  end if;
+
+  perform public.create_notification(
+    new.encounter_owner_id, 'like', new.liker_id, new.encounter_id, null,
+    'Le gustas a alguien', public.profile_name(new.liker_id) || ' le dio Me gusta a tu encuentro'
+  );
+  return new;
+end;
+$$;
+
+create or replace function public.notify_match()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.create_notification(
+    new.user_a, 'match', new.user_b, null, new.id,
+    '¡Es un Match!', 'Tú y ' || public.profile_name(new.user_b) || ' se gustan. Escríbele'
+  );
+  perform public.create_notification(
+    new.user_b, 'match', new.user_a, null, new.id,
+    '¡Es un Match!', 'Tú y ' || public.profile_name(new.user_a) || ' se gustan. Escríbele'
+  );
+  return new;
+end;
+$$;
+
+-- Unread messages of a conversation share one notification, updated with the latest text,
+-- so only the first one is pushed
+create or replace function public.notify_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  recipient text;
+begin
+  select case when user_a = new.sender_id then user_b else user_a end into recipient
+  from public.matches where id = new.match_id;
+
+  update public.notifications
+  set body = left(new.text, 140), created_at = now()
+  where user_id = recipient and type = 'message' and match_id = new.match_id and read_at is null;
+
+  if not found then
+    perform public.create_notification(
+      recipient, 'message', new.sender_id, null, new.match_id,
+      public.profile_name(new.sender_id), left(new.text, 140)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists likes_notify on public.likes;
+create trigger likes_notify
+  after insert on public.likes
+  for each row execute function public.notify_like();
+
+drop trigger if exists matches_notify on public.matches;
+create trigger matches_notify
+  after insert on public.matches
+  for each row execute function public.notify_match();
+
+drop trigger if exists messages_notify on public.messages;
+create trigger messages_notify
+  after insert on public.messages
+  for each row execute function public.notify_message();
+
+-- Active posts that expire within a day, notified once each
+create or replace function public.notify_expiring_encounters()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  now_ms bigint := (extract(epoch from now()) * 1000)::bigint;
+  encounter record;
+begin
+  for encounter in
+    select e.id, e.user_id, e.title from public.encounters e
+    where e.expires_at > now_ms
+      and e.expires_at <= now_ms + 24 * 3600 * 1000
+      and not exists (
+        select 1 from public.notifications n
+        where n.encounter_id = e.id and n.type = 'expiring'
+      )
+  loop
+    perform public.create_notification(
+      encounter.user_id, 'expiring', null, encounter.id, null,
+      'Tu encuentro caduca pronto', '"' || encounter.title || '" se archivará en menos de 24 h'
+    );
+  end loop;
+end;
+$$;
+
+-- Run it every 15 minutes where pg_cron is available (it is on Supabase)
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule('notify-expiring-encounters', '*/15 * * * *', 'select public.notify_expiring_encounters()');
+  end if;
+end;
+$$;
+
+-- Marks the given notifications as read, or all of them when p_ids is null
+create or replace function public.mark_notifications_read(p_ids uuid[] default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.notifications
+  set read_at = now()
+  where user_id = auth.uid()::text
+    and read_at is null
+    and (p_ids is null or id = any (p_ids));
+$$;
+
+-- Same as before, plus notifications, preferences and push subscriptions
+create or replace function public.delete_account()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from public.chats where owner_id = uid;
+  delete from public.likes where liker_id = uid or encounter_owner_id = uid;
+  delete from public.matches where uid in (user_a, user_b);
+  delete from public.hidden_encounters where user_id = uid;
+  delete from public.blocks where blocker_id = uid;
+  delete from public.reports where reporter_id = uid;
+  delete from public.notifications where user_id = uid;
+  delete from public.notification_preferences where user_id = uid;
+  delete from public.push_subscriptions where user_id = uid;
+  delete from public.encounters where user_id = uid;
+  delete from public.profiles where id = auth.uid();
+  delete from auth.users where id = auth.uid();
+end;
+$$;
+
+revoke all on function public.create_notification(text, text, text, text, uuid, text, text) from public;
+revoke all on function public.notify_expiring_encounters() from public;
+revoke all on function public.mark_notifications_read(uuid[]) from public;
+grant execute on function public.mark_notifications_read(uuid[]) to authenticated;
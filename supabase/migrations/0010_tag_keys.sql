@@ -0,0 +1,17 @@
+-- Encuentros: tags are stored as stable keys instead of their Spanish labels, so filtering works
+-- whatever language the author and the viewer use. Labels live in the app's i18n catalogs ("tag.<key>").
+
+update public.encounters
+set tags = array(
+  select case tag
+    when 'Flechazo' then 'crush'
+    when 'Cruzamos miradas' then 'eye_contact'
+    when 'Interés' then 'interest'
+    when 'Curiosidad' then 'curiosity'
+    when 'Me atraes' then 'attraction'
+    when 'Me gustas' then 'into_you'
+    else tag
+  end
+  from unnest(tags) as tag
+)
+where tags && array['Flechazo', 'Cruzamos miradas', 'Interés', 'Curiosidad', 'Me atraes', 'Me gustas'];
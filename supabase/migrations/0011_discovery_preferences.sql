@@ -0,0 +1,58 @@
+-- Encuentros: discovery preferences. Each profile says which genders and ages it wants to cross paths with
+-- and how close two posts must be (match_radius). Applied both ways: a pair of posts only counts if each
+-- author fits the other's preferences, within the smaller of both radii.
+
+alter table public.profiles
+  add column if not exists interested_in text[] not null default '{}'
+    check (interested_in <@ array['male', 'female', 'other']),
+  add column if not exists min_age integer not null default 18,
+  add column if not exists max_age integer not null default 99,
+  -- Keep the bounds in sync with MIN_MATCH_RADIUS / MAX_MATCH_RADIUS in utils/discovery.ts
+  add column if not exists match_radius integer not null default 150 check (match_radius between 50 and 500);
+
+alter table public.profiles
+  add constraint profiles_age_range_check check (min_age between 18 and 99 and max_age between min_age and 99);
+
+-- Whether p_other fits what p_viewer is looking for. Without a known gender or age, only open preferences
+-- let them through. Keep in sync with fitsPreferences in utils/discovery.ts.
+create or replace function public.fits_preferences(p_viewer public.profiles, p_other public.profiles)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(cardinality(p_viewer.interested_in) = 0 or p_other.gender = any (p_viewer.interested_in), false)
+     and coalesce((p_viewer.min_age <= 18 and p_viewer.max_age >= 99)
+                  or p_other.age between p_viewer.min_age and p_viewer.max_age, false);
+$$;
+
+-- Same pairs as before (0008_location_privacy.sql), now within the smaller radius of both authors and only
+-- between people who fit each other's preferences. The bounding box uses the largest radius allowed.
+create or replace function public.encounter_proximity()
+returns table (my_encounter_id text, other_encounter_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select mine.id, other.id
+  from public.encounters mine
+  join public.encounter_locations ml on ml.encounter_id = mine.id
+  join public.encounter_locations ol
+    on ol.lat between ml.lat - 500 / 111320.0 and ml.lat + 500 / 111320.0
+   and ol.lng between ml.lng - 500 / (111320.0 * cos(radians(ml.lat))) and ml.lng + 500 / (111320.0 * cos(radians(ml.lat)))
+  join public.encounters other on other.id = ol.encounter_id
+  join public.profiles mp on mp.id::text = mine.user_id
+  join public.profiles op on op.id::text = other.user_id
+  where mine.user_id = auth.uid()::text
+    and mine.expires_at > (extract(epoch from now()) * 1000)::bigint
+    and other.user_id <> mine.user_id
+    and other.expires_at > (extract(epoch from now()) * 1000)::bigint
+    and not public.is_blocked_between(mine.user_id, other.user_id)
+    and not public.is_on_hold(other.user_id)
+    and public.fits_preferences(mp, op)
+    and public.fits_preferences(op, mp)
+    and 6371000 * sqrt(
+      power(radians(ol.lat - ml.lat), 2) +
+      power(cos(radians(ml.lat)) * radians(ol.lng - ml.lng), 2)
+    ) <= least(mp.match_radius, op.match_radius);
+$$;
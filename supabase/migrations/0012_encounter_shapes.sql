@@ -0,0 +1,162 @@
+-- Encuentros: an encounter can be a route (a bus ride, a walk down a street) or an area (a concert crowd)
+-- instead of a single spot. The shape is as private as the exact point: the client sends it in
+-- encounters.shape, the trigger moves it to encounter_locations and only the owner and, after a match,
+-- the partner can read it. encounters.lat/lng keep the coarsened pin of the shape.
+-- Distances use the built-in geometric types on a local planar projection in meters.
+
+alter table public.encounters
+  add column if not exists shape jsonb;
+
+-- Keep the point count in sync with MAX_SHAPE_POINTS in utils/geo.ts
+alter table public.encounter_locations
+  add column if not exists shape jsonb check (
+    shape is null
+    or (shape->>'type' = 'route' and jsonb_array_length(shape->'points') between 2 and 50)
+    or (shape->>'type' = 'area' and jsonb_array_length(shape->'points') between 3 and 50)
+  );
+
+-- Same as in 0008_location_privacy.sql, now also moving the shape. Every point of it must lie within
+-- 1000 m of the pin (MAX_SHAPE_RADIUS_METERS in utils/geo.ts), which keeps proximity's bounding box valid.
+create or replace function public.protect_encounter_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  public_location record;
+begin
+  if tg_op = 'UPDATE' and new.lat = old.lat and new.lng = old.lng and new.shape is null then
+    return new;
+  end if;
+
+  -- A meter of slack for the different distance formulas here and in the client
+  if new.shape is not null and exists (
+    select 1 from jsonb_array_elements(new.shape->'points') v
+    where 6371000 * sqrt(
+      power(radians((v->>'lat')::float8 - new.lat), 2) +
+      power(cos(radians(new.lat)) * radians((v->>'lng')::float8 - new.lng), 2)
+    ) > 1001
+  ) then
+    raise exception 'encounter shape reaches too far from its pin' using errcode = '22023';
+  end if;
+
+  insert into public.encounter_locations (encounter_id, lat, lng, shape)
+  values (new.id, new.lat, new.lng, new.shape)
+  on conflict (encounter_id) do update set lat = excluded.lat, lng = excluded.lng, shape = excluded.shape;
+
+  select * into public_location from public.fuzz_location(new.lat, new.lng, new.user_id);
+  new.lat := public_location.lat;
+  new.lng := public_location.lng;
+  new.shape := null;
+  return new;
+end;
+$$;
+
+-- Points of a place in meters around p_ref_lat: the pin alone, or the points of its route or area
+create or replace function public.place_points(p_lat double precision, p_lng double precision, p_shape jsonb,
+                                               p_ref_lat double precision)
+returns point[]
+language sql
+immutable
+as $$
+  select case
+    when p_shape is null then
+      array[point(6371000 * radians(p_lng) * cos(radians(p_ref_lat)), 6371000 * radians(p_lat))]
+    else array(
+      select point(6371000 * radians((v->>'lng')::float8) * cos(radians(p_ref_lat)), 6371000 * radians((v->>'lat')::float8))
+      from jsonb_array_elements(p_shape->'points') with ordinality as t(v, n)
+      order by n
+    )
+  end;
+$$;
+
+-- Segments between consecutive points, closing the ring of areas; a lone point is a zero length segment
+create or replace function public.place_segments(p_points point[], p_closed boolean)
+returns setof lseg
+language sql
+immutable
+as $$
+  select lseg(p_points[1], p_points[1]) where cardinality(p_points) = 1
+  union all
+  select lseg(p_points[i], p_points[i + 1]) from generate_series(1, cardinality(p_points) - 1) i
+  union all
+  select lseg(p_points[cardinality(p_points)], p_points[1]) where p_closed;
+$$;
+
+-- Shortest distance in meters between two places; anything inside an area is at 0.
+-- Keep in sync with getPlaceDistanceMeters in utils/geo.ts.
+create or replace function public.place_distance(a_lat double precision, a_lng double precision, a_shape jsonb,
+                                                 b_lat double precision, b_lng double precision, b_shape jsonb)
+returns double precision
+language plpgsql
+immutable
+as $$
+declare
+  a point[] := public.place_points(a_lat, a_lng, a_shape, a_lat);
+  b point[] := public.place_points(b_lat, b_lng, b_shape, a_lat);
+  a_is_area boolean := coalesce(a_shape->>'type' = 'area', false);
+  b_is_area boolean := coalesce(b_shape->>'type' = 'area', false);
+begin
+  if a_is_area and exists (select 1 from unnest(b) p where array_to_string(a, ',')::polygon @> p) then
+    return 0;
+  end if;
+  if b_is_area and exists (select 1 from unnest(a) p where array_to_string(b, ',')::polygon @> p) then
+    return 0;
+  end if;
+  return (
+    select min(sa <-> sb)
+    from public.place_segments(a, a_is_area) sa, public.place_segments(b, b_is_area) sb
+  );
+end;
+$$;
+
+-- Same pairs as in 0011_discovery_preferences.sql, measured between routes and areas. Pins can now be
+-- the largest radius plus two shape radii apart (500 + 2 * 1000 m).
+create or replace function public.encounter_proximity()
+returns table (my_encounter_id text, other_encounter_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select mine.id, other.id
+  from public.encounters mine
+  join public.encounter_locations ml on ml.encounter_id = mine.id
+  join public.encounter_locations ol
+    on ol.lat between ml.lat - 2500 / 111320.0 and ml.lat + 2500 / 111320.0
+   and ol.lng between ml.lng - 2500 / (111320.0 * cos(radians(ml.lat))) and ml.lng + 2500 / (111320.0 * cos(radians(ml.lat)))
+  join public.encounters other on other.id = ol.encounter_id
+  join public.profiles mp on mp.id::text = mine.user_id
+  join public.profiles op on op.id::text = other.user_id
+  where mine.user_id = auth.uid()::text
+    and mine.expires_at > (extract(epoch from now()) * 1000)::bigint
+    and other.user_id <> mine.user_id
+    and other.expires_at > (extract(epoch from now()) * 1000)::bigint
+    and not public.is_blocked_between(mine.user_id, other.user_id)
+    and not public.is_on_hold(other.user_id)
+    and public.fits_preferences(mp, op)
+    and public.fits_preferences(op, mp)
+    and public.place_distance(ml.lat, ml.lng, ml.shape, ol.lat, ol.lng, ol.shape) <= least(mp.match_radius, op.match_radius);
+$$;
+
+-- Exact places of the encounters posted by people the caller matched with, now with their shapes.
+-- The result type changes, so the function is recreated.
+drop function if exists public.matched_encounter_locations();
+create function public.matched_encounter_locations()
+returns table (encounter_id text, lat double precision, lng double precision, shape jsonb)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.encounter_id, l.lat, l.lng, l.shape
+  from public.encounter_locations l
+  join public.encounters e on e.id = l.encounter_id
+  join public.matches m
+    on (m.user_a = auth.uid()::text and m.user_b = e.user_id)
+    or (m.user_b = auth.uid()::text and m.user_a = e.user_id);
+$$;
+
+revoke all on function public.matched_encounter_locations() from public;
+grant execute on function public.matched_encounter_locations() to authenticated;
@@ -0,0 +1,54 @@
+-- Encuentros: encounters can name a venue or a transit line ({ id, name, kind, location, address }, see Venue in
+-- types.ts). Unlike the exact point it's public: people choose to say where they were. Posts at the same venue
+-- pair up wherever their pins are, so the whole length of a metro line counts.
+
+alter table public.encounters
+  add column if not exists venue jsonb check (venue is null or (venue ? 'id' and venue ? 'name' and venue->>'kind' in ('place', 'transit_line'))),
+  add column if not exists venue_id text generated always as (venue->>'id') stored;
+
+create index if not exists encounters_venue_id_idx on public.encounters (venue_id) where venue_id is not null;
+
+-- Pairs within the match radius (0012_encounter_shapes.sql) plus pairs at the same venue, under the same
+-- rules: both active, nobody blocked or on hold, both fitting each other's preferences.
+create or replace function public.encounter_proximity()
+returns table (my_encounter_id text, other_encounter_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with mine as (
+    select e.id, e.venue_id, l.lat, l.lng, l.shape
+    from public.encounters e
+    join public.encounter_locations l on l.encounter_id = e.id
+    where e.user_id = auth.uid()::text
+      and e.expires_at > (extract(epoch from now()) * 1000)::bigint
+  ),
+  candidates as (
+    -- Pins close enough for their shapes to be within the largest radius (500 + 2 * 1000 m)
+    select mine.id as my_id, ol.encounter_id as other_id,
+           public.place_distance(mine.lat, mine.lng, mine.shape, ol.lat, ol.lng, ol.shape) as distance
+    from mine
+    join public.encounter_locations ol
+      on ol.lat between mine.lat - 2500 / 111320.0 and mine.lat + 2500 / 111320.0
+     and ol.lng between mine.lng - 2500 / (111320.0 * cos(radians(mine.lat))) and mine.lng + 2500 / (111320.0 * cos(radians(mine.lat)))
+    union all
+    -- Same venue or transit line, at any distance
+    select mine.id, other.id, 0
+    from mine
+    join public.encounters other on other.venue_id = mine.venue_id
+  )
+  select distinct c.my_id, c.other_id
+  from candidates c
+  join public.encounters mine on mine.id = c.my_id
+  join public.encounters other on other.id = c.other_id
+  join public.profiles mp on mp.id::text = mine.user_id
+  join public.profiles op on op.id::text = other.user_id
+  where other.user_id <> mine.user_id
+    and other.expires_at > (extract(epoch from now()) * 1000)::bigint
+    and not public.is_blocked_between(mine.user_id, other.user_id)
+    and not public.is_on_hold(other.user_id)
+    and public.fits_preferences(mp, op)
+    and public.fits_preferences(op, mp)
+    and c.distance <= least(mp.match_radius, op.match_radius);
+$$;
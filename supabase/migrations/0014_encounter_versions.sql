@@ -0,0 +1,266 @@
+-- Encuentros: owners can edit their active posts. Every published state is kept in encounter_versions,
+-- which outlives the post so a deleted one can be republished with its text. Edits that change what
+-- people liked are stamped with edited_at here, whatever the client sends, and announced to them
+-- (the client mirrors the rules in isMaterialEdit, utils/encounterEdits.ts).
+
+alter table public.encounters
+  add column if not exists edited_at bigint;
+
+-- No foreign key to encounters: versions stay after the post is deleted, until the owner discards them
+create table if not exists public.encounter_versions (
+  encounter_id text not null,
+  version integer not null,
+  user_id text not null,
+  title text not null,
+  description text not null,
+  tags text[] not null default '{}',
+  image text,
+  venue jsonb,
+  lat double precision not null, -- Coarsened, like encounters.lat/lng
+  lng double precision not null,
+  happened_at bigint not null,
+  time_tolerance_minutes integer not null,
+  material boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (encounter_id, version)
+);
+
+create index if not exists encounter_versions_user_idx on public.encounter_versions (user_id, created_at desc);
+
+alter table public.encounter_versions enable row level security;
+
+-- Written only by the trigger below
+create policy "owners read their versions" on public.encounter_versions
+  for select to authenticated using (user_id = auth.uid()::text);
+
+create policy "owners discard versions of deleted posts" on public.encounter_versions
+  for delete to authenticated using (
+    user_id = auth.uid()::text
+    and not exists (select 1 from public.encounters e where e.id = encounter_id)
+  );
+
+-- Whether a can become b with at most k inserted, deleted or replaced characters. Only a band of the
+-- Levenshtein table is needed, and fuzzystrmatch's levenshtein() stops at 255 characters.
+create or replace function public.within_edit_distance(a text, b text, k integer)
+returns boolean
+language plpgsql
+immutable
+as $$
+declare
+  n integer := char_length(a);
+  m integer := char_length(b);
+  too_far integer := k + 1;
+  previous integer[];
+  current integer[];
+  row_min integer;
+begin
+  if abs(n - m) > k then
+    return false;
+  end if;
+  previous := array_fill(too_far, array[m + 1], array[0]);
+  for j in 0 .. least(m, k) loop
+    previous[j] := j;
+  end loop;
+  for i in 1 .. n loop
+    current := array_fill(too_far, array[m + 1], array[0]);
+    row_min := too_far;
+    if i <= k then
+      current[0] := i;
+      row_min := i;
+    end if;
+    for j in greatest(1, i - k) .. least(m, i + k) loop
+      current[j] := least(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + case when substr(a, i, 1) = substr(b, j, 1) then 0 else 1 end,
+        too_far
+      );
+      row_min := least(row_min, current[j]);
+    end loop;
+    if row_min > k then
+      return false;
+    end if;
+    previous := current;
+  end loop;
+  return previous[m] <= k;
+end;
+$$;
+
+-- Same rules as isMaterialEdit in utils/encounterEdits.ts: rewritten text (more than 2 character edits once
+-- case and spacing are ignored), other tags, photo or venue, a move of more than a 300 m cell of the
+-- coarsened grid, or a time shift of more than 30 minutes. Points are the exact ones.
+create or replace function public.is_material_edit(old_row public.encounters, new_row public.encounters,
+                                                   old_lat double precision, old_lng double precision)
+returns boolean
+language sql
+immutable
+as $$
+  select not public.within_edit_distance(lower(regexp_replace(btrim(old_row.title), '\s+', ' ', 'g')),
+                                         lower(regexp_replace(btrim(new_row.title), '\s+', ' ', 'g')), 2)
+      or not public.within_edit_distance(lower(regexp_replace(btrim(old_row.description), '\s+', ' ', 'g')),
+                                         lower(regexp_replace(btrim(new_row.description), '\s+', ' ', 'g')), 2)
+      or not (old_row.tags @> new_row.tags and new_row.tags @> old_row.tags)
+      or old_row.image is distinct from new_row.image
+      or old_row.venue->>'id' is distinct from new_row.venue->>'id'
+      or 6371000 * sqrt(
+           power(radians(new_row.lat - old_lat), 2) +
+           power(cos(radians(old_lat)) * radians(new_row.lng - old_lng), 2)
+         ) > 300
+      or abs(new_row.happened_at - old_row.happened_at) > 30 * 60 * 1000;
+$$;
+
+-- Archived posts can be republished as new ones, not edited back to life. edited_at is the server's:
+-- set on material edits, kept otherwise. Runs before encounters_protect_location (triggers fire by
+-- name), while new.lat/lng are still the exact point the client sent.
+create or replace function public.protect_encounter_edit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  now_ms bigint := (extract(epoch from now()) * 1000)::bigint;
+  exact record;
+begin
+  if tg_op = 'INSERT' then
+    new.edited_at := null;
+    return new;
+  end if;
+
+  if old.expires_at <= now_ms then
+    raise exception 'archived encounters can''t be edited' using errcode = '22023';
+  end if;
+  if new.user_id <> old.user_id or new.timestamp <> old.timestamp then
+    raise exception 'encounter owner and publication time can''t change' using errcode = '22023';
+  end if;
+
+  select lat, lng into exact from public.encounter_locations where encounter_id = old.id;
+  if public.is_material_edit(old, new, coalesce(exact.lat, old.lat), coalesce(exact.lng, old.lng)) then
+    new.edited_at := now_ms;
+  else
+    new.edited_at := old.edited_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists encounters_protect_edit on public.encounters;
+create trigger encounters_protect_edit
+  before insert or update on public.encounters
+  for each row execute function public.protect_encounter_edit();
+
+alter table public.notifications drop constraint if exists notifications_type_check;
+alter table public.notifications
+  add constraint notifications_type_check check (type in ('like', 'match', 'message', 'expiring', 'edited'));
+
+alter table public.notification_preferences drop constraint if exists notification_preferences_type_check;
+alter table public.notification_preferences
+  add constraint notification_preferences_type_check check (type in ('like', 'match', 'message', 'expiring', 'edited'));
+
+-- Runs after the location trigger, so lat/lng are the coarsened ones: moving the pin inside its cell
+-- or redrawing a route (private anyway) changes nothing anyone else can see, and records no version.
+-- edited_at only changes through protect_encounter_edit, so it marks the material edits.
+create or replace function public.record_encounter_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  is_material boolean := tg_op = 'UPDATE' and new.edited_at is distinct from old.edited_at;
+  liker record;
+begin
+  if tg_op = 'UPDATE'
+     and (new.title, new.description, new.tags, new.image, new.venue, new.lat, new.lng, new.happened_at, new.time_tolerance_minutes)
+         is not distinct from
+         (old.title, old.description, old.tags, old.image, old.venue, old.lat, old.lng, old.happened_at, old.time_tolerance_minutes)
+     and not is_material then
+    return new;
+  end if;
+
+  insert into public.encounter_versions (
+    encounter_id, version, user_id, title, description, tags, image, venue, lat, lng, happened_at, time_tolerance_minutes, material
+  )
+  select new.id, coalesce(max(version), 0) + 1, new.user_id, new.title, new.description, new.tags, new.image, new.venue,
+         new.lat, new.lng, new.happened_at, new.time_tolerance_minutes, is_material
+  from public.encounter_versions where encounter_id = new.id;
+
+  if is_material then
+    for liker in
+      select distinct l.liker_id from public.likes l
+      where l.encounter_id = new.id and not public.is_blocked_between(l.liker_id, new.user_id)
+    loop
+      perform public.create_notification(
+        liker.liker_id, 'edited', new.user_id, new.id, null,
+        'Un encuentro cambió', public.profile_name(new.user_id) || ' editó "' || new.title || '"'
+      );
+    end loop;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists encounters_record_version on public.encounters;
+create trigger encounters_record_version
+  after insert or update on public.encounters
+  for each row execute function public.record_encounter_version();
+
+-- Versions recorded before this migration: every existing post starts its history as it is now
+insert into public.encounter_versions (
+  encounter_id, version, user_id, title, description, tags, image, venue, lat, lng, happened_at, time_tolerance_minutes
+)
+select id, 1, user_id, title, description, tags, image, venue, lat, lng, happened_at, time_tolerance_minutes
+from public.encounters
+on conflict do nothing;
+
+-- The last version of each of the caller's deleted posts, newest first, to republish them
+create or replace function public.deleted_encounter_versions()
+returns setof public.encounter_versions
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from (
+    select distinct on (v.encounter_id) v.*
+    from public.encounter_versions v
+    where v.user_id = auth.uid()::text
+      and not exists (select 1 from public.encounters e where e.id = v.encounter_id)
+    order by v.encounter_id, v.version desc
+  ) latest
+  order by latest.created_at desc
+  limit 20;
+$$;
+
+revoke all on function public.deleted_encounter_versions() from public;
+grant execute on function public.deleted_encounter_versions() to authenticated;
+
+-- Same as in 0009_notifications.sql, plus the edit history
+create or replace function public.delete_account()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid text := auth.uid()::text;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  delete from public.chats where owner_id = uid;
+  delete from public.likes where liker_id = uid or encounter_owner_id = uid;
+  delete from public.matches where uid in (user_a, user_b);
+  delete from public.hidden_encounters where user_id = uid;
+  delete from public.blocks where blocker_id = uid;
+  delete from public.reports where reporter_id = uid;
+  delete from public.notifications where user_id = uid;
+  delete from public.notification_preferences where user_id = uid;
+  delete from public.push_subscriptions where user_id = uid;
+  delete from public.encounter_versions where user_id = uid;
+  delete from public.encounters where user_id = uid;
+  delete from public.profiles where id = auth.uid();
+  delete from auth.users where id = auth.uid();
+end;
+$$;
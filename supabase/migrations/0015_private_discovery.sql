@@ -0,0 +1,99 @@
+-- Encuentros: discovery preferences (0011_discovery_preferences.sql) move out of profiles, which every signed
+-- in user can read, into a table only their owner can. Pairing posts reads them inside encounter_proximity,
+-- which runs as its owner.
+
+create table if not exists public.discovery_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  interested_in text[] not null default '{}' check (interested_in <@ array['male', 'female', 'other']),
+  min_age integer not null default 18,
+  max_age integer not null default 99,
+  -- Keep the bounds in sync with MIN_MATCH_RADIUS / MAX_MATCH_RADIUS in utils/discovery.ts
+  match_radius integer not null default 150 check (match_radius between 50 and 500),
+  constraint discovery_preferences_age_range_check check (min_age between 18 and 99 and max_age between min_age and 99)
+);
+
+alter table public.discovery_preferences enable row level security;
+
+create policy "users manage their own discovery preferences" on public.discovery_preferences
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+insert into public.discovery_preferences (user_id, interested_in, min_age, max_age, match_radius)
+select id, interested_in, min_age, max_age, match_radius from public.profiles
+on conflict do nothing;
+
+-- Every account with its preferences, the defaults for those who never saved any
+create or replace view public.profile_discovery
+with (security_barrier) as
+  select p.id::text as user_id, p.gender, p.age,
+         coalesce(d.interested_in, '{}') as interested_in,
+         coalesce(d.min_age, 18) as min_age,
+         coalesce(d.max_age, 99) as max_age,
+         coalesce(d.match_radius, 150) as match_radius
+  from public.profiles p
+  left join public.discovery_preferences d on d.user_id = p.id;
+
+-- Only for the functions below, which run as the owner
+revoke all on public.profile_discovery from public, anon, authenticated;
+
+-- Same rules as before, over the view's rows. Keep in sync with fitsPreferences in utils/discovery.ts.
+drop function if exists public.fits_preferences(public.profiles, public.profiles);
+create or replace function public.fits_preferences(p_viewer public.profile_discovery, p_other public.profile_discovery)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(cardinality(p_viewer.interested_in) = 0 or p_other.gender = any (p_viewer.interested_in), false)
+     and coalesce((p_viewer.min_age <= 18 and p_viewer.max_age >= 99)
+                  or p_other.age between p_viewer.min_age and p_viewer.max_age, false);
+$$;
+
+-- Same pairs as in 0013_venues.sql, with the preferences read from the view
+create or replace function public.encounter_proximity()
+returns table (my_encounter_id text, other_encounter_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with mine as (
+    select e.id, e.venue_id, l.lat, l.lng, l.shape
+    from public.encounters e
+    join public.encounter_locations l on l.encounter_id = e.id
+    where e.user_id = auth.uid()::text
+      and e.expires_at > (extract(epoch from now()) * 1000)::bigint
+  ),
+  candidates as (
+    -- Pins close enough for their shapes to be within the largest radius (500 + 2 * 1000 m)
+    select mine.id as my_id, ol.encounter_id as other_id,
+           public.place_distance(mine.lat, mine.lng, mine.shape, ol.lat, ol.lng, ol.shape) as distance
+    from mine
+    join public.encounter_locations ol
+      on ol.lat between mine.lat - 2500 / 111320.0 and mine.lat + 2500 / 111320.0
+     and ol.lng between mine.lng - 2500 / (111320.0 * cos(radians(mine.lat))) and mine.lng + 2500 / (111320.0 * cos(radians(mine.lat)))
+    union all
+    -- Same venue or transit line, at any distance
+    select mine.id, other.id, 0
+    from mine
+    join public.encounters other on other.venue_id = mine.venue_id
+  )
+  select distinct c.my_id, c.other_id
+  from candidates c
+  join public.encounters mine on mine.id = c.my_id
+  join public.encounters other on other.id = c.other_id
+  join public.profile_discovery mp on mp.user_id = mine.user_id
+  join public.profile_discovery op on op.user_id = other.user_id
+  where other.user_id <> mine.user_id
+    and other.expires_at > (extract(epoch from now()) * 1000)::bigint
+    and not public.is_blocked_between(mine.user_id, other.user_id)
+    and not public.is_on_hold(other.user_id)
+    and public.fits_preferences(mp, op)
+    and public.fits_preferences(op, mp)
+    and c.distance <= least(mp.match_radius, op.match_radius);
+$$;
+
+alter table public.profiles
+  drop constraint if exists profiles_age_range_check,
+  drop column if exists interested_in,
+  drop column if exists min_age,
+  drop column if exists max_age,
+  drop column if exists match_radius;
@@ -0,0 +1,67 @@
+-- Encuentros: encounter_proximity tells, for each post of mine, which other posts are within the match
+-- radius of it. Placing a post again and again and asking each time would narrow down the exact spot of
+-- someone else's post, so an account can only put its posts on a new spot a few times a day: publishing
+-- counts, and so does moving the pin or redrawing the shape of an existing post.
+
+create table if not exists public.encounter_placements (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  placed_at timestamptz not null default now()
+);
+
+create index if not exists encounter_placements_user_idx on public.encounter_placements (user_id, placed_at desc);
+
+-- No policies: only the trigger below reads and writes it
+alter table public.encounter_placements enable row level security;
+
+-- Same as in 0012_encounter_shapes.sql, plus the daily limit of new spots. Saving a post with the exact
+-- place it already has (every edit sends it) isn't a new spot.
+create or replace function public.protect_encounter_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  max_placements constant integer := 10;
+  public_location record;
+  placements integer;
+begin
+  if tg_op = 'UPDATE' and new.lat = old.lat and new.lng = old.lng and new.shape is null then
+    return new;
+  end if;
+
+  -- A meter of slack for the different distance formulas here and in the client
+  if new.shape is not null and exists (
+    select 1 from jsonb_array_elements(new.shape->'points') v
+    where 6371000 * sqrt(
+      power(radians((v->>'lat')::float8 - new.lat), 2) +
+      power(cos(radians(new.lat)) * radians((v->>'lng')::float8 - new.lng), 2)
+    ) > 1001
+  ) then
+    raise exception 'encounter shape reaches too far from its pin' using errcode = '22023';
+  end if;
+
+  if not exists (
+    select 1 from public.encounter_locations l
+    where l.encounter_id = new.id and l.lat = new.lat and l.lng = new.lng and l.shape is not distinct from new.shape
+  ) then
+    delete from public.encounter_placements
+    where user_id = new.user_id::uuid and placed_at <= now() - interval '1 day';
+    select count(*) into placements from public.encounter_placements where user_id = new.user_id::uuid;
+    if placements >= max_placements then
+      raise exception 'encounter placement limit reached (% new spots a day)', max_placements using errcode = '22023';
+    end if;
+    insert into public.encounter_placements (user_id) values (new.user_id::uuid);
+  end if;
+
+  insert into public.encounter_locations (encounter_id, lat, lng, shape)
+  values (new.id, new.lat, new.lng, new.shape)
+  on conflict (encounter_id) do update set lat = excluded.lat, lng = excluded.lng, shape = excluded.shape;
+
+  select * into public_location from public.fuzz_location(new.lat, new.lng, new.user_id);
+  new.lat := public_location.lat;
+  new.lng := public_location.lng;
+  new.shape := null;
+  return new;
+end;
+$$;
@@ -0,0 +1,43 @@
+-- Encuentros: the snapshot moderators read comes from the reported post or message itself, not from the
+-- reporter. A report must point at something the reported user really published or sent and the reporter
+-- can see; one about a profile needs a match between the two (the chat is where it's filed from).
+
+create or replace function public.attach_report_evidence()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner_id text;
+  evidence text;
+begin
+  if new.message_id is not null then
+    select m.sender_id, m.text into owner_id, evidence
+    from public.messages m
+    join public.matches ma on ma.id = m.match_id
+    where m.id = new.message_id and new.reporter_id in (ma.user_a, ma.user_b);
+  elsif new.encounter_id is not null then
+    select e.user_id, e.title || ': ' || e.description into owner_id, evidence
+    from public.encounters e
+    where e.id = new.encounter_id;
+  else
+    select new.reported_user_id, '' into owner_id, evidence
+    from public.matches ma
+    where ma.user_a = least(new.reporter_id, new.reported_user_id)
+      and ma.user_b = greatest(new.reporter_id, new.reported_user_id);
+  end if;
+
+  if owner_id is distinct from new.reported_user_id then
+    raise exception 'reported content not found for this user' using errcode = '22023';
+  end if;
+
+  new.content := evidence;
+  return new;
+end;
+$$;
+
+drop trigger if exists reports_attach_evidence on public.reports;
+create trigger reports_attach_evidence
+  before insert on public.reports
+  for each row execute function public.attach_report_evidence();
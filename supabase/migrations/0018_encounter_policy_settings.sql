@@ -0,0 +1,76 @@
+-- Encuentros: the post quota and lifetime live in one row here instead of in the client build and the
+-- trigger of 0006_encounter_policy.sql. Operators change them with SQL; account_limits still overrides
+-- them per account, and the app reads the result through my_encounter_policy.
+
+create table if not exists public.encounter_settings (
+  id boolean primary key default true check (id), -- A single row
+  max_active_encounters integer not null default 5 check (max_active_encounters > 0),
+  encounter_ttl_hours integer not null default 168 check (encounter_ttl_hours > 0)
+);
+
+insert into public.encounter_settings (id) values (true) on conflict do nothing;
+
+-- Written only with the service role
+alter table public.encounter_settings enable row level security;
+
+create policy "signed in users read the encounter settings" on public.encounter_settings
+  for select to authenticated using (true);
+
+-- The account's override where it has one, the settings otherwise
+create or replace function public.encounter_policy_for(p_user_id text)
+returns table (max_active_encounters integer, encounter_ttl_hours integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(l.max_active_encounters, s.max_active_encounters),
+         coalesce(l.encounter_ttl_hours, s.encounter_ttl_hours)
+  from public.encounter_settings s
+  left join public.account_limits l on l.user_id = p_user_id;
+$$;
+
+create or replace function public.my_encounter_policy()
+returns table (max_active_encounters integer, encounter_ttl_hours integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.encounter_policy_for(auth.uid()::text);
+$$;
+
+revoke all on function public.encounter_policy_for(text) from public;
+revoke all on function public.my_encounter_policy() from public;
+grant execute on function public.my_encounter_policy() to authenticated;
+
+-- Same as in 0006_encounter_policy.sql, with the limits read from the settings
+create or replace function public.enforce_encounter_policy()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  now_ms bigint := (extract(epoch from now()) * 1000)::bigint;
+  max_active integer;
+  ttl_hours integer;
+  active_count integer;
+begin
+  select p.max_active_encounters, p.encounter_ttl_hours into max_active, ttl_hours
+  from public.encounter_policy_for(new.user_id) p;
+
+  -- A post can't outlive the account's lifetime
+  new.expires_at := least(new.expires_at, new.timestamp + ttl_hours::bigint * 3600 * 1000);
+
+  if tg_op = 'INSERT' then
+    select count(*) into active_count
+    from public.encounters
+    where user_id = new.user_id and id <> new.id and expires_at > now_ms;
+    if active_count >= max_active then
+      raise exception 'encounter quota exceeded (% active posts)', max_active;
+    end if;
+  end if;
+  return new;
+end;
+$$;
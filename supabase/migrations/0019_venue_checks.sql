@@ -0,0 +1,106 @@
+-- Encuentros: a venue pairs posts wherever their pins are (0013_venues.sql), so naming one has to mean being
+-- there. The pin, or the route or area, must come within 300 m of the venue's point, or of some part of a
+-- transit line's path (MAX_VENUE_DISTANCE_METERS in utils/geo.ts). The first post naming a venue records
+-- where it is; later posts are checked against that record, whatever place they send for it. Changing the
+-- venue of a post counts as placing it on a new spot (0016_placement_limit.sql).
+
+create table if not exists public.venues (
+  id text primary key,
+  kind text not null check (kind in ('place', 'transit_line')),
+  lat double precision not null,
+  lng double precision not null,
+  -- Transit lines: their course, as a route shape (see 0012_encounter_shapes.sql)
+  path jsonb check (path is null or (path->>'type' = 'route' and jsonb_array_length(path->'points') between 2 and 200)),
+  created_at timestamptz not null default now()
+);
+
+-- No policies: only the trigger below reads and writes it
+alter table public.venues enable row level security;
+
+-- Same as in 0016_placement_limit.sql, plus the venue check. The path is kept in venues, not in the post.
+create or replace function public.protect_encounter_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  max_placements constant integer := 10;
+  max_venue_distance constant double precision := 300;
+  public_location record;
+  exact record;
+  known public.venues;
+  placements integer;
+  submitted_path jsonb := new.venue->'path';
+  venue_changed boolean := new.venue->>'id' is distinct from (case when tg_op = 'UPDATE' then old.venue->>'id' end);
+begin
+  if new.venue ? 'path' then
+    new.venue := new.venue - 'path';
+  end if;
+
+  if tg_op = 'UPDATE' and new.lat = old.lat and new.lng = old.lng and new.shape is null and not venue_changed then
+    return new;
+  end if;
+
+  -- The pin unchanged (still the coarsened one) while only the venue changes: check against the exact place
+  if tg_op = 'UPDATE' and new.lat = old.lat and new.lng = old.lng and new.shape is null then
+    select l.lat, l.lng, l.shape into exact from public.encounter_locations l where l.encounter_id = new.id;
+    new.lat := exact.lat;
+    new.lng := exact.lng;
+    new.shape := exact.shape;
+  end if;
+
+  -- A meter of slack for the different distance formulas here and in the client
+  if new.shape is not null and exists (
+    select 1 from jsonb_array_elements(new.shape->'points') v
+    where 6371000 * sqrt(
+      power(radians((v->>'lat')::float8 - new.lat), 2) +
+      power(cos(radians(new.lat)) * radians((v->>'lng')::float8 - new.lng), 2)
+    ) > 1001
+  ) then
+    raise exception 'encounter shape reaches too far from its pin' using errcode = '22023';
+  end if;
+
+  if new.venue is not null then
+    insert into public.venues (id, kind, lat, lng, path)
+    values (
+      new.venue->>'id', new.venue->>'kind',
+      (new.venue->'location'->>'lat')::float8, (new.venue->'location'->>'lng')::float8,
+      case when new.venue->>'kind' = 'transit_line' and jsonb_typeof(submitted_path) = 'array'
+                and jsonb_array_length(submitted_path) between 2 and 200
+           then jsonb_build_object('type', 'route', 'points', submitted_path) end
+    )
+    on conflict (id) do nothing;
+
+    select * into known from public.venues where id = new.venue->>'id';
+    if public.place_distance(new.lat, new.lng, new.shape, known.lat, known.lng, known.path) > max_venue_distance then
+      raise exception 'encounter is too far from its venue' using errcode = '22023';
+    end if;
+    -- Everyone sees the venue where it was first recorded
+    new.venue := new.venue || jsonb_build_object('kind', known.kind, 'location', jsonb_build_object('lat', known.lat, 'lng', known.lng));
+  end if;
+
+  if not exists (
+    select 1 from public.encounter_locations l
+    where l.encounter_id = new.id and l.lat = new.lat and l.lng = new.lng and l.shape is not distinct from new.shape
+  ) or (venue_changed and new.venue is not null) then
+    delete from public.encounter_placements
+    where user_id = new.user_id::uuid and placed_at <= now() - interval '1 day';
+    select count(*) into placements from public.encounter_placements where user_id = new.user_id::uuid;
+    if placements >= max_placements then
+      raise exception 'encounter placement limit reached (% new spots a day)', max_placements using errcode = '22023';
+    end if;
+    insert into public.encounter_placements (user_id) values (new.user_id::uuid);
+  end if;
+
+  insert into public.encounter_locations (encounter_id, lat, lng, shape)
+  values (new.id, new.lat, new.lng, new.shape)
+  on conflict (encounter_id) do update set lat = excluded.lat, lng = excluded.lng, shape = excluded.shape;
+
+  select * into public_location from public.fuzz_location(new.lat, new.lng, new.user_id);
+  new.lat := public_location.lat;
+  new.lng := public_location.lng;
+  new.shape := null;
+  return new;
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Encuentros: typing indicators go over a Realtime broadcast channel per match, "typing-<match id>".
+-- Public channels can be joined by anyone who knows the name, so the app opens them as private ones and
+-- only the two people in the match may listen or send on them.
+
+create policy "match participants receive typing events" on realtime.messages
+  for select to authenticated
+  using (
+    realtime.messages.extension = 'broadcast'
+    and exists (
+      select 1 from public.matches m
+      where realtime.topic() = 'typing-' || m.id::text and auth.uid()::text in (m.user_a, m.user_b)
+    )
+  );
+
+create policy "match participants send typing events" on realtime.messages
+  for insert to authenticated
+  with check (
+    realtime.messages.extension = 'broadcast'
+    and exists (
+      select 1 from public.matches m
+      where realtime.topic() = 'typing-' || m.id::text and auth.uid()::text in (m.user_a, m.user_b)
+    )
+  );
@@ -0,0 +1,44 @@
+import { Encounter, Location, UserProfile } from '../types';
+import { DEFAULT_TIME_TOLERANCE_MINUTES } from '../utils/matching';
+
+const HOUR_MS = 3600000;
+
+// Fixed reference time, so windows and expiry don't depend on when the suite runs
+export const NOW = Date.UTC(2025, 5, 14, 18, 0);
+
+export const ORIGIN: Location = { lat: 19.4326, lng: -99.1332 };
+
+// Moves a point by meters to the north and east (close enough at city scale)
+export const offsetMeters = (from: Location, north: number, east: number): Location => ({
+  lat: from.lat + north / 111320,
+  lng: from.lng + east / (111320 * Math.cos(from.lat * Math.PI / 180))
+});
+
+export const makeProfile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+  id: 'user-me',
+  name: 'Ana',
+  bio: 'Siempre en bici.',
+  images: ['https://img.test/ana.jpg'],
+  isCurrentUser: false,
+  ...overrides
+});
+
+let nextId = 0;
+
+export const makeEncounter = (overrides: Partial<Encounter> = {}): Encounter => {
+  const userProfile = overrides.userProfile ?? makeProfile({ id: overrides.userId ?? 'user-other', name: 'Luis' });
+  return {
+    id: `enc-${++nextId}`,
+    userId: userProfile.id,
+    userProfile,
+    title: 'En el café de la esquina',
+    description: 'Pediste un americano y me sonreíste.',
+    location: ORIGIN,
+    timestamp: NOW,
+    happenedAt: NOW,
+    timeToleranceMinutes: DEFAULT_TIME_TOLERANCE_MINUTES,
+    expiresAt: NOW + 48 * HOUR_MS,
+    tags: ['eye_contact'],
+    ...overrides
+  };
+};
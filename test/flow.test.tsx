@@ -0,0 +1,118 @@
+import React from 'react';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from '../App';
+import { I18nProvider } from '../i18n';
+import { getDistanceInMeters, MATCH_RADIUS } from '../utils/geo';
+import { getRows, onRpc, resetSupabase, seed, setSession, supabaseStub } from './supabaseStub';
+import { offsetMeters, ORIGIN } from './fixtures';
+
+// Leaflet needs a real layout engine; the map plays no part in this flow
+vi.mock('../features/map/MapView', () => ({ MapView: () => null }));
+
+const ME = 'user-me';
+const PARTNER = 'user-luis';
+const MINUTE_MS = 60000;
+
+const partnerProfile = { id: PARTNER, name: 'Luis', bio: 'Músico.', images: ['https://img.test/luis.jpg'], isCurrentUser: false };
+const partnerEncounter = {
+  id: 'enc-luis',
+  user_id: PARTNER,
+  user_profile: partnerProfile,
+  title: 'Chica de la bici verde',
+  description: 'Esperamos juntos el semáforo en Álvaro Obregón.',
+  ...offsetMeters(ORIGIN, 60, 40),
+  timestamp: Date.now() - 20 * MINUTE_MS,
+  happened_at: Date.now() - 30 * MINUTE_MS,
+  time_tolerance_minutes: 60,
+  expires_at: Date.now() + 24 * 60 * MINUTE_MS,
+  image: null,
+  tags: ['eye_contact']
+};
+
+// Server side of the flow: proximity on the exact points and like_encounter's match resolution
+const stubServer = () => {
+  onRpc('encounter_proximity', (_args, { userId }) => {
+    const rows = getRows('encounters');
+    const distance = (a: typeof rows[number], b: typeof rows[number]) =>
+      getDistanceInMeters(Number(a.lat), Number(a.lng), Number(b.lat), Number(b.lng));
+    return rows.filter(mine => mine.user_id === userId).flatMap(mine => rows
+      .filter(other => other.user_id !== userId && distance(mine, other) <= MATCH_RADIUS)
+      .map(other => ({ my_encounter_id: mine.id, other_encounter_id: other.id })));
+  });
+  onRpc('my_encounter_policy', () => [{ max_active_encounters: 5, encounter_ttl_hours: 168 }]);
+  onRpc('matched_encounter_locations', () => []);
+  onRpc('deleted_encounter_versions', () => []);
+  onRpc('mark_messages_read', () => null);
+  onRpc('like_encounter', ({ p_encounter_id }, { userId }) => {
+    const encounter = getRows('encounters').find(e => e.id === p_encounter_id)!;
+    getRows('likes').push({ liker_id: userId, encounter_id: encounter.id, encounter_owner_id: encounter.user_id, created_at: new Date().toISOString() });
+    const likedBack = getRows('likes').some(l => l.liker_id === encounter.user_id && l.encounter_owner_id === userId);
+    if (!likedBack) return { match: null };
+    const match = { id: 'match-1', user_a: userId, user_b: encounter.user_id, created_at: new Date().toISOString() };
+    getRows('matches').push(match);
+    return { match };
+  });
+};
+
+describe('create → explore → like → match → chat', () => {
+  beforeAll(() => {
+    localStorage.setItem('locale', 'en');
+    Object.defineProperty(navigator, 'geolocation', {
+      configurable: true,
+      value: { getCurrentPosition: (onSuccess: PositionCallback) => onSuccess({ coords: { latitude: ORIGIN.lat, longitude: ORIGIN.lng } } as GeolocationPosition) }
+    });
+    Element.prototype.scrollIntoView = vi.fn();
+
+    seed('profiles', [{ id: ME, name: 'Ana', age: 29, gender: 'female', bio: 'Siempre en bici.', quick_message: null, images: ['https://img.test/ana.jpg'], cover_image: null }]);
+    seed('discovery_preferences', [{ user_id: ME, interested_in: [], min_age: 18, max_age: 99, match_radius: 150 }]);
+    seed('encounters', [partnerEncounter]);
+    stubServer();
+    setSession(ME);
+  });
+
+  afterAll(() => {
+    resetSupabase();
+    localStorage.clear();
+  });
+
+  it('matches with someone who liked my post and opens the chat', async () => {
+    const user = userEvent.setup();
+    render(<I18nProvider><App /></I18nProvider>);
+
+    // Create: publish a post where the partner's was
+    await user.click(await screen.findByRole('button', { name: 'Explore' }, { timeout: 5000 }));
+    await user.click(screen.getByRole('button', { name: 'Create one now' }));
+    await user.type(screen.getByPlaceholderText('E.g. Girl with the red book...'), 'Chico del casco rojo');
+    await user.type(screen.getByPlaceholderText('We locked eyes at the traffic light...'), 'Nos vimos en el semáforo, tú en tu bici verde.');
+    await user.click(screen.getByRole('button', { name: 'Publish Encounter' }));
+
+    await waitFor(() => expect(getRows('encounters').some(e => e.user_id === ME)).toBe(true));
+    const myPost = getRows('encounters').find(e => e.user_id === ME)!;
+    expect(myPost.title).toBe('Chico del casco rojo');
+
+    // The partner likes it back meanwhile
+    await supabaseStub.from('likes').insert({ liker_id: PARTNER, encounter_id: myPost.id, encounter_owner_id: ME });
+
+    // Explore: my post has one person nearby, the partner
+    await user.click(await screen.findByText('1 Person nearby'));
+    await user.click(await screen.findByText(partnerEncounter.title));
+
+    // Like: the server completes the match
+    await user.click(await screen.findByRole('button', { name: 'Like' }));
+    expect(await screen.findByText("It's a Match!")).toBeTruthy();
+    expect(getRows('matches')).toHaveLength(1);
+
+    // Chat: the suggested opener is ready to send
+    await user.click(screen.getByRole('button', { name: 'Send Message' }));
+    const composer = await screen.findByPlaceholderText('Write a message...');
+    await waitFor(() => expect(composer).toHaveProperty('value', '¡Hola! ¿Te acuerdas de mí?'));
+    await user.type(composer, '{Enter}');
+
+    await waitFor(() => expect(getRows('messages')).toHaveLength(1));
+    expect(getRows('messages')[0]).toMatchObject({ match_id: 'match-1', sender_id: ME, text: '¡Hola! ¿Te acuerdas de mí?' });
+    expect(getRows('chats')).toEqual([expect.objectContaining({ owner_id: ME, encounter_id: partnerEncounter.id, match_id: 'match-1' })]);
+    expect(within(document.body).getAllByText('¡Hola! ¿Te acuerdas de mí?').length).toBeGreaterThan(0);
+  }, 20000);
+});
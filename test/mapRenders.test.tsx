@@ -0,0 +1,27 @@
+import React, { Profiler } from 'react';
+import { describe, expect, it } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { MapView } from '../features/map/MapView';
+import { I18nProvider } from '../i18n';
+import { dispatch } from '../store';
+
+describe('MapView', () => {
+  it("doesn't re-render while a chat draft is typed", () => {
+    let renders = 0;
+    render(
+      <I18nProvider>
+        <Profiler id="map" onRender={() => { renders++; }}>
+          <MapView />
+        </Profiler>
+      </I18nProvider>
+    );
+    const rendersBeforeTyping = renders;
+    expect(rendersBeforeTyping).toBeGreaterThan(0);
+
+    act(() => {
+      for (const text of ['H', 'Ho', 'Hol', 'Hola']) dispatch({ type: 'chats/draftChanged', matchId: 'match-1', text });
+    });
+
+    expect(renders).toBe(rendersBeforeTyping);
+  });
+});
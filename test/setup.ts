@@ -0,0 +1,16 @@
+import 'fake-indexeddb/auto';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Services talk to these stand-ins instead of Supabase and Gemini
+vi.mock('../services/supabaseClient', async () => ({ supabase: (await import('./supabaseStub')).supabaseStub }));
+
+vi.mock('../services/geminiService', () => ({
+  generateNearbyEncounters: vi.fn(async () => []),
+  generateInitialMessage: vi.fn(async () => '¡Hola! ¿Te acuerdas de mí?'),
+  classifyContent: vi.fn(async () => null)
+}));
+
+afterEach(() => {
+  cleanup();
+});
@@ -0,0 +1,272 @@
+// In-memory stand-in for the Supabase client: enough of the query builder, RPC, realtime and auth
+// surface for the services in services/. Row level security and server functions are up to each test
+// (seed rows with `seed`, answer RPCs with `onRpc`).
+
+type Row = Record<string, unknown>;
+// status is the HTTP status PostgREST would answer with; the real client reports 0 when nothing answered
+type Result = { data: unknown; error: { message: string; code?: string } | null; status: number };
+type RpcHandler = (args: Row, context: { userId: string | null }) => unknown;
+type Session = { user: { id: string } } | null;
+
+interface Listener {
+  type: string;
+  filter: { event?: string; table?: string };
+  callback: (payload: unknown) => void;
+}
+
+const tables = new Map<string, Row[]>();
+const rpcHandlers = new Map<string, RpcHandler>();
+const channels = new Set<StubChannel>();
+const authListeners = new Set<(event: string, session: Session) => void>();
+let session: Session = null;
+
+const rowsOf = (table: string): Row[] => {
+  if (!tables.has(table)) tables.set(table, []);
+  return tables.get(table)!;
+};
+
+// Numbers with numbers and strings (ISO timestamps too) with strings; NaN for anything else, which no
+// range filter matches
+const order = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return NaN;
+};
+
+// PostgREST's "col.op.value" filters, as used in .or()
+const compare = (op: string, actual: unknown, expected: unknown): boolean => {
+  switch (op) {
+    case 'eq': return actual === expected;
+    case 'neq': return actual !== expected;
+    case 'gt': return order(actual, expected) > 0;
+    case 'gte': return order(actual, expected) >= 0;
+    case 'lt': return order(actual, expected) < 0;
+    case 'lte': return order(actual, expected) <= 0;
+    case 'in': return Array.isArray(expected) && expected.includes(actual);
+    default: throw new Error(`Unsupported filter operator: ${op}`);
+  }
+};
+
+const parseCondition = (condition: string) => {
+  const [column, op, ...rest] = condition.split('.');
+  const value = rest.join('.');
+  return (row: Row) => compare(op, String(row[column]), value);
+};
+
+// Upserts replace the row with the same primary key (see supabase/migrations); tables not listed use id
+const PRIMARY_KEYS: Record<string, string[]> = {
+  hidden_encounters: ['user_id', 'encounter_id'],
+  chats: ['owner_id', 'encounter_id'],
+  likes: ['liker_id', 'encounter_id'],
+  account_limits: ['user_id'],
+  discovery_preferences: ['user_id'],
+  blocks: ['blocker_id', 'blocked_id'],
+  notification_preferences: ['user_id', 'type'],
+  push_subscriptions: ['endpoint']
+};
+
+const sameKey = (table: string, a: Row, b: Row) => (PRIMARY_KEYS[table] ?? ['id']).every(column => a[column] !== undefined && a[column] === b[column]);
+
+class StubQuery implements PromiseLike<Result> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private maxRows: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private returning = false;
+
+  constructor(
+    private readonly table: string,
+    private readonly operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete',
+    private readonly payload?: Row | Row[]
+  ) {}
+
+  select() { this.returning = true; return this; }
+  eq(column: string, value: unknown) { return this.where(column, 'eq', value); }
+  neq(column: string, value: unknown) { return this.where(column, 'neq', value); }
+  gt(column: string, value: unknown) { return this.where(column, 'gt', value); }
+  gte(column: string, value: unknown) { return this.where(column, 'gte', value); }
+  lt(column: string, value: unknown) { return this.where(column, 'lt', value); }
+  lte(column: string, value: unknown) { return this.where(column, 'lte', value); }
+  in(column: string, values: unknown[]) { return this.where(column, 'in', values); }
+  filter(column: string, op: string, value: unknown) { return this.where(column, op, value); }
+  or(conditions: string) {
+    const checks = conditions.split(',').map(parseCondition);
+    this.filters.push(row => checks.some(check => check(row)));
+    return this;
+  }
+  order(column: string, options?: { ascending?: boolean }) {
+    this.ordering = { column, ascending: options?.ascending ?? true };
+    return this;
+  }
+  limit(count: number) { this.maxRows = count; return this; }
+  abortSignal() { return this; }
+  single() { this.mode = 'single'; return this; }
+  maybeSingle() { this.mode = 'maybeSingle'; return this; }
+
+  private where(column: string, op: string, value: unknown) {
+    this.filters.push(row => compare(op, row[column], value));
+    return this;
+  }
+
+  private run(): Result {
+    const rows = rowsOf(this.table);
+    const matches = (row: Row) => this.filters.every(f => f(row));
+    let affected: Row[];
+
+    switch (this.operation) {
+      case 'select':
+        affected = rows.filter(matches);
+        break;
+      case 'insert': {
+        affected = ([] as Row[]).concat(this.payload ?? []).map(row => ({ created_at: new Date().toISOString(), ...row }));
+        if (affected.some(row => rows.some(r => sameKey(this.table, r, row)))) {
+          return { data: null, error: { message: 'duplicate key value', code: '23505' }, status: 409 };
+        }
+        rows.push(...affected);
+        emit(this.table, 'INSERT', affected);
+        break;
+      }
+      case 'upsert': {
+        affected = ([] as Row[]).concat(this.payload ?? []);
+        affected.forEach(row => {
+          const index = rows.findIndex(r => sameKey(this.table, r, row));
+          if (index >= 0) rows[index] = { ...rows[index], ...row };
+          else rows.push({ created_at: new Date().toISOString(), ...row });
+        });
+        emit(this.table, 'INSERT', affected);
+        break;
+      }
+      case 'update':
+        affected = rows.filter(matches);
+        affected.forEach(row => Object.assign(row, this.payload));
+        emit(this.table, 'UPDATE', affected);
+        break;
+      case 'delete':
+        affected = rows.filter(matches);
+        tables.set(this.table, rows.filter(row => !matches(row)));
+        break;
+    }
+
+    if (this.operation !== 'select' && !this.returning) return { data: null, error: null, status: 201 };
+    if (this.ordering) {
+      const { column, ascending } = this.ordering;
+      affected = [...affected].sort((a, b) => (order(a[column], b[column]) || 0) * (ascending ? 1 : -1));
+    }
+    if (this.maxRows !== null) affected = affected.slice(0, this.maxRows);
+    if (this.mode === 'many') return { data: affected.map(row => ({ ...row })), error: null, status: 200 };
+    if (affected.length > 1 || (this.mode === 'single' && affected.length === 0)) {
+      return { data: null, error: { message: `Expected one row, got ${affected.length}`, code: 'PGRST116' }, status: 406 };
+    }
+    return { data: affected[0] ? { ...affected[0] } : null, error: null, status: 200 };
+  }
+
+  then<A = Result, B = never>(onFulfilled?: ((value: Result) => A | PromiseLike<A>) | null, onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null) {
+    return Promise.resolve().then(() => this.run()).then(onFulfilled, onRejected);
+  }
+}
+
+class StubChannel {
+  readonly listeners: Listener[] = [];
+
+  constructor(readonly name: string) {}
+
+  on(type: string, filter: Listener['filter'], callback: Listener['callback']) {
+    this.listeners.push({ type, filter, callback });
+    return this;
+  }
+  subscribe() {
+    channels.add(this);
+    return this;
+  }
+  // Broadcasts reach the other subscribers of the same channel name
+  send(message: { type: string; event: string; payload: unknown }) {
+    channels.forEach(channel => {
+      if (channel === this || channel.name !== this.name) return;
+      channel.listeners
+        .filter(l => l.type === 'broadcast' && l.filter.event === message.event)
+        .forEach(l => l.callback({ payload: message.payload }));
+    });
+    return Promise.resolve('ok');
+  }
+}
+
+// Realtime postgres_changes for every subscriber of the table (filters are not applied)
+const emit = (table: string, event: 'INSERT' | 'UPDATE', rows: Row[]) => {
+  channels.forEach(channel => channel.listeners
+    .filter(l => l.type === 'postgres_changes' && l.filter.table === table && (l.filter.event === '*' || l.filter.event === event))
+    .forEach(l => rows.forEach(row => l.callback({ eventType: event, new: { ...row } }))));
+};
+
+const ok = <T>(data: T): Promise<{ data: T; error: null }> => Promise.resolve({ data, error: null });
+
+export const supabaseStub = {
+  from: (table: string) => ({
+    select: () => new StubQuery(table, 'select'),
+    insert: (rows: Row | Row[]) => new StubQuery(table, 'insert', rows),
+    upsert: (rows: Row | Row[]) => new StubQuery(table, 'upsert', rows),
+    update: (values: Row) => new StubQuery(table, 'update', values),
+    delete: () => new StubQuery(table, 'delete')
+  }),
+
+  rpc: async (name: string, args: Row = {}): Promise<Result> => {
+    const handler = rpcHandlers.get(name);
+    if (!handler) return { data: null, error: { message: `No stub for rpc ${name}`, code: 'PGRST202' }, status: 404 };
+    return { data: await handler(args, { userId: session?.user.id ?? null }), error: null, status: 200 };
+  },
+
+  channel: (name: string) => new StubChannel(name),
+  removeChannel: (channel: StubChannel) => {
+    channels.delete(channel);
+    return Promise.resolve('ok');
+  },
+
+  auth: {
+    // Like supabase-js, reports the stored session right away
+    onAuthStateChange: (callback: (event: string, session: Session) => void) => {
+      authListeners.add(callback);
+      queueMicrotask(() => callback('INITIAL_SESSION', session));
+      return { data: { subscription: { unsubscribe: () => authListeners.delete(callback) } } };
+    },
+    signOut: async () => {
+      setSession(null);
+      return { error: null };
+    },
+    signInWithPassword: async () => ({ data: {}, error: null }),
+    signInWithOtp: async () => ({ data: {}, error: null }),
+    signUp: async () => ({ data: {}, error: null })
+  },
+
+  storage: {
+    from: () => ({
+      upload: () => ok({ path: '' }),
+      remove: () => ok([]),
+      list: () => ok([]),
+      createSignedUrls: (paths: string[]) => ok(paths.map(path => ({ path, signedUrl: `https://storage.test/${path}`, error: null })))
+    })
+  }
+};
+
+// --- Test controls ---
+
+export const seed = (table: string, rows: Row[]) => {
+  rowsOf(table).push(...rows.map(row => ({ ...row })));
+};
+
+export const getRows = (table: string): Row[] => rowsOf(table);
+
+export const onRpc = (name: string, handler: RpcHandler) => {
+  rpcHandlers.set(name, handler);
+};
+
+export const setSession = (userId: string | null) => {
+  session = userId ? { user: { id: userId } } : null;
+  authListeners.forEach(listener => listener(userId ? 'SIGNED_IN' : 'SIGNED_OUT', session));
+};
+
+export const resetSupabase = () => {
+  tables.clear();
+  rpcHandlers.clear();
+  channels.clear();
+  authListeners.clear();
+  session = null;
+};
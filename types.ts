@@ -7,15 +7,16 @@ export enum EncounterStatus {
   HIDDEN = 'HIDDEN' // Rejected or hidden
 }
 
-export type EncounterTag = 'Flechazo' | 'Cruzamos miradas' | 'Interés' | 'Curiosidad' | 'Me atraes' | 'Me gustas';
+// Stable keys, stored with the post; labels come from the i18n catalogs ("tag.<key>")
+export type EncounterTag = 'crush' | 'eye_contact' | 'interest' | 'curiosity' | 'attraction' | 'into_you';
 
 export const AVAILABLE_TAGS: EncounterTag[] = [
-  'Flechazo', 
-  'Cruzamos miradas', 
-  'Interés', 
-  'Curiosidad', 
-  'Me atraes', 
-  'Me gustas'
+  'crush', 
+  'eye_contact', 
+  'interest', 
+  'curiosity', 
+  'attraction', 
+  'into_you'
 ];
 
 export interface Location {
@@ -23,15 +24,60 @@ export interface Location {
   lng: number;
 }
 
+// Where an encounter happened when it wasn't a single spot: a route travelled (a bus ride, a walk down a street)
+// or an area (a concert crowd). The encounter's location is then the pin for it (see getShapeAnchor in utils/geo.ts).
+export type EncounterShape =
+  | { type: 'route'; points: Location[] } // At least 2 points, in order
+  | { type: 'area'; points: Location[] }; // At least 3 points, closed implicitly
+
+// A named place or a transit line an encounter can be tied to, e.g. "Starbucks Reforma 222" or "Metro Línea 2".
+// Found by name or from the location through a geocoder (services/geocodingService.ts).
+export type VenueKind = 'place' | 'transit_line';
+
+export interface Venue {
+  id: string; // Unique within a geocoder, e.g. "osm:relation/123" or "fixture:metro-2"
+  name: string;
+  kind: VenueKind;
+  location: Location;
+  address?: string; // Longer description for lists, e.g. street and neighborhood
+  path?: Location[]; // Transit lines: their course, which a post on the line has to come near
+}
+
+// A pin plus, optionally, the route or area around it
+export interface EncounterPlace {
+  location: Location;
+  shape?: EncounterShape;
+}
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export type Gender = 'male' | 'female' | 'other';
+
+export const GENDERS: Gender[] = ['male', 'female', 'other'];
+
+// Who the user wants to cross paths with. Applied both ways: a post shows only if each side fits the other's.
+export interface DiscoveryPreferences {
+  interestedIn: Gender[]; // Empty means everyone
+  minAge: number;
+  maxAge: number;
+  radiusMeters: number; // Match radius of the user's posts (see utils/discovery)
+}
+
 export interface UserProfile {
   id: string;
   name: string;
   age?: number;
-  gender?: 'male' | 'female' | 'other';
+  gender?: Gender;
   bio: string;
   quickMessage?: string; // Custom message for quick publish
   images: string[];
   coverImage?: string; // Fallback for posts without specific image
+  discovery?: DiscoveryPreferences; // Missing means open to everyone within MATCH_RADIUS
   isCurrentUser: boolean;
 }
 
@@ -41,25 +87,154 @@ export interface Encounter {
   userProfile: UserProfile; // Snapshot of the user who posted it
   title: string;
   description: string;
-  location: Location;
-  timestamp: number;
+  location: Location; // Exact for own posts and matched partners, coarsened for everyone else
+  locationAccuracyMeters?: number; // Set while the location is coarsened: the true spot is within this distance
+  shape?: EncounterShape; // Route or area; private like the exact location, so only on own posts and matched partners'
+  venue?: Venue; // Public: posts at the same venue or on the same transit line match wherever their pins are
+  timestamp: number; // When the post was published
+  editedAt?: number; // Last material edit, announced to the people who liked it (see utils/encounterEdits)
+  happenedAt: number; // When the encounter actually took place
+  timeToleranceMinutes: number; // +/- window around happenedAt used for time matching
+  expiresAt: number; // After this the post is archived (see utils/encounterPolicy)
   image?: string; // Optional image of the place/moment
-  status: EncounterStatus;
   distance?: number; // Calculated distance from current user
   tags: EncounterTag[];
+  syncPending?: boolean; // Published offline, waiting in the outbox
+}
+
+// What the owner can change after publishing
+export type EncounterContent = Pick<Encounter, 'title' | 'description' | 'tags' | 'image' | 'location' | 'shape' | 'venue' | 'happenedAt' | 'timeToleranceMinutes'>;
+
+// A published state of an encounter in its edit history. Versions outlive the post, so a deleted one
+// can be republished with its text. The location is the coarsened one, and there's no shape.
+export interface EncounterVersion extends Omit<EncounterContent, 'shape'> {
+  encounterId: string;
+  version: number; // 1 is the post as first published
+  material: boolean; // Announced to the people who had liked it
+  timestamp: number;
+}
+
+// Quota and lifecycle of an account's posts. Defaults come from the build config, admins can override them per account.
+export interface EncounterPolicy {
+  maxActivePosts: number;
+  ttlHours: number; // Lifetime of a post before it gets archived
 }
 
+// An encounter as seen by the current user. The status is derived from likes/matches, never stored.
+export interface EncounterView extends Encounter {
+  status: EncounterStatus;
+}
+
+export interface Like {
+  likerId: string;
+  encounterId: string;
+  encounterOwnerId: string;
+  timestamp: number;
+  syncPending?: boolean; // Given offline, waiting in the outbox
+}
+
+export interface Match {
+  id: string;
+  userIds: [string, string];
+  timestamp: number;
+}
+
+// Likes given or received by the current user, and their matches
+export interface LikeState {
+  likes: Like[];
+  matches: Match[];
+}
+
+// 'sending' until the server stores the message ('queued' while offline); delivered/read come from the partner's receipts
+export type MessageStatus = 'sending' | 'queued' | 'sent' | 'delivered' | 'read';
+
 export interface ChatMessage {
   id: string;
   senderId: string;
   text: string;
   timestamp: number;
+  status: MessageStatus;
 }
 
 export interface Chat {
-  encounterId: string;
+  encounterId: string; // Partner's encounter the conversation was opened from
+  matchId: string;
+  partnerId: string;
   partnerName: string;
   partnerImage: string;
   messages: ChatMessage[];
-  unreadCount: number;
 }
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'fake' | 'underage' | 'other';
+
+// In the order they are offered; labels are "report.reason.<id>" in the i18n catalogs
+export const REPORT_REASONS: ReportReason[] = ['harassment', 'inappropriate', 'fake', 'spam', 'underage', 'other'];
+
+// What is being reported: a person, optionally one of their posts or messages
+export interface ReportTarget {
+  userId: string;
+  userName: string;
+  encounterId?: string;
+  messageId?: string;
+}
+
+export interface Report {
+  id: string;
+  reporterId: string;
+  reportedUserId: string;
+  encounterId?: string;
+  messageId?: string;
+  reason: ReportReason;
+  details: string;
+  content: string; // Snapshot of the post or message, taken by the server when the report is filed
+  timestamp: number;
+}
+
+// Pending reports about one account, as shown in the moderation queue
+export interface ModerationCase {
+  userId: string;
+  userName: string;
+  isHeld: boolean; // Hidden from everyone until reviewed
+  reports: Report[];
+}
+
+export type ModerationDecision = 'allow' | 'warn' | 'block';
+
+export type ModerationReason =
+  | 'profanity'
+  | 'abuse' // Slurs, insults aimed at someone, threats
+  | 'sexual'
+  | 'phone'
+  | 'email'
+  | 'social_handle'
+  | 'url'
+  | 'spam';
+
+// Where the text will be shown: public posts are stricter than private chats between matches
+export type ModerationContext = 'encounter' | 'message';
+
+export interface ModerationResult {
+  decision: ModerationDecision;
+  reasons: ModerationReason[];
+}
+
+export type NotificationType = 'like' | 'match' | 'message' | 'expiring' | 'edited';
+
+// Labels are "notifications.type.<id>" in the i18n catalogs
+export const NOTIFICATION_TYPES: NotificationType[] = ['like', 'match', 'message', 'expiring', 'edited'];
+
+// Inbox entry. Named apart from the DOM Notification.
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  actorId?: string; // Who liked, matched or wrote
+  encounterId?: string;
+  matchId?: string;
+  timestamp: number;
+  read: boolean;
+}
+
+// Types the user turned off are neither stored nor pushed
+export type NotificationPreferences = Record<NotificationType, boolean>;
@@ -0,0 +1,18 @@
+import { Chat, ChatMessage } from '../types';
+
+export const SYSTEM_SENDER_ID = 'system';
+
+// Unread = partner messages without a read receipt
+export const getUnreadCount = (chat: Chat, userId: string): number => {
+  return chat.messages.filter(m => m.senderId !== userId && m.senderId !== SYSTEM_SENDER_ID && m.status !== 'read').length;
+};
+
+export const getTotalUnreadCount = (chats: Chat[], userId: string): number => {
+  return chats.reduce((acc, chat) => acc + getUnreadCount(chat, userId), 0);
+};
+
+// Inserts or replaces a message by id, keeping the list ordered by time
+export const upsertMessage = (messages: ChatMessage[], message: ChatMessage): ChatMessage[] => {
+  const others = messages.filter(m => m.id !== message.id);
+  return [...others, message].sort((a, b) => a.timestamp - b.timestamp);
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { DiscoveryPreferences, GENDERS } from '../types';
+import { DEFAULT_DISCOVERY, fitsPreferences, getMatchRadius, isMutualFit, MAX_AGE, MAX_MATCH_RADIUS, MIN_AGE, MIN_MATCH_RADIUS, normalizeDiscovery } from './discovery';
+import { makeProfile } from '../test/fixtures';
+
+const prefs = (overrides: Partial<DiscoveryPreferences>): DiscoveryPreferences => ({ ...DEFAULT_DISCOVERY, ...overrides });
+
+describe('fitsPreferences', () => {
+  it('lets everyone through with the defaults, even without age or gender', () => {
+    expect(fitsPreferences(DEFAULT_DISCOVERY, makeProfile())).toBe(true);
+    expect(fitsPreferences(DEFAULT_DISCOVERY, makeProfile({ age: 60, gender: 'other' }))).toBe(true);
+  });
+
+  it('filters by gender', () => {
+    const men = prefs({ interestedIn: ['male'] });
+    expect(fitsPreferences(men, makeProfile({ gender: 'male' }))).toBe(true);
+    expect(fitsPreferences(men, makeProfile({ gender: 'female' }))).toBe(false);
+    expect(fitsPreferences(men, makeProfile())).toBe(false);
+  });
+
+  it('filters by age, bounds included', () => {
+    const range = prefs({ minAge: 25, maxAge: 35 });
+    expect(fitsPreferences(range, makeProfile({ age: 25 }))).toBe(true);
+    expect(fitsPreferences(range, makeProfile({ age: 35 }))).toBe(true);
+    expect(fitsPreferences(range, makeProfile({ age: 36 }))).toBe(false);
+    expect(fitsPreferences(range, makeProfile())).toBe(false);
+  });
+});
+
+describe('isMutualFit', () => {
+  it('needs both sides to fit', () => {
+    const ana = makeProfile({ gender: 'female', age: 30, discovery: prefs({ interestedIn: ['male'] }) });
+    const luis = makeProfile({ id: 'luis', gender: 'male', age: 32, discovery: prefs({ interestedIn: ['female'], maxAge: 28 }) });
+    expect(isMutualFit(ana, luis)).toBe(false);
+    expect(isMutualFit(ana, { ...luis, discovery: prefs({ interestedIn: ['female'] }) })).toBe(true);
+  });
+
+  it('is symmetric', () => {
+    const gender = fc.option(fc.constantFrom(...GENDERS), { nil: undefined });
+    const age = fc.option(fc.integer({ min: MIN_AGE, max: MAX_AGE }), { nil: undefined });
+    const discovery = fc.record({
+      interestedIn: fc.subarray(GENDERS),
+      minAge: fc.integer({ min: MIN_AGE, max: MAX_AGE }),
+      maxAge: fc.integer({ min: MIN_AGE, max: MAX_AGE }),
+      radiusMeters: fc.integer({ min: MIN_MATCH_RADIUS, max: MAX_MATCH_RADIUS })
+    });
+    const profile = fc.record({ gender, age, discovery }).map(p => makeProfile(p));
+    fc.assert(fc.property(profile, profile, (a, b) => isMutualFit(a, b) === isMutualFit(b, a)));
+  });
+});
+
+describe('match radius', () => {
+  it('is the smaller of both, MATCH_RADIUS by default', () => {
+    expect(getMatchRadius(makeProfile(), makeProfile())).toBe(150);
+    expect(getMatchRadius(makeProfile({ discovery: prefs({ radiusMeters: 400 }) }), makeProfile({ discovery: prefs({ radiusMeters: 80 }) }))).toBe(80);
+  });
+
+  it('is kept within bounds and ages in order when saved', () => {
+    expect(normalizeDiscovery(prefs({ radiusMeters: 5000, minAge: 40, maxAge: 30 }))).toEqual(prefs({ radiusMeters: MAX_MATCH_RADIUS, minAge: 40, maxAge: 40 }));
+    expect(normalizeDiscovery(prefs({ radiusMeters: 10, minAge: 12, maxAge: 120, interestedIn: ['male', 'male'] }))).toEqual(prefs({ radiusMeters: MIN_MATCH_RADIUS, interestedIn: ['male'] }));
+  });
+});
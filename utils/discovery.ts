@@ -0,0 +1,48 @@
+import { DiscoveryPreferences, UserProfile } from '../types';
+import { MATCH_RADIUS } from './geo';
+
+// Bounds of the custom match radius, keep in sync with 0011_discovery_preferences.sql
+export const MIN_MATCH_RADIUS = 50;
+export const MAX_MATCH_RADIUS = 500;
+export const MIN_AGE = 18;
+export const MAX_AGE = 99;
+
+export const DEFAULT_DISCOVERY: DiscoveryPreferences = {
+  interestedIn: [],
+  minAge: MIN_AGE,
+  maxAge: MAX_AGE,
+  radiusMeters: MATCH_RADIUS
+};
+
+export const getDiscovery = (profile: UserProfile): DiscoveryPreferences => profile.discovery ?? DEFAULT_DISCOVERY;
+
+// Keeps edited preferences valid: ages inside [MIN_AGE, MAX_AGE] and in order, radius within bounds
+export const normalizeDiscovery = (preferences: DiscoveryPreferences): DiscoveryPreferences => {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value) || min));
+  const minAge = clamp(preferences.minAge, MIN_AGE, MAX_AGE);
+  return {
+    interestedIn: [...new Set(preferences.interestedIn)],
+    minAge,
+    maxAge: clamp(preferences.maxAge, minAge, MAX_AGE),
+    radiusMeters: clamp(preferences.radiusMeters, MIN_MATCH_RADIUS, MAX_MATCH_RADIUS)
+  };
+};
+
+const isOpenAgeRange = (preferences: DiscoveryPreferences) => preferences.minAge <= MIN_AGE && preferences.maxAge >= MAX_AGE;
+
+// Whether someone fits one side's preferences. Without a known gender or age, only open preferences let them through.
+export const fitsPreferences = (preferences: DiscoveryPreferences, other: UserProfile): boolean => {
+  const genderFits = preferences.interestedIn.length === 0 || (!!other.gender && preferences.interestedIn.includes(other.gender));
+  const ageFits = isOpenAgeRange(preferences) || (other.age !== undefined && other.age >= preferences.minAge && other.age <= preferences.maxAge);
+  return genderFits && ageFits;
+};
+
+// Each side fits what the other is looking for
+export const isMutualFit = (a: UserProfile, b: UserProfile): boolean => {
+  return fitsPreferences(getDiscovery(a), b) && fitsPreferences(getDiscovery(b), a);
+};
+
+// Two posts coincide within the smaller of their authors' radii
+export const getMatchRadius = (a: UserProfile, b: UserProfile): number => {
+  return Math.min(getDiscovery(a).radiusMeters, getDiscovery(b).radiusMeters);
+};
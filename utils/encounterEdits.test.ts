@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { getEditDistance, getEncounterChanges, isMaterialEdit } from './encounterEdits';
+import { makeEncounter, offsetMeters, ORIGIN } from '../test/fixtures';
+
+const before = makeEncounter({ title: 'Girl on the metro', description: 'You were reading a green book at Insurgentes', tags: ['eye_contact'] });
+
+describe('getEditDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(getEditDistance('kitten', 'sitting')).toBe(3);
+    expect(getEditDistance('', 'abc')).toBe(3);
+    expect(getEditDistance('same', 'same')).toBe(0);
+  });
+});
+
+describe('getEncounterChanges', () => {
+  it('lists every field that differs', () => {
+    expect(getEncounterChanges(before, before)).toEqual([]);
+    expect(getEncounterChanges(before, { ...before, title: 'Girl on the metrobus', location: offsetMeters(ORIGIN, 10, 0) })).toEqual(['title', 'location']);
+  });
+
+  it('ignores the order of tags', () => {
+    const tagged = { ...before, tags: ['eye_contact', 'crush'] as typeof before.tags };
+    expect(getEncounterChanges(tagged, { ...tagged, tags: ['crush', 'eye_contact'] })).toEqual([]);
+  });
+});
+
+describe('isMaterialEdit', () => {
+  it('lets typo fixes and spacing through quietly', () => {
+    expect(isMaterialEdit(before, { ...before, title: 'Girl on teh metro' })).toBe(false);
+    expect(isMaterialEdit(before, { ...before, description: '  You were reading a green book at  Insurgentes.' })).toBe(false);
+  });
+
+  it('announces rewritten text, new tags, photos and venues', () => {
+    expect(isMaterialEdit(before, { ...before, description: 'You were reading a red book at Chapultepec' })).toBe(true);
+    expect(isMaterialEdit(before, { ...before, tags: ['crush'] })).toBe(true);
+    expect(isMaterialEdit(before, { ...before, image: 'user-1/photo.jpg' })).toBe(true);
+    expect(isMaterialEdit(before, { ...before, venue: { id: 'venue:line', name: 'Line 1', kind: 'transit_line', location: ORIGIN } })).toBe(true);
+  });
+
+  it('only announces moves and time shifts others would notice', () => {
+    expect(isMaterialEdit(before, { ...before, location: offsetMeters(before.location, 100, 0) })).toBe(false);
+    expect(isMaterialEdit(before, { ...before, location: offsetMeters(before.location, 800, 0) })).toBe(true);
+    expect(isMaterialEdit(before, { ...before, happenedAt: before.happenedAt - 10 * 60000 })).toBe(false);
+    expect(isMaterialEdit(before, { ...before, happenedAt: before.happenedAt - 3 * 3600000 })).toBe(true);
+  });
+});
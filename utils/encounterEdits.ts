@@ -0,0 +1,59 @@
+import { EncounterContent } from '../types';
+import { getDistanceInMeters, LOCATION_FUZZ_METERS } from './geo';
+
+export type EncounterChange = 'title' | 'description' | 'tags' | 'image' | 'location' | 'venue' | 'time';
+
+// Labels are "edit.change.<id>" in the i18n catalogs
+export const ENCOUNTER_CHANGES: EncounterChange[] = ['title', 'description', 'tags', 'image', 'location', 'venue', 'time'];
+
+export const TYPO_MAX_EDITS = 2; // Character edits a text can take before it reads differently
+const MATERIAL_MOVE_METERS = LOCATION_FUZZ_METERS; // Less than a cell of the coarsened grid goes unseen
+const MATERIAL_TIME_SHIFT_MS = 30 * 60 * 1000;
+
+// Levenshtein distance, two rows at a time
+export const getEditDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isRewritten = (before: string, after: string) =>
+  getEditDistance(normalizeText(before), normalizeText(after)) > TYPO_MAX_EDITS;
+
+const sameTags = (a: EncounterContent, b: EncounterContent) =>
+  a.tags.length === b.tags.length && a.tags.every(tag => b.tags.includes(tag));
+
+// Everything that differs, however little
+export const getEncounterChanges = (before: EncounterContent, after: EncounterContent): EncounterChange[] => {
+  const changed: Record<EncounterChange, boolean> = {
+    title: before.title !== after.title,
+    description: before.description !== after.description,
+    tags: !sameTags(before, after),
+    image: before.image !== after.image,
+    location: before.location.lat !== after.location.lat || before.location.lng !== after.location.lng ||
+      JSON.stringify(before.shape ?? null) !== JSON.stringify(after.shape ?? null),
+    venue: before.venue?.id !== after.venue?.id,
+    time: before.happenedAt !== after.happenedAt || before.timeToleranceMinutes !== after.timeToleranceMinutes
+  };
+  return ENCOUNTER_CHANGES.filter(change => changed[change]);
+};
+
+// Whether the people who liked the post should hear about the edit: fixing a typo, nudging the pin
+// inside its coarsened cell or the time by a few minutes doesn't change what they liked
+// The server decides with the same rules (is_material_edit in 0014_encounter_versions.sql); keep them in step
+export const isMaterialEdit = (before: EncounterContent, after: EncounterContent): boolean =>
+  isRewritten(before.title, after.title) ||
+  isRewritten(before.description, after.description) ||
+  !sameTags(before, after) ||
+  before.image !== after.image ||
+  before.venue?.id !== after.venue?.id ||
+  getDistanceInMeters(before.location.lat, before.location.lng, after.location.lat, after.location.lng) > MATERIAL_MOVE_METERS ||
+  Math.abs(before.happenedAt - after.happenedAt) > MATERIAL_TIME_SHIFT_MS;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { canPublish, DEFAULT_ENCOUNTER_POLICY, formatTimeLeft, getActiveEncounters, getExpiresAt } from './encounterPolicy';
+import { makeEncounter, NOW } from '../test/fixtures';
+
+const HOUR_MS = 3600000;
+const posts = (count: number, expiresAt: number) => Array.from({ length: count }, () => makeEncounter({ expiresAt }));
+
+describe('post quota', () => {
+  const policy = { ...DEFAULT_ENCOUNTER_POLICY, maxActivePosts: 5 };
+
+  it('allows publishing below the limit', () => {
+    expect(canPublish(posts(4, NOW + HOUR_MS), policy, NOW)).toBe(true);
+  });
+
+  it('refuses a sixth active post', () => {
+    expect(canPublish(posts(5, NOW + HOUR_MS), policy, NOW)).toBe(false);
+  });
+
+  it('does not count archived posts', () => {
+    const mine = [...posts(4, NOW + HOUR_MS), ...posts(3, NOW - HOUR_MS)];
+    expect(getActiveEncounters(mine, NOW)).toHaveLength(4);
+    expect(canPublish(mine, policy, NOW)).toBe(true);
+  });
+
+  it('archives a post at its expiry time', () => {
+    const [post] = posts(1, getExpiresAt(NOW, { maxActivePosts: 5, ttlHours: 24 }));
+    expect(getActiveEncounters([post], NOW + 24 * HOUR_MS - 1)).toHaveLength(1);
+    expect(getActiveEncounters([post], NOW + 24 * HOUR_MS)).toHaveLength(0);
+  });
+});
+
+describe('formatTimeLeft', () => {
+  it('shows the two largest units', () => {
+    expect(formatTimeLeft((3 * 24 + 4) * HOUR_MS)).toBe('3d 4h');
+    expect(formatTimeLeft(5 * HOUR_MS + 20 * 60000)).toBe('5h 20m');
+    expect(formatTimeLeft(12 * 60000)).toBe('12m');
+    expect(formatTimeLeft(-1)).toBe('0m');
+  });
+});
@@ -0,0 +1,44 @@
+import { Encounter, EncounterPolicy } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Until the server's policy arrives (encounter_settings, 0018_encounter_policy_settings.sql), and when it
+// can't be read. The server enforces its own values either way.
+export const DEFAULT_ENCOUNTER_POLICY: EncounterPolicy = {
+  maxActivePosts: 5,
+  ttlHours: 7 * 24
+};
+
+export type EncounterLifecycle = 'active' | 'archived';
+
+export const getExpiresAt = (publishedAt: number, policy: EncounterPolicy = DEFAULT_ENCOUNTER_POLICY): number => {
+  return publishedAt + policy.ttlHours * HOUR_MS;
+};
+
+// Archived posts are hidden from everyone else and free a quota slot; their matches and chats stay
+export const getLifecycle = (encounter: Encounter, now: number = Date.now()): EncounterLifecycle => {
+  return encounter.expiresAt > now ? 'active' : 'archived';
+};
+
+export const getActiveEncounters = <T extends Encounter>(encounters: T[], now: number = Date.now()): T[] => {
+  return encounters.filter(e => getLifecycle(e, now) === 'active');
+};
+
+export const getArchivedEncounters = <T extends Encounter>(encounters: T[], now: number = Date.now()): T[] => {
+  return encounters.filter(e => getLifecycle(e, now) === 'archived');
+};
+
+export const canPublish = (myEncounters: Encounter[], policy: EncounterPolicy, now: number = Date.now()): boolean => {
+  return getActiveEncounters(myEncounters, now).length < policy.maxActivePosts;
+};
+
+// Short countdown for cards: "3d 4h", "5h 20m", "12m"
+export const formatTimeLeft = (ms: number): string => {
+  const totalMinutes = Math.max(0, Math.ceil(ms / 60000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { EncounterStatus, Like, LikeState, Match } from '../types';
+import { applyLike, deriveEncounterStatus, EMPTY_LIKE_STATE, removeMatch } from './encounterStatus';
+import { makeEncounter, makeProfile, NOW } from '../test/fixtures';
+
+const me = makeProfile({ id: 'user-me' });
+const them = makeProfile({ id: 'user-them', name: 'Luis' });
+const mine = makeEncounter({ userProfile: me });
+const theirs = makeEncounter({ userProfile: them });
+
+const like = (liker: string, encounter = liker === me.id ? theirs : mine): Like => ({
+  likerId: liker,
+  encounterId: encounter.id,
+  encounterOwnerId: encounter.userId,
+  timestamp: NOW
+});
+const match: Match = { id: 'match-1', userIds: [me.id, them.id], timestamp: NOW };
+const statusOf = (state: LikeState, hiddenIds: string[] = []) => deriveEncounterStatus(theirs, me.id, state, hiddenIds);
+
+// The like/match state machine, as seen from my side on their post
+describe('encounter status', () => {
+  it('starts as PENDING', () => {
+    expect(statusOf(EMPTY_LIKE_STATE)).toBe(EncounterStatus.PENDING);
+  });
+
+  it('goes to LIKED_BY_ME when I like it', () => {
+    expect(statusOf(applyLike(EMPTY_LIKE_STATE, like(me.id), null))).toBe(EncounterStatus.LIKED_BY_ME);
+  });
+
+  it('shows LIKED_BY_THEM when they liked any of my posts', () => {
+    expect(statusOf({ likes: [like(them.id)], matches: [] })).toBe(EncounterStatus.LIKED_BY_THEM);
+  });
+
+  it('becomes MATCHED at once when I like back', () => {
+    const likedByThem: LikeState = { likes: [like(them.id)], matches: [] };
+    const state = applyLike(likedByThem, like(me.id), match);
+    expect(statusOf(state)).toBe(EncounterStatus.MATCHED);
+    expect(state.likes).toHaveLength(2);
+  });
+
+  it('does not duplicate a like or a match settled twice (outbox replay)', () => {
+    const once = applyLike(EMPTY_LIKE_STATE, { ...like(me.id), syncPending: true }, null);
+    const twice = applyLike(once, like(me.id), match);
+    expect(twice.likes).toHaveLength(1);
+    expect(twice.likes[0].syncPending).toBeUndefined();
+    expect(applyLike(twice, like(me.id), match).matches).toHaveLength(1);
+  });
+
+  it('goes back to PENDING after unmatching', () => {
+    const matched = applyLike({ likes: [like(them.id)], matches: [] }, like(me.id), match);
+    const state = removeMatch(matched, me.id, them.id);
+    expect(statusOf(state)).toBe(EncounterStatus.PENDING);
+    expect(state).toEqual(EMPTY_LIKE_STATE);
+  });
+
+  it('keeps likes with other people when unmatching', () => {
+    const other = makeEncounter({ userProfile: makeProfile({ id: 'user-other' }) });
+    const state = removeMatch({ likes: [like(me.id), like(me.id, other)], matches: [match] }, me.id, them.id);
+    expect(state.likes).toEqual([like(me.id, other)]);
+  });
+
+  it('is HIDDEN when I hid it, unless we matched', () => {
+    expect(statusOf({ likes: [like(them.id)], matches: [] }, [theirs.id])).toBe(EncounterStatus.HIDDEN);
+    expect(statusOf({ likes: [], matches: [match] }, [theirs.id])).toBe(EncounterStatus.MATCHED);
+  });
+});
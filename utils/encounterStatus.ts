@@ -0,0 +1,51 @@
+import { Encounter, EncounterStatus, EncounterView, Like, LikeState, Match } from '../types';
+
+export const EMPTY_LIKE_STATE: LikeState = { likes: [], matches: [] };
+
+// A like as settled by the server. When the owner had already liked one of the liker's posts, like_encounter
+// returns the match at once and the encounter goes straight to MATCHED.
+export const applyLike = (state: LikeState, like: Like, match: Match | null): LikeState => {
+  const existing = state.likes.find(l => l.likerId === like.likerId && l.encounterId === like.encounterId);
+  return {
+    likes: [...state.likes.filter(l => l !== existing), { ...(existing ?? like), syncPending: like.syncPending }],
+    matches: match && !state.matches.some(m => m.id === match.id) ? [...state.matches, match] : state.matches
+  };
+};
+
+// Likes in both directions go too, so the partner's posts are PENDING again
+export const removeMatch = (state: LikeState, userId: string, partnerId: string): LikeState => {
+  const isBetweenUs = (likerId: string, ownerId: string) =>
+    (likerId === userId && ownerId === partnerId) || (likerId === partnerId && ownerId === userId);
+  return {
+    likes: state.likes.filter(l => !isBetweenUs(l.likerId, l.encounterOwnerId)),
+    matches: state.matches.filter(m => !m.userIds.includes(partnerId))
+  };
+};
+
+export const isMatchedWith = (state: LikeState, viewerId: string, partnerId: string): boolean => {
+  return state.matches.some(m => m.userIds.includes(viewerId) && m.userIds.includes(partnerId));
+};
+
+// Status of someone else's encounter from the point of view of viewerId
+export const deriveEncounterStatus = (
+  encounter: Encounter,
+  viewerId: string,
+  state: LikeState,
+  hiddenIds: string[]
+): EncounterStatus => {
+  if (isMatchedWith(state, viewerId, encounter.userId)) return EncounterStatus.MATCHED;
+  if (hiddenIds.includes(encounter.id)) return EncounterStatus.HIDDEN;
+  if (state.likes.some(l => l.likerId === viewerId && l.encounterId === encounter.id)) return EncounterStatus.LIKED_BY_ME;
+  // They liked any of my posts
+  if (state.likes.some(l => l.likerId === encounter.userId && l.encounterOwnerId === viewerId)) return EncounterStatus.LIKED_BY_THEM;
+  return EncounterStatus.PENDING;
+};
+
+export const toEncounterViews = (
+  encounters: Encounter[],
+  viewerId: string,
+  state: LikeState,
+  hiddenIds: string[]
+): EncounterView[] => {
+  return encounters.map(e => ({ ...e, status: deriveEncounterStatus(e, viewerId, state, hiddenIds) }));
+};
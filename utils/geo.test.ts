@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { CLUSTER_RADIUS_PX, clusterByScreenDistance, createHeatmap, createSpatialIndex, getDistanceInMeters, getPlaceDistanceMeters, getShapeAnchor, getShapeRadiusMeters, isPlaceAtVenue, projectToPixels, spiderfy, unprojectFromPixels } from './geo';
+import { EncounterShape, Venue } from '../types';
+import { offsetMeters, ORIGIN } from '../test/fixtures';
+
+// Latitudes short of the poles, where Web Mercator and the index's cos() blow up
+const latitude = fc.double({ min: -80, max: 80, noNaN: true });
+const longitude = fc.double({ min: -179, max: 179, noNaN: true });
+const point = fc.record({ lat: latitude, lng: longitude });
+
+// Points within a few kilometers of the origin, where clustering and radius queries matter
+const nearbyPoint = fc.record({
+  lat: fc.double({ min: ORIGIN.lat - 0.02, max: ORIGIN.lat + 0.02, noNaN: true }),
+  lng: fc.double({ min: ORIGIN.lng - 0.02, max: ORIGIN.lng + 0.02, noNaN: true })
+});
+
+const distance = (a: { lat: number, lng: number }, b: { lat: number, lng: number }) => getDistanceInMeters(a.lat, a.lng, b.lat, b.lng);
+
+describe('getDistanceInMeters', () => {
+  it('is zero from a point to itself', () => {
+    fc.assert(fc.property(point, p => distance(p, p) === 0));
+  });
+
+  it('is symmetric and never negative', () => {
+    fc.assert(fc.property(point, point, (a, b) => {
+      const d = distance(a, b);
+      return d >= 0 && Math.abs(d - distance(b, a)) < 1e-6;
+    }));
+  });
+
+  it('satisfies the triangle inequality', () => {
+    fc.assert(fc.property(point, point, point, (a, b, c) => distance(a, c) <= distance(a, b) + distance(b, c) + 1e-6));
+  });
+
+  it('never exceeds half the circumference', () => {
+    fc.assert(fc.property(point, point, (a, b) => distance(a, b) <= Math.PI * 6371e3 + 1e-6));
+  });
+
+  it('measures about 111km per degree of latitude', () => {
+    expect(getDistanceInMeters(0, 0, 1, 0)).toBeCloseTo(111195, -1);
+    expect(getDistanceInMeters(ORIGIN.lat, ORIGIN.lng, ORIGIN.lat + 1, ORIGIN.lng)).toBeCloseTo(111195, -1);
+  });
+});
+
+describe('createSpatialIndex', () => {
+  it('returns the same items as scanning every one of them', () => {
+    fc.assert(fc.property(
+      fc.array(nearbyPoint, { maxLength: 60 }),
+      nearbyPoint,
+      fc.integer({ min: 10, max: 2000 }),
+      (points, center, radius) => {
+        const index = createSpatialIndex(points, p => p);
+        const expected = points.filter(p => distance(center, p) <= radius);
+        const found = index.queryRadius(center, radius);
+        return found.length === expected.length && expected.every(p => found.includes(p));
+      }
+    ));
+  });
+});
+
+describe('clusterByScreenDistance', () => {
+  const zoom = fc.integer({ min: 12, max: 18 });
+  const items = fc.array(nearbyPoint, { maxLength: 40 }).map(points => points.map((location, i) => ({ id: `p${i}`, location })));
+  const cluster = (list: { id: string; location: { lat: number; lng: number } }[], z: number) =>
+    clusterByScreenDistance(list, i => i.location, i => i.id, z);
+  const pixelDistance = (a: { lat: number, lng: number }, b: { lat: number, lng: number }, z: number) => {
+    const pa = projectToPixels(a, z);
+    const pb = projectToPixels(b, z);
+    return Math.hypot(pa.x - pb.x, pa.y - pb.y);
+  };
+
+  it('puts every item in exactly one cluster or single', () => {
+    fc.assert(fc.property(items, zoom, (list, z) => {
+      const { clusters, singles } = cluster(list, z);
+      const placed = [...clusters.flatMap(c => c.items), ...singles];
+      return placed.length === list.length && new Set(placed).size === list.length && clusters.every(c => c.items.length > 1);
+    }));
+  });
+
+  it('only groups markers that overlap the first one of the cluster', () => {
+    fc.assert(fc.property(items, zoom, (list, z) => {
+      const { clusters } = cluster(list, z);
+      return clusters.every(c => c.items.every(item => pixelDistance(c.items[0].location, item.location, z) < 40));
+    }));
+  });
+
+  it('leaves no two overlapping markers unclustered', () => {
+    fc.assert(fc.property(items, zoom, (list, z) => {
+      const { singles } = cluster(list, z);
+      return singles.every((a, i) => singles.slice(i + 1).every(b => pixelDistance(a.location, b.location, z) >= 40));
+    }));
+  });
+
+  it('places a cluster at the mean position of its items', () => {
+    fc.assert(fc.property(items, zoom, (list, z) => {
+      const { clusters } = cluster(list, z);
+      return clusters.every(c => Math.abs(c.lat - c.items.reduce((sum, i) => sum + i.location.lat, 0) / c.items.length) < 1e-9);
+    }));
+  });
+});
+
+describe('unprojectFromPixels', () => {
+  it('inverts projectToPixels', () => {
+    fc.assert(fc.property(nearbyPoint, fc.integer({ min: 0, max: 18 }), (point, z) => {
+      const back = unprojectFromPixels(projectToPixels(point, z), z);
+      return Math.abs(back.lat - point.lat) < 1e-9 && Math.abs(back.lng - point.lng) < 1e-9;
+    }));
+  });
+});
+
+describe('spiderfy', () => {
+  const zoom = 18;
+  const pixels = (center: { lat: number, lng: number }, count: number) => spiderfy(center, count, zoom).map(p => projectToPixels(p, zoom));
+
+  it('keeps every pin clear of the others and of the center', () => {
+    fc.assert(fc.property(nearbyPoint, fc.integer({ min: 2, max: 60 }), (center, count) => {
+      const origin = projectToPixels(center, zoom);
+      const spread = pixels(center, count);
+      return spread.length === count
+        && spread.every(p => Math.hypot(p.x - origin.x, p.y - origin.y) >= CLUSTER_RADIUS_PX)
+        && spread.every((a, i) => spread.slice(i + 1).every(b => Math.hypot(a.x - b.x, a.y - b.y) >= CLUSTER_RADIUS_PX));
+    }));
+  });
+
+  it('puts a few pins on a circle', () => {
+    const origin = projectToPixels(ORIGIN, zoom);
+    const radii = pixels(ORIGIN, 5).map(p => Math.hypot(p.x - origin.x, p.y - origin.y));
+    radii.forEach(r => expect(r).toBeCloseTo(radii[0], 6));
+  });
+});
+
+describe('createHeatmap', () => {
+  const zoom = fc.integer({ min: 12, max: 18 });
+  const points = fc.array(nearbyPoint, { maxLength: 40 });
+
+  it('counts every item once', () => {
+    fc.assert(fc.property(points, zoom, (list, z) =>
+      createHeatmap(list, p => p, z).reduce((sum, c) => sum + c.count, 0) === list.length
+    ));
+  });
+
+  it('scales intensity to the busiest cell', () => {
+    const busy = [ORIGIN, ORIGIN, ORIGIN, ORIGIN];
+    const quiet = offsetMeters(ORIGIN, 2000, 0);
+    const cells = createHeatmap([...busy, quiet], p => p, 16);
+    expect(cells.map(c => [c.count, c.intensity])).toEqual([[4, 1], [1, 0.25]]);
+  });
+});
+
+describe('getPlaceDistanceMeters', () => {
+  // 1km east-west street through the origin, and a 200m square block north of it
+  const street: EncounterShape = { type: 'route', points: [offsetMeters(ORIGIN, 0, -500), offsetMeters(ORIGIN, 0, 500)] };
+  const block: EncounterShape = {
+    type: 'area',
+    points: [offsetMeters(ORIGIN, 100, -100), offsetMeters(ORIGIN, 100, 100), offsetMeters(ORIGIN, 300, 100), offsetMeters(ORIGIN, 300, -100)]
+  };
+  const at = (location: { lat: number, lng: number }) => ({ location });
+
+  it('is the distance between the pins for plain points', () => {
+    fc.assert(fc.property(nearbyPoint, nearbyPoint, (a, b) => getPlaceDistanceMeters(at(a), at(b)) === distance(a, b)));
+  });
+
+  it('measures to the nearest part of a route', () => {
+    const route = { location: ORIGIN, shape: street };
+    expect(getPlaceDistanceMeters(route, at(offsetMeters(ORIGIN, 100, 450)))).toBeCloseTo(100, 0);
+    expect(getPlaceDistanceMeters(at(offsetMeters(ORIGIN, 0, 600)), route)).toBeCloseTo(100, 0);
+  });
+
+  it('is never farther than any point of the route', () => {
+    fc.assert(fc.property(nearbyPoint, p => getPlaceDistanceMeters({ location: ORIGIN, shape: street }, at(p)) <=
+      Math.min(...street.points.map(q => distance(p, q))) + 1));
+  });
+
+  it('is zero for routes that cross and for anything inside an area', () => {
+    const avenue: EncounterShape = { type: 'route', points: [offsetMeters(ORIGIN, -300, 200), offsetMeters(ORIGIN, 300, 200)] };
+    expect(getPlaceDistanceMeters({ location: ORIGIN, shape: street }, { location: ORIGIN, shape: avenue })).toBe(0);
+    expect(getPlaceDistanceMeters({ location: ORIGIN, shape: block }, at(offsetMeters(ORIGIN, 200, 0)))).toBe(0);
+  });
+
+  it('measures from outside an area to its edge', () => {
+    expect(getPlaceDistanceMeters({ location: ORIGIN, shape: block }, at(ORIGIN))).toBeCloseTo(100, 0);
+    expect(getPlaceDistanceMeters({ location: ORIGIN, shape: street }, { location: ORIGIN, shape: block })).toBeCloseTo(100, 0);
+  });
+});
+
+describe('isPlaceAtVenue', () => {
+  const cafe: Venue = { id: 'osm:node/1', name: 'Café', kind: 'place', location: ORIGIN };
+  const line: Venue = {
+    id: 'osm:relation/2', name: 'Línea 1', kind: 'transit_line', location: ORIGIN,
+    path: [offsetMeters(ORIGIN, 0, -2000), offsetMeters(ORIGIN, 0, 2000)]
+  };
+
+  it('takes posts within 300 m of a place', () => {
+    expect(isPlaceAtVenue({ location: offsetMeters(ORIGIN, 250, 0) }, cafe)).toBe(true);
+    expect(isPlaceAtVenue({ location: offsetMeters(ORIGIN, 350, 0) }, cafe)).toBe(false);
+  });
+
+  it('measures to any part of a line, not to its pin', () => {
+    expect(isPlaceAtVenue({ location: offsetMeters(ORIGIN, 100, 1800) }, line)).toBe(true);
+    expect(isPlaceAtVenue({ location: offsetMeters(ORIGIN, 500, 0) }, line)).toBe(false);
+  });
+
+  it('leaves lines without their path to the server', () => {
+    expect(isPlaceAtVenue({ location: offsetMeters(ORIGIN, 5000, 0) }, { ...line, path: undefined })).toBe(true);
+  });
+});
+
+describe('getShapeAnchor', () => {
+  it('pins a route halfway along it', () => {
+    const route: EncounterShape = { type: 'route', points: [ORIGIN, offsetMeters(ORIGIN, 0, 300), offsetMeters(ORIGIN, 100, 300)] };
+    expect(distance(getShapeAnchor(route), offsetMeters(ORIGIN, 0, 200))).toBeLessThan(1);
+  });
+
+  it('keeps every point of the shape within its radius of the pin', () => {
+    fc.assert(fc.property(fc.array(nearbyPoint, { minLength: 3, maxLength: 10 }), fc.constantFrom('route' as const, 'area' as const), (points, type) => {
+      const shape: EncounterShape = { type, points };
+      const place = { location: getShapeAnchor(shape), shape };
+      const radius = getShapeRadiusMeters(place);
+      return points.every(p => distance(place.location, p) <= radius + 1e-6);
+    }));
+  });
+});
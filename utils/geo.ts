@@ -1,3 +1,5 @@
+import { Bounds, Encounter, EncounterPlace, EncounterShape, Location, Venue } from '../types';
+
 // Haversine formula to calculate distance in meters
 export const MATCH_RADIUS = 150; // Meters to consider a "nearby" encounter relevant to a post
 
@@ -15,4 +17,409 @@ export const getDistanceInMeters = (lat1: number, lon1: number, lat2: number, lo
   const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 
   return R * c;
-};
\ No newline at end of file
+};
+
+// Point inside a disc of radiusDegrees around (lat, lng), uniformly distributed for u, v in [0, 1)
+export const offsetLocation = (lat: number, lng: number, radiusDegrees: number, u: number, v: number): { lat: number, lng: number } => {
+  const w = radiusDegrees * Math.sqrt(u);
+  const t = 2 * Math.PI * v;
+  const x = w * Math.cos(t);
+  const y = w * Math.sin(t);
+
+  // Adjust for longitude shrinking
+  const xAdjusted = x / Math.cos(lat * (Math.PI / 180));
+
+  return {
+    lat: lat + y,
+    lng: lng + xAdjusted
+  };
+};
+
+// --- Spatial index ---
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+export interface SpatialIndex<T> {
+  size: number;
+  queryRadius: (center: { lat: number, lng: number }, radiusMeters: number) => T[];
+}
+
+// Uniform grid of square cells (in degrees) so radius queries only scan nearby buckets instead of every item.
+// Does not handle wrapping across the antimeridian.
+export const createSpatialIndex = <T>(
+  items: T[],
+  getLocation: (item: T) => { lat: number, lng: number },
+  cellSizeMeters: number = MATCH_RADIUS
+): SpatialIndex<T> => {
+  const cellDegrees = cellSizeMeters / METERS_PER_DEGREE_LAT;
+  const cells = new Map<string, T[]>();
+  const cellKey = (i: number, j: number) => `${i}:${j}`;
+
+  items.forEach(item => {
+    const { lat, lng } = getLocation(item);
+    const key = cellKey(Math.floor(lat / cellDegrees), Math.floor(lng / cellDegrees));
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(item);
+    else cells.set(key, [item]);
+  });
+
+  const queryRadius = (center: { lat: number, lng: number }, radiusMeters: number): T[] => {
+    const deltaLat = radiusMeters / METERS_PER_DEGREE_LAT;
+    // A degree of longitude is narrowest at the bbox edge farthest from the equator
+    const widestLat = Math.min(89, Math.abs(center.lat) + deltaLat);
+    const deltaLng = radiusMeters / (METERS_PER_DEGREE_LAT * Math.cos(widestLat * Math.PI / 180));
+
+    const result: T[] = [];
+    for (let i = Math.floor((center.lat - deltaLat) / cellDegrees); i <= Math.floor((center.lat + deltaLat) / cellDegrees); i++) {
+      for (let j = Math.floor((center.lng - deltaLng) / cellDegrees); j <= Math.floor((center.lng + deltaLng) / cellDegrees); j++) {
+        cells.get(cellKey(i, j))?.forEach(item => {
+          const { lat, lng } = getLocation(item);
+          if (getDistanceInMeters(center.lat, center.lng, lat, lng) <= radiusMeters) result.push(item);
+        });
+      }
+    }
+    return result;
+  };
+
+  return { size: items.length, queryRadius };
+};
+
+// --- Screen space clustering ---
+
+const TILE_SIZE = 256;
+export const CLUSTER_RADIUS_PX = 40; // Same as the marker icon size
+
+// Web Mercator pixel coordinates at the given zoom (what Leaflet draws)
+export const projectToPixels = (location: { lat: number, lng: number }, zoom: number): { x: number, y: number } => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.sin(location.lat * Math.PI / 180);
+  return {
+    x: (location.lng + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+  };
+};
+
+// Inverse of projectToPixels
+export const unprojectFromPixels = (pixel: { x: number, y: number }, zoom: number): { lat: number, lng: number } => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  return {
+    lat: Math.atan(Math.sinh(Math.PI - 2 * Math.PI * pixel.y / scale)) * 180 / Math.PI,
+    lng: pixel.x / scale * 360 - 180
+  };
+};
+
+export interface Cluster<T> {
+  id: string;
+  lat: number;
+  lng: number;
+  items: T[];
+}
+
+// Groups items whose markers would overlap on screen at this zoom. Each item is compared only
+// against the 3x3 block of pixel grid cells around it.
+export const clusterByScreenDistance = <T>(
+  items: T[],
+  getLocation: (item: T) => { lat: number, lng: number },
+  getId: (item: T) => string,
+  zoom: number,
+  radiusPx: number = CLUSTER_RADIUS_PX
+): { clusters: Cluster<T>[], singles: T[] } => {
+  const points = items.map(item => ({ item, ...projectToPixels(getLocation(item), zoom) }));
+  const grid = new Map<string, typeof points>();
+  const cellKey = (cx: number, cy: number) => `${cx}:${cy}`;
+
+  points.forEach(p => {
+    const key = cellKey(Math.floor(p.x / radiusPx), Math.floor(p.y / radiusPx));
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(p);
+    else grid.set(key, [p]);
+  });
+
+  const clusters: Cluster<T>[] = [];
+  const singles: T[] = [];
+  const processed = new Set<T>();
+
+  points.forEach(current => {
+    if (processed.has(current.item)) return;
+    processed.add(current.item);
+    const group = [current.item];
+
+    const cx = Math.floor(current.x / radiusPx);
+    const cy = Math.floor(current.y / radiusPx);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        grid.get(cellKey(cx + dx, cy + dy))?.forEach(other => {
+          if (processed.has(other.item)) return;
+          if (Math.hypot(current.x - other.x, current.y - other.y) < radiusPx) {
+            group.push(other.item);
+            processed.add(other.item);
+          }
+        });
+      }
+    }
+
+    if (group.length > 1) {
+      clusters.push({
+        id: `cluster-${getId(current.item)}`,
+        lat: group.reduce((sum, item) => sum + getLocation(item).lat, 0) / group.length,
+        lng: group.reduce((sum, item) => sum + getLocation(item).lng, 0) / group.length,
+        items: group
+      });
+    } else {
+      singles.push(current.item);
+    }
+  });
+
+  return { clusters, singles };
+};
+
+const SPIDER_SPACING_PX = CLUSTER_RADIUS_PX + 4; // Between neighbouring pins and from the center
+const SPIDER_CIRCLE_MAX = 8; // More pins than this go on a spiral
+
+// Spreads the pins of a cluster that can't be zoomed apart (the same building at the maximum zoom)
+// around its center: on a circle, or for many on a spiral whose turns are as far apart as the pins.
+export const spiderfy = (center: { lat: number, lng: number }, count: number, zoom: number): { lat: number, lng: number }[] => {
+  const origin = projectToPixels(center, zoom);
+  const offsets: { x: number, y: number }[] = [];
+  if (count <= SPIDER_CIRCLE_MAX) {
+    const radius = count > 1 ? Math.max(SPIDER_SPACING_PX / (2 * Math.sin(Math.PI / count)), SPIDER_SPACING_PX) : SPIDER_SPACING_PX;
+    for (let i = 0; i < count; i++) {
+      const angle = 2 * Math.PI * i / count - Math.PI / 2; // First pin above the center
+      offsets.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+    }
+  } else {
+    let angle = 0;
+    for (let i = 0; i < count; i++) {
+      const radius = SPIDER_SPACING_PX * (1 + angle / (2 * Math.PI));
+      offsets.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+      angle += SPIDER_SPACING_PX / radius;
+    }
+  }
+  return offsets.map(o => unprojectFromPixels({ x: origin.x + o.x, y: origin.y + o.y }, zoom));
+};
+
+// --- Heatmap ---
+
+export const HEATMAP_CELL_PX = 48;
+
+export interface HeatCell {
+  id: string;
+  lat: number;
+  lng: number;
+  count: number;
+  intensity: number; // count relative to the busiest cell, in (0, 1]
+}
+
+// Counts items per square of the pixel grid at this zoom, centered on the items of each square.
+// Unlike clusters, squares never merge, so the same place reads the same at any density.
+export const createHeatmap = <T>(
+  items: T[],
+  getLocation: (item: T) => { lat: number, lng: number },
+  zoom: number,
+  cellPx: number = HEATMAP_CELL_PX
+): HeatCell[] => {
+  const cells = new Map<string, { latSum: number, lngSum: number, count: number }>();
+  items.forEach(item => {
+    const location = getLocation(item);
+    const { x, y } = projectToPixels(location, zoom);
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const cell = cells.get(key) ?? { latSum: 0, lngSum: 0, count: 0 };
+    cell.latSum += location.lat;
+    cell.lngSum += location.lng;
+    cell.count++;
+    cells.set(key, cell);
+  });
+
+  const maxCount = Math.max(0, ...Array.from(cells.values(), c => c.count));
+  return Array.from(cells, ([key, c]) => ({
+    id: `heat-${key}`,
+    lat: c.latSum / c.count,
+    lng: c.lngSum / c.count,
+    count: c.count,
+    intensity: c.count / maxCount
+  }));
+};
+
+// --- Tiles ---
+
+export const TILE_DEGREES = 0.01; // ~1km; the unit in which nearby encounters are fetched and cached
+
+export interface Tile {
+  key: string;
+  bounds: Bounds;
+}
+
+// Fixed grid tiles covering the bounds, nearest to its center first
+export const tilesForBounds = (bounds: Bounds, tileDegrees: number = TILE_DEGREES): Tile[] => {
+  const tiles: Tile[] = [];
+  for (let i = Math.floor(bounds.south / tileDegrees); i <= Math.floor(bounds.north / tileDegrees); i++) {
+    for (let j = Math.floor(bounds.west / tileDegrees); j <= Math.floor(bounds.east / tileDegrees); j++) {
+      tiles.push({
+        key: `${i}:${j}`,
+        bounds: { south: i * tileDegrees, west: j * tileDegrees, north: (i + 1) * tileDegrees, east: (j + 1) * tileDegrees }
+      });
+    }
+  }
+  const center = getBoundsCenter(bounds);
+  const distanceToCenter = (tile: Tile) => {
+    const c = getBoundsCenter(tile.bounds);
+    return Math.hypot(c.lat - center.lat, c.lng - center.lng);
+  };
+  return tiles.sort((a, b) => distanceToCenter(a) - distanceToCenter(b));
+};
+
+// Key of the tile a location falls in, as in tilesForBounds
+export const getTileKey = (location: Location, tileDegrees: number = TILE_DEGREES): string =>
+  `${Math.floor(location.lat / tileDegrees)}:${Math.floor(location.lng / tileDegrees)}`;
+
+export const getBoundsCenter = (bounds: Bounds): { lat: number, lng: number } => ({
+  lat: (bounds.south + bounds.north) / 2,
+  lng: (bounds.west + bounds.east) / 2
+});
+
+// Square box of the given half size around a point
+export const boundsAround = (center: { lat: number, lng: number }, radiusMeters: number): Bounds => {
+  const deltaLat = radiusMeters / METERS_PER_DEGREE_LAT;
+  const deltaLng = radiusMeters / (METERS_PER_DEGREE_LAT * Math.cos(center.lat * Math.PI / 180));
+  return {
+    south: center.lat - deltaLat,
+    west: center.lng - deltaLng,
+    north: center.lat + deltaLat,
+    east: center.lng + deltaLng
+  };
+};
+
+// --- Location privacy ---
+
+// Other people's posts arrive with a coarsened location (fuzz_location in supabase/migrations): the true point
+// snapped to a grid cell and moved to a stable spot inside it. The exact point stays on the server until
+// there's a match, and radius matching is done there on the true coordinates.
+export const LOCATION_FUZZ_METERS = 300; // Grid cell size, keep in sync with the migration
+export const MAX_FUZZ_OFFSET_METERS = Math.ceil(LOCATION_FUZZ_METERS * Math.SQRT2); // Cell diagonal
+
+export const isApproximateLocation = (encounter: Encounter): boolean => encounter.locationAccuracyMeters !== undefined;
+
+// Swaps in the exact places (point and route or area) revealed after a match (encounter id -> place)
+export const revealExactLocations = <T extends Encounter>(encounters: T[], exact: Map<string, EncounterPlace>): T[] => {
+  if (exact.size === 0) return encounters;
+  return encounters.map(e => {
+    const place = exact.get(e.id);
+    return place ? { ...e, location: place.location, shape: place.shape, locationAccuracyMeters: undefined } : e;
+  });
+};
+
+// --- Routes and areas ---
+
+// Every point of a route or area must be this close to its pin, so radius queries around the pin still find it.
+// Keep in sync with the migration (0012_encounter_shapes.sql).
+export const MAX_SHAPE_RADIUS_METERS = 1000;
+export const MAX_SHAPE_POINTS = 50;
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+interface Point { x: number; y: number }
+type Segment = [Point, Point];
+
+// Local equirectangular projection in meters around refLat; precise enough at the scale of a few kilometers
+const toPlanar = (location: Location, refLat: number): Point => ({
+  x: EARTH_RADIUS_METERS * location.lng * Math.PI / 180 * Math.cos(refLat * Math.PI / 180),
+  y: EARTH_RADIUS_METERS * location.lat * Math.PI / 180
+});
+
+const distanceToSegment = (p: Point, [a, b]: Segment): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Proper crossings only; segments that touch are caught by the endpoint distances
+const segmentsCross = ([a, b]: Segment, [c, d]: Segment): boolean => {
+  const d1 = cross(c, d, a), d2 = cross(c, d, b), d3 = cross(a, b, c), d4 = cross(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+};
+
+const distanceBetweenSegments = (s: Segment, t: Segment): number => {
+  if (segmentsCross(s, t)) return 0;
+  return Math.min(distanceToSegment(s[0], t), distanceToSegment(s[1], t), distanceToSegment(t[0], s), distanceToSegment(t[1], s));
+};
+
+// Ray casting
+const isInsideRing = (p: Point, ring: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+// A lone point is a zero length segment; areas close back to their first point
+const toSegments = (points: Point[], closed: boolean): Segment[] => {
+  if (points.length === 1) return [[points[0], points[0]]];
+  const segments = points.slice(1).map((p, i): Segment => [points[i], p]);
+  if (closed) segments.push([points[points.length - 1], points[0]]);
+  return segments;
+};
+
+export const isValidShape = (shape: EncounterShape): boolean =>
+  shape.points.length >= (shape.type === 'route' ? 2 : 3) && shape.points.length <= MAX_SHAPE_POINTS;
+
+// Shortest distance between two places: between the pins for plain points, otherwise to the nearest part of the
+// route or area (anything inside an area is at 0)
+export const getPlaceDistanceMeters = (a: EncounterPlace, b: EncounterPlace): number => {
+  if (!a.shape && !b.shape) return getDistanceInMeters(a.location.lat, a.location.lng, b.location.lat, b.location.lng);
+
+  const refLat = a.location.lat;
+  const pointsA = (a.shape?.points ?? [a.location]).map(l => toPlanar(l, refLat));
+  const pointsB = (b.shape?.points ?? [b.location]).map(l => toPlanar(l, refLat));
+  if (a.shape?.type === 'area' && pointsB.some(p => isInsideRing(p, pointsA))) return 0;
+  if (b.shape?.type === 'area' && pointsA.some(p => isInsideRing(p, pointsB))) return 0;
+
+  const segmentsB = toSegments(pointsB, b.shape?.type === 'area');
+  return toSegments(pointsA, a.shape?.type === 'area')
+    .reduce((min, s) => segmentsB.reduce((m, t) => Math.min(m, distanceBetweenSegments(s, t)), min), Infinity);
+};
+
+// How close a post has to come to the venue it names: its point, or any part of a transit line's path.
+// Keep in sync with max_venue_distance in supabase/migrations/0019_venue_checks.sql.
+export const MAX_VENUE_DISTANCE_METERS = 300;
+
+// Lines read back from the server come without their path; only the server can check those
+export const isPlaceAtVenue = (place: EncounterPlace, venue: Venue): boolean => {
+  if (venue.kind === 'transit_line' && !venue.path) return true;
+  const shape: EncounterShape | undefined = venue.path && { type: 'route', points: venue.path };
+  return getPlaceDistanceMeters(place, { location: venue.location, shape }) <= MAX_VENUE_DISTANCE_METERS;
+};
+
+// Pin of a route or area: halfway along the route, or the average of the area's corners
+export const getShapeAnchor = (shape: EncounterShape): Location => {
+  const { points } = shape;
+  if (shape.type === 'area') {
+    return {
+      lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+      lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length
+    };
+  }
+  const lengths = points.slice(1).map((p, i) => getDistanceInMeters(points[i].lat, points[i].lng, p.lat, p.lng));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i]) {
+      const t = lengths[i] === 0 ? 0 : remaining / lengths[i];
+      return {
+        lat: points[i].lat + (points[i + 1].lat - points[i].lat) * t,
+        lng: points[i].lng + (points[i + 1].lng - points[i].lng) * t
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+};
+
+// How far the route or area reaches from the pin (0 for a plain point)
+export const getShapeRadiusMeters = (place: EncounterPlace): number =>
+  (place.shape?.points ?? []).reduce((max, p) => Math.max(max, getDistanceInMeters(place.location.lat, place.location.lng, p.lat, p.lng)), 0);
@@ -0,0 +1,40 @@
+// Client-side preparation of photos before they leave the device
+export const MAX_IMAGE_DIMENSION = 1600; // px, longest side
+export const JPEG_QUALITY = 0.82;
+
+// Resizes and re-encodes the photo as JPEG. Drawing it on a canvas drops every metadata block,
+// so EXIF (GPS position, device, timestamps) never gets uploaded. Orientation is applied first
+// so portrait photos don't come out rotated once the EXIF tag is gone.
+export const prepareImage = async (
+  file: Blob,
+  maxDimension: number = MAX_IMAGE_DIMENSION,
+  quality: number = JPEG_QUALITY
+): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context unavailable');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Image encoding failed'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
+
+// Moves one item of a list, used to reorder profile photos
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createCandidateIndex, createProximityIndex, findCandidates, getCandidateReachMeters, isCandidateMatch, isWithinTimeWindow, retainNearby } from './matching';
+import { getTileKey, MAX_FUZZ_OFFSET_METERS } from './geo';
+import { Venue } from '../types';
+import { makeEncounter, makeProfile, NOW, offsetMeters, ORIGIN } from '../test/fixtures';
+
+const MINUTE_MS = 60000;
+const me = makeProfile();
+const mine = makeEncounter({ userProfile: me });
+const metro: Venue = { id: 'fixture:metro-2', name: 'Metro Línea 2', kind: 'transit_line', location: ORIGIN };
+const cafe: Venue = { id: 'fixture:cafe-tacuba', name: 'Café de Tacuba', kind: 'place', location: ORIGIN };
+
+describe('isCandidateMatch', () => {
+  it('accepts posts within the 150m radius', () => {
+    expect(isCandidateMatch(mine, makeEncounter({ location: offsetMeters(ORIGIN, 100, 0) }))).toBe(true);
+    expect(isCandidateMatch(mine, makeEncounter({ location: offsetMeters(ORIGIN, 100, 100) }))).toBe(true);
+  });
+
+  it('rejects posts farther than the radius', () => {
+    expect(isCandidateMatch(mine, makeEncounter({ location: offsetMeters(ORIGIN, 160, 0) }))).toBe(false);
+    expect(isCandidateMatch(mine, makeEncounter({ location: offsetMeters(ORIGIN, 0, -400) }))).toBe(false);
+  });
+
+  it('accepts posts at the same venue however far apart', () => {
+    const onTheMetro = makeEncounter({ userProfile: me, venue: metro });
+    expect(isCandidateMatch(onTheMetro, makeEncounter({ location: offsetMeters(ORIGIN, 5000, 0), venue: metro }))).toBe(true);
+    expect(isCandidateMatch(onTheMetro, makeEncounter({ location: offsetMeters(ORIGIN, 5000, 0), venue: cafe }))).toBe(false);
+    expect(isCandidateMatch(mine, makeEncounter({ location: offsetMeters(ORIGIN, 5000, 0) }))).toBe(false);
+  });
+
+  it('requires the time windows to overlap', () => {
+    // 60 minutes of tolerance each way: up to two hours apart still overlap
+    expect(isWithinTimeWindow(mine, makeEncounter({ happenedAt: NOW + 120 * MINUTE_MS }))).toBe(true);
+    expect(isWithinTimeWindow(mine, makeEncounter({ happenedAt: NOW - 121 * MINUTE_MS }))).toBe(false);
+    expect(isWithinTimeWindow(mine, makeEncounter({ happenedAt: NOW + 200 * MINUTE_MS, timeToleranceMinutes: 240 }))).toBe(true);
+    expect(isCandidateMatch(mine, makeEncounter({ happenedAt: NOW + 3 * 60 * MINUTE_MS }))).toBe(false);
+  });
+});
+
+describe('findCandidates', () => {
+  it('compares exact locations locally', () => {
+    const near = makeEncounter({ location: offsetMeters(ORIGIN, 50, 50) });
+    const far = makeEncounter({ location: offsetMeters(ORIGIN, 300, 0) });
+    expect(findCandidates(mine, createCandidateIndex([near, far]))).toEqual([near]);
+  });
+
+  it('trusts the server pairs for coarsened locations', () => {
+    // Shown up to the fuzz offset away from where it really is
+    const paired = makeEncounter({ location: offsetMeters(ORIGIN, 350, 0), locationAccuracyMeters: MAX_FUZZ_OFFSET_METERS });
+    const unpaired = makeEncounter({ location: offsetMeters(ORIGIN, 20, 0), locationAccuracyMeters: MAX_FUZZ_OFFSET_METERS });
+    const proximity = createProximityIndex([{ myEncounterId: mine.id, otherEncounterId: paired.id }]);
+    expect(findCandidates(mine, createCandidateIndex([paired, unpaired]), proximity)).toEqual([paired]);
+  });
+
+  it('keeps server pairs once the exact spot is revealed', () => {
+    // Matched partner 250m away: both authors widened their radius, which only the server knows
+    const partner = makeEncounter({ location: offsetMeters(ORIGIN, 250, 0) });
+    const proximity = createProximityIndex([{ myEncounterId: mine.id, otherEncounterId: partner.id }]);
+    expect(findCandidates(mine, createCandidateIndex([partner]))).toEqual([]);
+    expect(findCandidates(mine, createCandidateIndex([partner]), proximity)).toEqual([partner]);
+  });
+
+  it('matches along my route, far from its pin', () => {
+    // A 1.6km bus ride pinned halfway; the other post is by its last stop
+    const ride = makeEncounter({ userProfile: me, location: offsetMeters(ORIGIN, 0, 800), shape: { type: 'route', points: [ORIGIN, offsetMeters(ORIGIN, 0, 1600)] } });
+    const lastStop = makeEncounter({ location: offsetMeters(ORIGIN, 100, 1650) });
+    const offRoute = makeEncounter({ location: offsetMeters(ORIGIN, 300, 800) });
+    expect(findCandidates(ride, createCandidateIndex([lastStop, offRoute]))).toEqual([lastStop]);
+  });
+
+  it('finds posts at the same venue outside the radius query', () => {
+    const onTheMetro = makeEncounter({ userProfile: me, venue: metro });
+    const otherCar = makeEncounter({ location: offsetMeters(ORIGIN, -6000, 500), venue: metro });
+    const elsewhere = makeEncounter({ location: offsetMeters(ORIGIN, -6000, 600), venue: cafe });
+    const later = makeEncounter({ location: offsetMeters(ORIGIN, -6000, 700), venue: metro, happenedAt: NOW + 5 * 60 * MINUTE_MS });
+    expect(findCandidates(onTheMetro, createCandidateIndex([otherCar, elsewhere, later]))).toEqual([otherCar]);
+  });
+
+  it('needs a server pair for coarsened posts at the same venue', () => {
+    // The server also checks both authors' preferences for venue pairs
+    const onTheMetro = makeEncounter({ userProfile: me, venue: metro });
+    const coarse = makeEncounter({ location: offsetMeters(ORIGIN, -6000, 500), venue: metro, locationAccuracyMeters: MAX_FUZZ_OFFSET_METERS });
+    expect(findCandidates(onTheMetro, createCandidateIndex([coarse]))).toEqual([]);
+    const proximity = createProximityIndex([{ myEncounterId: onTheMetro.id, otherEncounterId: coarse.id }]);
+    expect(findCandidates(onTheMetro, createCandidateIndex([coarse]), proximity)).toEqual([coarse]);
+  });
+
+  it('still applies the time window to paired posts', () => {
+    const paired = makeEncounter({ happenedAt: NOW - 6 * 60 * MINUTE_MS, locationAccuracyMeters: MAX_FUZZ_OFFSET_METERS });
+    const proximity = createProximityIndex([{ myEncounterId: mine.id, otherEncounterId: paired.id }]);
+    expect(findCandidates(mine, createCandidateIndex([paired]), proximity)).toEqual([]);
+  });
+});
+
+describe('retainNearby', () => {
+  const farAway = offsetMeters(ORIGIN, 20000, 0);
+  const inView = new Set([getTileKey(farAway)]);
+
+  it('keeps the posts in view and drops the rest', () => {
+    const there = makeEncounter({ location: farAway });
+    const elsewhere = makeEncounter({ location: offsetMeters(ORIGIN, 10000, 0) });
+    expect(retainNearby([there, elsewhere], [], inView)).toEqual([there]);
+  });
+
+  it('keeps what could still be a candidate for one of my posts', () => {
+    const nextToMine = makeEncounter({ location: offsetMeters(ORIGIN, getCandidateReachMeters(mine) - 10, 0) });
+    const beyondReach = makeEncounter({ location: offsetMeters(ORIGIN, getCandidateReachMeters(mine) + 10, 0) });
+    const onMyLine = makeEncounter({ location: offsetMeters(ORIGIN, 10000, 0), venue: metro });
+    const onTheMetro = makeEncounter({ userProfile: me, venue: metro });
+    expect(retainNearby([nextToMine, beyondReach, onMyLine], [mine, onTheMetro], inView)).toEqual([nextToMine, onMyLine]);
+  });
+});
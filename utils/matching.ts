@@ -0,0 +1,94 @@
+import { Encounter, UserProfile } from '../types';
+import { createSpatialIndex, getDistanceInMeters, getPlaceDistanceMeters, getShapeRadiusMeters, getTileKey, MATCH_RADIUS, MAX_FUZZ_OFFSET_METERS, MAX_SHAPE_RADIUS_METERS, SpatialIndex, isApproximateLocation } from './geo';
+import { getMatchRadius, MAX_MATCH_RADIUS } from './discovery';
+
+// Encounters must coincide in place AND time to be considered candidates
+export const DEFAULT_TIME_TOLERANCE_MINUTES = 60;
+export const TIME_TOLERANCE_OPTIONS = [15, 30, 60, 120, 240]; // Minutes offered in the create view
+
+const MINUTE_MS = 60 * 1000;
+
+// Returns the [start, end] interval (ms) in which the encounter could have happened
+export const getTimeWindow = (encounter: Encounter): { start: number; end: number } => {
+  const tolerance = encounter.timeToleranceMinutes * MINUTE_MS;
+  return {
+    start: encounter.happenedAt - tolerance,
+    end: encounter.happenedAt + tolerance
+  };
+};
+
+// Measured to the nearest part of a route or area, not just between pins
+export const isWithinRadius = (a: Encounter, b: Encounter, radius: number = MATCH_RADIUS): boolean => {
+  return getPlaceDistanceMeters(a, b) <= radius;
+};
+
+// Tied to the same venue or transit line, wherever the pins are
+export const isSameVenue = (a: Encounter, b: Encounter): boolean => !!a.venue && a.venue.id === b.venue?.id;
+
+// Two windows overlap if each one starts before the other ends
+export const isWithinTimeWindow = (a: Encounter, b: Encounter): boolean => {
+  const wa = getTimeWindow(a);
+  const wb = getTimeWindow(b);
+  return wa.start <= wb.end && wb.start <= wa.end;
+};
+
+export const isCandidateMatch = (mine: Encounter, other: Encounter): boolean => {
+  return (isSameVenue(mine, other) || isWithinRadius(mine, other, getMatchRadius(mine.userProfile, other.userProfile))) && isWithinTimeWindow(mine, other);
+};
+
+// Which coarsened posts of other people are within the match radius of each of my posts (my id -> their ids).
+// Computed by the server on the exact coordinates and both authors' preferences (encounter_proximity).
+export type ProximityIndex = Map<string, Set<string>>;
+
+export const createProximityIndex = (pairs: { myEncounterId: string; otherEncounterId: string }[]): ProximityIndex => {
+  const index: ProximityIndex = new Map();
+  pairs.forEach(({ myEncounterId, otherEncounterId }) => {
+    const others = index.get(myEncounterId) ?? new Set<string>();
+    others.add(otherEncounterId);
+    index.set(myEncounterId, others);
+  });
+  return index;
+};
+
+// Spatial index of pins plus a lookup by venue, for posts at the same venue far from each other
+export interface CandidateIndex<T> extends SpatialIndex<T> {
+  atVenue: (venueId: string) => T[];
+}
+
+export const createCandidateIndex = <T extends Encounter>(items: T[]): CandidateIndex<T> => {
+  const byVenue = new Map<string, T[]>();
+  items.forEach(item => {
+    if (item.venue) byVenue.set(item.venue.id, [...(byVenue.get(item.venue.id) ?? []), item]);
+  });
+  return { ...createSpatialIndex(items, e => e.location), atVenue: venueId => byVenue.get(venueId) ?? [] };
+};
+
+// How far from the pin of my post a candidate's pin can be: the largest match radius, the offset of coarsened
+// pins, and how far routes and areas reach from their pins
+export const getCandidateReachMeters = (mine: Encounter): number =>
+  MAX_MATCH_RADIUS + MAX_FUZZ_OFFSET_METERS + getShapeRadiusMeters(mine) + MAX_SHAPE_RADIUS_METERS;
+
+// Candidates for one of my posts, using the index for the radius part. Pairs from the server always count (they
+// use both authors' real preferences); other exact locations (demo data) are compared here, while coarsened ones
+// can be off by the fuzz offset and need a server pair. The viewer's current preferences win over the profile
+// snapshot stored with the post. The index holds pins, so the query also reaches as far as routes and areas can.
+// Posts at the same venue are candidates at any distance, under the same rule.
+export const findCandidates = <T extends Encounter>(
+  mine: Encounter,
+  index: CandidateIndex<T>,
+  proximity: ProximityIndex = new Map(),
+  viewer: UserProfile = mine.userProfile
+): T[] => {
+  const nearby = index.queryRadius(mine.location, getCandidateReachMeters(mine));
+  const atVenue = mine.venue ? index.atVenue(mine.venue.id).filter(other => !nearby.includes(other)) : [];
+  return [...nearby, ...atVenue]
+    .filter(other => !!proximity.get(mine.id)?.has(other.id) ||
+      (!isApproximateLocation(other) && (isSameVenue(mine, other) || isWithinRadius(mine, other, getMatchRadius(viewer, other.userProfile)))))
+    .filter(other => isWithinTimeWindow(mine, other));
+};
+
+// Loaded posts worth keeping when the map moves: those in the tiles on screen, and any that could still be a
+// candidate for one of my posts (within reach of it or at its venue) wherever the map is
+export const retainNearby = (nearby: Encounter[], mine: Encounter[], viewTileKeys: Set<string>): Encounter[] =>
+  nearby.filter(other => viewTileKeys.has(getTileKey(other.location)) || mine.some(m =>
+    isSameVenue(m, other) || getDistanceInMeters(m.location.lat, m.location.lng, other.location.lat, other.location.lng) <= getCandidateReachMeters(m)));
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { screenText } from './moderation';
+
+describe('screenText', () => {
+  it('blocks phone numbers in public posts however they are written', () => {
+    ['Llámame al 612 34 56 78', 'Mi cel: (55) 1234-5678', '+34 612345678', 'whatsapp 55.1234.5678'].forEach(text => {
+      expect(screenText(text, 'encounter')).toEqual({ decision: 'block', reasons: ['phone'] });
+    });
+  });
+
+  it("doesn't take times and time ranges for phone numbers", () => {
+    ['Estaré de 18.00 - 19.30 en la terraza', 'Entre 9:30-11:00 y 18.00-19.30', 'El 12.05 a las 20.15'].forEach(text => {
+      expect(screenText(text, 'encounter').decision).toBe('allow');
+    });
+  });
+
+  it('tells coño apart from a cone', () => {
+    expect(screenText('¡Coño, qué frío!', 'encounter').reasons).toEqual(['profanity']);
+    expect(screenText('Compartimos un cono de helado', 'encounter').decision).toBe('allow');
+  });
+
+  it('still catches words written without accents or with leetspeak', () => {
+    expect(screenText('Eres un cabrón', 'encounter').reasons).toEqual(['profanity']);
+    expect(screenText('m13rd4', 'encounter').reasons).toEqual(['profanity']);
+  });
+});
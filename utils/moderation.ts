@@ -0,0 +1,111 @@
+import { ModerationContext, ModerationDecision, ModerationReason, ModerationResult } from '../types';
+
+// Lists are matched on normalized text (lowercase, no accents but the ñ, common leetspeak undone).
+// Single words must match a whole word; entries with spaces match as phrases.
+const PROFANITY = [
+  // es
+  'mierda', 'joder', 'jodete', 'coño', 'carajo', 'pendejo', 'pendeja', 'cabron', 'cabrona', 'gilipollas',
+  'culero', 'verga', 'chingar', 'chingada', 'hostia', 'hijo de puta', 'puta madre', 'me cago en',
+  // en
+  'fuck', 'fucking', 'shit', 'bitch', 'asshole', 'dick', 'bastard', 'motherfucker', 'wtf'
+];
+
+const ABUSE = [
+  // es
+  'puta', 'zorra', 'maricon', 'marica', 'retrasado', 'retrasada', 'subnormal', 'sudaca', 'te voy a matar',
+  'te voy a encontrar', 'se donde vives',
+  // en
+  'whore', 'slut', 'faggot', 'retard', 'kill you', 'i know where you live'
+];
+
+const SEXUAL = [
+  'nudes', 'desnudos', 'sexo casual', 'follar', 'coger contigo', 'mamada', 'send nudes', 'hookup', 'blowjob'
+];
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/n\u0303/g, 'ñ') // It tells words apart: coño, cono (a cone)
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[013457@$]/g, c => LEET[c] ?? c)
+    .replace(/[^a-zñ\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const containsTerm = (normalized: string, words: Set<string>, term: string): boolean => {
+  return term.includes(' ') ? ` ${normalized} `.includes(` ${term} `) : words.has(term);
+};
+
+// Groups of digits with at most one space, dot or dash between them, maybe in parentheses: "(55) 1234-5678"
+const DIGIT_RUN_PATTERN = /\+?\(?\d+(?:\)?[\s.-]?\(?\d+)*/g;
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|es|mx|ar|co|io|me|ly|link|app)\b/i;
+const HANDLE_PATTERN = /(?:^|\s)@[a-z0-9_.]{3,}|\b(?:ig|insta|instagram|snap|snapchat|tiktok|telegram)\b\s*(?::|=|es|is)\s*@?[a-z0-9_.]{3,}/i;
+
+const countDigits = (text: string) => (text.match(/\d/g) ?? []).length;
+
+// Eight digits or more, with a group of at least three: times and ranges of them ("18.00 - 19.30", "9:30-11:00")
+// only have groups of two
+const isPhoneNumber = (run: string) => countDigits(run) >= 8 && run.split(/\D+/).some(group => group.length >= 3);
+
+// What each finding means in each context. Contact details are fine between matches, not in public posts.
+const DECISIONS: Record<ModerationContext, Record<ModerationReason, ModerationDecision>> = {
+  encounter: {
+    abuse: 'block',
+    sexual: 'warn',
+    profanity: 'warn',
+    phone: 'block',
+    email: 'block',
+    social_handle: 'warn',
+    url: 'warn',
+    spam: 'block'
+  },
+  message: {
+    abuse: 'block',
+    sexual: 'warn',
+    profanity: 'allow',
+    phone: 'allow',
+    email: 'allow',
+    social_handle: 'allow',
+    url: 'warn',
+    spam: 'warn'
+  }
+};
+
+const SEVERITY: Record<ModerationDecision, number> = { allow: 0, warn: 1, block: 2 };
+
+export const decide = (reasons: ModerationReason[], context: ModerationContext): ModerationResult => {
+  const decision = reasons.reduce<ModerationDecision>((worst, reason) => {
+    const d = DECISIONS[context][reason];
+    return SEVERITY[d] > SEVERITY[worst] ? d : worst;
+  }, 'allow');
+  return { decision, reasons: decision === 'allow' ? [] : reasons.filter(r => DECISIONS[context][r] !== 'allow') };
+};
+
+// Local rule based screening, synchronous so it can also run on every render (incoming messages)
+export const screenText = (text: string, context: ModerationContext): ModerationResult => {
+  const normalized = normalizeText(text);
+  const words = new Set(normalized.split(' '));
+  const reasons: ModerationReason[] = [];
+
+  if (ABUSE.some(term => containsTerm(normalized, words, term))) reasons.push('abuse');
+  if (PROFANITY.some(term => containsTerm(normalized, words, term))) reasons.push('profanity');
+  if (SEXUAL.some(term => containsTerm(normalized, words, term))) reasons.push('sexual');
+
+  if ((text.match(DIGIT_RUN_PATTERN) ?? []).some(isPhoneNumber)) reasons.push('phone');
+  if (EMAIL_PATTERN.test(text)) reasons.push('email');
+  else if (URL_PATTERN.test(text)) reasons.push('url');
+  if (HANDLE_PATTERN.test(text) && !EMAIL_PATTERN.test(text)) reasons.push('social_handle');
+
+  return decide(reasons, context);
+};
+
+// Combines two screenings of the same text (e.g. local rules and the model), keeping the strictest outcome
+export const mergeResults = (a: ModerationResult, b: ModerationResult): ModerationResult => {
+  const decision = SEVERITY[b.decision] > SEVERITY[a.decision] ? b.decision : a.decision;
+  return { decision, reasons: [...new Set([...a.reasons, ...b.reasons])] };
+};
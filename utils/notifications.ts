@@ -0,0 +1,46 @@
+import { AppNotification, NOTIFICATION_TYPES, NotificationPreferences, NotificationType } from '../types';
+import { Locale, Translate } from '../i18n';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  like: true,
+  match: true,
+  message: true,
+  expiring: true,
+  edited: true
+};
+
+// Message notifications are updated in place while unread, so replace by id and keep the newest first
+export const upsertNotification = (notifications: AppNotification[], incoming: AppNotification): AppNotification[] =>
+  [incoming, ...notifications.filter(n => n.id !== incoming.id)].sort((a, b) => b.timestamp - a.timestamp);
+
+export const getUnreadNotificationCount = (notifications: AppNotification[]): number =>
+  notifications.filter(n => !n.read).length;
+
+export const formatNotificationTime = (timestamp: number, t: Translate, locale: Locale, now: number = Date.now()): string => {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return t('notifications.time.now');
+  if (minutes < 60) return t('notifications.time.minutes', { count: minutes });
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return t('notifications.time.hours', { count: hours });
+  return new Date(timestamp).toLocaleDateString(locale);
+};
+
+// What the service worker shows for each kind of push while the app is closed (see public/sw.js)
+export type PushTexts = Partial<Record<NotificationType, { title: string; body: string }>>;
+
+// The server writes titles and bodies in Spanish. Apart from messages, whose text is the message itself,
+// they are shown from the catalog in the user's language.
+export const localizeNotification = (notification: AppNotification, t: Translate): { title: string; body: string } => {
+  if (notification.type === 'message') return { title: notification.title, body: notification.body };
+  return {
+    title: t(`notifications.${notification.type}.title`),
+    body: t(`notifications.${notification.type}.body`)
+  };
+};
+
+// Messages are pushed as they are: the sender's name and the text
+export const getPushTexts = (t: Translate): PushTexts =>
+  Object.fromEntries(NOTIFICATION_TYPES.filter(type => type !== 'message').map(type => [type, {
+    title: t(`notifications.${type}.title`),
+    body: t(`notifications.${type}.body`)
+  }]));
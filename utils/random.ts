@@ -0,0 +1,25 @@
+// Deterministic pseudo random numbers (mulberry32) for fixtures, demos and tests
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const pickOne = <T>(items: T[], random: () => number): T => {
+  return items[Math.floor(random() * items.length)];
+};
+
+// Shuffles a copy with the given generator
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
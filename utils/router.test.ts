@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { formatRoute, parseRoute, Route } from './router';
+
+describe('parseRoute', () => {
+  it('reads back every route it formats', () => {
+    const routes: Route[] = [
+      { name: 'map' },
+      { name: 'explore', myEncounterId: 'a b/c' },
+      { name: 'chat', encounterId: 'encounter-1' },
+      { name: 'notifications', id: 'ñ' },
+      { name: 'login', next: '/chat/encounter-1' }
+    ];
+    routes.forEach(route => {
+      const url = new URL(formatRoute(route), 'https://example.com');
+      expect(parseRoute(url.pathname, url.search)).toEqual(route);
+    });
+  });
+
+  it('leaves unknown paths to the caller', () => {
+    expect(parseRoute('/nowhere')).toBeNull();
+    expect(parseRoute('/chat/encounter-1/extra')).toBeNull();
+  });
+
+  it("doesn't throw on malformed escapes", () => {
+    expect(parseRoute('/encounter/%E0%A4%A')).toBeNull();
+    expect(parseRoute('/%')).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+// Every screen has a URL so the browser back button, shared links and push notifications can reach it
+export type Route =
+  | { name: 'map' }
+  | { name: 'explore'; myEncounterId?: string; all?: boolean } // My posts, one post's candidates, or everyone visible
+  | { name: 'chats' }
+  | { name: 'profile' }
+  | { name: 'create'; from?: string } // from: an archived or deleted post of mine to republish
+  | { name: 'edit'; id: string }
+  | { name: 'encounter'; id: string }
+  | { name: 'chat'; encounterId: string } // Keyed like Chat.encounterId: the partner's post
+  | { name: 'notifications'; id?: string } // With an id, opens whatever that notification is about
+  | { name: 'moderation' }
+  | { name: 'login'; next?: string } // next: path to return to once signed in
+  | { name: 'register'; next?: string };
+
+export type Tab = 'map' | 'explore' | 'chats' | 'profile';
+
+export const HOME_ROUTE: Route = { name: 'map' };
+
+const segment = (value: string) => encodeURIComponent(value);
+
+export const formatRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'map': return '/map';
+    case 'explore': return route.myEncounterId ? `/explore/${segment(route.myEncounterId)}` : route.all ? '/explore/all' : '/explore';
+    case 'chats': return '/chats';
+    case 'profile': return '/profile';
+    case 'create': return route.from ? `/new?from=${encodeURIComponent(route.from)}` : '/new';
+    case 'edit': return `/edit/${segment(route.id)}`;
+    case 'encounter': return `/encounter/${segment(route.id)}`;
+    case 'chat': return `/chat/${segment(route.encounterId)}`;
+    case 'notifications': return route.id ? `/notifications/${segment(route.id)}` : '/notifications';
+    case 'moderation': return '/moderation';
+    case 'login':
+    case 'register':
+      return route.next ? `/${route.name}?next=${encodeURIComponent(route.next)}` : `/${route.name}`;
+  }
+};
+
+// Malformed escapes like "%E0%A4%A" make decodeURIComponent throw
+const decodeSegments = (pathname: string): string[] | null => {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+};
+
+// Unknown or malformed paths resolve to null; the caller decides where they land
+export const parseRoute = (pathname: string, search: string = ''): Route | null => {
+  const segments = decodeSegments(pathname);
+  if (!segments) return null;
+  const [first, second, ...rest] = segments;
+  if (rest.length > 0) return null;
+  // Only paths inside the app are accepted as a return address
+  const nextParam = new URLSearchParams(search).get('next');
+  const next = nextParam?.startsWith('/') && !nextParam.startsWith('//') ? nextParam : undefined;
+  const from = new URLSearchParams(search).get('from') || undefined;
+
+  switch (first) {
+    case undefined:
+    case 'map': return second ? null : { name: 'map' };
+    case 'explore':
+      if (!second) return { name: 'explore' };
+      return second === 'all' ? { name: 'explore', all: true } : { name: 'explore', myEncounterId: second };
+    case 'chats': return second ? null : { name: 'chats' };
+    case 'profile': return second ? null : { name: 'profile' };
+    case 'new': return second ? null : { name: 'create', from };
+    case 'edit': return second ? { name: 'edit', id: second } : null;
+    case 'encounter': return second ? { name: 'encounter', id: second } : null;
+    case 'chat': return second ? { name: 'chat', encounterId: second } : null;
+    case 'notifications': return second ? { name: 'notifications', id: second } : { name: 'notifications' };
+    case 'moderation': return second ? null : { name: 'moderation' };
+    case 'login': return second ? null : { name: 'login', next };
+    case 'register': return second ? null : { name: 'register', next };
+    default: return null;
+  }
+};
+
+// A path kept in a "next" param, which may carry its own query
+export const parsePath = (path: string): Route | null => {
+  const url = new URL(path, window.location.origin);
+  return parseRoute(url.pathname, url.search);
+};
+
+export const isAuthRoute = (route: Route): route is Extract<Route, { name: 'login' | 'register' }> =>
+  route.name === 'login' || route.name === 'register';
+
+// The bottom bar tab a route belongs to
+export const tabOf = (route: Route): Tab => {
+  switch (route.name) {
+    case 'explore':
+    case 'encounter':
+      return 'explore';
+    case 'chats':
+    case 'chat':
+      return 'chats';
+    case 'profile':
+    case 'edit':
+    case 'moderation':
+      return 'profile';
+    default:
+      return 'map';
+  }
+};
+
+// Entries pushed by the app carry their depth, so back() knows whether the previous entry is ours
+interface HistoryState {
+  depth: number;
+}
+
+const currentDepth = () => (window.history.state as HistoryState | null)?.depth ?? 0;
+
+const readRoute = (): Route => parseRoute(window.location.pathname, window.location.search) ?? HOME_ROUTE;
+
+// One route for the whole app, so every feature that reads or changes it agrees on the screen
+let currentRoute: Route = readRoute();
+const listeners = new Set<() => void>();
+
+const setRoute = (route: Route) => {
+  currentRoute = route;
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getRoute = (): Route => currentRoute;
+
+// Browser back/forward (and the swipe gesture) fire popstate
+window.addEventListener('popstate', () => setRoute(readRoute()));
+
+export const navigate = (next: Route, options: { replace?: boolean } = {}) => {
+  const path = formatRoute(next);
+  if (path === window.location.pathname + window.location.search) return;
+  if (options.replace) {
+    window.history.replaceState({ depth: currentDepth() } satisfies HistoryState, '', path);
+  } else {
+    window.history.pushState({ depth: currentDepth() + 1 } satisfies HistoryState, '', path);
+  }
+  setRoute(readRoute());
+};
+
+// In-app back buttons: a real history step when we got here from inside the app,
+// otherwise (deep link, reload) the fallback screen replaces the current one
+export const back = (fallback: Route = HOME_ROUTE) => {
+  if (currentDepth() > 0) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+};
+
+// Current route plus navigation over the History API
+export const useRouter = () => {
+  const route = useSyncExternalStore(subscribe, getRoute);
+
+  useEffect(() => {
+    // Unknown paths are rewritten in place so reloading shows what's on screen
+    const canonical = formatRoute(currentRoute);
+    if (canonical !== window.location.pathname + window.location.search) {
+      window.history.replaceState({ depth: currentDepth() } satisfies HistoryState, '', canonical);
+    }
+  }, []);
+
+  return { route, navigate, back };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { getWriteOutcome } from './sync';
+
+describe('getWriteOutcome', () => {
+  it('is saved without an error', () => {
+    expect(getWriteOutcome({ error: null, status: 201 })).toBe('saved');
+  });
+
+  it('treats requests that got no answer as unreachable, whatever the browser says', () => {
+    expect(getWriteOutcome({ error: { code: '' }, status: 0 })).toBe('unreachable');
+    expect(getWriteOutcome({ error: { code: 'ECONNRESET' }, status: 0 })).toBe('unreachable');
+    expect(getWriteOutcome({ error: { code: 'EPIPE' }, status: 0 })).toBe('unreachable');
+  });
+
+  it('treats gateway errors without a database code as unreachable', () => {
+    expect(getWriteOutcome({ error: { code: '' }, status: 503 })).toBe('unreachable');
+  });
+
+  it('treats PostgREST and Postgres errors as refused', () => {
+    expect(getWriteOutcome({ error: { code: 'P0001' }, status: 400 })).toBe('refused');
+    expect(getWriteOutcome({ error: { code: '23505' }, status: 409 })).toBe('refused');
+    expect(getWriteOutcome({ error: { code: '42501' }, status: 403 })).toBe('refused');
+    expect(getWriteOutcome({ error: { code: 'PGRST116' }, status: 406 })).toBe('refused');
+  });
+});
@@ -0,0 +1,14 @@
+// How a write to the backend ended. 'unreachable' means the request never got an answer: no connection,
+// or one that drops (metro, basement) while the browser still reports being online. supabase-js then
+// returns status 0 and an error whose code, if any, comes from the network stack. Refusals come back
+// from PostgREST (PGRST codes) or Postgres (five character SQLSTATE codes: constraints, RLS, raised
+// exceptions).
+export type WriteOutcome = 'saved' | 'unreachable' | 'refused';
+
+const SERVER_ERROR_CODE = /^(PGRST\d+|[0-9A-Z]{5})$/;
+
+export const getWriteOutcome = (response: { error: { code?: string } | null; status?: number }): WriteOutcome => {
+  if (!response.error) return 'saved';
+  const answered = (response.status ?? 0) > 0;
+  return answered && SERVER_ERROR_CODE.test(response.error.code ?? '') ? 'refused' : 'unreachable';
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getTimelineRange, isPostedInRange, TIMELINE_STEPS } from './timeline';
+import { makeEncounter, NOW } from '../test/fixtures';
+
+const HOUR_MS = 3600000;
+
+describe('getTimelineRange', () => {
+  const lastHour = TIMELINE_STEPS.hour - 1;
+  const lastDay = TIMELINE_STEPS.day - 1;
+
+  it('ends the hour slider at the current hour', () => {
+    const range = getTimelineRange('hour', { from: lastHour, to: lastHour }, NOW + 20 * 60000);
+    expect(range).toEqual({ start: NOW, end: NOW + HOUR_MS });
+  });
+
+  it('goes back one hour per step', () => {
+    const last = getTimelineRange('hour', { from: lastHour, to: lastHour }, NOW);
+    const first = getTimelineRange('hour', { from: 0, to: 0 }, NOW);
+    expect(first.start).toBe(last.start - lastHour * HOUR_MS);
+  });
+
+  it('covers every step from the first to the last chosen', () => {
+    const range = getTimelineRange('hour', { from: lastHour - 2, to: lastHour }, NOW);
+    expect(range).toEqual({ start: NOW - 2 * HOUR_MS, end: NOW + HOUR_MS });
+  });
+
+  it('ends the day slider today, from local midnight to midnight', () => {
+    const today = getTimelineRange('day', { from: lastDay, to: lastDay }, NOW);
+    expect(today.start).toBeLessThanOrEqual(NOW);
+    expect(today.end).toBeGreaterThan(NOW);
+    expect(new Date(today.start).getHours()).toBe(0);
+    expect(new Date(today.end).getHours()).toBe(0);
+    expect(getTimelineRange('day', { from: lastDay - 1, to: lastDay - 1 }, NOW).end).toBe(today.start);
+  });
+
+  it('spans whole days across a range of days', () => {
+    const week = getTimelineRange('day', { from: 0, to: lastDay }, NOW);
+    expect(week.start).toBe(getTimelineRange('day', { from: 0, to: 0 }, NOW).start);
+    expect(week.end).toBe(getTimelineRange('day', { from: lastDay, to: lastDay }, NOW).end);
+  });
+});
+
+describe('isPostedInRange', () => {
+  const range = { start: NOW, end: NOW + HOUR_MS };
+
+  it('includes the start and excludes the end', () => {
+    expect(isPostedInRange(makeEncounter({ timestamp: NOW }), range)).toBe(true);
+    expect(isPostedInRange(makeEncounter({ timestamp: NOW + HOUR_MS - 1 }), range)).toBe(true);
+    expect(isPostedInRange(makeEncounter({ timestamp: NOW + HOUR_MS }), range)).toBe(false);
+  });
+
+  it('goes by when the post was published, not when the encounter happened', () => {
+    expect(isPostedInRange(makeEncounter({ timestamp: NOW, happenedAt: NOW - 5 * HOUR_MS }), range)).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import { Encounter } from '../types';
+import { Locale } from '../i18n';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type TimelineUnit = 'hour' | 'day';
+
+// The map's time slider goes back a day hour by hour, or a week (the default post lifetime) day by day
+export const TIMELINE_STEPS: Record<TimelineUnit, number> = { hour: 24, day: 7 };
+
+export interface TimeRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+// Slider steps, both included: from the hour or day at `from` to the one at `to`
+export interface TimelineSteps {
+  from: number;
+  to: number;
+}
+
+// Start of the hour or day at a slider step, oldest first: the last step is the current hour, or today.
+// Both follow the local clock.
+const getStepStart = (unit: TimelineUnit, step: number, now: number): number => {
+  const stepsBack = TIMELINE_STEPS[unit] - 1 - step;
+  const date = new Date(now);
+  if (unit === 'hour') {
+    date.setMinutes(0, 0, 0);
+    return date.getTime() - stepsBack * HOUR_MS;
+  }
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - stepsBack); // Not 24h steps on daylight saving changes
+  return date.getTime();
+};
+
+// Time covered by the chosen steps, up to the end of the last one
+export const getTimelineRange = (unit: TimelineUnit, steps: TimelineSteps, now: number): TimeRange => ({
+  start: getStepStart(unit, steps.from, now),
+  end: getStepStart(unit, steps.to + 1, now)
+});
+
+export const isPostedInRange = (encounter: Encounter, range: TimeRange): boolean =>
+  encounter.timestamp >= range.start && encounter.timestamp < range.end;
+
+// Slider label: "14:00 – 17:00", "Mon 3" or "Mon 3 – Wed 5"
+export const formatTimelineRange = (unit: TimelineUnit, range: TimeRange, locale: Locale): string => {
+  if (unit === 'hour') {
+    const time = (timestamp: number) => new Date(timestamp).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+    return `${time(range.start)} – ${time(range.end)}`;
+  }
+  const day = (timestamp: number) => new Date(timestamp).toLocaleDateString(locale, { weekday: 'short', day: 'numeric' });
+  const first = day(range.start);
+  const last = day(range.end - 1);
+  return first === last ? first : `${first} – ${last}`;
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { EncounterStatus, Like, LikeState } from '../types';
+import { getExploreList, getVisibleEncounters, VisibilityInput } from './visibility';
+import { MAX_FUZZ_OFFSET_METERS } from './geo';
+import { createCandidateIndex, createProximityIndex } from './matching';
+import { EMPTY_LIKE_STATE } from './encounterStatus';
+import { makeEncounter, makeProfile, NOW, offsetMeters, ORIGIN } from '../test/fixtures';
+
+const me = makeProfile({ id: 'user-me' });
+const mine = makeEncounter({ userProfile: me });
+const someone = (id: string) => makeProfile({ id, name: id });
+
+const input = (overrides: Partial<VisibilityInput>): VisibilityInput => ({
+  viewer: me,
+  myActiveEncounters: [mine],
+  nearby: [],
+  likeState: EMPTY_LIKE_STATE,
+  hiddenIds: [],
+  blockedUserIds: [],
+  matchedLocations: new Map(),
+  proximity: new Map(),
+  showHidden: false,
+  now: NOW,
+  ...overrides
+});
+const visibleIds = (overrides: Partial<VisibilityInput>) => getVisibleEncounters(input(overrides)).map(e => e.id);
+
+describe('getVisibleEncounters', () => {
+  const near = makeEncounter({ userProfile: someone('near'), location: offsetMeters(ORIGIN, 80, -60) });
+  const far = makeEncounter({ userProfile: someone('far'), location: offsetMeters(ORIGIN, 0, 500) });
+
+  it('shows nothing until I have an active post', () => {
+    expect(visibleIds({ myActiveEncounters: [], nearby: [near] })).toEqual([]);
+  });
+
+  it('only shows posts within the radius of one of mine', () => {
+    expect(visibleIds({ nearby: [near, far] })).toEqual([near.id]);
+    const second = makeEncounter({ userProfile: me, location: offsetMeters(ORIGIN, 0, 450) });
+    expect(visibleIds({ myActiveEncounters: [mine, second], nearby: [near, far] })).toEqual([near.id, far.id]);
+  });
+
+  it('only shows posts whose time window overlaps', () => {
+    const earlier = makeEncounter({ userProfile: someone('earlier'), happenedAt: NOW - 5 * 3600000 });
+    expect(visibleIds({ nearby: [near, earlier] })).toEqual([near.id]);
+  });
+
+  it('drops archived posts', () => {
+    const archived = makeEncounter({ userProfile: someone('archived'), expiresAt: NOW });
+    expect(visibleIds({ nearby: [archived] })).toEqual([]);
+  });
+
+  it('uses the server pairs for coarsened posts, and the exact spot once matched', () => {
+    const coarse = makeEncounter({ userProfile: someone('coarse'), location: offsetMeters(ORIGIN, 380, 0), locationAccuracyMeters: MAX_FUZZ_OFFSET_METERS });
+    expect(visibleIds({ nearby: [coarse] })).toEqual([]);
+    expect(visibleIds({ nearby: [coarse], proximity: createProximityIndex([{ myEncounterId: mine.id, otherEncounterId: coarse.id }]) })).toEqual([coarse.id]);
+    expect(visibleIds({ nearby: [coarse], matchedLocations: new Map([[coarse.id, { location: offsetMeters(ORIGIN, 100, 0) }]]) })).toEqual([coarse.id]);
+  });
+
+  it('shows posts at the venue of one of mine however far', () => {
+    const line = { id: 'venue:line', name: 'Line 2', kind: 'transit_line' as const, location: ORIGIN };
+    const atMyVenue = makeEncounter({ userProfile: me, venue: line });
+    const onTheLine = makeEncounter({ userProfile: someone('line'), location: offsetMeters(ORIGIN, 0, 6000), venue: line });
+    expect(visibleIds({ nearby: [onTheLine] })).toEqual([]);
+    expect(visibleIds({ myActiveEncounters: [atMyVenue], nearby: [onTheLine] })).toEqual([onTheLine.id]);
+  });
+
+  it('never shows blocked users', () => {
+    expect(visibleIds({ nearby: [near], blockedUserIds: ['near'] })).toEqual([]);
+  });
+
+  it('hides posts that break the content rules', () => {
+    const spam = makeEncounter({ userProfile: someone('spam'), description: 'Escríbeme al 55 1234 5678 o a ana@mail.com' });
+    expect(visibleIds({ nearby: [near, spam] })).not.toContain(spam.id);
+  });
+
+  it('keeps hidden posts out unless asked for', () => {
+    expect(visibleIds({ nearby: [near], hiddenIds: [near.id] })).toEqual([]);
+    const [shown] = getVisibleEncounters(input({ nearby: [near], hiddenIds: [near.id], showHidden: true }));
+    expect(shown.status).toBe(EncounterStatus.HIDDEN);
+  });
+
+  it('only shows people who fit my preferences and whose preferences I fit', () => {
+    const viewer = { ...me, age: 30, gender: 'female' as const, discovery: { interestedIn: ['male' as const], minAge: 25, maxAge: 40, radiusMeters: 150 } };
+    const post = (profile: Partial<typeof me>) => makeEncounter({ userProfile: makeProfile({ id: `user-${profile.name}`, ...profile }) });
+    const fits = post({ name: 'fits', gender: 'male', age: 33 });
+    const tooYoung = post({ name: 'young', gender: 'male', age: 22 });
+    const otherGender = post({ name: 'gender', gender: 'female', age: 33 });
+    const notIntoMe = post({ name: 'picky', gender: 'male', age: 33, discovery: { interestedIn: ['male'], minAge: 18, maxAge: 99, radiusMeters: 150 } });
+    const unknown = post({ name: 'unknown' });
+    expect(visibleIds({ viewer, nearby: [fits, tooYoung, otherGender, notIntoMe, unknown] })).toEqual([fits.id]);
+  });
+
+  it('keeps matches visible when preferences change', () => {
+    const partner = makeEncounter({ userProfile: makeProfile({ id: 'user-partner', gender: 'male', age: 50 }) });
+    const viewer = { ...me, discovery: { interestedIn: ['female' as const], minAge: 18, maxAge: 30, radiusMeters: 150 } };
+    const likeState: LikeState = { likes: [], matches: [{ id: 'm', userIds: [me.id, partner.userId], timestamp: NOW }] };
+    expect(visibleIds({ viewer, nearby: [partner], likeState })).toEqual([partner.id]);
+  });
+
+  it('uses the smaller radius of both sides', () => {
+    const widened = { interestedIn: [], minAge: 18, maxAge: 99, radiusMeters: 300 };
+    const at200 = makeEncounter({ userProfile: someone('at200'), location: offsetMeters(ORIGIN, 200, 0) });
+    const wideThem = makeEncounter({ ...at200, userProfile: { ...at200.userProfile, discovery: widened } });
+    const wideMe = { ...me, discovery: widened };
+    expect(visibleIds({ viewer: wideMe, nearby: [at200] })).toEqual([]);
+    expect(visibleIds({ nearby: [wideThem] })).toEqual([]);
+    expect(visibleIds({ viewer: wideMe, nearby: [wideThem] })).toEqual([wideThem.id]);
+  });
+
+  it('carries the like status of each post', () => {
+    const like: Like = { likerId: me.id, encounterId: near.id, encounterOwnerId: near.userId, timestamp: NOW };
+    const [shown] = getVisibleEncounters(input({ nearby: [near], likeState: { likes: [like], matches: [] } }));
+    expect(shown.status).toBe(EncounterStatus.LIKED_BY_ME);
+  });
+});
+
+describe('getExploreList', () => {
+  const coffee = makeEncounter({ userProfile: someone('coffee'), tags: ['crush'] });
+  const metro = makeEncounter({ userProfile: someone('metro'), tags: ['eye_contact', 'interest'], location: offsetMeters(ORIGIN, 0, 400) });
+  const visibleEncounters = getVisibleEncounters(input({
+    myActiveEncounters: [mine, makeEncounter({ userProfile: me, location: metro.location })],
+    nearby: [coffee, metro]
+  }));
+  const options = {
+    viewer: me,
+    myEncounters: [mine],
+    visibleEncounters,
+    visibleIndex: createCandidateIndex(visibleEncounters),
+    proximity: new Map(),
+    filterTags: []
+  };
+  const ids = (list: { id: string }[]) => list.map(e => e.id);
+
+  it('drills down to the candidates of one of my posts', () => {
+    expect(ids(getExploreList('drilldown', { ...options, myEncounterId: mine.id }))).toEqual([coffee.id]);
+    expect(getExploreList('drilldown', { ...options, myEncounterId: 'unknown' })).toEqual([]);
+  });
+
+  it('lists everyone visible, filtered by any of the selected tags', () => {
+    expect(ids(getExploreList('list', options))).toEqual([coffee.id, metro.id]);
+    expect(ids(getExploreList('list', { ...options, filterTags: ['interest'] }))).toEqual([metro.id]);
+    expect(ids(getExploreList('list', { ...options, filterTags: ['crush', 'interest'] }))).toEqual([coffee.id, metro.id]);
+  });
+
+  it('has no cards in grouped mode', () => {
+    expect(getExploreList('grouped', options)).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { Encounter, EncounterPlace, EncounterStatus, EncounterTag, EncounterView, LikeState, UserProfile } from '../types';
+import { CandidateIndex, createCandidateIndex, findCandidates, ProximityIndex } from './matching';
+import { revealExactLocations } from './geo';
+import { toEncounterViews } from './encounterStatus';
+import { screenText } from './moderation';
+import { getActiveEncounters } from './encounterPolicy';
+import { isMutualFit } from './discovery';
+
+export interface VisibilityInput {
+  viewer: UserProfile; // Current profile, with the viewer's discovery preferences
+  myActiveEncounters: Encounter[];
+  nearby: Encounter[];
+  likeState: LikeState;
+  hiddenIds: string[];
+  blockedUserIds: string[];
+  matchedLocations: Map<string, EncounterPlace>; // Exact spots, routes and areas revealed after a match
+  proximity: ProximityIndex;
+  showHidden: boolean;
+  now: number;
+}
+
+// CRITICAL: Visibility Logic. Other people's posts that coincide with one of mine, with their status for me.
+// Both sides must fit each other's discovery preferences; matches stay visible whatever the preferences say now.
+export const getVisibleEncounters = (input: VisibilityInput): EncounterView[] => {
+  if (input.myActiveEncounters.length === 0) return [];
+
+  // The server already drops blocked accounts; demo sources are filtered here
+  const revealed = revealExactLocations(getActiveEncounters(input.nearby, input.now), input.matchedLocations);
+  const others = revealed.filter(e =>
+    !input.blockedUserIds.includes(e.userId) &&
+    screenText(`${e.title}\n${e.description}`, 'encounter').decision !== 'block'
+  );
+  const views = toEncounterViews(others, input.viewer.id, input.likeState, input.hiddenIds)
+    .filter(other => input.showHidden || other.status !== EncounterStatus.HIDDEN)
+    .filter(other => other.status === EncounterStatus.MATCHED || isMutualFit(input.viewer, other.userProfile));
+
+  // Must coincide with at least one of my posts in place (or venue) AND time
+  const index = createCandidateIndex(views);
+  const visibleIds = new Set(input.myActiveEncounters.flatMap(mine => findCandidates(mine, index, input.proximity, input.viewer).map(e => e.id)));
+  return views.filter(e => visibleIds.has(e.id));
+};
+
+export type ExploreMode = 'grouped' | 'drilldown' | 'list';
+
+// Cards of the explore tab: one post's candidates (drilldown) or everyone visible filtered by tags (list).
+// Grouped mode lists my own posts instead, so it has no cards here.
+export const getExploreList = (
+  mode: ExploreMode,
+  options: {
+    myEncounterId?: string;
+    viewer: UserProfile;
+    myEncounters: Encounter[];
+    visibleEncounters: EncounterView[];
+    visibleIndex: CandidateIndex<EncounterView>;
+    proximity: ProximityIndex;
+    filterTags: EncounterTag[];
+  }
+): EncounterView[] => {
+  if (mode === 'drilldown') {
+    const myPost = options.myEncounters.find(e => e.id === options.myEncounterId);
+    return myPost ? findCandidates(myPost, options.visibleIndex, options.proximity, options.viewer) : [];
+  }
+  if (mode === 'list') {
+    const { filterTags } = options;
+    return filterTags.length > 0
+      ? options.visibleEncounters.filter(e => e.tags.some(tag => filterTags.includes(tag)))
+      : options.visibleEncounters;
+  }
+  return [];
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -10,14 +11,29 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // public/sw.js precaches the files listed here
+      build: { manifest: 'asset-manifest.json' },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
+        'process.env.ENCOUNTER_SOURCES': JSON.stringify(env.ENCOUNTER_SOURCES),
+        'process.env.FIXTURE_SEED': JSON.stringify(env.FIXTURE_SEED),
+        'process.env.GEOCODER': JSON.stringify(env.GEOCODER),
+        'process.env.MODERATION_CLASSIFIER': JSON.stringify(env.MODERATION_CLASSIFIER),
+        'process.env.VAPID_PUBLIC_KEY': JSON.stringify(env.VAPID_PUBLIC_KEY)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      // Gemini and Supabase are replaced by stand-ins in test/setup.ts, places come from the fixture geocoder
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
+        env: { ENCOUNTER_SOURCES: 'backend', GEOCODER: 'fixtures' }
       }
     };
 });